@@ -10,6 +10,10 @@ import Login from "./pages/Login";
 import Admin from "./pages/Admin";
 import Invoice from "./pages/Invoice";
 import Transactions from "./pages/Transactions";
+import Customers from "./pages/Customers";
+import CustomerDetail from "./pages/CustomerDetail";
+import Receivables from "./pages/Receivables";
+import CustomerDisplay from "./pages/CustomerDisplay";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -27,7 +31,11 @@ const App = () => (
             <Route path="/inventory" element={<Inventory />} />
             <Route path="/admin" element={<Admin />} />
             <Route path="/transactions" element={<Transactions />} />
+            <Route path="/customers" element={<Customers />} />
+            <Route path="/customers/:id" element={<CustomerDetail />} />
+            <Route path="/receivables" element={<Receivables />} />
             <Route path="/invoice/:id" element={<Invoice />} />
+            <Route path="/customer-display" element={<CustomerDisplay />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -0,0 +1,137 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { ShieldCheck, Loader2, RefreshCw } from 'lucide-react';
+
+type DiscountApproval = Tables<'discount_approvals'>;
+type DiscountViolation = Pick<Tables<'transactions'>, 'id' | 'created_at' | 'cashier' | 'discount_reason' | 'discount_violation'>;
+
+const LOG_LIMIT = 50;
+
+// Why a sale recorded on the server broke the discount rules (see check_discount_limit)
+const violationLabels: Record<string, string> = {
+  reason_missing: 'Tanpa alasan diskon',
+  not_approved: 'Melebihi batas tanpa persetujuan',
+  approval_missing: 'Persetujuan tidak ditemukan',
+  approval_used: 'Persetujuan sudah dipakai transaksi lain',
+  over_approval: 'Melebihi persentase yang disetujui',
+};
+
+const formatRupiah = (num: number) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(num);
+};
+
+export function DiscountApprovalLog() {
+  const [approvals, setApprovals] = useState<DiscountApproval[]>([]);
+  const [violations, setViolations] = useState<DiscountViolation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchApprovals();
+  }, []);
+
+  const fetchApprovals = async () => {
+    setIsLoading(true);
+    const [approvalsResult, violationsResult] = await Promise.all([
+      supabase
+        .from('discount_approvals')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(LOG_LIMIT),
+      supabase
+        .from('transactions')
+        .select('id, created_at, cashier, discount_reason, discount_violation')
+        .not('discount_violation', 'is', null)
+        .order('created_at', { ascending: false })
+        .limit(LOG_LIMIT),
+    ]);
+
+    if (approvalsResult.error || violationsResult.error) {
+      console.error('Error fetching discount approvals:', approvalsResult.error || violationsResult.error);
+      toast.error('Gagal memuat riwayat persetujuan diskon');
+    } else {
+      setApprovals(approvalsResult.data || []);
+      setViolations(violationsResult.data || []);
+    }
+    setIsLoading(false);
+  };
+
+  return (
+    <section className="pos-card p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5" />
+          Persetujuan Diskon
+        </h2>
+        <Button variant="ghost" size="icon" onClick={fetchApprovals} disabled={isLoading}>
+          <RefreshCw className="w-4 h-4" />
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Diskon di atas batas yang disetujui dengan PIN admin, dan penjualan yang tercatat dengan diskon di
+        luar aturan, masing-masing {LOG_LIMIT} terakhir.
+      </p>
+
+      {!isLoading && violations.length > 0 && (
+        <div className="mb-4">
+          <p className="text-sm font-medium text-destructive mb-2">
+            Diskon di luar aturan ({violations.length})
+          </p>
+          <div className="max-h-60 overflow-y-auto space-y-2">
+            {violations.map((sale) => (
+              <div key={sale.id} className="p-3 rounded-lg bg-destructive/10 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-medium">
+                    {violationLabels[sale.discount_violation || ''] || sale.discount_violation}
+                  </p>
+                  <span className="font-mono text-xs text-muted-foreground">{sale.id}</span>
+                </div>
+                {sale.discount_reason && (
+                  <p className="text-xs italic text-muted-foreground mt-1">"{sale.discount_reason}"</p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Kasir {sale.cashier || '-'},{' '}
+                  {new Date(sale.created_at).toLocaleString('id-ID', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : approvals.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">Belum ada persetujuan diskon</p>
+      ) : (
+        <div className="max-h-80 overflow-y-auto space-y-2">
+          {approvals.map((approval) => (
+            <div key={approval.id} className="p-3 rounded-lg bg-secondary/30 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <p className="font-medium">
+                  {formatRupiah(approval.amount)} <span className="text-muted-foreground">(maks. {approval.max_percent}%)</span>
+                </p>
+                <span className="font-mono text-xs text-muted-foreground">
+                  {approval.transaction_id || 'Tidak jadi dipakai'}
+                </span>
+              </div>
+              <p className="text-xs italic text-muted-foreground mt-1">"{approval.reason}"</p>
+              <p className="text-xs text-muted-foreground">
+                Disetujui {approval.approved_by_email || '-'} untuk {approval.requested_by_email || '-'},{' '}
+                {new Date(approval.created_at).toLocaleString('id-ID', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
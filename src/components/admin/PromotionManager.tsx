@@ -0,0 +1,470 @@
+import { useState, useEffect, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useGoogleSheets } from '@/hooks/useGoogleSheets';
+import { mapPromotionRow, broadcastPromotionsUpdated } from '@/hooks/usePromotions';
+import { isPromotionActive } from '@/utils/promotions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Tag, Plus, Trash2, Loader2, Search } from 'lucide-react';
+import { Product, Promotion, PromotionType } from '@/types/pos';
+
+const formatRupiah = (num: number) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(num);
+};
+
+const promotionTypeLabels: Record<PromotionType, string> = {
+  'buy_x_get_y': 'Beli X Gratis Y',
+  'bundle': 'Paket Harga',
+  'category_percent': 'Diskon % Kategori',
+};
+
+const emptyForm = {
+  name: '',
+  type: 'buy_x_get_y' as PromotionType,
+  productIds: [] as string[],
+  category: '',
+  buyQty: '2',
+  freeQty: '1',
+  bundlePrice: '',
+  percent: '',
+  startsAt: '',
+  endsAt: '',
+  startTime: '',
+  endTime: '',
+};
+
+const formatSchedule = (promotion: Promotion) => {
+  const parts: string[] = [];
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleString('id-ID', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+  if (promotion.startsAt || promotion.endsAt) {
+    parts.push(`${promotion.startsAt ? formatDate(promotion.startsAt) : '...'} - ${promotion.endsAt ? formatDate(promotion.endsAt) : '...'}`);
+  }
+  if (promotion.startTime && promotion.endTime) {
+    parts.push(`jam ${promotion.startTime}-${promotion.endTime}`);
+  }
+  return parts.length > 0 ? parts.join(', ') : 'Tanpa batas waktu';
+};
+
+export function PromotionManager() {
+  const { fetchProducts, getCachedProducts } = useGoogleSheets();
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [productSearch, setProductSearch] = useState('');
+
+  useEffect(() => {
+    fetchPromotions();
+    const cached = getCachedProducts();
+    if (cached) {
+      setProducts(cached);
+    } else {
+      fetchProducts().then(setProducts).catch(() => setProducts([]));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const fetchPromotions = async () => {
+    setIsLoading(true);
+    const { data, error } = await supabase
+      .from('promotions')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching promotions:', error);
+      toast.error('Gagal memuat promo');
+    } else {
+      setPromotions((data || []).map(mapPromotionRow));
+    }
+    setIsLoading(false);
+  };
+
+  const productNames = useMemo(
+    () => new Map(products.map((p) => [p.id, p.name] as const)),
+    [products]
+  );
+
+  const categories = useMemo(
+    () => Array.from(new Set(products.map((p) => p.category))).sort(),
+    [products]
+  );
+
+  const filteredProducts = useMemo(() => {
+    const query = productSearch.trim().toLowerCase();
+    if (!query) return products;
+    return products.filter((p) => p.name.toLowerCase().includes(query) || p.id.toLowerCase().includes(query));
+  }, [products, productSearch]);
+
+  const describePromotion = (promotion: Promotion) => {
+    const names = promotion.productIds.map((id) => productNames.get(id) || id).join(', ');
+    if (promotion.type === 'buy_x_get_y') {
+      return `Beli ${promotion.buyQty} gratis ${promotion.freeQty}: ${names}`;
+    }
+    if (promotion.type === 'bundle') {
+      return `${names} = ${formatRupiah(promotion.bundlePrice || 0)}`;
+    }
+    return `${promotion.percent}% untuk kategori ${promotion.category}`;
+  };
+
+  const toggleProduct = (productId: string) => {
+    setForm((prev) => ({
+      ...prev,
+      productIds: prev.productIds.includes(productId)
+        ? prev.productIds.filter((id) => id !== productId)
+        : [...prev.productIds, productId],
+    }));
+  };
+
+  const handleCreate = async () => {
+    const name = form.name.trim();
+    if (!name) {
+      toast.error('Nama promo harus diisi');
+      return;
+    }
+
+    const buyQty = parseInt(form.buyQty) || 0;
+    const freeQty = parseInt(form.freeQty) || 0;
+    const bundlePrice = parseInt(form.bundlePrice.replace(/\D/g, '')) || 0;
+    const percent = parseFloat(form.percent) || 0;
+
+    if (form.type === 'buy_x_get_y' && (buyQty < 1 || freeQty < 1 || form.productIds.length === 0)) {
+      toast.error('Isi jumlah beli, jumlah gratis dan pilih minimal 1 produk');
+      return;
+    }
+    if (form.type === 'bundle' && (form.productIds.length < 2 || bundlePrice <= 0)) {
+      toast.error('Paket butuh minimal 2 produk dan harga paket');
+      return;
+    }
+    if (form.type === 'category_percent' && (!form.category || percent <= 0 || percent > 100)) {
+      toast.error('Pilih kategori dan isi persentase 1-100');
+      return;
+    }
+    if (form.startsAt && form.endsAt && new Date(form.startsAt) >= new Date(form.endsAt)) {
+      toast.error('Tanggal selesai harus setelah tanggal mulai');
+      return;
+    }
+    if ((form.startTime && !form.endTime) || (!form.startTime && form.endTime)) {
+      toast.error('Isi jam mulai dan jam selesai');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase.from('promotions').insert({
+        name,
+        promo_type: form.type,
+        product_ids: form.type === 'category_percent' ? [] : form.productIds,
+        category: form.type === 'category_percent' ? form.category : null,
+        buy_qty: form.type === 'buy_x_get_y' ? buyQty : null,
+        free_qty: form.type === 'buy_x_get_y' ? freeQty : null,
+        bundle_price: form.type === 'bundle' ? bundlePrice : null,
+        percent: form.type === 'category_percent' ? percent : null,
+        starts_at: form.startsAt ? new Date(form.startsAt).toISOString() : null,
+        ends_at: form.endsAt ? new Date(form.endsAt).toISOString() : null,
+        start_time: form.startTime || null,
+        end_time: form.endTime || null,
+        created_by: user?.id ?? null,
+      });
+
+      if (error) throw error;
+
+      toast.success('Promo berhasil ditambahkan');
+      setForm(emptyForm);
+      setProductSearch('');
+      broadcastPromotionsUpdated();
+      fetchPromotions();
+    } catch (error) {
+      console.error('Error creating promotion:', error);
+      toast.error('Gagal menambahkan promo');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (promotion: Promotion, isActive: boolean) => {
+    const { error } = await supabase
+      .from('promotions')
+      .update({ is_active: isActive })
+      .eq('id', promotion.id);
+
+    if (error) {
+      console.error('Error updating promotion:', error);
+      toast.error('Gagal mengubah status promo');
+      return;
+    }
+
+    setPromotions((prev) => prev.map((p) => (p.id === promotion.id ? { ...p, isActive } : p)));
+    broadcastPromotionsUpdated();
+  };
+
+  const handleDelete = async (promotion: Promotion) => {
+    if (!confirm(`Hapus promo "${promotion.name}"?`)) return;
+
+    const { error } = await supabase.from('promotions').delete().eq('id', promotion.id);
+
+    if (error) {
+      console.error('Error deleting promotion:', error);
+      toast.error('Gagal menghapus promo');
+      return;
+    }
+
+    toast.success('Promo dihapus');
+    setPromotions((prev) => prev.filter((p) => p.id !== promotion.id));
+    broadcastPromotionsUpdated();
+  };
+
+  const now = new Date();
+
+  return (
+    <section className="pos-card p-6">
+      <h2 className="text-lg font-semibold mb-2 flex items-center gap-2">
+        <Tag className="w-5 h-5" />
+        Promo Otomatis
+      </h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        Promo diterapkan otomatis ke keranjang saat syaratnya terpenuhi. Satu barang hanya mendapat satu promo.
+      </p>
+
+      {/* Existing promotions */}
+      <div className="space-y-2 mb-6">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : promotions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Belum ada promo</p>
+        ) : (
+          promotions.map((promotion) => {
+            const runningNow = isPromotionActive(promotion, now);
+            return (
+              <div key={promotion.id} className="flex items-start justify-between gap-3 p-3 rounded-lg bg-secondary/30">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <p className="font-medium text-sm">{promotion.name}</p>
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-secondary text-muted-foreground">
+                      {promotionTypeLabels[promotion.type]}
+                    </span>
+                    {runningNow && (
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-green-500/20 text-green-600">Berjalan</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1 break-words">{describePromotion(promotion)}</p>
+                  <p className="text-xs text-muted-foreground">{formatSchedule(promotion)}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={promotion.isActive}
+                    onCheckedChange={(checked) => handleToggleActive(promotion, checked)}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
+                    onClick={() => handleDelete(promotion)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {/* New promotion */}
+      <div className="border-t border-border pt-4 space-y-4">
+        <p className="text-sm font-medium">Tambah Promo</p>
+
+        <div className="grid sm:grid-cols-2 gap-3">
+          <div>
+            <label className="text-sm text-muted-foreground mb-1 block">Nama Promo</label>
+            <Input
+              placeholder="Beli 2 Gratis 1 Semen"
+              value={form.name}
+              onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+              maxLength={60}
+            />
+          </div>
+          <div>
+            <label className="text-sm text-muted-foreground mb-1 block">Jenis</label>
+            <Select
+              value={form.type}
+              onValueChange={(value) => setForm((prev) => ({ ...prev, type: value as PromotionType }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(promotionTypeLabels) as PromotionType[]).map((type) => (
+                  <SelectItem key={type} value={type}>{promotionTypeLabels[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {form.type === 'buy_x_get_y' && (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-sm text-muted-foreground mb-1 block">Beli (pcs)</label>
+              <Input
+                type="number"
+                min={1}
+                value={form.buyQty}
+                onChange={(e) => setForm((prev) => ({ ...prev, buyQty: e.target.value }))}
+              />
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground mb-1 block">Gratis (pcs)</label>
+              <Input
+                type="number"
+                min={1}
+                value={form.freeQty}
+                onChange={(e) => setForm((prev) => ({ ...prev, freeQty: e.target.value }))}
+              />
+            </div>
+          </div>
+        )}
+
+        {form.type === 'bundle' && (
+          <div>
+            <label className="text-sm text-muted-foreground mb-1 block">Harga Paket (1 pcs tiap produk)</label>
+            <Input
+              type="text"
+              inputMode="numeric"
+              placeholder="50000"
+              value={form.bundlePrice}
+              onChange={(e) => setForm((prev) => ({ ...prev, bundlePrice: e.target.value.replace(/\D/g, '') }))}
+            />
+          </div>
+        )}
+
+        {form.type === 'category_percent' ? (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-sm text-muted-foreground mb-1 block">Kategori</label>
+              <Select
+                value={form.category}
+                onValueChange={(value) => setForm((prev) => ({ ...prev, category: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Pilih kategori" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((category) => (
+                    <SelectItem key={category} value={category}>{category}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground mb-1 block">Diskon (%)</label>
+              <Input
+                type="number"
+                min={1}
+                max={100}
+                value={form.percent}
+                onChange={(e) => setForm((prev) => ({ ...prev, percent: e.target.value }))}
+              />
+            </div>
+          </div>
+        ) : (
+          <div>
+            <label className="text-sm text-muted-foreground mb-1 block">
+              Produk ({form.productIds.length} dipilih)
+            </label>
+            <div className="relative mb-2">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Cari produk..."
+                value={productSearch}
+                onChange={(e) => setProductSearch(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+            <ScrollArea className="h-48 rounded-lg border border-border">
+              <div className="p-2 space-y-1">
+                {filteredProducts.map((product) => (
+                  <label
+                    key={product.id}
+                    className="flex items-center gap-2 p-1.5 rounded hover:bg-secondary/50 cursor-pointer text-sm"
+                  >
+                    <Checkbox
+                      checked={form.productIds.includes(product.id)}
+                      onCheckedChange={() => toggleProduct(product.id)}
+                    />
+                    <span className="flex-1 truncate">{product.name}</span>
+                    <span className="text-xs text-muted-foreground font-mono">{formatRupiah(product.retailPrice)}</span>
+                  </label>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        )}
+
+        <div className="grid sm:grid-cols-2 gap-3">
+          <div>
+            <label className="text-sm text-muted-foreground mb-1 block">Mulai (opsional)</label>
+            <Input
+              type="datetime-local"
+              value={form.startsAt}
+              onChange={(e) => setForm((prev) => ({ ...prev, startsAt: e.target.value }))}
+            />
+          </div>
+          <div>
+            <label className="text-sm text-muted-foreground mb-1 block">Selesai (opsional)</label>
+            <Input
+              type="datetime-local"
+              value={form.endsAt}
+              onChange={(e) => setForm((prev) => ({ ...prev, endsAt: e.target.value }))}
+            />
+          </div>
+          <div>
+            <label className="text-sm text-muted-foreground mb-1 block">Jam mulai harian (opsional)</label>
+            <Input
+              type="time"
+              value={form.startTime}
+              onChange={(e) => setForm((prev) => ({ ...prev, startTime: e.target.value }))}
+            />
+          </div>
+          <div>
+            <label className="text-sm text-muted-foreground mb-1 block">Jam selesai harian (opsional)</label>
+            <Input
+              type="time"
+              value={form.endTime}
+              onChange={(e) => setForm((prev) => ({ ...prev, endTime: e.target.value }))}
+            />
+          </div>
+        </div>
+
+        <Button onClick={handleCreate} disabled={isSaving} className="w-full">
+          {isSaving ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Plus className="w-4 h-4 mr-2" />
+          )}
+          Tambah Promo
+        </Button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { fetchShiftReport } from '@/hooks/useShift';
+import { useBluetoothPrinter } from '@/hooks/useBluetoothPrinter';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { Clock, Loader2, RefreshCw, Printer } from 'lucide-react';
+
+type Shift = Tables<'shifts'>;
+
+const LOG_LIMIT = 50;
+
+const formatRupiah = (num: number) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(num);
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('id-ID', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export function ShiftLog() {
+  const { isConnected, printShiftReport } = useBluetoothPrinter();
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [printingId, setPrintingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchShifts();
+  }, []);
+
+  const fetchShifts = async () => {
+    setIsLoading(true);
+    const { data, error } = await supabase
+      .from('shifts')
+      .select('*')
+      .order('opened_at', { ascending: false })
+      .limit(LOG_LIMIT);
+
+    if (error) {
+      console.error('Error fetching shifts:', error);
+      toast.error('Gagal memuat riwayat shift');
+    } else {
+      setShifts(data || []);
+    }
+    setIsLoading(false);
+  };
+
+  const handlePrint = async (shift: Shift) => {
+    if (!isConnected) {
+      toast.error('Hubungkan printer Bluetooth terlebih dahulu');
+      return;
+    }
+    setPrintingId(shift.id);
+    try {
+      const report = await fetchShiftReport(shift.id);
+      const { data } = await supabase.from('app_settings').select('key, value').in('key', ['store_address', 'store_phone']);
+      const settings = Object.fromEntries((data || []).map((s) => [s.key, s.value || '']));
+      await printShiftReport(report, {
+        address: settings['store_address'] || 'Jl. Raya No. 88, Jakarta',
+        phone: settings['store_phone'] || '(021) 1234-5678',
+      });
+    } catch (error) {
+      console.error('Error printing shift report:', error);
+      toast.error('Gagal mencetak laporan shift');
+    } finally {
+      setPrintingId(null);
+    }
+  };
+
+  return (
+    <section className="pos-card p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <Clock className="w-5 h-5" />
+          Riwayat Shift
+        </h2>
+        <Button variant="ghost" size="icon" onClick={fetchShifts} disabled={isLoading}>
+          <RefreshCw className="w-4 h-4" />
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Modal awal, hitungan uang dan selisih kas per shift, {LOG_LIMIT} terakhir.
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : shifts.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">Belum ada shift</p>
+      ) : (
+        <div className="max-h-80 overflow-y-auto space-y-2">
+          {shifts.map((shift) => {
+            const variance = Number(shift.variance) || 0;
+            return (
+              <div key={shift.id} className="p-3 rounded-lg bg-secondary/30 text-sm flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-medium">{shift.cashier || '-'}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatDateTime(shift.opened_at)} - {shift.closed_at ? formatDateTime(shift.closed_at) : 'masih berjalan'}
+                  </p>
+                  {shift.closed_at && (
+                    <p className="text-xs text-muted-foreground">
+                      Seharusnya {formatRupiah(Number(shift.expected_cash) || 0)}, dihitung {formatRupiah(Number(shift.counted_cash) || 0)}
+                    </p>
+                  )}
+                  {shift.notes && <p className="text-xs italic text-muted-foreground">"{shift.notes}"</p>}
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {shift.closed_at && (
+                    <span className={`font-mono text-xs font-semibold ${variance === 0 ? 'text-success' : 'text-destructive'}`}>
+                      {variance === 0 ? 'Pas' : `${variance < 0 ? '-' : '+'}${formatRupiah(Math.abs(variance))}`}
+                    </span>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => handlePrint(shift)}
+                    disabled={printingId !== null}
+                    title="Cetak laporan shift"
+                  >
+                    {printingId === shift.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Printer className="w-4 h-4" />}
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+}
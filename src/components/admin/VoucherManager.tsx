@@ -0,0 +1,437 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Ticket, Plus, Trash2, Loader2, Shuffle, Copy } from 'lucide-react';
+
+type Voucher = Tables<'vouchers'>;
+type DiscountType = 'fixed' | 'percent';
+
+const formatRupiah = (num: number) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(num);
+};
+
+// Codes must match the vouchers.code check constraint: A-Z, 0-9 and dashes, 3-32 chars
+const CODE_PATTERN = /^[A-Z0-9-]{3,32}$/;
+// No 0/O or 1/I so paper vouchers are easy to type
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const RANDOM_CODE_LENGTH = 6;
+const MAX_BATCH = 200;
+
+const randomCode = (prefix: string) => {
+  let random = '';
+  for (let i = 0; i < RANDOM_CODE_LENGTH; i++) {
+    random += CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)];
+  }
+  return prefix ? `${prefix}-${random}` : random;
+};
+
+const emptyForm = {
+  code: '',
+  quantity: '1',
+  discountType: 'fixed' as DiscountType,
+  amount: '',
+  maxDiscount: '',
+  minSpend: '',
+  expiresAt: '',
+  usageLimit: '',
+  singleUse: false,
+  note: '',
+};
+
+const describeVoucher = (voucher: Voucher) => {
+  const value = voucher.discount_type === 'percent'
+    ? `${voucher.amount}%${voucher.max_discount ? ` (maks. ${formatRupiah(voucher.max_discount)})` : ''}`
+    : formatRupiah(voucher.amount);
+  const minSpend = voucher.min_spend > 0 ? `, min. belanja ${formatRupiah(voucher.min_spend)}` : '';
+  return `${value}${minSpend}`;
+};
+
+const describeUsage = (voucher: Voucher) => {
+  const limit = voucher.single_use ? 1 : voucher.usage_limit;
+  const expiry = voucher.expires_at
+    ? `berlaku s/d ${new Date(voucher.expires_at).toLocaleString('id-ID', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })}`
+    : 'tanpa kedaluwarsa';
+  return `Dipakai ${voucher.times_used}${limit ? `/${limit}` : ''}, ${expiry}`;
+};
+
+export function VoucherManager() {
+  const [vouchers, setVouchers] = useState<Voucher[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [lastBatch, setLastBatch] = useState<string[]>([]);
+
+  useEffect(() => {
+    fetchVouchers();
+  }, []);
+
+  const fetchVouchers = async () => {
+    setIsLoading(true);
+    const { data, error } = await supabase
+      .from('vouchers')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching vouchers:', error);
+      toast.error('Gagal memuat voucher');
+    } else {
+      setVouchers(data || []);
+    }
+    setIsLoading(false);
+  };
+
+  const quantity = Math.max(1, parseInt(form.quantity) || 1);
+  const isBatch = quantity > 1;
+
+  const handleCreate = async () => {
+    const code = form.code.trim().toUpperCase();
+    const amount = parseFloat(form.amount) || 0;
+    const maxDiscount = parseInt(form.maxDiscount.replace(/\D/g, '')) || 0;
+    const minSpend = parseInt(form.minSpend.replace(/\D/g, '')) || 0;
+    const usageLimit = parseInt(form.usageLimit) || 0;
+
+    // In batch mode the code field is the prefix of the generated codes
+    if (isBatch ? code && !/^[A-Z0-9]{1,20}$/.test(code) : !CODE_PATTERN.test(code)) {
+      toast.error(isBatch
+        ? 'Awalan kode hanya boleh huruf dan angka (maks. 20)'
+        : 'Kode 3-32 karakter, hanya huruf, angka dan tanda -');
+      return;
+    }
+    if (quantity > MAX_BATCH) {
+      toast.error(`Maksimal ${MAX_BATCH} voucher sekali buat`);
+      return;
+    }
+    if (amount <= 0 || (form.discountType === 'percent' && amount > 100)) {
+      toast.error(form.discountType === 'percent' ? 'Isi persentase 1-100' : 'Isi nilai potongan');
+      return;
+    }
+    if (form.expiresAt && new Date(form.expiresAt) <= new Date()) {
+      toast.error('Tanggal kedaluwarsa harus di masa depan');
+      return;
+    }
+
+    const codes = isBatch
+      ? Array.from(new Set(Array.from({ length: quantity * 2 }, () => randomCode(code)))).slice(0, quantity)
+      : [code];
+
+    setIsSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const rows = codes.map((voucherCode) => ({
+        code: voucherCode,
+        discount_type: form.discountType,
+        amount,
+        max_discount: form.discountType === 'percent' && maxDiscount > 0 ? maxDiscount : null,
+        min_spend: minSpend,
+        expires_at: form.expiresAt ? new Date(form.expiresAt).toISOString() : null,
+        usage_limit: !form.singleUse && usageLimit > 0 ? usageLimit : null,
+        single_use: form.singleUse,
+        note: form.note.trim() || null,
+        created_by: user?.id ?? null,
+      }));
+
+      const { error } = await supabase.from('vouchers').insert(rows);
+
+      if (error) {
+        // Postgres unique_violation
+        if (error.code === '23505') {
+          toast.error(isBatch ? 'Ada kode yang sudah dipakai, coba lagi' : `Kode ${code} sudah ada`);
+          return;
+        }
+        throw error;
+      }
+
+      toast.success(isBatch ? `${codes.length} voucher berhasil dibuat` : 'Voucher berhasil ditambahkan');
+      setLastBatch(isBatch ? codes : []);
+      setForm(emptyForm);
+      fetchVouchers();
+    } catch (error) {
+      console.error('Error creating voucher:', error);
+      toast.error('Gagal menambahkan voucher');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (voucher: Voucher, isActive: boolean) => {
+    const { error } = await supabase
+      .from('vouchers')
+      .update({ is_active: isActive })
+      .eq('id', voucher.id);
+
+    if (error) {
+      console.error('Error updating voucher:', error);
+      toast.error('Gagal mengubah status voucher');
+      return;
+    }
+
+    setVouchers((prev) => prev.map((v) => (v.id === voucher.id ? { ...v, is_active: isActive } : v)));
+  };
+
+  const handleDelete = async (voucher: Voucher) => {
+    const warning = voucher.times_used > 0 ? ' Riwayat pemakaiannya juga akan terhapus.' : '';
+    if (!confirm(`Hapus voucher "${voucher.code}"?${warning}`)) return;
+
+    const { error } = await supabase.from('vouchers').delete().eq('id', voucher.id);
+
+    if (error) {
+      console.error('Error deleting voucher:', error);
+      toast.error('Gagal menghapus voucher');
+      return;
+    }
+
+    toast.success('Voucher dihapus');
+    setVouchers((prev) => prev.filter((v) => v.id !== voucher.id));
+  };
+
+  const handleCopyBatch = async () => {
+    try {
+      await navigator.clipboard.writeText(lastBatch.join('\n'));
+      toast.success('Kode voucher disalin');
+    } catch {
+      toast.error('Gagal menyalin kode');
+    }
+  };
+
+  return (
+    <section className="pos-card p-6">
+      <h2 className="text-lg font-semibold mb-2 flex items-center gap-2">
+        <Ticket className="w-5 h-5" />
+        Voucher
+      </h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        Kasir mengetik atau memindai kode voucher saat pembayaran. Pemakaian dicatat per transaksi
+        sehingga kode tidak bisa dipakai melebihi batasnya.
+      </p>
+
+      {/* Existing vouchers */}
+      <div className="space-y-2 mb-6">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : vouchers.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Belum ada voucher</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto space-y-2">
+            {vouchers.map((voucher) => {
+              const limit = voucher.single_use ? 1 : voucher.usage_limit;
+              const usedUp = !!limit && voucher.times_used >= limit;
+              const expired = !!voucher.expires_at && new Date(voucher.expires_at) < new Date();
+              return (
+                <div key={voucher.id} className="flex items-start justify-between gap-3 p-3 rounded-lg bg-secondary/30">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <p className="font-mono font-medium text-sm">{voucher.code}</p>
+                      {voucher.single_use && (
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-secondary text-muted-foreground">Sekali pakai</span>
+                      )}
+                      {usedUp && (
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-destructive/20 text-destructive">Habis</span>
+                      )}
+                      {expired && (
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-destructive/20 text-destructive">Kedaluwarsa</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">{describeVoucher(voucher)}</p>
+                    <p className="text-xs text-muted-foreground">{describeUsage(voucher)}</p>
+                    {voucher.note && <p className="text-xs text-muted-foreground italic">{voucher.note}</p>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={voucher.is_active}
+                      onCheckedChange={(checked) => handleToggleActive(voucher, checked)}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
+                      onClick={() => handleDelete(voucher)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Codes from the last batch, ready to print */}
+      {lastBatch.length > 0 && (
+        <div className="mb-6 p-3 rounded-lg border border-border space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium">{lastBatch.length} kode baru</p>
+            <Button variant="outline" size="sm" onClick={handleCopyBatch}>
+              <Copy className="w-4 h-4 mr-1" />
+              Salin
+            </Button>
+          </div>
+          <p className="text-xs font-mono text-muted-foreground break-words">{lastBatch.join(', ')}</p>
+        </div>
+      )}
+
+      {/* New voucher */}
+      <div className="border-t border-border pt-4 space-y-4">
+        <p className="text-sm font-medium">Tambah Voucher</p>
+
+        <div className="grid sm:grid-cols-2 gap-3">
+          <div>
+            <label className="text-sm text-muted-foreground mb-1 block">
+              {isBatch ? 'Awalan Kode (opsional)' : 'Kode'}
+            </label>
+            <div className="flex gap-2">
+              <Input
+                placeholder={isBatch ? 'EVENT' : 'HEMAT10K'}
+                value={form.code}
+                onChange={(e) => setForm((prev) => ({ ...prev, code: e.target.value.toUpperCase() }))}
+                maxLength={32}
+                className="font-mono uppercase"
+              />
+              {!isBatch && (
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setForm((prev) => ({ ...prev, code: randomCode('') }))}
+                  title="Buat kode acak"
+                >
+                  <Shuffle className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+          <div>
+            <label className="text-sm text-muted-foreground mb-1 block">Jumlah Voucher</label>
+            <Input
+              type="number"
+              min={1}
+              max={MAX_BATCH}
+              value={form.quantity}
+              onChange={(e) => setForm((prev) => ({
+                ...prev,
+                quantity: e.target.value,
+                // Paper vouchers are handed out one per person
+                singleUse: (parseInt(e.target.value) || 1) > 1 ? true : prev.singleUse,
+              }))}
+            />
+          </div>
+          <div>
+            <label className="text-sm text-muted-foreground mb-1 block">Jenis Potongan</label>
+            <Select
+              value={form.discountType}
+              onValueChange={(value) => setForm((prev) => ({ ...prev, discountType: value as DiscountType }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="fixed">Nominal (Rp)</SelectItem>
+                <SelectItem value="percent">Persen (%)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="text-sm text-muted-foreground mb-1 block">
+              {form.discountType === 'percent' ? 'Potongan (%)' : 'Potongan (Rp)'}
+            </label>
+            <Input
+              type="number"
+              min={1}
+              max={form.discountType === 'percent' ? 100 : undefined}
+              placeholder={form.discountType === 'percent' ? '10' : '10000'}
+              value={form.amount}
+              onChange={(e) => setForm((prev) => ({ ...prev, amount: e.target.value }))}
+            />
+          </div>
+          {form.discountType === 'percent' && (
+            <div>
+              <label className="text-sm text-muted-foreground mb-1 block">Maks. Potongan (opsional)</label>
+              <Input
+                type="text"
+                inputMode="numeric"
+                placeholder="25000"
+                value={form.maxDiscount}
+                onChange={(e) => setForm((prev) => ({ ...prev, maxDiscount: e.target.value.replace(/\D/g, '') }))}
+              />
+            </div>
+          )}
+          <div>
+            <label className="text-sm text-muted-foreground mb-1 block">Min. Belanja (opsional)</label>
+            <Input
+              type="text"
+              inputMode="numeric"
+              placeholder="0"
+              value={form.minSpend}
+              onChange={(e) => setForm((prev) => ({ ...prev, minSpend: e.target.value.replace(/\D/g, '') }))}
+            />
+          </div>
+          <div>
+            <label className="text-sm text-muted-foreground mb-1 block">Kedaluwarsa (opsional)</label>
+            <Input
+              type="datetime-local"
+              value={form.expiresAt}
+              onChange={(e) => setForm((prev) => ({ ...prev, expiresAt: e.target.value }))}
+            />
+          </div>
+          <div>
+            <label className="text-sm text-muted-foreground mb-1 block">Batas Pemakaian (opsional)</label>
+            <Input
+              type="number"
+              min={1}
+              placeholder="Tanpa batas"
+              value={form.singleUse ? '1' : form.usageLimit}
+              disabled={form.singleUse}
+              onChange={(e) => setForm((prev) => ({ ...prev, usageLimit: e.target.value }))}
+            />
+          </div>
+          <div>
+            <label className="text-sm text-muted-foreground mb-1 block">Catatan (opsional)</label>
+            <Input
+              placeholder="Bazar Agustus"
+              value={form.note}
+              onChange={(e) => setForm((prev) => ({ ...prev, note: e.target.value }))}
+              maxLength={100}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm">Sekali pakai</p>
+            <p className="text-xs text-muted-foreground">Kode hangus setelah dipakai satu kali</p>
+          </div>
+          <Switch
+            checked={form.singleUse}
+            onCheckedChange={(checked) => setForm((prev) => ({ ...prev, singleUse: checked }))}
+          />
+        </div>
+
+        <Button onClick={handleCreate} disabled={isSaving} className="w-full">
+          {isSaving ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Plus className="w-4 h-4 mr-2" />
+          )}
+          {isBatch ? `Buat ${quantity} Voucher` : 'Tambah Voucher'}
+        </Button>
+      </div>
+    </section>
+  );
+}
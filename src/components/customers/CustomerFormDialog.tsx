@@ -0,0 +1,195 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { customerTypeLabels, mapCustomerRow, normalizePhone } from '@/hooks/useCustomers';
+import { Customer, CustomerType } from '@/types/pos';
+
+interface CustomerFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customer?: Customer | null; // Edit when set, otherwise create
+  onSaved: (customer: Customer) => void;
+}
+
+const emptyForm = {
+  name: '',
+  phone: '',
+  address: '',
+  notes: '',
+  type: 'retail' as CustomerType,
+};
+
+export function CustomerFormDialog({ open, onOpenChange, customer, onSaved }: CustomerFormDialogProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setForm(customer
+        ? {
+            name: customer.name,
+            phone: customer.phone || '',
+            address: customer.address || '',
+            notes: customer.notes || '',
+            type: customer.type,
+          }
+        : emptyForm);
+    }
+  }, [open, customer]);
+
+  const handleSave = async () => {
+    const name = form.name.trim();
+    const phone = normalizePhone(form.phone);
+
+    if (!name) {
+      toast({ title: 'Error', description: 'Nama pelanggan harus diisi', variant: 'destructive' });
+      return;
+    }
+    if (phone && (phone.length < 8 || phone.length > 15)) {
+      toast({ title: 'Error', description: 'Nomor HP tidak valid', variant: 'destructive' });
+      return;
+    }
+
+    const values = {
+      name,
+      phone: phone || null,
+      address: form.address.trim() || null,
+      notes: form.notes.trim() || null,
+      customer_type: form.type,
+    };
+
+    setIsSaving(true);
+    try {
+      let result;
+      if (customer) {
+        result = await supabase.from('customers').update(values).eq('id', customer.id).select().single();
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        result = await supabase
+          .from('customers')
+          .insert({ ...values, created_by: user?.id ?? null })
+          .select()
+          .single();
+      }
+
+      if (result.error) {
+        // Postgres unique_violation on the phone index
+        if (result.error.code === '23505') {
+          toast({ title: 'Error', description: `Nomor ${phone} sudah terdaftar`, variant: 'destructive' });
+          return;
+        }
+        throw result.error;
+      }
+
+      toast({ title: 'Berhasil', description: customer ? 'Data pelanggan diperbarui' : 'Pelanggan berhasil ditambahkan' });
+      onSaved(mapCustomerRow(result.data));
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving customer:', error);
+      toast({ title: 'Gagal', description: 'Gagal menyimpan pelanggan', variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isSaving && onOpenChange(isOpen)}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{customer ? 'Edit Pelanggan' : 'Tambah Pelanggan'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="customer-name">Nama *</Label>
+            <Input
+              id="customer-name"
+              value={form.name}
+              onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+              placeholder="Nama pelanggan"
+              maxLength={100}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="customer-phone">No. HP / WhatsApp</Label>
+              <Input
+                id="customer-phone"
+                type="tel"
+                inputMode="tel"
+                value={form.phone}
+                onChange={(e) => setForm((prev) => ({ ...prev, phone: e.target.value }))}
+                placeholder="08xx xxxx xxxx"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Jenis</Label>
+              <Select
+                value={form.type}
+                onValueChange={(value) => setForm((prev) => ({ ...prev, type: value as CustomerType }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(customerTypeLabels) as CustomerType[]).map((type) => (
+                    <SelectItem key={type} value={type}>{customerTypeLabels[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="customer-address">Alamat</Label>
+            <Textarea
+              id="customer-address"
+              value={form.address}
+              onChange={(e) => setForm((prev) => ({ ...prev, address: e.target.value }))}
+              placeholder="Alamat pengiriman"
+              rows={2}
+              maxLength={300}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="customer-notes">Catatan</Label>
+            <Textarea
+              id="customer-notes"
+              value={form.notes}
+              onChange={(e) => setForm((prev) => ({ ...prev, notes: e.target.value }))}
+              placeholder="Mis. langganan semen, minta nota terpisah"
+              rows={2}
+              maxLength={300}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Batal
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Simpan
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,238 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { getOpenShiftId } from '@/hooks/useShift';
+import { Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export interface ReceivableSummary {
+  id: string;
+  transactionId: string;
+  customerName: string;
+  amount: number;
+  paidAmount: number;
+}
+
+type RepaymentMethod = 'cash' | 'qris' | 'transfer';
+
+interface ReceivablePaymentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  receivable: ReceivableSummary | null;
+  onSaved: () => void;
+}
+
+const methodLabels: Record<string, string> = {
+  'cash': 'Tunai',
+  'qris': 'QRIS',
+  'transfer': 'Transfer',
+  'return': 'Retur',
+};
+
+const formatRupiah = (num: number) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(num);
+};
+
+export function ReceivablePaymentDialog({ open, onOpenChange, receivable, onSaved }: ReceivablePaymentDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [history, setHistory] = useState<Tables<'receivable_payments'>[]>([]);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<RepaymentMethod>('cash');
+  const [reference, setReference] = useState('');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const remaining = receivable ? receivable.amount - receivable.paidAmount : 0;
+
+  useEffect(() => {
+    if (!open || !receivable) return;
+
+    setAmount(String(receivable.amount - receivable.paidAmount));
+    setMethod('cash');
+    setReference('');
+    setNote('');
+
+    const fetchHistory = async () => {
+      setLoadingHistory(true);
+      const { data, error } = await supabase
+        .from('receivable_payments')
+        .select('*')
+        .eq('receivable_id', receivable.id)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching receivable payments:', error);
+      }
+      setHistory(data || []);
+      setLoadingHistory(false);
+    };
+
+    fetchHistory();
+  }, [open, receivable]);
+
+  const handleSave = async () => {
+    if (!receivable) return;
+    const value = parseInt(amount.replace(/\D/g, '')) || 0;
+
+    if (value <= 0) {
+      toast({ title: 'Error', description: 'Jumlah pembayaran harus diisi', variant: 'destructive' });
+      return;
+    }
+    if (value > remaining) {
+      toast({ title: 'Error', description: `Melebihi sisa hutang ${formatRupiah(remaining)}`, variant: 'destructive' });
+      return;
+    }
+
+    setIsSaving(true);
+    const { error } = await supabase.from('receivable_payments').insert({
+      receivable_id: receivable.id,
+      amount: value,
+      payment_method: method,
+      reference: method !== 'cash' && reference.trim() ? reference.trim() : null,
+      note: note.trim() || null,
+      shift_id: getOpenShiftId(user?.id) ?? null,
+    });
+    setIsSaving(false);
+
+    if (error) {
+      // Rejected by the database, e.g. someone else recorded a payment first
+      console.error('Error recording receivable payment:', error);
+      toast({ title: 'Gagal', description: 'Gagal mencatat pembayaran, muat ulang data piutang', variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Berhasil', description: `Pembayaran ${formatRupiah(value)} dicatat` });
+    onSaved();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isSaving && onOpenChange(isOpen)}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Bayar Piutang</DialogTitle>
+        </DialogHeader>
+
+        {receivable && (
+          <div className="space-y-4 py-2">
+            <div className="bg-secondary/50 rounded-xl p-3 text-sm space-y-1">
+              <p className="font-semibold">{receivable.customerName}</p>
+              <p className="font-mono text-xs text-muted-foreground">{receivable.transactionId}</p>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Total hutang</span>
+                <span className="font-mono">{formatRupiah(receivable.amount)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Sudah dibayar</span>
+                <span className="font-mono">{formatRupiah(receivable.paidAmount)}</span>
+              </div>
+              <div className="flex justify-between font-semibold">
+                <span>Sisa</span>
+                <span className="font-mono text-destructive">{formatRupiah(remaining)}</span>
+              </div>
+            </div>
+
+            {remaining > 0 && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="receivable-amount">Jumlah Bayar</Label>
+                  <Input
+                    id="receivable-amount"
+                    inputMode="numeric"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value.replace(/\D/g, ''))}
+                    className="font-mono"
+                  />
+                </div>
+
+                <div className="grid grid-cols-3 gap-2">
+                  {(['cash', 'qris', 'transfer'] as RepaymentMethod[]).map((m) => (
+                    <button
+                      key={m}
+                      onClick={() => setMethod(m)}
+                      className={`h-10 rounded-lg border-2 text-sm font-medium transition-all ${
+                        method === m
+                          ? 'border-primary bg-primary/10'
+                          : 'border-border hover:border-primary/50'
+                      }`}
+                    >
+                      {methodLabels[m]}
+                    </button>
+                  ))}
+                </div>
+
+                {method !== 'cash' && (
+                  <Input
+                    value={reference}
+                    onChange={(e) => setReference(e.target.value)}
+                    placeholder="No. referensi (opsional)"
+                    maxLength={50}
+                  />
+                )}
+
+                <Input
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Catatan (opsional)"
+                  maxLength={200}
+                />
+              </>
+            )}
+
+            <div className="space-y-2">
+              <Label>Riwayat Pembayaran</Label>
+              {loadingHistory ? (
+                <div className="flex justify-center py-3">
+                  <Loader2 className="w-5 h-5 animate-spin text-primary" />
+                </div>
+              ) : history.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Belum ada pembayaran</p>
+              ) : (
+                <div className="space-y-1">
+                  {history.map((p) => (
+                    <div key={p.id} className="flex items-start justify-between text-sm bg-muted/30 rounded-lg px-3 py-2">
+                      <div>
+                        <p>
+                          {methodLabels[p.payment_method] || p.payment_method}
+                          {p.reference && <span className="text-muted-foreground"> ({p.reference})</span>}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(p.created_at).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' })}
+                          {p.note && ` · ${p.note}`}
+                        </p>
+                      </div>
+                      <span className="font-mono">{formatRupiah(Number(p.amount))}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Tutup
+          </Button>
+          {remaining > 0 && (
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Simpan Pembayaran
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -19,6 +19,7 @@ interface AddProductModalProps {
     retailPrice: number;
     bulkPrice: number;
     stock: number;
+    barcode?: string;
   }) => Promise<boolean>;
 }
 
@@ -42,6 +43,7 @@ export function AddProductModal({
     retailPrice: '',
     bulkPrice: '',
     stock: '',
+    barcode: '',
   });
 
   const handleChange = (field: keyof typeof formData, value: string) => {
@@ -56,6 +58,7 @@ export function AddProductModal({
       retailPrice: '',
       bulkPrice: '',
       stock: '',
+      barcode: '',
     });
   };
 
@@ -91,6 +94,7 @@ export function AddProductModal({
       retailPrice: retailPrice,
       bulkPrice: bulkPrice,
       stock: parseInt(formData.stock) || 0,
+      ...(formData.barcode.trim() ? { barcode: formData.barcode.trim() } : {}),
     });
 
     setIsSubmitting(false);
@@ -209,6 +213,23 @@ export function AddProductModal({
               className="placeholder:text-muted-foreground/30"
             />
           </div>
+
+          {/* Barcode - Optional, scan straight into the field */}
+          <div className="space-y-2">
+            <Label htmlFor="barcode" className="text-muted-foreground">Barcode</Label>
+            <Input
+              id="barcode"
+              placeholder="Opsional - scan atau ketik"
+              value={formData.barcode}
+              onChange={(e) => handleChange('barcode', e.target.value)}
+              onKeyDown={(e) => {
+                // Scanners end with Enter - don't let it submit/close anything
+                if (e.key === 'Enter') e.preventDefault();
+              }}
+              className="font-mono placeholder:text-muted-foreground/50"
+              maxLength={64}
+            />
+          </div>
         </div>
 
         <DialogFooter className="gap-2 sm:gap-0">
@@ -0,0 +1,189 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Plus, Trash2, TrendingDown } from 'lucide-react';
+import { PriceTier, Product } from '@/types/pos';
+
+const formatRupiah = (amount: number): string => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+};
+
+const MAX_TIERS = 10;
+
+interface PriceTierModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  product: Product;
+  onSave: (productId: string, priceTiers: PriceTier[]) => Promise<boolean>;
+  onSuccess: () => void;
+}
+
+export function PriceTierModal({ open, onOpenChange, product, onSave, onSuccess }: PriceTierModalProps) {
+  const { toast } = useToast();
+  const [rows, setRows] = useState<{ minQty: string; price: string }[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setRows((product.priceTiers || []).map((t) => ({ minQty: String(t.minQty), price: String(t.price) })));
+    }
+  }, [open, product.priceTiers]);
+
+  const updateRow = (index: number, field: 'minQty' | 'price', value: string) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const handleSave = async () => {
+    const tiers: PriceTier[] = [];
+    for (const row of rows) {
+      if (!row.minQty && !row.price) continue;
+      const minQty = parseInt(row.minQty);
+      const price = parseInt(row.price);
+      if (!minQty || minQty < 2) {
+        toast({ title: 'Error', description: 'Jumlah minimal tiap tingkat harus 2 atau lebih', variant: 'destructive' });
+        return;
+      }
+      if (!price || price <= 0) {
+        toast({ title: 'Error', description: `Harga untuk ${minQty}+ pcs harus diisi`, variant: 'destructive' });
+        return;
+      }
+      if (tiers.some((t) => t.minQty === minQty)) {
+        toast({ title: 'Error', description: `Jumlah ${minQty} pcs dipakai lebih dari sekali`, variant: 'destructive' });
+        return;
+      }
+      tiers.push({ minQty, price });
+    }
+    tiers.sort((a, b) => a.minQty - b.minQty);
+
+    setIsSaving(true);
+    const success = await onSave(product.id, tiers);
+    setIsSaving(false);
+
+    if (success) {
+      toast({ title: 'Berhasil', description: 'Harga bertingkat berhasil disimpan' });
+      onSuccess();
+      onOpenChange(false);
+    } else {
+      toast({ title: 'Gagal', description: 'Gagal menyimpan harga bertingkat', variant: 'destructive' });
+    }
+  };
+
+  // Preview of the ranges as the cashier will see them, e.g. "1-11 pcs", "12-47 pcs", "48+ pcs"
+  const previewTiers = rows
+    .map((row) => ({ minQty: parseInt(row.minQty) || 0, price: parseInt(row.price) || 0 }))
+    .filter((t) => t.minQty >= 2 && t.price > 0)
+    .sort((a, b) => a.minQty - b.minQty);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isSaving && onOpenChange(isOpen)}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <TrendingDown className="w-5 h-5" />
+            Harga Bertingkat - {product.name}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-4 py-4">
+          <p className="text-sm text-muted-foreground">
+            Harga satuan turun otomatis di keranjang saat jumlah mencapai batas. Di bawah tingkat pertama
+            berlaku harga eceran/grosir biasa.
+          </p>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_1fr_auto] gap-2">
+              <Label className="text-xs text-muted-foreground">Mulai dari (pcs)</Label>
+              <Label className="text-xs text-muted-foreground">Harga satuan</Label>
+              <span className="w-8" />
+            </div>
+            {rows.map((row, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                <Input
+                  type="number"
+                  min={2}
+                  placeholder="12"
+                  value={row.minQty}
+                  onChange={(e) => updateRow(index, 'minQty', e.target.value)}
+                  className="h-9"
+                />
+                <Input
+                  type="number"
+                  min={1}
+                  placeholder={String(product.retailPrice)}
+                  value={row.price}
+                  onChange={(e) => updateRow(index, 'price', e.target.value)}
+                  className="h-9 font-mono"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-9 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
+                  onClick={() => setRows((prev) => prev.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            {rows.length === 0 && (
+              <p className="text-center text-sm text-muted-foreground py-3">Belum ada harga bertingkat</p>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full"
+              onClick={() => setRows((prev) => [...prev, { minQty: '', price: '' }])}
+              disabled={rows.length >= MAX_TIERS}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Tambah Tingkat
+            </Button>
+          </div>
+
+          {previewTiers.length > 0 && (
+            <div className="p-3 bg-secondary/30 rounded-lg space-y-1 text-xs">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">1-{previewTiers[0].minQty - 1} pcs</span>
+                <span className="font-mono">{formatRupiah(product.retailPrice)}</span>
+              </div>
+              {previewTiers.map((tier, index) => {
+                const next = previewTiers[index + 1];
+                return (
+                  <div key={tier.minQty} className="flex justify-between">
+                    <span className="text-muted-foreground">
+                      {next ? `${tier.minQty}-${next.minQty - 1}` : `${tier.minQty}+`} pcs
+                    </span>
+                    <span className="font-mono text-primary">{formatRupiah(tier.price)}</span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Batal
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Simpan
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
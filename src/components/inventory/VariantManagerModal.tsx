@@ -36,9 +36,9 @@ interface VariantManagerModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   product: Product;
-  onAddVariant: (productId: string, variantCode: string, variantName: string, stock: number, retailPrice?: number, bulkPrice?: number) => Promise<boolean>;
+  onAddVariant: (productId: string, variantCode: string, variantName: string, stock: number, retailPrice?: number, bulkPrice?: number, barcode?: string) => Promise<boolean>;
   onDeleteVariant: (productId: string, variantCode: string) => Promise<boolean>;
-  onUpdateVariant?: (productId: string, variantCode: string, updates: { stock?: number; retailPrice?: number | ''; bulkPrice?: number | '' }) => Promise<boolean>;
+  onUpdateVariant?: (productId: string, variantCode: string, updates: { stock?: number; retailPrice?: number | ''; bulkPrice?: number | ''; barcode?: string }) => Promise<boolean>;
   onSuccess: () => void;
 }
 
@@ -56,7 +56,7 @@ export function VariantManagerModal({
   const [deletingCode, setDeletingCode] = useState<string | null>(null);
   const [variantToDelete, setVariantToDelete] = useState<ProductVariant | null>(null);
   const [editingVariantCode, setEditingVariantCode] = useState<string | null>(null);
-  const [editedVariant, setEditedVariant] = useState<{ retailPrice: string; bulkPrice: string }>({ retailPrice: '', bulkPrice: '' });
+  const [editedVariant, setEditedVariant] = useState<{ retailPrice: string; bulkPrice: string; barcode: string }>({ retailPrice: '', bulkPrice: '', barcode: '' });
   const [savingVariantCode, setSavingVariantCode] = useState<string | null>(null);
 
   const [newVariant, setNewVariant] = useState({
@@ -65,10 +65,11 @@ export function VariantManagerModal({
     stock: '0',
     retailPrice: '',
     bulkPrice: '',
+    barcode: '',
   });
 
   const resetForm = () => {
-    setNewVariant({ code: '', name: '', stock: '0', retailPrice: '', bulkPrice: '' });
+    setNewVariant({ code: '', name: '', stock: '0', retailPrice: '', bulkPrice: '', barcode: '' });
   };
 
   const handleAddVariant = async () => {
@@ -97,7 +98,8 @@ export function VariantManagerModal({
       newVariant.name.trim() || newVariant.code.trim(),
       parseInt(newVariant.stock) || 0,
       retailPrice,
-      bulkPrice
+      bulkPrice,
+      newVariant.barcode.trim() || undefined
     );
 
     setIsAdding(false);
@@ -134,12 +136,13 @@ export function VariantManagerModal({
     setEditedVariant({
       retailPrice: variant.retailPrice?.toString() || '',
       bulkPrice: variant.bulkPrice?.toString() || '',
+      barcode: variant.barcode || '',
     });
   };
 
   const cancelEditingVariant = () => {
     setEditingVariantCode(null);
-    setEditedVariant({ retailPrice: '', bulkPrice: '' });
+    setEditedVariant({ retailPrice: '', bulkPrice: '', barcode: '' });
   };
 
   const saveEditedVariant = async (variant: ProductVariant) => {
@@ -153,16 +156,17 @@ export function VariantManagerModal({
     const success = await onUpdateVariant(product.id, variant.code, {
       retailPrice,
       bulkPrice,
+      barcode: editedVariant.barcode.trim(),
     });
     
     setSavingVariantCode(null);
     
     if (success) {
-      toast({ title: 'Berhasil', description: 'Harga varian berhasil diperbarui' });
+      toast({ title: 'Berhasil', description: 'Varian berhasil diperbarui' });
       setEditingVariantCode(null);
       onSuccess();
     } else {
-      toast({ title: 'Gagal', description: 'Gagal memperbarui harga varian', variant: 'destructive' });
+      toast({ title: 'Gagal', description: 'Gagal memperbarui varian', variant: 'destructive' });
     }
   };
 
@@ -205,7 +209,10 @@ export function VariantManagerModal({
                         <div className="flex items-center justify-between gap-3">
                           <div className="flex-1 min-w-0">
                             <p className="font-medium text-sm">{variant.name}</p>
-                            <p className="text-xs text-muted-foreground">Kode: {variant.code}</p>
+                            <p className="text-xs text-muted-foreground">
+                              Kode: {variant.code}
+                              {variant.barcode && <span className="font-mono"> · {variant.barcode}</span>}
+                            </p>
                           </div>
                           <div className="flex items-center gap-2">
                             <span
@@ -270,6 +277,19 @@ export function VariantManagerModal({
                                 className="h-8 text-sm"
                               />
                             </div>
+                            <div className="col-span-2 space-y-1">
+                              <Label className="text-xs text-muted-foreground">Barcode</Label>
+                              <Input
+                                value={editedVariant.barcode}
+                                onChange={(e) => setEditedVariant(prev => ({ ...prev, barcode: e.target.value }))}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter') e.preventDefault();
+                                }}
+                                placeholder="Scan atau ketik barcode"
+                                className="h-8 text-sm font-mono"
+                                maxLength={64}
+                              />
+                            </div>
                             <div className="col-span-2 flex justify-end gap-2 mt-1">
                               <Button
                                 variant="ghost"
@@ -396,6 +416,23 @@ export function VariantManagerModal({
                 </div>
               </div>
 
+              <div className="space-y-1.5">
+                <Label htmlFor="variantBarcode" className="text-xs text-muted-foreground">
+                  Barcode
+                </Label>
+                <Input
+                  id="variantBarcode"
+                  placeholder="Opsional - scan atau ketik"
+                  value={newVariant.barcode}
+                  onChange={(e) => setNewVariant((prev) => ({ ...prev, barcode: e.target.value }))}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.preventDefault();
+                  }}
+                  className="font-mono"
+                  maxLength={64}
+                />
+              </div>
+
               <Button
                 onClick={handleAddVariant}
                 disabled={isAdding || !newVariant.code.trim()}
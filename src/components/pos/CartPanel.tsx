@@ -1,9 +1,12 @@
 import { useState, useEffect, forwardRef } from 'react';
-import { CartItem } from '@/types/pos';
-import { Minus, Plus, Trash2, ShoppingCart } from 'lucide-react';
+import { CartItem, HeldCart } from '@/types/pos';
+import { Minus, Plus, Trash2, ShoppingCart, Tag } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { HeldCartsMenu } from './HeldCartsMenu';
+import { getLinePricing, getLineTotal } from '@/utils/pricing';
+import { EMPTY_PROMOTION_RESULT, PromotionResult, getCartLineKey } from '@/utils/promotions';
 
 // Separate component for quantity input to manage local state
 interface QuantityInputProps {
@@ -85,6 +88,11 @@ interface CartPanelProps {
   onRemove: (productId: string, priceType: 'retail' | 'bulk', variantCode?: string) => void;
   onClear: () => void;
   onCheckout: () => void;
+  heldCarts: HeldCart[];
+  onHoldCart: (label: string) => void;
+  onResumeCart: (id: string) => void;
+  onDeleteHeldCart: (id: string) => void;
+  promotions?: PromotionResult;
 }
 
 const formatRupiah = (num: number) => {
@@ -95,13 +103,21 @@ const formatRupiah = (num: number) => {
   }).format(num);
 };
 
-export function CartPanel({ items, onUpdateQuantity, onSetQuantity, onSetDiscount, onRemove, onClear, onCheckout }: CartPanelProps) {
-  const subtotal = items.reduce((sum, item) => {
-    const price = item.priceType === 'retail' ? item.product.retailPrice : item.product.bulkPrice;
-    const discount = item.discount || 0;
-    const discountedTotal = (price * item.quantity) - discount;
-    return sum + Math.max(0, discountedTotal);
-  }, 0);
+export function CartPanel({
+  items,
+  onUpdateQuantity,
+  onSetQuantity,
+  onSetDiscount,
+  onRemove,
+  onClear,
+  onCheckout,
+  heldCarts,
+  onHoldCart,
+  onResumeCart,
+  onDeleteHeldCart,
+  promotions = EMPTY_PROMOTION_RESULT,
+}: CartPanelProps) {
+  const subtotal = items.reduce((sum, item) => sum + getLineTotal(item), 0) - promotions.total;
 
   const totalItems = items.length;
 
@@ -123,14 +139,23 @@ export function CartPanel({ items, onUpdateQuantity, onSetQuantity, onSetDiscoun
             <ShoppingCart className="w-5 h-5 text-primary" />
             <h2 className="font-semibold text-lg">Keranjang</h2>
           </div>
-          {items.length > 0 && (
-            <button
-              onClick={onClear}
-              className="text-xs text-muted-foreground hover:text-destructive transition-colors"
-            >
-              Hapus Semua
-            </button>
-          )}
+          <div className="flex items-center gap-3">
+            {items.length > 0 && (
+              <button
+                onClick={onClear}
+                className="text-xs text-muted-foreground hover:text-destructive transition-colors"
+              >
+                Hapus Semua
+              </button>
+            )}
+            <HeldCartsMenu
+              heldCarts={heldCarts}
+              canHold={items.length > 0}
+              onHold={onHoldCart}
+              onResume={onResumeCart}
+              onDelete={onDeleteHeldCart}
+            />
+          </div>
         </div>
         <p className="text-sm text-muted-foreground mt-1">
           {totalItems} item{totalItems !== 1 ? 's' : ''}
@@ -148,14 +173,16 @@ export function CartPanel({ items, onUpdateQuantity, onSetQuantity, onSetDiscoun
           </div>
         ) : (
           items.map((item) => {
-            const price = item.priceType === 'retail' ? item.product.retailPrice : item.product.bulkPrice;
+            const { unitPrice, tier } = getLinePricing(item);
             const discount = item.discount || 0;
-            const originalTotal = price * item.quantity;
+            const originalTotal = unitPrice * item.quantity;
             const itemTotal = Math.max(0, originalTotal - discount);
             const maxStock = getMaxStock(item);
             
             // Generate unique key for cart item (includes variant)
-            const itemKey = `${item.product.id}-${item.priceType}${item.variantCode ? `-${item.variantCode}` : ''}`;
+            const itemKey = getCartLineKey(item);
+            const linePromos = promotions.lines[itemKey] || [];
+            const promoDiscount = linePromos.reduce((sum, p) => sum + p.discount, 0);
             
             return (
               <div 
@@ -177,6 +204,11 @@ export function CartPanel({ items, onUpdateQuantity, onSetQuantity, onSetDiscoun
                     }`}>
                       {item.priceType === 'retail' ? 'Eceran' : 'Grosir'}
                     </span>
+                    {tier && (
+                      <span className="text-xs px-2 py-0.5 ml-1 rounded-full bg-primary/15 text-primary">
+                        {tier.minQty}+ @{formatRupiah(unitPrice)}
+                      </span>
+                    )}
                   </div>
                   <button
                     onClick={() => onRemove(item.product.id, item.priceType, item.variantCode)}
@@ -228,15 +260,30 @@ type="number"
                   </div>
                   <div className="text-right">
                     <span className="font-mono text-sm font-semibold">
-                      {formatRupiah(itemTotal)}
+                      {formatRupiah(Math.max(0, itemTotal - promoDiscount))}
                     </span>
-                    {discount > 0 && (
+                    {(discount > 0 || promoDiscount > 0) && (
                       <div className="text-xs text-muted-foreground line-through">
                         {formatRupiah(originalTotal)}
                       </div>
                     )}
                   </div>
                 </div>
+
+                {/* Automatic promotions on this line */}
+                {linePromos.length > 0 && (
+                  <div className="mt-2 space-y-0.5">
+                    {linePromos.map((promo) => (
+                      <div key={promo.id} className="flex items-center justify-between gap-2 text-xs text-green-600">
+                        <span className="flex items-center gap-1 truncate">
+                          <Tag className="w-3 h-3 shrink-0" />
+                          {promo.name}
+                        </span>
+                        <span className="font-mono">-{formatRupiah(promo.discount)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             );
             })
@@ -246,6 +293,15 @@ type="number"
 
       {/* Footer */}
       <div className="p-4 border-t border-border space-y-4">
+        {promotions.total > 0 && (
+          <div className="flex items-center justify-between text-sm text-green-600">
+            <span className="flex items-center gap-1">
+              <Tag className="w-4 h-4" />
+              Promo
+            </span>
+            <span className="font-mono">-{formatRupiah(promotions.total)}</span>
+          </div>
+        )}
         <div className="flex items-center justify-between">
           <span className="text-muted-foreground">Subtotal</span>
           <span className="font-mono text-xl font-bold text-foreground">
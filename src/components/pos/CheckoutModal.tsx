@@ -1,18 +1,30 @@
-import { useState, useEffect } from 'react';
-import { CartItem, ReceiptData, ReceiptDeliveryMethod, BankInfo, StoreInfo } from '@/types/pos';
+import { useState, useEffect, useRef } from 'react';
+import { CartItem, Customer, LoyaltyPoints, ManualDiscountInfo, ReceiptData, ReceiptDeliveryMethod, BankInfo, StoreInfo, PaymentEntry, PaymentMethodCode, TaxMode } from '@/types/pos';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Switch } from '@/components/ui/switch';
-import { Banknote, Wallet, ArrowLeft, Building2, Loader2, Bluetooth } from 'lucide-react';
+import { Banknote, Wallet, ArrowLeft, Building2, Loader2, Bluetooth, Layers, Tag, Ticket, UserCheck, Gift, NotebookPen, X, KeyRound, ShieldCheck } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { isBluetoothSupported } from '@/utils/escpos';
+import { getLinePricing, getLineTotal } from '@/utils/pricing';
+import { EMPTY_PROMOTION_RESULT, PromotionResult, applyPromotionsToItems } from '@/utils/promotions';
+import { calculateServiceCharge, calculateTax, parseServiceChargeRate, parseTaxMode, parseTaxRate } from '@/utils/tax';
+import { CashRoundingRule, getCashRoundingAdjustment, parseCashRoundingRule } from '@/utils/cashRounding';
+import { customerTypeLabels, fetchCustomerOutstanding, normalizePhone, useCustomerSearch } from '@/hooks/useCustomers';
+import { useHotkeys } from '@/hooks/useHotkeys';
+import { publishCustomerDisplay } from '@/hooks/useCustomerDisplay';
+import { useAuth, getCashierName } from '@/hooks/useAuth';
+import { getOpenShiftId } from '@/hooks/useShift';
+import { takeInvoiceNumber, releaseInvoiceNumber } from '@/utils/invoiceNumbers';
+import { getManualDiscounts, getMaxDiscountPercent, parseDiscountLimit } from '@/utils/discountLimits';
 
 interface CheckoutModalProps {
   open: boolean;
   onClose: () => void;
   items: CartItem[];
   onComplete: (receipt: ReceiptData, deliveryMethod: ReceiptDeliveryMethod, phone?: string) => void;
+  promotions?: PromotionResult;
 }
 
 const formatRupiah = (num: number) => {
@@ -23,33 +35,139 @@ const formatRupiah = (num: number) => {
   }).format(num);
 };
 
-const generateReceiptId = () => {
-  const date = new Date();
-  const dateStr = `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
-  const timeStr = `${String(date.getHours()).padStart(2, '0')}${String(date.getMinutes()).padStart(2, '0')}`;
-  const random = Math.floor(Math.random() * 1000).toString().padStart(3, '0');
-  return `INV-${dateStr}-${timeStr}-${random}`;
+type PaymentMethod = 'Tunai' | 'QRIS' | 'Transfer' | 'Hutang' | 'Kombinasi';
+
+// Map UI payment method to API payment method
+const paymentMethodMap: Record<Exclude<PaymentMethod, 'Kombinasi'>, PaymentMethodCode> = {
+  'Tunai': 'cash',
+  'QRIS': 'qris',
+  'Transfer': 'transfer',
+  'Hutang': 'credit',
+};
+
+// Voucher terms returned by check_voucher, kept so the discount follows later changes to the amount
+interface VoucherTerms {
+  code: string;
+  discountType: 'fixed' | 'percent';
+  amount: number;
+  maxDiscount?: number;
+  minSpend: number;
+}
+
+// Error codes returned by the check_voucher / redeem_voucher database functions
+const voucherErrorMessages: Record<string, string> = {
+  'forbidden': 'Anda tidak memiliki akses untuk memakai voucher',
+  'not_found': 'Kode voucher tidak ditemukan',
+  'inactive': 'Voucher tidak aktif',
+  'expired': 'Voucher sudah kedaluwarsa',
+  'used_up': 'Voucher sudah habis dipakai',
+  'min_spend': 'Belum mencapai minimum belanja voucher',
+};
+
+// Error codes returned by redeem_loyalty_points
+const loyaltyErrorMessages: Record<string, string> = {
+  'forbidden': 'Anda tidak memiliki akses untuk menukar poin',
+  'invalid': 'Nomor HP atau jumlah poin tidak valid',
+  'disabled': 'Penukaran poin sedang nonaktif',
+  'insufficient': 'Saldo poin tidak cukup',
+};
+
+// Error codes returned by approve_discount
+const discountApprovalErrorMessages: Record<string, string> = {
+  'forbidden': 'Anda tidak memiliki akses untuk memberi diskon',
+  'reason_required': 'Alasan diskon wajib diisi (min. 3 karakter)',
+  'invalid_pin': 'PIN admin salah atau terlalu banyak percobaan',
 };
 
-type PaymentMethod = 'Tunai' | 'QRIS' | 'Transfer';
+const isValidLoyaltyPhone = (phone: string) => /^[0-9]{8,15}$/.test(phone);
 
-export function CheckoutModal({ open, onClose, items, onComplete }: CheckoutModalProps) {
-  const [step, setStep] = useState<'payment' | 'cash' | 'payment-details' | 'receipt'>('payment');
+// Mirrors evaluate_voucher in the database
+const getVoucherDiscount = (voucher: VoucherTerms, amount: number) => {
+  if (amount < voucher.minSpend) return 0;
+  let discount = voucher.discountType === 'percent'
+    ? Math.round(amount * voucher.amount / 100)
+    : voucher.amount;
+  if (voucher.discountType === 'percent' && voucher.maxDiscount) {
+    discount = Math.min(discount, voucher.maxDiscount);
+  }
+  return Math.max(0, Math.min(discount, amount));
+};
+
+const paymentCodeLabels: Record<PaymentMethodCode, string> = {
+  'cash': 'Tunai',
+  'qris': 'QRIS',
+  'transfer': 'Transfer',
+  'credit': 'Hutang',
+};
+
+export function CheckoutModal({ open, onClose, items, onComplete, promotions = EMPTY_PROMOTION_RESULT }: CheckoutModalProps) {
+  const [step, setStep] = useState<'payment' | 'cash' | 'payment-details' | 'credit' | 'split' | 'receipt'>('payment');
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod | null>(null);
   const [cashReceived, setCashReceived] = useState('');
   const [receiptMethod, setReceiptMethod] = useState<ReceiptDeliveryMethod | null>(null);
   const [whatsappNumber, setWhatsappNumber] = useState('');
   const [customerName, setCustomerName] = useState('');
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [isCustomerFocused, setIsCustomerFocused] = useState(false);
+
+  // Credit (hutang): needs a customer from the directory
+  const [creditDueDate, setCreditDueDate] = useState('');
+  const [customerOutstanding, setCustomerOutstanding] = useState<number | null>(null);
   const [printWorkerCopy, setPrintWorkerCopy] = useState(true);
 
   const [discountPercent, setDiscountPercent] = useState('');
 
+  // Voucher code (typed or scanned)
+  const [voucherCode, setVoucherCode] = useState('');
+  const [voucher, setVoucher] = useState<VoucherTerms | null>(null);
+  const [voucherError, setVoucherError] = useState<string | null>(null);
+  const [isCheckingVoucher, setIsCheckingVoucher] = useState(false);
+  const [isRedeeming, setIsRedeeming] = useState(false);
+
+  // Loyalty points, keyed by phone number
+  const [loyaltyEarnAmount, setLoyaltyEarnAmount] = useState(0);
+  const [loyaltyPointValue, setLoyaltyPointValue] = useState(0);
+  const [taxRate, setTaxRate] = useState(0);
+  const [taxMode, setTaxMode] = useState<TaxMode>('inclusive');
+  const [serviceChargeRate, setServiceChargeRate] = useState(0);
+  const [cashRoundingRule, setCashRoundingRule] = useState<CashRoundingRule>({ unit: 0, mode: 'nearest' });
+  const [loyaltyPhone, setLoyaltyPhone] = useState('');
+  const [loyaltyBalance, setLoyaltyBalance] = useState<number | null>(null);
+  const [pointsToRedeem, setPointsToRedeem] = useState('');
+  const [loyaltyError, setLoyaltyError] = useState<string | null>(null);
+  const [isCheckingPoints, setIsCheckingPoints] = useState(false);
+
+  // Kept across retries so voucher and point redemptions stay tied to one sale
+  const receiptIdRef = useRef<string | null>(null);
+  // Set once a voucher or points were redeemed against receiptIdRef; the number can't be reused then
+  const receiptIdUsedRef = useRef(false);
+  const [invoiceNumberError, setInvoiceNumberError] = useState<string | null>(null);
+
+  // Split payment tenders
+  const [payments, setPayments] = useState<PaymentEntry[]>([]);
+  const [splitMethod, setSplitMethod] = useState<PaymentMethodCode>('cash');
+  const [splitAmount, setSplitAmount] = useState('');
+  const [splitReference, setSplitReference] = useState('');
+
+  const { user, userRole } = useAuth();
+
+  // Manual discounts: a reason always, an admin PIN above the role's limit
+  const [discountLimits, setDiscountLimits] = useState<Record<string, number | null>>({});
+  const [discountReason, setDiscountReason] = useState('');
+  const [approvalPin, setApprovalPin] = useState('');
+  const [discountApproval, setDiscountApproval] = useState<{ id: string; approver: string; signature: string } | null>(null);
+  const [approvalError, setApprovalError] = useState<string | null>(null);
+  const [isApproving, setIsApproving] = useState(false);
+
   // Settings from database
   const [bankInfo, setBankInfo] = useState<BankInfo | null>(null);
   const [storeInfo, setStoreInfo] = useState<StoreInfo | null>(null);
   const [qrisImageUrl, setQrisImageUrl] = useState<string | null>(null);
   const [isLoadingSettings, setIsLoadingSettings] = useState(false);
 
+  // Autocomplete from the customer directory while no customer is picked
+  const { results: customerResults, isSearching: isSearchingCustomers } = useCustomerSearch(customer ? '' : customerName);
+
   // Fetch settings when modal opens
   useEffect(() => {
     if (open) {
@@ -83,6 +201,16 @@ export function CheckoutModal({ open, onClose, items, onComplete }: CheckoutModa
       });
 
       setQrisImageUrl(settings['qris_image_url'] || null);
+      setLoyaltyEarnAmount(parseInt(settings['loyalty_earn_amount']) || 0);
+      setLoyaltyPointValue(parseInt(settings['loyalty_point_value']) || 0);
+      setTaxRate(parseTaxRate(settings['tax_rate']));
+      setTaxMode(parseTaxMode(settings['tax_mode']));
+      setServiceChargeRate(parseServiceChargeRate(settings['service_charge_rate']));
+      setCashRoundingRule(parseCashRoundingRule(settings['cash_rounding_unit'], settings['cash_rounding_mode']));
+      setDiscountLimits({
+        admin: parseDiscountLimit(settings['discount_limit_admin']),
+        cashier: parseDiscountLimit(settings['discount_limit_cashier']),
+      });
     } catch (error) {
       console.error('Error fetching settings:', error);
     } finally {
@@ -90,26 +218,217 @@ export function CheckoutModal({ open, onClose, items, onComplete }: CheckoutModa
     }
   };
 
-  // Subtotal now includes item-level discounts in Rupiah
-  const subtotal = items.reduce((sum, item) => {
-    const price = item.priceType === 'retail' ? item.product.retailPrice : item.product.bulkPrice;
-    const itemDiscount = item.discount || 0;
-    const discountedTotal = (price * item.quantity) - itemDiscount;
-    return sum + Math.max(0, discountedTotal);
-  }, 0);
+  // Subtotal includes quantity tier prices, item-level discounts in Rupiah and automatic promotions
+  const subtotal = items.reduce((sum, item) => sum + getLineTotal(item), 0) - promotions.total;
   
   const discountValue = parseInt(discountPercent) || 0;
   const discountAmount = Math.round(subtotal * (discountValue / 100));
-  const total = subtotal - discountAmount;
+  const amountBeforeVoucher = subtotal - discountAmount;
+  const voucherDiscount = voucher ? getVoucherDiscount(voucher, amountBeforeVoucher) : 0;
+  const voucherBelowMinSpend = !!voucher && amountBeforeVoucher < voucher.minSpend;
+  const amountBeforePoints = amountBeforeVoucher - voucherDiscount;
+
+  // Points: redeemed as a discount, earned on what is left to pay
+  const loyaltyEnabled = loyaltyEarnAmount > 0;
+  const normalizedLoyaltyPhone = normalizePhone(loyaltyPhone);
+  const hasLoyaltyPhone = loyaltyEnabled && isValidLoyaltyPhone(normalizedLoyaltyPhone);
+  const maxRedeemablePoints = hasLoyaltyPhone && loyaltyPointValue > 0
+    ? Math.max(0, Math.min(loyaltyBalance ?? 0, Math.floor(amountBeforePoints / loyaltyPointValue)))
+    : 0;
+  const pointsRedeemed = Math.min(parseInt(pointsToRedeem) || 0, maxRedeemablePoints);
+  const pointsDiscount = pointsRedeemed * loyaltyPointValue;
+  const amountBeforeTax = amountBeforePoints - pointsDiscount;
+
+  // Service charge on what is left after discounts; PPN is charged on it as well
+  const serviceCharge = calculateServiceCharge(amountBeforeTax, serviceChargeRate);
+
+  // PPN: already inside the prices (inclusive) or added on top (exclusive)
+  const tax = calculateTax(applyPromotionsToItems(items, promotions), amountBeforeTax + serviceCharge, taxRate, taxMode);
+  const total = amountBeforeTax + serviceCharge + (taxMode === 'exclusive' ? tax.amount : 0);
+
+  // Cash-only sales are rounded to the configured unit; other methods pay the exact total
+  const cashRounding = paymentMethod === 'Tunai' ? getCashRoundingAdjustment(total, cashRoundingRule) : 0;
+  const cashDue = total + cashRounding;
+  // Earned on the recorded total (after rounding), the same base loyalty_on_sale uses
+  const pointsEarned = hasLoyaltyPhone ? Math.floor(cashDue / loyaltyEarnAmount) : 0;
 
   const cashValue = parseInt(cashReceived.replace(/\D/g, '')) || 0;
-  const change = cashValue - total;
+  const change = cashValue - cashDue;
+
+  const paidAmount = payments.reduce((sum, p) => sum + p.amount, 0);
+  const remainingAmount = Math.max(0, total - paidAmount);
+  const splitChange = Math.max(0, paidAmount - total);
+  const splitAmountValue = parseInt(splitAmount.replace(/\D/g, '')) || 0;
+
+  // An approval covers exactly the discounts it was given for; changing them (or a line's
+  // quantity, which changes its percentage) needs a new one
+  const manualDiscounts = getManualDiscounts(items, subtotal, discountAmount);
+  const maxDiscountPercent = getMaxDiscountPercent(manualDiscounts);
+  const discountLimit = userRole ? discountLimits[userRole] ?? null : null;
+  const discountSignature = manualDiscounts.map((d) => `${d.label}:${d.amount}:${d.percent}`).join('|');
+  const needsDiscountApproval = discountLimit !== null && maxDiscountPercent > discountLimit;
+  const isDiscountApproved = discountApproval?.signature === discountSignature;
+  const discountBlocked = manualDiscounts.length > 0
+    && (discountReason.trim().length < 3 || (needsDiscountApproval && !isDiscountApproved));
+
+  const handleApproveDiscount = async () => {
+    setIsApproving(true);
+    setApprovalError(null);
+    try {
+      const { data, error } = await supabase.rpc('approve_discount', {
+        _reason: discountReason.trim(),
+        _max_percent: maxDiscountPercent,
+        _amount: manualDiscounts.reduce((sum, d) => sum + d.amount, 0),
+        _details: JSON.parse(JSON.stringify(manualDiscounts)),
+        ...(userRole === 'admin' ? {} : { _admin_pin: approvalPin }),
+      });
+      if (error) throw new Error(error.message);
+
+      const result = (data || {}) as { error?: string; approval_id?: string; approved_by_email?: string };
+      if (result.error || !result.approval_id) {
+        setApprovalError(discountApprovalErrorMessages[result.error || ''] || result.error || 'Persetujuan gagal');
+        return;
+      }
+      setDiscountApproval({
+        id: result.approval_id,
+        approver: result.approved_by_email || 'Admin',
+        signature: discountSignature,
+      });
+    } catch (error) {
+      console.error('Error approving discount:', error);
+      setApprovalError('Gagal meminta persetujuan. Periksa koneksi internet lalu coba lagi.');
+    } finally {
+      setApprovalPin('');
+      setIsApproving(false);
+    }
+  };
+
+  // Mirror the amount due and how to pay it on the customer display
+  const showsQris = paymentMethod === 'QRIS' || (paymentMethod === 'Kombinasi' && splitMethod === 'qris');
+  const showsBank = paymentMethod === 'Transfer' || (paymentMethod === 'Kombinasi' && splitMethod === 'transfer');
+  useEffect(() => {
+    if (!open) {
+      publishCustomerDisplay({ payment: null });
+      return;
+    }
+    publishCustomerDisplay({
+      payment: {
+        method: paymentMethod,
+        discount: discountAmount + voucherDiscount + pointsDiscount,
+        ...(serviceCharge > 0 ? { serviceCharge: { rate: serviceChargeRate, amount: serviceCharge } } : {}),
+        ...(tax.amount > 0 ? { tax: { rate: taxRate, amount: tax.amount, included: taxMode === 'inclusive' } } : {}),
+        ...(cashRounding !== 0 ? { rounding: cashRounding } : {}),
+        total: cashDue,
+        ...(showsQris ? { showQris: true } : {}),
+        ...(showsBank ? { showBank: true } : {}),
+        ...(paymentMethod === 'Tunai' && cashValue > 0 ? { cashReceived: cashValue } : {}),
+        ...(paymentMethod === 'Tunai' && change >= 0 && cashValue > 0 ? { change } : {}),
+      },
+    });
+  }, [open, paymentMethod, discountAmount, voucherDiscount, pointsDiscount, serviceCharge, serviceChargeRate, tax.amount, taxMode, taxRate,
+    cashRounding, cashDue, showsQris, showsBank, cashValue, change]);
 
   const quickCashAmounts = [
-    Math.ceil(total / 10000) * 10000,
-    Math.ceil(total / 50000) * 50000,
-    Math.ceil(total / 100000) * 100000,
-  ].filter((v, i, arr) => arr.indexOf(v) === i && v >= total);
+    Math.ceil(cashDue / 10000) * 10000,
+    Math.ceil(cashDue / 50000) * 50000,
+    Math.ceil(cashDue / 100000) * 100000,
+  ].filter((v, i, arr) => arr.indexOf(v) === i && v >= cashDue);
+
+  const handleApplyVoucher = async () => {
+    const code = voucherCode.trim().toUpperCase();
+    if (!code) return;
+
+    setIsCheckingVoucher(true);
+    setVoucherError(null);
+
+    try {
+      const { data, error } = await supabase.rpc('check_voucher', {
+        _code: code,
+        _amount: amountBeforeVoucher,
+      });
+      if (error) throw new Error(error.message);
+
+      const result = (data || {}) as {
+        error?: string;
+        code?: string;
+        discount_type?: 'fixed' | 'percent';
+        amount?: number;
+        max_discount?: number | null;
+        min_spend?: number;
+      };
+      if (result.error) {
+        const minSpend = result.error === 'min_spend' && result.min_spend
+          ? ` (min. ${formatRupiah(Number(result.min_spend))})`
+          : '';
+        setVoucherError(`${voucherErrorMessages[result.error] || result.error}${minSpend}`);
+        return;
+      }
+
+      setVoucher({
+        code: result.code || code,
+        discountType: result.discount_type === 'percent' ? 'percent' : 'fixed',
+        amount: Number(result.amount) || 0,
+        maxDiscount: result.max_discount ? Number(result.max_discount) : undefined,
+        minSpend: Number(result.min_spend) || 0,
+      });
+      setVoucherCode('');
+    } catch (error) {
+      console.error('Error checking voucher:', error);
+      setVoucherError('Gagal memeriksa voucher. Periksa koneksi internet.');
+    } finally {
+      setIsCheckingVoucher(false);
+    }
+  };
+
+  const handleRemoveVoucher = () => {
+    setVoucher(null);
+    setVoucherError(null);
+  };
+
+  const fetchLoyaltyBalance = async (phone: string) => {
+    setIsCheckingPoints(true);
+    setLoyaltyError(null);
+    try {
+      const { data, error } = await supabase.rpc('loyalty_balance', { _phone: phone });
+      if (error) throw new Error(error.message);
+      setLoyaltyBalance(Number(data) || 0);
+      return Number(data) || 0;
+    } catch (error) {
+      console.error('Error fetching loyalty balance:', error);
+      setLoyaltyError('Gagal memuat saldo poin. Periksa koneksi internet.');
+      return null;
+    } finally {
+      setIsCheckingPoints(false);
+    }
+  };
+
+  const handleLoyaltyPhoneChange = (value: string) => {
+    setLoyaltyPhone(value);
+    setLoyaltyBalance(null);
+    setPointsToRedeem('');
+    setLoyaltyError(null);
+  };
+
+  const handleSelectCustomer = (selected: Customer) => {
+    setCustomer(selected);
+    setCustomerName(selected.name);
+    setIsCustomerFocused(false);
+    setCustomerOutstanding(null);
+    fetchCustomerOutstanding(selected.id).then(setCustomerOutstanding);
+    if (selected.phone) {
+      setWhatsappNumber(selected.phone);
+      handleLoyaltyPhoneChange(selected.phone);
+      if (loyaltyEnabled) fetchLoyaltyBalance(selected.phone);
+    }
+  };
+
+  const handleClearCustomer = () => {
+    setCustomer(null);
+    setCustomerOutstanding(null);
+    setCustomerName('');
+    setWhatsappNumber('');
+    handleLoyaltyPhoneChange('');
+  };
 
   const handlePaymentSelect = (method: PaymentMethod) => {
     setPaymentMethod(method);
@@ -117,13 +436,17 @@ export function CheckoutModal({ open, onClose, items, onComplete }: CheckoutModa
       setStep('cash');
     } else if (method === 'QRIS' || method === 'Transfer') {
       setStep('payment-details');
+    } else if (method === 'Hutang') {
+      setStep('credit');
+    } else if (method === 'Kombinasi') {
+      setStep('split');
     } else {
       setStep('receipt');
     }
   };
 
   const handleCashConfirm = () => {
-    if (cashValue >= total) {
+    if (cashValue >= cashDue) {
       setStep('receipt');
     }
   };
@@ -132,34 +455,200 @@ export function CheckoutModal({ open, onClose, items, onComplete }: CheckoutModa
     setStep('receipt');
   };
 
-  const handleComplete = () => {
-    if (!receiptMethod || !paymentMethod) return;
+  // Credit can only be recorded against a customer from the directory
+  const usesCredit = paymentMethod === 'Hutang'
+    || (paymentMethod === 'Kombinasi' && payments.some((p) => p.method === 'credit'));
 
-    // Map UI payment method to API payment method
-    const paymentMethodMap: Record<PaymentMethod, string> = {
-      'Tunai': 'cash',
-      'QRIS': 'qris',
-      'Transfer': 'transfer',
-    };
+  const canContinueSplit = payments.length > 0 && remainingAmount <= 0
+    && !(payments.some((p) => p.method === 'credit') && !customer);
+  // What was tendered must still cover the total; it goes up when a voucher or points fall away
+  const isPaymentCovered = paymentMethod === 'Tunai' ? cashValue >= cashDue
+    : paymentMethod === 'Kombinasi' ? remainingAmount <= 0
+    : true;
+  const canComplete = !!receiptMethod && !(receiptMethod === 'whatsapp' && !whatsappNumber)
+    && !isRedeeming && !(usesCredit && !customer) && !discountBlocked && isPaymentCovered;
+
+  // Back to where the amount is entered, after a redemption failed and the total went up
+  const returnToTenderStep = () => {
+    if (paymentMethod === 'Tunai') setStep('cash');
+    else if (paymentMethod === 'Kombinasi') setStep('split');
+  };
+
+  // Add a tender; only cash may go over what's left (the excess becomes change)
+  const handleAddSplitPayment = () => {
+    const amount = splitMethod === 'cash'
+      ? splitAmountValue
+      : Math.min(splitAmountValue, remainingAmount);
+    if (amount <= 0 || remainingAmount <= 0) return;
+    if (splitMethod === 'credit' && !customer) return;
+
+    setPayments((prev) => [
+      ...prev,
+      {
+        method: splitMethod,
+        amount,
+        ...(splitMethod !== 'cash' && splitMethod !== 'credit' && splitReference.trim() ? { reference: splitReference.trim() } : {}),
+      },
+    ]);
+    setSplitAmount('');
+    setSplitReference('');
+  };
+
+  const handleRemoveSplitPayment = (index: number) => {
+    setPayments((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleComplete = async () => {
+    if (!receiptMethod || !paymentMethod || discountBlocked || !isPaymentCovered) return;
+    // The server records a finished sale as sent, so a debt without a customer must stop here
+    if (usesCredit && !customer) return;
+
+    if (!receiptIdRef.current) {
+      setInvoiceNumberError(null);
+      try {
+        receiptIdRef.current = await takeInvoiceNumber();
+      } catch (error) {
+        setInvoiceNumberError(error instanceof Error ? error.message : 'Gagal mengambil nomor invoice');
+        return;
+      }
+    }
+    const receiptId = receiptIdRef.current;
+
+    // Use the voucher up before the sale is recorded; the database enforces the usage limit
+    if (voucher) {
+      if (voucherBelowMinSpend) {
+        setVoucherError(`${voucherErrorMessages['min_spend']} (min. ${formatRupiah(voucher.minSpend)})`);
+        return;
+      }
+
+      setIsRedeeming(true);
+      setVoucherError(null);
+      receiptIdUsedRef.current = true;
+      try {
+        const { data, error } = await supabase.rpc('redeem_voucher', {
+          _code: voucher.code,
+          _transaction_id: receiptId,
+          _amount: amountBeforeVoucher,
+        });
+        if (error) throw new Error(error.message);
+
+        const result = (data || {}) as { error?: string };
+        if (result.error) {
+          setVoucherError(voucherErrorMessages[result.error] || result.error);
+          setVoucher(null);
+          returnToTenderStep();
+          return;
+        }
+      } catch (error) {
+        console.error('Error redeeming voucher:', error);
+        setVoucherError('Gagal memakai voucher. Periksa koneksi internet lalu coba lagi.');
+        return;
+      } finally {
+        setIsRedeeming(false);
+      }
+    }
+
+    // Spend points the same way; the balance is re-checked in the database
+    let loyalty: LoyaltyPoints | undefined;
+    if (hasLoyaltyPhone) {
+      let balance = loyaltyBalance;
+      if (pointsRedeemed > 0) {
+        setIsRedeeming(true);
+        setLoyaltyError(null);
+        receiptIdUsedRef.current = true;
+        try {
+          const { data, error } = await supabase.rpc('redeem_loyalty_points', {
+            _phone: normalizedLoyaltyPhone,
+            _transaction_id: receiptId,
+            _points: pointsRedeemed,
+          });
+          if (error) throw new Error(error.message);
+
+          const result = (data || {}) as { error?: string; balance?: number };
+          if (result.error) {
+            setLoyaltyError(loyaltyErrorMessages[result.error] || result.error);
+            if (result.balance !== undefined) setLoyaltyBalance(Number(result.balance));
+            setPointsToRedeem('');
+            returnToTenderStep();
+            return;
+          }
+        } catch (error) {
+          console.error('Error redeeming points:', error);
+          setLoyaltyError('Gagal menukar poin. Periksa koneksi internet lalu coba lagi.');
+          return;
+        } finally {
+          setIsRedeeming(false);
+        }
+      } else if (balance === null) {
+        // Not looked up at checkout; fine to skip offline, the points are still earned on sync
+        balance = await fetchLoyaltyBalance(normalizedLoyaltyPhone);
+      }
+
+      loyalty = {
+        phone: normalizedLoyaltyPhone,
+        pointsEarned,
+        pointsRedeemed,
+        pointsDiscount,
+        balance: balance !== null ? balance - pointsRedeemed + pointsEarned : undefined,
+      };
+    }
+
+    const isSplit = paymentMethod === 'Kombinasi';
+    const receiptPayments: PaymentEntry[] = isSplit
+      ? payments
+      : [{
+          method: paymentMethodMap[paymentMethod],
+          amount: paymentMethod === 'Tunai' ? cashValue : total,
+        }];
+    const cashTendered = receiptPayments
+      .filter((p) => p.method === 'cash')
+      .reduce((sum, p) => sum + p.amount, 0);
+    const hasTransfer = receiptPayments.some((p) => p.method === 'transfer');
+    const creditAmount = receiptPayments
+      .filter((p) => p.method === 'credit')
+      .reduce((sum, p) => sum + p.amount, 0);
+    // A split that ended up being one method is recorded as that method
+    const distinctMethods = Array.from(new Set(receiptPayments.map((p) => p.method)));
+
+    const manualDiscount: ManualDiscountInfo | undefined = manualDiscounts.length > 0
+      ? { reason: discountReason.trim(), approvalId: isDiscountApproved ? discountApproval?.id : undefined }
+      : undefined;
 
     const receipt: ReceiptData = {
-      id: generateReceiptId(),
-      items,
+      id: receiptId,
+      items: applyPromotionsToItems(items, promotions).map((item) => ({ ...item, unitPrice: getLinePricing(item).unitPrice })),
       subtotal,
       discount: discountAmount,
-      total,
-      paymentMethod: paymentMethodMap[paymentMethod],
-      cashReceived: paymentMethod === 'Tunai' ? cashValue : undefined,
-      change: paymentMethod === 'Tunai' ? change : undefined,
+      total: total + cashRounding,
+      rounding: cashRounding !== 0 ? cashRounding : undefined,
+      paymentMethod: distinctMethods.length === 1 ? distinctMethods[0] : 'split',
+      payments: receiptPayments,
+      cashReceived: cashTendered > 0 ? cashTendered : undefined,
+      change: cashTendered > 0 ? (isSplit ? splitChange : change) : undefined,
       timestamp: new Date(),
-      customerPhone: receiptMethod === 'whatsapp' ? whatsappNumber : undefined,
+      customerPhone: receiptMethod === 'whatsapp' ? whatsappNumber : customer?.phone,
       customerName: customerName.trim() || undefined,
-      bankInfo: paymentMethod === 'Transfer' && bankInfo ? bankInfo : undefined,
+      customerId: customer?.id,
+      bankInfo: hasTransfer && bankInfo ? bankInfo : undefined,
       storeInfo: storeInfo || undefined,
       printWorkerCopy: receiptMethod === 'bluetooth' ? printWorkerCopy : undefined,
+      promotions: promotions.applied.length > 0 ? promotions.applied : undefined,
+      voucher: voucher && voucherDiscount > 0 ? { code: voucher.code, discount: voucherDiscount } : undefined,
+      loyalty,
+      tax: tax.amount > 0 ? { mode: taxMode, rate: taxRate, base: tax.base, amount: tax.amount } : undefined,
+      serviceCharge: serviceCharge > 0 ? { rate: serviceChargeRate, amount: serviceCharge } : undefined,
+      credit: creditAmount > 0 ? {
+        amount: creditAmount,
+        dueDate: creditDueDate || undefined,
+        outstanding: customerOutstanding !== null ? customerOutstanding + creditAmount : undefined,
+      } : undefined,
+      manualDiscount,
+      cashier: user ? { id: user.id, name: getCashierName(user) } : undefined,
+      shiftId: getOpenShiftId(user?.id),
     };
 
     onComplete(receipt, receiptMethod, receiptMethod === 'whatsapp' ? whatsappNumber : undefined);
+    receiptIdRef.current = null;
     resetAndClose();
   };
 
@@ -168,9 +657,32 @@ export function CheckoutModal({ open, onClose, items, onComplete }: CheckoutModa
     setPaymentMethod(null);
     setCashReceived('');
     setDiscountPercent('');
+    setDiscountReason('');
+    setApprovalPin('');
+    setDiscountApproval(null);
+    setApprovalError(null);
+    setVoucherCode('');
+    setVoucher(null);
+    setVoucherError(null);
+    handleLoyaltyPhoneChange('');
+    setCreditDueDate('');
+    setCustomerOutstanding(null);
+    // Cancelled after a number was taken: the next sale gets it, or it is voided on the server
+    // (giving back a voucher or points redeemed against it) so the series has no silent gaps
+    if (receiptIdRef.current) {
+      void releaseInvoiceNumber(receiptIdRef.current, { redeemed: receiptIdUsedRef.current });
+    }
+    receiptIdRef.current = null;
+    receiptIdUsedRef.current = false;
+    setInvoiceNumberError(null);
+    setPayments([]);
+    setSplitMethod('cash');
+    setSplitAmount('');
+    setSplitReference('');
     setReceiptMethod(null);
     setWhatsappNumber('');
     setCustomerName('');
+    setCustomer(null);
     onClose();
   };
 
@@ -181,11 +693,22 @@ export function CheckoutModal({ open, onClose, items, onComplete }: CheckoutModa
     } else if (step === 'payment-details') {
       setStep('payment');
       setPaymentMethod(null);
+    } else if (step === 'credit') {
+      setStep('payment');
+      setPaymentMethod(null);
+    } else if (step === 'split') {
+      setStep('payment');
+      setPaymentMethod(null);
+      setPayments([]);
     } else if (step === 'receipt') {
       if (paymentMethod === 'Tunai') {
         setStep('cash');
       } else if (paymentMethod === 'QRIS' || paymentMethod === 'Transfer') {
         setStep('payment-details');
+      } else if (paymentMethod === 'Hutang') {
+        setStep('credit');
+      } else if (paymentMethod === 'Kombinasi') {
+        setStep('split');
       } else {
         setStep('payment');
         setPaymentMethod(null);
@@ -193,9 +716,30 @@ export function CheckoutModal({ open, onClose, items, onComplete }: CheckoutModa
     }
   };
 
+  // F12 runs the current step's primary button; defaults to cash on the first step
+  useHotkeys({
+    F12: () => {
+      if (step === 'payment') handlePaymentSelect('Tunai');
+      else if (step === 'cash') handleCashConfirm();
+      else if (step === 'payment-details') handlePaymentDetailsConfirm();
+      else if (step === 'credit' && customer) setStep('receipt');
+      else if (step === 'split' && canContinueSplit) setStep('receipt');
+      else if (step === 'receipt' && canComplete) handleComplete();
+    },
+  }, open);
+
   return (
     <Dialog open={open} onOpenChange={resetAndClose}>
-      <DialogContent className="max-w-[95vw] sm:max-w-md md:max-w-lg max-h-[85vh] landscape:max-h-[75vh] overflow-hidden flex flex-col bg-card border-border">
+      <DialogContent
+        className="max-w-[95vw] sm:max-w-md md:max-w-lg max-h-[85vh] landscape:max-h-[75vh] overflow-hidden flex flex-col bg-card border-border"
+        onEscapeKeyDown={(e) => {
+          // Esc steps back first and only closes from the first step
+          if (step !== 'payment') {
+            e.preventDefault();
+            goBack();
+          }
+        }}
+      >
         <DialogHeader className="flex-shrink-0">
           <div className="flex items-center gap-2">
             {step !== 'payment' && (
@@ -206,7 +750,9 @@ export function CheckoutModal({ open, onClose, items, onComplete }: CheckoutModa
             <DialogTitle>
               {step === 'payment' && 'Pilih Pembayaran'}
               {step === 'cash' && 'Pembayaran Tunai'}
+              {step === 'credit' && 'Pembayaran Hutang'}
               {step === 'payment-details' && (paymentMethod === 'QRIS' ? 'Pembayaran QRIS' : 'Pembayaran Transfer')}
+              {step === 'split' && 'Pembayaran Kombinasi'}
               {step === 'receipt' && 'Kirim Struk'}
             </DialogTitle>
           </div>
@@ -217,26 +763,89 @@ export function CheckoutModal({ open, onClose, items, onComplete }: CheckoutModa
         {/* Customer Name & Total Display */}
         <div className="bg-secondary/50 rounded-xl p-4 mb-4">
           <div className="mb-3">
-            <label className="text-sm text-muted-foreground mb-1 block">Nama Pelanggan (Opsional)</label>
-            <Input
-              type="text"
-              value={customerName}
-              onChange={(e) => setCustomerName(e.target.value)}
-              onFocus={(e) => {
-                setTimeout(() => {
-                  e.target.scrollIntoView({ behavior: 'smooth', block: 'center' });
-                }, 300);
-              }}
-              enterKeyHint="done"
-              onKeyDown={(e) => {
-                if (e.key === 'Enter') {
-                  (e.target as HTMLInputElement).blur();
-                }
-              }}
-              placeholder="Masukkan nama pelanggan..."
-              className="h-10"
-            />
+            <label className="text-sm text-muted-foreground mb-1 block">Pelanggan (Opsional)</label>
+            {customer ? (
+              <div className="flex items-center gap-2 h-10 px-3 rounded-md border border-primary/40 bg-primary/5">
+                <UserCheck className="w-4 h-4 text-primary flex-shrink-0" />
+                <span className="font-medium truncate">{customer.name}</span>
+                {customer.phone && <span className="text-xs text-muted-foreground font-mono">{customer.phone}</span>}
+                {customer.type === 'reseller' && (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-pos-bulk/20 text-pos-bulk">
+                    {customerTypeLabels[customer.type]}
+                  </span>
+                )}
+                <button
+                  onClick={handleClearCustomer}
+                  className="ml-auto p-1 hover:text-destructive"
+                  aria-label="Hapus pelanggan"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ) : (
+              <div className="relative">
+                <Input
+                  type="text"
+                  value={customerName}
+                  onChange={(e) => setCustomerName(e.target.value)}
+                  onFocus={(e) => {
+                    setIsCustomerFocused(true);
+                    setTimeout(() => {
+                      e.target.scrollIntoView({ behavior: 'smooth', block: 'center' });
+                    }, 300);
+                  }}
+                  // Delay so a click on a suggestion lands before the list closes
+                  onBlur={() => setTimeout(() => setIsCustomerFocused(false), 150)}
+                  enterKeyHint="done"
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      if (customerResults.length === 1) {
+                        handleSelectCustomer(customerResults[0]);
+                      }
+                      (e.target as HTMLInputElement).blur();
+                    }
+                  }}
+                  placeholder="Cari nama / no. HP atau ketik nama baru..."
+                  className="h-10"
+                />
+                {isCustomerFocused && (customerResults.length > 0 || isSearchingCustomers) && (
+                  <div className="absolute z-50 left-0 right-0 mt-1 rounded-lg border border-border bg-popover shadow-lg max-h-56 overflow-y-auto">
+                    {isSearchingCustomers && customerResults.length === 0 ? (
+                      <div className="flex justify-center py-3">
+                        <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                      </div>
+                    ) : (
+                      customerResults.map((result) => (
+                        <button
+                          key={result.id}
+                          onMouseDown={(e) => e.preventDefault()}
+                          onClick={() => handleSelectCustomer(result)}
+                          className="w-full flex items-center justify-between gap-2 px-3 py-2 text-left hover:bg-secondary"
+                        >
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium truncate">{result.name}</p>
+                            {result.phone && <p className="text-xs text-muted-foreground font-mono">{result.phone}</p>}
+                          </div>
+                          <span className="text-xs text-muted-foreground flex-shrink-0">
+                            {customerTypeLabels[result.type]}
+                          </span>
+                        </button>
+                      ))
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
+          {promotions.applied.map((promo) => (
+            <div key={promo.id} className="flex items-center justify-between mb-1 text-sm text-green-600">
+              <p className="flex items-center gap-1">
+                <Tag className="w-3.5 h-3.5" />
+                {promo.name}
+              </p>
+              <p className="font-mono">-{formatRupiah(promo.discount)}</p>
+            </div>
+          ))}
           <div className="flex items-center justify-between mb-2">
             <p className="text-sm text-muted-foreground">Subtotal</p>
             <p className="font-mono text-lg">{formatRupiah(subtotal)}</p>
@@ -256,9 +865,151 @@ export function CheckoutModal({ open, onClose, items, onComplete }: CheckoutModa
               <span className="text-sm text-pos-retail">-{formatRupiah(discountAmount)}</span>
             )}
           </div>
+          {voucher ? (
+            <div className="flex items-center justify-between mb-2 text-sm">
+              <span className="flex items-center gap-1 px-2 py-1 rounded-lg bg-primary/10 text-primary font-mono">
+                <Ticket className="w-3.5 h-3.5" />
+                {voucher.code}
+                {step === 'payment' && (
+                  <button onClick={handleRemoveVoucher} className="ml-1 hover:text-destructive" aria-label="Hapus voucher">
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </span>
+              {voucherBelowMinSpend ? (
+                <span className="text-xs text-destructive">Min. belanja {formatRupiah(voucher.minSpend)}</span>
+              ) : (
+                <span className="font-mono text-pos-retail">-{formatRupiah(voucherDiscount)}</span>
+              )}
+            </div>
+          ) : step === 'payment' && (
+            <div className="flex items-center gap-2 mb-2">
+              <Input
+                value={voucherCode}
+                onChange={(e) => {
+                  setVoucherCode(e.target.value.toUpperCase());
+                  setVoucherError(null);
+                }}
+                onKeyDown={(e) => {
+                  // Scanners send Enter after the code
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleApplyVoucher();
+                  }
+                }}
+                enterKeyHint="done"
+                placeholder="Kode voucher"
+                className="h-8 font-mono text-sm uppercase"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8"
+                onClick={handleApplyVoucher}
+                disabled={!voucherCode.trim() || isCheckingVoucher}
+              >
+                {isCheckingVoucher ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Pakai'}
+              </Button>
+            </div>
+          )}
+          {voucherError && (
+            <p className="text-xs text-destructive mb-2">{voucherError}</p>
+          )}
+          {loyaltyEnabled && (step === 'payment' ? (
+            <div className="mb-2 space-y-2">
+              <div className="flex items-center gap-2">
+                <Input
+                  type="tel"
+                  inputMode="tel"
+                  value={loyaltyPhone}
+                  onChange={(e) => handleLoyaltyPhoneChange(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && isValidLoyaltyPhone(normalizedLoyaltyPhone)) {
+                      e.preventDefault();
+                      fetchLoyaltyBalance(normalizedLoyaltyPhone);
+                    }
+                  }}
+                  enterKeyHint="done"
+                  placeholder="No. HP member poin"
+                  className="h-8 font-mono text-sm"
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8"
+                  onClick={() => fetchLoyaltyBalance(normalizedLoyaltyPhone)}
+                  disabled={!isValidLoyaltyPhone(normalizedLoyaltyPhone) || isCheckingPoints}
+                >
+                  {isCheckingPoints ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Cek Poin'}
+                </Button>
+              </div>
+              {hasLoyaltyPhone && loyaltyBalance !== null && (
+                <div className="flex items-center gap-2 text-sm">
+                  <Gift className="w-3.5 h-3.5 text-primary flex-shrink-0" />
+                  <span className="text-muted-foreground">
+                    Saldo {loyaltyBalance} poin ({formatRupiah(loyaltyBalance * loyaltyPointValue)})
+                  </span>
+                  {maxRedeemablePoints > 0 && (
+                    <>
+                      <input
+                        type="number"
+                        min="0"
+                        max={maxRedeemablePoints}
+                        value={pointsToRedeem}
+                        onChange={(e) => setPointsToRedeem(e.target.value)}
+                        placeholder="0"
+                        className="w-16 h-8 px-2 ml-auto rounded-lg bg-background border border-border text-center font-mono text-sm"
+                      />
+                      <button
+                        onClick={() => setPointsToRedeem(String(maxRedeemablePoints))}
+                        className="text-xs text-primary hover:underline"
+                      >
+                        Semua
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+              {pointsDiscount > 0 && (
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">Tukar {pointsRedeemed} poin</span>
+                  <span className="font-mono text-pos-retail">-{formatRupiah(pointsDiscount)}</span>
+                </div>
+              )}
+            </div>
+          ) : pointsDiscount > 0 && (
+            <div className="flex items-center justify-between mb-2 text-sm">
+              <span className="flex items-center gap-1 text-muted-foreground">
+                <Gift className="w-3.5 h-3.5" />
+                Tukar {pointsRedeemed} poin
+              </span>
+              <span className="font-mono text-pos-retail">-{formatRupiah(pointsDiscount)}</span>
+            </div>
+          ))}
+          {loyaltyError && (
+            <p className="text-xs text-destructive mb-2">{loyaltyError}</p>
+          )}
+          {serviceCharge > 0 && (
+            <div className="flex items-center justify-between mb-2 text-sm">
+              <span className="text-muted-foreground">Service {serviceChargeRate}%</span>
+              <span className="font-mono">+{formatRupiah(serviceCharge)}</span>
+            </div>
+          )}
+          {tax.amount > 0 && taxMode === 'exclusive' && (
+            <div className="flex items-center justify-between mb-2 text-sm">
+              <span className="text-muted-foreground">PPN {taxRate}%</span>
+              <span className="font-mono">+{formatRupiah(tax.amount)}</span>
+            </div>
+          )}
           <div className="border-t border-border pt-2">
             <p className="text-sm text-muted-foreground">Total Pembayaran</p>
             <p className="font-mono text-3xl font-bold text-primary">{formatRupiah(total)}</p>
+            {tax.amount > 0 && taxMode === 'inclusive' && (
+              <p className="text-xs text-muted-foreground">Termasuk PPN {taxRate}% {formatRupiah(tax.amount)}</p>
+            )}
+            {pointsEarned > 0 && (
+              <p className="text-xs text-muted-foreground">+{pointsEarned} poin untuk {normalizedLoyaltyPhone}</p>
+            )}
           </div>
         </div>
 
@@ -301,6 +1052,219 @@ export function CheckoutModal({ open, onClose, items, onComplete }: CheckoutModa
                 <p className="text-sm text-muted-foreground">Transfer Bank</p>
               </div>
             </button>
+            <button
+              onClick={() => handlePaymentSelect('Hutang')}
+              className="flex items-center gap-4 p-4 rounded-xl bg-secondary/50 hover:bg-secondary transition-colors text-left"
+            >
+              <div className="w-12 h-12 rounded-xl bg-amber-500/20 flex items-center justify-center">
+                <NotebookPen className="w-6 h-6 text-amber-500" />
+              </div>
+              <div>
+                <p className="font-semibold">Hutang</p>
+                <p className="text-sm text-muted-foreground">Bayar nanti, khusus pelanggan terdaftar</p>
+              </div>
+            </button>
+            <button
+              onClick={() => handlePaymentSelect('Kombinasi')}
+              className="flex items-center gap-4 p-4 rounded-xl bg-secondary/50 hover:bg-secondary transition-colors text-left"
+            >
+              <div className="w-12 h-12 rounded-xl bg-orange-500/20 flex items-center justify-center">
+                <Layers className="w-6 h-6 text-orange-400" />
+              </div>
+              <div>
+                <p className="font-semibold">Kombinasi</p>
+                <p className="text-sm text-muted-foreground">Gabungan Tunai, QRIS, Transfer & Hutang</p>
+              </div>
+            </button>
+          </div>
+        )}
+
+        {/* Split Payment */}
+        {step === 'split' && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="bg-secondary/50 rounded-xl p-3">
+                <p className="text-xs text-muted-foreground">Sudah Dibayar</p>
+                <p className="font-mono text-lg font-semibold">{formatRupiah(paidAmount)}</p>
+              </div>
+              <div className={`rounded-xl p-3 ${remainingAmount > 0 ? 'bg-destructive/10' : 'bg-pos-retail/10'}`}>
+                <p className="text-xs text-muted-foreground">{remainingAmount > 0 ? 'Sisa' : 'Kembalian'}</p>
+                <p className={`font-mono text-lg font-semibold ${remainingAmount > 0 ? 'text-destructive' : 'text-pos-retail'}`}>
+                  {formatRupiah(remainingAmount > 0 ? remainingAmount : splitChange)}
+                </p>
+              </div>
+            </div>
+
+            {payments.length > 0 && (
+              <div className="space-y-2">
+                {payments.map((p, index) => (
+                  <div key={index} className="flex items-center justify-between gap-2 p-3 rounded-xl bg-secondary/50">
+                    <div className="min-w-0">
+                      <p className="font-medium text-sm">{paymentCodeLabels[p.method]}</p>
+                      {p.reference && (
+                        <p className="text-xs text-muted-foreground truncate">Ref: {p.reference}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono font-semibold">{formatRupiah(p.amount)}</span>
+                      <button
+                        onClick={() => handleRemoveSplitPayment(index)}
+                        className="p-1 rounded-lg hover:bg-destructive/20 text-muted-foreground hover:text-destructive transition-colors"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {remainingAmount > 0 && (
+              <div className="space-y-3 p-3 rounded-xl border border-border">
+                <div className="grid grid-cols-4 gap-2">
+                  {(['cash', 'qris', 'transfer', 'credit'] as PaymentMethodCode[]).map((method) => (
+                    <button
+                      key={method}
+                      onClick={() => setSplitMethod(method)}
+                      className={`h-10 rounded-lg border-2 text-sm font-medium transition-all ${
+                        splitMethod === method
+                          ? 'border-primary bg-primary/10'
+                          : 'border-border hover:border-primary/50'
+                      }`}
+                    >
+                      {paymentCodeLabels[method]}
+                    </button>
+                  ))}
+                </div>
+
+                <div className="flex gap-2">
+                  <Input
+                    type="text"
+                    inputMode="numeric"
+                    enterKeyHint="done"
+                    value={splitAmount ? formatRupiah(splitAmountValue) : ''}
+                    onChange={(e) => setSplitAmount(e.target.value.replace(/\D/g, ''))}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        handleAddSplitPayment();
+                      }
+                    }}
+                    placeholder={formatRupiah(remainingAmount)}
+                    className="h-12 text-lg font-mono"
+                  />
+                  <button
+                    onClick={() => setSplitAmount(remainingAmount.toString())}
+                    className="px-4 rounded-lg bg-primary/20 hover:bg-primary/30 text-primary text-sm font-medium transition-colors"
+                  >
+                    Sisa
+                  </button>
+                </div>
+
+                {splitMethod === 'credit' && !customer && (
+                  <p className="text-sm text-destructive">Pilih pelanggan terdaftar di kolom Pelanggan untuk memakai hutang</p>
+                )}
+
+                {splitMethod !== 'cash' && splitMethod !== 'credit' && (
+                  <Input
+                    type="text"
+                    value={splitReference}
+                    onChange={(e) => setSplitReference(e.target.value)}
+                    placeholder="No. referensi (opsional)"
+                    className="h-10"
+                    maxLength={50}
+                  />
+                )}
+
+                {splitMethod === 'qris' && qrisImageUrl && (
+                  <div className="w-40 h-40 mx-auto border border-border rounded-lg overflow-hidden bg-white flex items-center justify-center">
+                    <img src={qrisImageUrl} alt="QRIS" className="max-w-full max-h-full object-contain" />
+                  </div>
+                )}
+
+                {splitMethod === 'transfer' && bankInfo && (bankInfo.bankName || bankInfo.accountNumber) && (
+                  <p className="text-sm text-muted-foreground">
+                    {bankInfo.bankName} · <span className="font-mono">{bankInfo.accountNumber}</span> · {bankInfo.accountHolder}
+                  </p>
+                )}
+
+                <Button
+                  variant="outline"
+                  onClick={handleAddSplitPayment}
+                  disabled={splitAmountValue <= 0 || (splitMethod === 'credit' && !customer)}
+                  className="w-full h-11"
+                >
+                  Tambah Pembayaran
+                </Button>
+              </div>
+            )}
+
+            {payments.some((p) => p.method === 'credit') && (
+              <div>
+                <label className="text-sm text-muted-foreground mb-1 block">Jatuh Tempo Hutang (Opsional)</label>
+                <Input
+                  type="date"
+                  value={creditDueDate}
+                  onChange={(e) => setCreditDueDate(e.target.value)}
+                  className="h-10"
+                />
+              </div>
+            )}
+
+            <Button
+              onClick={() => setStep('receipt')}
+              disabled={!canContinueSplit}
+              className="w-full h-12"
+              size="lg"
+            >
+              Lanjutkan
+            </Button>
+          </div>
+        )}
+
+        {/* Credit (hutang) */}
+        {step === 'credit' && (
+          <div className="space-y-4">
+            {customer ? (
+              <div className="bg-secondary/50 rounded-xl p-4 space-y-1">
+                <p className="text-sm text-muted-foreground">Dicatat sebagai hutang atas nama</p>
+                <p className="font-semibold">{customer.name}</p>
+                <div className="flex items-center justify-between text-sm pt-2">
+                  <span className="text-muted-foreground">Hutang sebelumnya</span>
+                  <span className="font-mono">
+                    {customerOutstanding !== null ? formatRupiah(customerOutstanding) : '-'}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between text-sm font-semibold">
+                  <span>Total hutang setelah transaksi</span>
+                  <span className="font-mono text-destructive">
+                    {customerOutstanding !== null ? formatRupiah(customerOutstanding + total) : formatRupiah(total)}
+                  </span>
+                </div>
+              </div>
+            ) : (
+              <div className="rounded-xl p-4 bg-destructive/10 text-sm text-destructive">
+                Hutang hanya untuk pelanggan terdaftar. Cari dan pilih pelanggan di kolom Pelanggan di atas.
+              </div>
+            )}
+
+            <div>
+              <label className="text-sm text-muted-foreground mb-1 block">Jatuh Tempo (Opsional)</label>
+              <Input
+                type="date"
+                value={creditDueDate}
+                onChange={(e) => setCreditDueDate(e.target.value)}
+                className="h-12"
+              />
+            </div>
+
+            <Button
+              onClick={() => setStep('receipt')}
+              disabled={!customer}
+              className="w-full h-12"
+              size="lg"
+            >
+              Lanjutkan
+            </Button>
           </div>
         )}
 
@@ -342,14 +1306,23 @@ export function CheckoutModal({ open, onClose, items, onComplete }: CheckoutModa
                 </button>
               ))}
               <button
-                onClick={() => setCashReceived(total.toString())}
+                onClick={() => setCashReceived(cashDue.toString())}
                 className="px-4 py-2 rounded-lg bg-primary/20 hover:bg-primary/30 text-primary text-sm font-medium transition-colors"
               >
                 Pas
               </button>
             </div>
 
-            {cashValue >= total && (
+            {cashRounding !== 0 && (
+              <div className="flex items-center justify-between text-sm bg-secondary/50 rounded-xl px-4 py-3">
+                <span className="text-muted-foreground">
+                  Pembulatan {cashRounding > 0 ? '+' : '-'}{formatRupiah(Math.abs(cashRounding))}
+                </span>
+                <span className="font-mono font-semibold">Bayar {formatRupiah(cashDue)}</span>
+              </div>
+            )}
+
+            {cashValue >= cashDue && (
               <div className="bg-pos-retail/10 rounded-xl p-4 border border-pos-retail/20">
                 <p className="text-sm text-muted-foreground">Kembalian</p>
                 <p className="font-mono text-2xl font-bold text-pos-retail">
@@ -360,7 +1333,7 @@ export function CheckoutModal({ open, onClose, items, onComplete }: CheckoutModa
 
             <Button
               onClick={handleCashConfirm}
-              disabled={cashValue < total}
+              disabled={cashValue < cashDue}
               className="w-full h-12"
               size="lg"
             >
@@ -569,12 +1542,80 @@ export function CheckoutModal({ open, onClose, items, onComplete }: CheckoutModa
               </div>
             )}
 
+            {manualDiscounts.length > 0 && (
+              <div className="p-3 rounded-xl bg-secondary/50 space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">Diskon manual</span>
+                  <span className="font-mono">
+                    {formatRupiah(manualDiscounts.reduce((sum, d) => sum + d.amount, 0))} (maks. {maxDiscountPercent}%)
+                  </span>
+                </div>
+                <Input
+                  value={discountReason}
+                  onChange={(e) => setDiscountReason(e.target.value)}
+                  placeholder="Alasan diskon (wajib)"
+                  maxLength={200}
+                  className="h-10"
+                />
+
+                {needsDiscountApproval && (
+                  isDiscountApproved ? (
+                    <p className="flex items-center gap-1.5 text-xs text-green-600">
+                      <ShieldCheck className="w-4 h-4" />
+                      Disetujui oleh {discountApproval?.approver}
+                    </p>
+                  ) : (
+                    <div className="space-y-2">
+                      <p className="text-xs text-destructive">
+                        Melebihi batas diskon {discountLimit}%, perlu persetujuan admin
+                      </p>
+                      <div className="flex gap-2">
+                        {userRole !== 'admin' && (
+                          <div className="relative flex-1">
+                            <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                            <Input
+                              type="password"
+                              inputMode="numeric"
+                              autoComplete="off"
+                              value={approvalPin}
+                              onChange={(e) => setApprovalPin(e.target.value.replace(/\D/g, ''))}
+                              placeholder="PIN admin"
+                              maxLength={8}
+                              className="h-10 pl-9 font-mono tracking-widest"
+                            />
+                          </div>
+                        )}
+                        <Button
+                          variant="outline"
+                          onClick={handleApproveDiscount}
+                          disabled={isApproving || discountReason.trim().length < 3 || (userRole !== 'admin' && approvalPin.length < 4)}
+                          className="h-10"
+                        >
+                          {isApproving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                          Setujui
+                        </Button>
+                      </div>
+                      {approvalError && <p className="text-xs text-destructive">{approvalError}</p>}
+                    </div>
+                  )
+                )}
+              </div>
+            )}
+
+            {!isPaymentCovered && (
+              <p className="text-sm text-destructive">
+                Pembayaran kurang dari total {formatRupiah(paymentMethod === 'Tunai' ? cashDue : total)}. Ubah jumlah pembayaran dulu.
+              </p>
+            )}
+            {invoiceNumberError && <p className="text-sm text-destructive">{invoiceNumberError}</p>}
+
             <Button
               onClick={handleComplete}
-              disabled={!receiptMethod || (receiptMethod === 'whatsapp' && !whatsappNumber)}
+              disabled={!canComplete}
               className="w-full h-12 pos-glow"
               size="lg"
             >
+              {isRedeeming && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
               Selesaikan Transaksi
             </Button>
           </div>
@@ -0,0 +1,199 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Product } from '@/types/pos';
+import { Dialog, DialogContent } from '@/components/ui/dialog';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { POS_HOTKEYS } from '@/hooks/useHotkeys';
+import { ProductSearchIndex, searchProducts } from '@/utils/productSearch';
+import { Package, History, ShoppingCart, PauseCircle, ArrowLeftRight, Users, Plus } from 'lucide-react';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  searchIndex: ProductSearchIndex;
+  pricingMode: 'retail' | 'grosir';
+  canCheckout: boolean;
+  onAddProduct: (product: Product, quantity: number, variantCode?: string, variantName?: string) => void;
+  onTogglePricing: () => void;
+  onCheckout: () => void;
+  onHoldCart: () => void;
+  onNavigate: (path: string) => void;
+}
+
+interface ProductOption {
+  key: string;
+  product: Product;
+  variantCode?: string;
+  variantName?: string;
+  price: number;
+  stock: number;
+}
+
+const MAX_RESULTS = 30;
+
+const formatRupiah = (num: number) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(num);
+};
+
+// "3*kabel", "3x kabel" or just "kabel"
+const parseQuery = (value: string): { quantity: number; term: string } => {
+  const match = value.match(/^\s*(\d+)\s*[*x×]\s*(.*)$/i);
+  if (match) {
+    return { quantity: Math.max(1, parseInt(match[1], 10)), term: match[2].trim().toLowerCase() };
+  }
+  return { quantity: 1, term: value.trim().toLowerCase() };
+};
+
+export function CommandPalette({
+  open,
+  onOpenChange,
+  searchIndex,
+  pricingMode,
+  canCheckout,
+  onAddProduct,
+  onTogglePricing,
+  onCheckout,
+  onHoldCart,
+  onNavigate,
+}: CommandPaletteProps) {
+  const [query, setQuery] = useState('');
+  const { quantity, term } = parseQuery(query);
+
+  useEffect(() => {
+    if (!open) setQuery('');
+  }, [open]);
+
+  // One option per sellable variant, or the product itself when it has none
+  const productOptions = useMemo(() => {
+    if (!term) return [];
+    const options: ProductOption[] = [];
+    for (const product of searchProducts(searchIndex, term)) {
+      const variants = (product.variants || []).filter((v) => v.code?.trim() || v.name?.trim());
+
+      if (variants.length === 0) {
+        options.push({
+          key: product.id,
+          product,
+          price: pricingMode === 'grosir' ? product.bulkPrice : product.retailPrice,
+          stock: product.stock,
+        });
+      } else {
+        for (const variant of variants) {
+          options.push({
+            key: `${product.id}-${variant.code}`,
+            product,
+            variantCode: variant.code,
+            variantName: variant.name,
+            price: pricingMode === 'grosir'
+              ? variant.bulkPrice ?? product.bulkPrice
+              : variant.retailPrice ?? product.retailPrice,
+            stock: variant.stock,
+          });
+        }
+      }
+      if (options.length >= MAX_RESULTS) break;
+    }
+    return options.slice(0, MAX_RESULTS);
+  }, [searchIndex, term, pricingMode]);
+
+  const actions = [
+    {
+      id: 'pricing',
+      label: pricingMode === 'retail' ? 'Ganti ke harga grosir' : 'Ganti ke harga eceran',
+      icon: ArrowLeftRight,
+      shortcut: 'F4',
+      onSelect: onTogglePricing,
+    },
+    ...(canCheckout ? [
+      { id: 'checkout', label: 'Bayar', icon: ShoppingCart, shortcut: 'F12', onSelect: onCheckout },
+      { id: 'hold', label: 'Tahan keranjang', icon: PauseCircle, shortcut: 'F8', onSelect: onHoldCart },
+    ] : []),
+    { id: 'inventory', label: 'Buka Inventory', icon: Package, onSelect: () => onNavigate('/inventory') },
+    { id: 'transactions', label: 'Buka Riwayat Transaksi', icon: History, onSelect: () => onNavigate('/transactions') },
+    { id: 'customers', label: 'Buka Pelanggan', icon: Users, onSelect: () => onNavigate('/customers') },
+  ].filter((action) => !term || action.label.toLowerCase().includes(term));
+
+  const run = (action: () => void) => {
+    onOpenChange(false);
+    action();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg sm:max-w-xl">
+        {/* Filtering is done here so "3*kabel" still matches kabel */}
+        <Command
+          shouldFilter={false}
+          className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2.5"
+        >
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder="Cari produk atau perintah... (contoh: 3*kabel)"
+          />
+          <CommandList className="max-h-[60vh]">
+            <CommandEmpty>Tidak ada hasil</CommandEmpty>
+
+            {productOptions.length > 0 && (
+              <CommandGroup heading={`Tambah ke keranjang${quantity > 1 ? ` (${quantity}x)` : ''}`}>
+                {productOptions.map((option) => (
+                  <CommandItem
+                    key={option.key}
+                    value={option.key}
+                    disabled={option.stock <= 0}
+                    onSelect={() => run(() => onAddProduct(option.product, quantity, option.variantCode, option.variantName))}
+                  >
+                    <Plus className="mr-2 h-4 w-4 text-muted-foreground" />
+                    <div className="flex-1 min-w-0">
+                      <p className="truncate">
+                        {option.product.name}
+                        {option.variantName && <span className="text-muted-foreground"> [{option.variantName}]</span>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {option.stock > 0 ? `Stok ${option.stock}` : 'Stok habis'}
+                      </p>
+                    </div>
+                    <span className="font-mono text-sm">{formatRupiah(option.price)}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {actions.length > 0 && (
+              <CommandGroup heading="Perintah">
+                {actions.map((action) => (
+                  <CommandItem key={action.id} value={action.id} onSelect={() => run(action.onSelect)}>
+                    <action.icon className="mr-2 h-4 w-4" />
+                    <span>{action.label}</span>
+                    {action.shortcut && <CommandShortcut>{action.shortcut}</CommandShortcut>}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+
+          <CommandSeparator />
+          <div className="flex flex-wrap gap-x-4 gap-y-1 px-4 py-2 text-xs text-muted-foreground">
+            {POS_HOTKEYS.map((hotkey) => (
+              <span key={hotkey.keys}>
+                <kbd className="font-mono font-semibold">{hotkey.keys}</kbd> {hotkey.label}
+              </span>
+            ))}
+          </div>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,43 @@
+import { useState } from 'react';
+import { Monitor, ExternalLink } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { getCustomerDisplayCode } from '@/hooks/useCustomerDisplay';
+
+// Header button: open the customer display here or pair a separate tablet with the code
+export function CustomerDisplayButton() {
+  const [code] = useState(getCustomerDisplayCode);
+  const displayPath = `/customer-display?code=${code}`;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-2 px-2 sm:px-3 h-9 sm:h-9"
+          title="Layar Pelanggan"
+        >
+          <Monitor className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-3">
+        <div>
+          <p className="font-semibold">Layar Pelanggan</p>
+          <p className="text-xs text-muted-foreground">
+            Untuk tablet terpisah, masuk dengan akun kasir, buka {window.location.host}/customer-display dan masukkan kode ini.
+          </p>
+        </div>
+        <p className="font-mono text-3xl font-bold tracking-widest text-center text-primary">{code}</p>
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => window.open(displayPath, 'customer-display', 'popup')}
+        >
+          <ExternalLink className="w-4 h-4 mr-2" />
+          Buka di jendela baru
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,278 @@
+import { useMemo, useState } from 'react';
+import { FavoriteItem, Product } from '@/types/pos';
+import { MAX_FAVORITES } from '@/hooks/useFavorites';
+import { ProductSearchIndex, searchProducts } from '@/utils/productSearch';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { cn } from '@/lib/utils';
+import { Plus, X, Star, Pencil, Check, Loader2 } from 'lucide-react';
+
+interface FavoritesGridProps {
+  favorites: FavoriteItem[];
+  loading?: boolean;
+  searchIndex: ProductSearchIndex;
+  pricingMode: 'retail' | 'grosir';
+  onAdd: (product: Product, quantity: number, variantCode?: string, variantName?: string) => void;
+  onAddFavorite: (productId: string, variantCode?: string) => Promise<boolean>;
+  onRemoveFavorite: (id: string) => void;
+  onReorder: (orderedIds: string[]) => void;
+}
+
+interface Tile {
+  favorite: FavoriteItem;
+  product?: Product;            // Missing when the product was removed from the sheet
+  variantName?: string;
+  price: number;
+  stock: number;
+}
+
+const PICKER_LIMIT = 30;
+
+const formatRupiah = (num: number) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(num);
+};
+
+const realVariants = (product: Product) =>
+  (product.variants || []).filter((v) => v.code?.trim() || v.name?.trim());
+
+export function FavoritesGrid({
+  favorites,
+  loading,
+  searchIndex,
+  pricingMode,
+  onAdd,
+  onAddFavorite,
+  onRemoveFavorite,
+  onReorder,
+}: FavoritesGridProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [pickerQuery, setPickerQuery] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const isGrosir = pricingMode === 'grosir';
+
+  const tiles = useMemo(() => {
+    const byId = new Map(searchIndex.products.map((p) => [p.id, p]));
+    return favorites.map((favorite): Tile => {
+      const product = byId.get(favorite.productId);
+      const variant = favorite.variantCode
+        ? product?.variants?.find((v) => v.code === favorite.variantCode)
+        : undefined;
+      if (!product || (favorite.variantCode && !variant)) {
+        return { favorite, price: 0, stock: 0 };
+      }
+      return {
+        favorite,
+        product,
+        variantName: variant?.name,
+        price: isGrosir
+          ? variant?.bulkPrice ?? product.bulkPrice
+          : variant?.retailPrice ?? product.retailPrice,
+        stock: variant ? variant.stock : product.stock,
+      };
+    });
+  }, [favorites, searchIndex, isGrosir]);
+
+  // Products without variants, or each variant on its own, minus what's already pinned
+  const pickerOptions = useMemo(() => {
+    if (!pickerQuery.trim()) return [];
+    const pinned = new Set(favorites.map((f) => `${f.productId}|${f.variantCode || ''}`));
+    const options: { product: Product; variantCode?: string; variantName?: string }[] = [];
+    for (const product of searchProducts(searchIndex, pickerQuery)) {
+      const variants = realVariants(product);
+      if (variants.length === 0) {
+        if (!pinned.has(`${product.id}|`)) options.push({ product });
+      } else {
+        for (const variant of variants) {
+          if (!pinned.has(`${product.id}|${variant.code}`)) {
+            options.push({ product, variantCode: variant.code, variantName: variant.name });
+          }
+        }
+      }
+      if (options.length >= PICKER_LIMIT) break;
+    }
+    return options.slice(0, PICKER_LIMIT);
+  }, [pickerQuery, searchIndex, favorites]);
+
+  const moveFavorite = (fromId: string, toId: string) => {
+    if (fromId === toId) return;
+    const ids = favorites.map((f) => f.id);
+    const from = ids.indexOf(fromId);
+    const to = ids.indexOf(toId);
+    if (from < 0 || to < 0) return;
+    ids.splice(to, 0, ...ids.splice(from, 1));
+    onReorder(ids);
+  };
+
+  const handleTileClick = (tile: Tile) => {
+    if (isEditing) {
+      // Tap one tile, then another to move it there (drag-and-drop also works with a mouse)
+      if (!selectedId) {
+        setSelectedId(tile.favorite.id);
+      } else {
+        moveFavorite(selectedId, tile.favorite.id);
+        setSelectedId(null);
+      }
+      return;
+    }
+    if (!tile.product || tile.stock <= 0) return;
+    onAdd(tile.product, 1, tile.favorite.variantCode, tile.variantName);
+  };
+
+  const handlePick = async (productId: string, variantCode?: string) => {
+    setIsAdding(true);
+    const added = await onAddFavorite(productId, variantCode);
+    setIsAdding(false);
+    if (added) {
+      setPickerOpen(false);
+      setPickerQuery('');
+    }
+  };
+
+  const toggleEditing = () => {
+    setIsEditing((prev) => !prev);
+    setSelectedId(null);
+  };
+
+  if (loading && favorites.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {isEditing
+            ? selectedId
+              ? 'Ketuk posisi tujuan untuk memindahkan'
+              : 'Seret atau ketuk dua kotak untuk mengatur urutan'
+            : `${favorites.length}/${MAX_FAVORITES} favorit`}
+        </p>
+        <Button variant={isEditing ? 'default' : 'outline'} size="sm" onClick={toggleEditing}>
+          {isEditing ? <Check className="w-4 h-4 mr-2" /> : <Pencil className="w-4 h-4 mr-2" />}
+          {isEditing ? 'Selesai' : 'Atur'}
+        </Button>
+      </div>
+
+      {favorites.length === 0 && !isEditing ? (
+        <div className="text-center py-16 text-muted-foreground">
+          <Star className="w-12 h-12 mx-auto mb-3 opacity-40" />
+          <p>Belum ada favorit</p>
+          <p className="text-sm">Tekan Atur untuk menambahkan produk yang sering dijual</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-3 sm:grid-cols-4 lg:grid-cols-5 gap-2">
+          {tiles.map((tile) => {
+            const unavailable = !tile.product || tile.stock <= 0;
+            return (
+              <div
+                key={tile.favorite.id}
+                draggable={isEditing}
+                onDragStart={() => setDraggedId(tile.favorite.id)}
+                onDragOver={(e) => isEditing && e.preventDefault()}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  if (draggedId) moveFavorite(draggedId, tile.favorite.id);
+                  setDraggedId(null);
+                }}
+                onDragEnd={() => setDraggedId(null)}
+                className="relative"
+              >
+                <button
+                  onClick={() => handleTileClick(tile)}
+                  disabled={!isEditing && unavailable}
+                  className={cn(
+                    'w-full h-24 rounded-xl border-2 p-2 text-left flex flex-col justify-between transition-all',
+                    'bg-card hover:border-primary/50 active:scale-[0.97]',
+                    'disabled:opacity-40 disabled:active:scale-100',
+                    selectedId === tile.favorite.id || draggedId === tile.favorite.id
+                      ? 'border-primary bg-primary/10'
+                      : 'border-border',
+                    isEditing && 'cursor-move'
+                  )}
+                >
+                  <span className="text-sm font-medium leading-tight line-clamp-2">
+                    {tile.product ? tile.product.name : 'Produk tidak ditemukan'}
+                    {tile.variantName && <span className="text-muted-foreground"> [{tile.variantName}]</span>}
+                  </span>
+                  <span className="flex items-end justify-between gap-1">
+                    <span className="font-mono text-xs font-semibold text-primary">
+                      {tile.product ? formatRupiah(tile.price) : '-'}
+                    </span>
+                    {tile.product && tile.stock <= 10 && (
+                      <span className={cn('text-[10px]', tile.stock <= 0 ? 'text-destructive' : 'text-muted-foreground')}>
+                        {tile.stock <= 0 ? 'Habis' : `Sisa ${tile.stock}`}
+                      </span>
+                    )}
+                  </span>
+                </button>
+                {isEditing && (
+                  <button
+                    onClick={() => onRemoveFavorite(tile.favorite.id)}
+                    className="absolute top-1 right-1 p-0.5 rounded-full bg-destructive text-destructive-foreground"
+                    aria-label="Hapus favorit"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+
+          {isEditing && favorites.length < MAX_FAVORITES && (
+            <button
+              onClick={() => setPickerOpen(true)}
+              className="h-24 rounded-xl border-2 border-dashed border-border hover:border-primary/50 text-muted-foreground flex flex-col items-center justify-center gap-1 text-sm"
+            >
+              <Plus className="w-5 h-5" />
+              Tambah
+            </button>
+          )}
+        </div>
+      )}
+
+      <Dialog open={pickerOpen} onOpenChange={(open) => !isAdding && setPickerOpen(open)}>
+        <DialogContent className="overflow-hidden p-0 sm:max-w-lg">
+          <DialogHeader className="px-4 pt-4">
+            <DialogTitle>Tambah Favorit</DialogTitle>
+          </DialogHeader>
+          <Command shouldFilter={false}>
+            <CommandInput value={pickerQuery} onValueChange={setPickerQuery} placeholder="Cari produk..." />
+            <CommandList className="max-h-[50vh]">
+              {pickerQuery.trim() && <CommandEmpty>Produk tidak ditemukan</CommandEmpty>}
+              {pickerOptions.length > 0 && (
+                <CommandGroup>
+                  {pickerOptions.map((option) => (
+                    <CommandItem
+                      key={`${option.product.id}-${option.variantCode || ''}`}
+                      value={`${option.product.id}-${option.variantCode || ''}`}
+                      disabled={isAdding}
+                      onSelect={() => handlePick(option.product.id, option.variantCode)}
+                    >
+                      <Star className="mr-2 h-4 w-4 text-muted-foreground" />
+                      <span className="flex-1 truncate">
+                        {option.product.name}
+                        {option.variantName && <span className="text-muted-foreground"> [{option.variantName}]</span>}
+                      </span>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
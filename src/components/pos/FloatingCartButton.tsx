@@ -4,6 +4,7 @@ import { cn } from "@/lib/utils";
 interface FloatingCartButtonProps {
   itemCount: number;
   total: number;
+  heldCount?: number;
   onClick: () => void;
 }
 
@@ -15,8 +16,9 @@ const formatRupiah = (num: number) => {
   }).format(num);
 };
 
-export function FloatingCartButton({ itemCount, total, onClick }: FloatingCartButtonProps) {
-  if (itemCount === 0) return null;
+export function FloatingCartButton({ itemCount, total, heldCount = 0, onClick }: FloatingCartButtonProps) {
+  // Stay visible while carts are parked so they can still be resumed on mobile
+  if (itemCount === 0 && heldCount === 0) return null;
 
   return (
     <button
@@ -38,6 +40,11 @@ export function FloatingCartButton({ itemCount, total, onClick }: FloatingCartBu
           </span>
         </div>
         <span className="font-semibold">Lihat Keranjang</span>
+        {heldCount > 0 && (
+          <span className="text-xs bg-primary-foreground/20 px-2 py-0.5 rounded-full">
+            {heldCount} ditahan
+          </span>
+        )}
       </div>
       <span className="font-mono font-bold text-lg">
         {formatRupiah(total)}
@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { HeldCart } from '@/types/pos';
+import { PauseCircle, PlayCircle, Trash2, Clock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { getLineTotal } from '@/utils/pricing';
+
+interface HeldCartsMenuProps {
+  heldCarts: HeldCart[];
+  canHold: boolean;
+  onHold: (label: string) => void;
+  onResume: (id: string) => void;
+  onDelete: (id: string) => void;
+  className?: string;
+}
+
+const formatRupiah = (num: number) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(num);
+};
+
+const getHeldCartTotal = (cart: HeldCart) => {
+  return cart.items.reduce((sum, item) => sum + getLineTotal(item), 0);
+};
+
+export function HeldCartsMenu({ heldCarts, canHold, onHold, onResume, onDelete, className }: HeldCartsMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [label, setLabel] = useState('');
+
+  const handleHold = () => {
+    onHold(label);
+    setLabel('');
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={cn('h-7 gap-1.5 px-2 text-xs', className)}
+        >
+          <PauseCircle className="w-3.5 h-3.5" />
+          Ditahan
+          {heldCarts.length > 0 && (
+            <span className="font-mono font-semibold text-primary">{heldCarts.length}</span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-3 space-y-3">
+        {/* Park current cart */}
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">Tahan keranjang saat ini</p>
+          <div className="flex gap-2">
+            <Input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && canHold) handleHold();
+              }}
+              placeholder="Nama pelanggan / catatan"
+              className="h-8 text-sm"
+              maxLength={50}
+              disabled={!canHold}
+            />
+            <Button size="sm" className="h-8" onClick={handleHold} disabled={!canHold}>
+              Tahan
+            </Button>
+          </div>
+        </div>
+
+        {/* Parked carts */}
+        <div className="border-t border-border pt-3 space-y-2">
+          {heldCarts.length === 0 ? (
+            <p className="text-xs text-muted-foreground text-center py-2">Belum ada keranjang ditahan</p>
+          ) : (
+            <div className="max-h-64 overflow-y-auto space-y-2">
+              {heldCarts.map((cart) => (
+                <div key={cart.id} className="flex items-center gap-2 bg-secondary/50 rounded-lg p-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{cart.label}</p>
+                    <p className="text-[11px] text-muted-foreground flex items-center gap-1">
+                      <Clock className="w-3 h-3" />
+                      {new Date(cart.heldAt).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}
+                      {' · '}
+                      {cart.items.length} item
+                      {' · '}
+                      <span className="font-mono">{formatRupiah(getHeldCartTotal(cart))}</span>
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => {
+                      onResume(cart.id);
+                      setOpen(false);
+                    }}
+                    className="p-1.5 rounded-lg hover:bg-primary/20 text-primary transition-colors"
+                    title="Lanjutkan"
+                  >
+                    <PlayCircle className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => onDelete(cart.id)}
+                    className="p-1.5 rounded-lg hover:bg-destructive/20 text-muted-foreground hover:text-destructive transition-colors"
+                    title="Hapus"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,5 +1,5 @@
-import { CartItem } from '@/types/pos';
-import { Minus, Plus, Trash2, ShoppingCart } from 'lucide-react';
+import { CartItem, HeldCart } from '@/types/pos';
+import { Minus, Plus, Trash2, ShoppingCart, Tag } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import {
@@ -8,6 +8,9 @@ import {
   SheetHeader,
   SheetTitle,
 } from "@/components/ui/sheet";
+import { HeldCartsMenu } from './HeldCartsMenu';
+import { getLinePricing, getLineTotal } from '@/utils/pricing';
+import { EMPTY_PROMOTION_RESULT, PromotionResult, getCartLineKey } from '@/utils/promotions';
 
 interface MobileCartSheetProps {
   open: boolean;
@@ -19,6 +22,11 @@ interface MobileCartSheetProps {
   onRemove: (productId: string, priceType: 'retail' | 'bulk', variantCode?: string) => void;
   onClear: () => void;
   onCheckout: () => void;
+  heldCarts: HeldCart[];
+  onHoldCart: (label: string) => void;
+  onResumeCart: (id: string) => void;
+  onDeleteHeldCart: (id: string) => void;
+  promotions?: PromotionResult;
 }
 
 const formatRupiah = (num: number) => {
@@ -38,14 +46,14 @@ export function MobileCartSheet({
   onSetDiscount,
   onRemove, 
   onClear, 
-  onCheckout 
+  onCheckout,
+  heldCarts,
+  onHoldCart,
+  onResumeCart,
+  onDeleteHeldCart,
+  promotions = EMPTY_PROMOTION_RESULT,
 }: MobileCartSheetProps) {
-  const subtotal = items.reduce((sum, item) => {
-    const price = item.priceType === 'retail' ? item.product.retailPrice : item.product.bulkPrice;
-    const discount = item.discount || 0;
-    const discountedTotal = (price * item.quantity) - discount;
-    return sum + Math.max(0, discountedTotal);
-  }, 0);
+  const subtotal = items.reduce((sum, item) => sum + getLineTotal(item), 0) - promotions.total;
 
   const totalItems = items.length;
 
@@ -72,14 +80,23 @@ export function MobileCartSheet({
               <p className="text-sm text-muted-foreground">
                 {totalItems} item{totalItems !== 1 ? 's' : ''}
               </p>
-              {items.length > 0 && (
-                <button
-                  onClick={onClear}
-                  className="text-xs text-destructive hover:text-destructive/80 transition-colors px-2 py-1 rounded-md hover:bg-destructive/10"
-                >
-                  Hapus Semua
-                </button>
-              )}
+              <div className="flex items-center gap-2">
+                {items.length > 0 && (
+                  <button
+                    onClick={onClear}
+                    className="text-xs text-destructive hover:text-destructive/80 transition-colors px-2 py-1 rounded-md hover:bg-destructive/10"
+                  >
+                    Hapus Semua
+                  </button>
+                )}
+                <HeldCartsMenu
+                  heldCarts={heldCarts}
+                  canHold={items.length > 0}
+                  onHold={onHoldCart}
+                  onResume={onResumeCart}
+                  onDelete={onDeleteHeldCart}
+                />
+              </div>
             </div>
           </SheetHeader>
 
@@ -93,14 +110,16 @@ export function MobileCartSheet({
               </div>
             ) : (
             items.map((item) => {
-                const price = item.priceType === 'retail' ? item.product.retailPrice : item.product.bulkPrice;
+                const { unitPrice, tier } = getLinePricing(item);
                 const discount = item.discount || 0;
-                const originalTotal = price * item.quantity;
+                const originalTotal = unitPrice * item.quantity;
                 const itemTotal = Math.max(0, originalTotal - discount);
                 const maxStock = getMaxStock(item);
                 
                 // Generate unique key for cart item (includes variant)
-                const itemKey = `${item.product.id}-${item.priceType}${item.variantCode ? `-${item.variantCode}` : ''}`;
+                const itemKey = getCartLineKey(item);
+                const linePromos = promotions.lines[itemKey] || [];
+                const promoDiscount = linePromos.reduce((sum, p) => sum + p.discount, 0);
                 
                 return (
                   <div 
@@ -122,6 +141,11 @@ export function MobileCartSheet({
                         }`}>
                           {item.priceType === 'retail' ? 'Eceran' : 'Grosir'}
                         </span>
+                        {tier && (
+                          <span className="text-xs px-2 py-0.5 ml-1 rounded-full bg-primary/15 text-primary">
+                            {tier.minQty}+ @{formatRupiah(unitPrice)}
+                          </span>
+                        )}
                       </div>
                       <button
                         onClick={() => onRemove(item.product.id, item.priceType, item.variantCode)}
@@ -178,15 +202,30 @@ export function MobileCartSheet({
                       </div>
                       <div className="text-right">
                         <span className="font-mono text-sm font-semibold">
-                          {formatRupiah(itemTotal)}
+                          {formatRupiah(Math.max(0, itemTotal - promoDiscount))}
                         </span>
-                        {discount > 0 && (
+                        {(discount > 0 || promoDiscount > 0) && (
                           <div className="text-xs text-muted-foreground line-through">
                             {formatRupiah(originalTotal)}
                           </div>
                         )}
                       </div>
                     </div>
+
+                    {/* Automatic promotions on this line */}
+                    {linePromos.length > 0 && (
+                      <div className="mt-2 space-y-0.5">
+                        {linePromos.map((promo) => (
+                          <div key={promo.id} className="flex items-center justify-between gap-2 text-xs text-green-600">
+                            <span className="flex items-center gap-1 truncate">
+                              <Tag className="w-3 h-3 shrink-0" />
+                              {promo.name}
+                            </span>
+                            <span className="font-mono">-{formatRupiah(promo.discount)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 );
               })
@@ -195,6 +234,15 @@ export function MobileCartSheet({
 
           {/* Footer */}
           <div className="p-4 border-t border-border space-y-4 pb-safe">
+            {promotions.total > 0 && (
+              <div className="flex items-center justify-between text-sm text-green-600">
+                <span className="flex items-center gap-1">
+                  <Tag className="w-4 h-4" />
+                  Promo
+                </span>
+                <span className="font-mono">-{formatRupiah(promotions.total)}</span>
+              </div>
+            )}
             <div className="flex items-center justify-between">
               <span className="text-muted-foreground">Subtotal</span>
               <span className="font-mono text-xl font-bold text-foreground">
@@ -7,6 +7,7 @@ import { Download, Printer, Check, MessageCircle, AlertTriangle, Bluetooth, Load
 import { QRCodeSVG } from 'qrcode.react';
 import { useAppSettings } from '@/hooks/useAppSettings';
 import { useBluetoothPrinter } from '@/hooks/useBluetoothPrinter';
+import { getLinePricing } from '@/utils/pricing';
 
 interface ReceiptDisplayProps {
   open: boolean;
@@ -27,6 +28,8 @@ const paymentMethodLabels: Record<string, string> = {
   'cash': 'Tunai',
   'qris': 'QRIS',
   'transfer': 'Transfer Bank',
+  'credit': 'Hutang',
+  'split': 'Kombinasi',
 };
 
 export function ReceiptDisplay({ open, onClose, receipt, deliveryMethod }: ReceiptDisplayProps) {
@@ -82,26 +85,48 @@ export function ReceiptDisplay({ open, onClose, receipt, deliveryMethod }: Recei
       '',
       '--------------------------------',
       ...receipt.items.map(item => {
-        const price = item.priceType === 'retail' ? item.product.retailPrice : item.product.bulkPrice;
-        return `${item.product.name}\n  ${item.quantity} x ${formatRupiah(price)} = ${formatRupiah(price * item.quantity)}`;
+        const { unitPrice: price, tier } = getLinePricing(item);
+        const tierNote = tier ? ` (Harga ${tier.minQty}+)` : '';
+        return `${item.product.name}\n  ${item.quantity} x ${formatRupiah(price)}${tierNote} = ${formatRupiah(price * item.quantity)}`;
       }),
       '--------------------------------',
+      ...(receipt.promotions || []).map(p => `Promo ${p.name}: -${formatRupiah(p.discount)}`),
       `Subtotal: ${formatRupiah(receipt.subtotal)}`,
       ...(receipt.discount > 0 ? [`Diskon: -${formatRupiah(receipt.discount)}`] : []),
+      ...(receipt.voucher ? [`Voucher ${receipt.voucher.code}: -${formatRupiah(receipt.voucher.discount)}`] : []),
+      ...(receipt.loyalty && receipt.loyalty.pointsDiscount > 0
+        ? [`Tukar ${receipt.loyalty.pointsRedeemed} poin: -${formatRupiah(receipt.loyalty.pointsDiscount)}`]
+        : []),
+      ...(receipt.serviceCharge ? [`Service ${receipt.serviceCharge.rate}%: ${formatRupiah(receipt.serviceCharge.amount)}`] : []),
+      ...(receipt.tax?.mode === 'exclusive' ? [`PPN ${receipt.tax.rate}%: ${formatRupiah(receipt.tax.amount)}`] : []),
+      ...(receipt.rounding ? [`Pembulatan: ${receipt.rounding < 0 ? '-' : ''}${formatRupiah(Math.abs(receipt.rounding))}`] : []),
       `TOTAL: ${formatRupiah(receipt.total)}`,
+      ...(receipt.tax?.mode === 'inclusive' ? [`Termasuk PPN ${receipt.tax.rate}%: ${formatRupiah(receipt.tax.amount)}`] : []),
       '',
       `Pembayaran: ${paymentLabel}`,
+      ...(receipt.payments && receipt.payments.length > 1
+        ? receipt.payments.map(p =>
+            `  ${paymentMethodLabels[p.method] || p.method}: ${formatRupiah(p.amount)}${p.reference ? ` (Ref: ${p.reference})` : ''}`
+          )
+        : []),
       ...(receipt.cashReceived ? [
         `Tunai: ${formatRupiah(receipt.cashReceived)}`,
         `Kembalian: ${formatRupiah(receipt.change || 0)}`
       ] : []),
-      ...(receipt.paymentMethod === 'transfer' && receipt.bankInfo ? [
+      ...(receipt.credit?.dueDate ? [`Jatuh tempo: ${new Date(receipt.credit.dueDate).toLocaleDateString('id-ID')}`] : []),
+      ...(receipt.credit?.outstanding !== undefined ? [`Sisa hutang: ${formatRupiah(receipt.credit.outstanding)}`] : []),
+      ...(receipt.bankInfo && (receipt.paymentMethod === 'transfer' || receipt.payments?.some(p => p.method === 'transfer')) ? [
         '',
         'Transfer ke:',
         `Bank: ${receipt.bankInfo.bankName}`,
         `No. Rek: ${receipt.bankInfo.accountNumber}`,
         `A/N: ${receipt.bankInfo.accountHolder}`,
       ] : []),
+      ...(receipt.loyalty ? [
+        '',
+        ...(receipt.loyalty.pointsEarned > 0 ? [`Poin didapat: +${receipt.loyalty.pointsEarned}`] : []),
+        ...(receipt.loyalty.balance !== undefined ? [`Saldo poin: ${receipt.loyalty.balance}`] : []),
+      ] : []),
       '',
       '================================',
       '      Terima Kasih!',
@@ -0,0 +1,420 @@
+import { useState, useEffect, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { CartItem, PaymentMethodCode, ReturnItem, ReturnReceiptData } from '@/types/pos';
+import { useAuth } from '@/hooks/useAuth';
+import { getOpenShiftId } from '@/hooks/useShift';
+import { useToast } from '@/hooks/use-toast';
+import { useGoogleSheets } from '@/hooks/useGoogleSheets';
+import { useBluetoothPrinter } from '@/hooks/useBluetoothPrinter';
+import { getChargedUnitPrice } from '@/utils/pricing';
+import { broadcastProductsUpdated } from '@/utils/productEvents';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Loader2, Minus, Plus, Undo2 } from 'lucide-react';
+
+export interface ReturnableTransaction {
+  id: string;
+  items: Json;
+  subtotal: number;
+  discount: number;
+  voucher_discount: number;
+  points_discount: number;
+  total: number;
+  customer_name: string | null;
+  customer_phone: string | null;
+  payments?: Json;
+}
+
+interface ReturnDialogProps {
+  open: boolean;
+  onClose: () => void;
+  transaction: ReturnableTransaction | null;
+  storeInfo?: { name?: string; address: string; phone: string };
+  onCompleted: (returnData: ReturnReceiptData, stockRestored: boolean) => void;
+}
+
+interface ReturnableLine {
+  key: string;
+  productId: string;
+  productName: string;
+  variantCode?: string;
+  variantName?: string;
+  priceType: 'retail' | 'bulk';
+  soldQuantity: number;
+  returnedQuantity: number;
+  unitRefund: number;
+}
+
+const formatRupiah = (num: number) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(num);
+};
+
+const refundMethodLabels: Record<PaymentMethodCode, string> = {
+  'cash': 'Tunai',
+  'qris': 'QRIS',
+  'transfer': 'Transfer',
+  'credit': 'Potong Hutang',
+};
+
+// A return can only be taken off the debt when the sale was (partly) on credit
+const hasCreditTender = (payments?: Json) =>
+  Array.isArray(payments) && payments.some((p) => !!p && typeof p === 'object' && !Array.isArray(p) && p.method === 'credit');
+
+const getLineKey = (productId: string, priceType: string, variantCode?: string) =>
+  `${productId}|${priceType}|${variantCode || ''}`;
+
+export function ReturnDialog({ open, onClose, transaction, storeInfo, onCompleted }: ReturnDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { recordReturn } = useGoogleSheets();
+  const { isConnected, printReturnReceipt } = useBluetoothPrinter();
+
+  const [previousReturns, setPreviousReturns] = useState<{ items: Json }[]>([]);
+  const [creditBalance, setCreditBalance] = useState(0);   // Still owed on this sale's receivable
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [refundMethod, setRefundMethod] = useState<PaymentMethodCode>('cash');
+  const [reason, setReason] = useState('');
+  const [printSlip, setPrintSlip] = useState(true);
+
+  // Load earlier returns so the same units can't be returned twice, and what is still owed
+  // on a credit sale so a refund off the debt never exceeds it
+  useEffect(() => {
+    if (!open || !transaction) return;
+
+    const fetchReturns = async () => {
+      setIsLoading(true);
+      const [returnsResult, receivableResult] = await Promise.all([
+        supabase
+          .from('transaction_returns')
+          .select('items')
+          .eq('transaction_id', transaction.id),
+        hasCreditTender(transaction.payments)
+          ? supabase
+            .from('receivables')
+            .select('amount, paid_amount')
+            .eq('transaction_id', transaction.id)
+            .is('cancelled_at', null)
+            .maybeSingle()
+          : Promise.resolve({ data: null, error: null }),
+      ]);
+
+      if (returnsResult.error) {
+        console.error('Error fetching returns:', returnsResult.error);
+      }
+      if (receivableResult.error) {
+        console.error('Error fetching receivable:', receivableResult.error);
+      }
+      setPreviousReturns(returnsResult.data || []);
+      const receivable = receivableResult.data;
+      setCreditBalance(receivable ? Math.max(0, Number(receivable.amount) - Number(receivable.paid_amount)) : 0);
+      setIsLoading(false);
+    };
+
+    setQuantities({});
+    setRefundMethod('cash');
+    setReason('');
+    setCreditBalance(0);
+    fetchReturns();
+  }, [open, transaction]);
+
+  const lines = useMemo<ReturnableLine[]>(() => {
+    if (!transaction || !Array.isArray(transaction.items)) return [];
+
+    const returnedByKey = new Map<string, number>();
+    for (const ret of previousReturns) {
+      if (!Array.isArray(ret.items)) continue;
+      for (const item of ret.items as unknown as ReturnItem[]) {
+        const key = getLineKey(item.productId, item.priceType || 'retail', item.variantCode);
+        returnedByKey.set(key, (returnedByKey.get(key) || 0) + (Number(item.quantity) || 0));
+      }
+    }
+
+    // Spread the order-level discounts (manual, voucher, points) over the lines, as check_return
+    // does; PPN added on top, the service charge and cash rounding aren't paid back
+    const orderDiscounts = (Number(transaction.discount) || 0) + (Number(transaction.voucher_discount) || 0)
+      + (Number(transaction.points_discount) || 0);
+    const orderRatio = transaction.subtotal > 0
+      ? Math.max(0, transaction.subtotal - orderDiscounts) / transaction.subtotal
+      : 0;
+
+    return (transaction.items as unknown as Partial<CartItem>[]).map((item) => {
+      const priceType = item.priceType === 'bulk' ? 'bulk' : 'retail';
+      const quantity = Number(item.quantity) || 0;
+      // Refund at the unit price charged at checkout, not today's price
+      const price = item.product
+        ? getChargedUnitPrice({ product: item.product, quantity, priceType, variantCode: item.variantCode, unitPrice: item.unitPrice })
+        : 0;
+      const lineNet = Math.max(0, price * quantity - (Number(item.discount) || 0) - (Number(item.promoDiscount) || 0));
+      const productId = item.product?.id || '';
+      const key = getLineKey(productId, priceType, item.variantCode);
+
+      return {
+        key,
+        productId,
+        productName: item.product?.name || 'Unknown Item',
+        variantCode: item.variantCode,
+        variantName: item.variantName,
+        priceType,
+        soldQuantity: quantity,
+        returnedQuantity: returnedByKey.get(key) || 0,
+        unitRefund: quantity > 0 ? (lineNet * orderRatio) / quantity : 0,
+      };
+    });
+  }, [transaction, previousReturns]);
+
+  const selectedItems: ReturnItem[] = lines
+    .filter((line) => (quantities[line.key] || 0) > 0)
+    .map((line) => {
+      const quantity = quantities[line.key];
+      return {
+        productId: line.productId,
+        productName: line.productName,
+        ...(line.variantCode ? { variantCode: line.variantCode } : {}),
+        ...(line.variantName ? { variantName: line.variantName } : {}),
+        priceType: line.priceType,
+        quantity,
+        amount: Math.round(line.unitRefund * quantity),
+      };
+    });
+
+  const totalRefund = selectedItems.reduce((sum, item) => sum + item.amount, 0);
+  const refundMethods: PaymentMethodCode[] = creditBalance > 0
+    ? ['cash', 'qris', 'transfer', 'credit']
+    : ['cash', 'qris', 'transfer'];
+  // Only what is still owed can come off the debt; the rest has to be paid out
+  const creditExceeded = refundMethod === 'credit' && totalRefund > creditBalance;
+
+  const setLineQuantity = (line: ReturnableLine, value: number) => {
+    const max = Math.max(0, line.soldQuantity - line.returnedQuantity);
+    setQuantities((prev) => ({ ...prev, [line.key]: Math.min(Math.max(0, value), max) }));
+  };
+
+  const handleSubmit = async () => {
+    if (!transaction || selectedItems.length === 0 || creditExceeded) return;
+
+    if (!reason.trim()) {
+      toast({
+        title: 'Alasan wajib diisi',
+        description: 'Tuliskan alasan retur',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    const returnData: ReturnReceiptData = {
+      // The invoice prefix is configurable, so only the default one is swapped for RET-
+      id: `RET-${transaction.id.replace(/^INV-/, '')}-${previousReturns.length + 1}`,
+      originalId: transaction.id,
+      items: selectedItems,
+      totalRefund,
+      refundMethod,
+      reason: reason.trim(),
+      timestamp: new Date(),
+      customerName: transaction.customer_name || undefined,
+      customerPhone: transaction.customer_phone || undefined,
+    };
+
+    try {
+      // Database first - its primary key stops the same return being recorded twice, and it
+      // checks the quantities and prices the refund; what it settled on goes on the slip
+      const { data: saved, error: dbError } = await supabase
+        .from('transaction_returns')
+        .insert([{
+          id: returnData.id,
+          transaction_id: returnData.originalId,
+          items: JSON.parse(JSON.stringify(returnData.items)),
+          total_refund: returnData.totalRefund,
+          refund_method: returnData.refundMethod,
+          reason: returnData.reason,
+          created_by: user?.id ?? null,
+          shift_id: getOpenShiftId(user?.id) ?? null,
+          created_at: returnData.timestamp.toISOString(),
+        }])
+        .select('items, total_refund')
+        .single();
+
+      if (dbError) throw new Error(dbError.message);
+      returnData.items = saved.items as unknown as ReturnItem[];
+      returnData.totalRefund = Number(saved.total_refund);
+
+      // Left unrestored on the server when this fails, so it can be retried from Transactions
+      const restocked = await recordReturn(returnData.id);
+      if (restocked) {
+        // Let the POS/Inventory pick up the restocked quantities
+        broadcastProductsUpdated({ source: 'return' });
+
+        toast({
+          title: 'Retur tersimpan',
+          description: `Refund ${formatRupiah(returnData.totalRefund)} via ${refundMethodLabels[refundMethod]}`,
+        });
+      } else {
+        toast({
+          title: 'Retur tersimpan, stok belum kembali',
+          description: 'Gagal memperbarui Google Sheets. Ulangi dengan Kembalikan Stok Retur di detail transaksi.',
+          variant: 'destructive',
+        });
+      }
+
+      if (printSlip && isConnected) {
+        await printReturnReceipt(returnData, storeInfo);
+      }
+
+      onCompleted(returnData, !!restocked);
+      onClose();
+    } catch (err) {
+      console.error('Error recording return:', err);
+      toast({
+        title: 'Gagal menyimpan retur',
+        description: err instanceof Error ? err.message : 'Coba lagi nanti',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && !isSubmitting && onClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Undo2 className="w-5 h-5" />
+            Retur Transaksi
+          </DialogTitle>
+        </DialogHeader>
+
+        {transaction && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground font-mono">{transaction.id}</p>
+
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {lines.map((line) => {
+                  const remaining = Math.max(0, line.soldQuantity - line.returnedQuantity);
+                  const quantity = quantities[line.key] || 0;
+                  return (
+                    <div key={line.key} className="flex items-center gap-3 p-3 rounded-xl bg-secondary/50">
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-sm truncate">
+                          {line.productName}
+                          {line.variantName && (
+                            <span className="text-muted-foreground ml-1">[{line.variantName}]</span>
+                          )}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Terjual {line.soldQuantity}
+                          {line.returnedQuantity > 0 && ` · sudah diretur ${line.returnedQuantity}`}
+                          {' · '}
+                          {formatRupiah(Math.round(line.unitRefund))}/pcs
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <button
+                          onClick={() => setLineQuantity(line, quantity - 1)}
+                          disabled={quantity <= 0}
+                          className="w-7 h-7 rounded-lg bg-secondary hover:bg-secondary/80 flex items-center justify-center transition-colors disabled:opacity-30"
+                        >
+                          <Minus className="w-3 h-3" />
+                        </button>
+                        <Input
+                          type="number"
+                          value={quantity}
+                          onChange={(e) => setLineQuantity(line, parseInt(e.target.value) || 0)}
+                          className="w-14 h-7 text-center font-mono text-sm px-1"
+                          min={0}
+                          max={remaining}
+                          disabled={remaining === 0}
+                        />
+                        <button
+                          onClick={() => setLineQuantity(line, quantity + 1)}
+                          disabled={quantity >= remaining}
+                          className="w-7 h-7 rounded-lg bg-secondary hover:bg-secondary/80 flex items-center justify-center transition-colors disabled:opacity-30"
+                        >
+                          <Plus className="w-3 h-3" />
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">Refund via</label>
+              <div className={`grid gap-2 ${refundMethods.length > 3 ? 'grid-cols-4' : 'grid-cols-3'}`}>
+                {refundMethods.map((method) => (
+                  <button
+                    key={method}
+                    onClick={() => setRefundMethod(method)}
+                    className={`h-10 rounded-lg border-2 text-sm font-medium transition-all ${
+                      refundMethod === method
+                        ? 'border-primary bg-primary/10'
+                        : 'border-border hover:border-primary/50'
+                    }`}
+                  >
+                    {refundMethodLabels[method]}
+                  </button>
+                ))}
+              </div>
+              {refundMethod === 'credit' && (
+                <p className={`text-xs mt-2 ${creditExceeded ? 'text-destructive' : 'text-muted-foreground'}`}>
+                  Sisa hutang {formatRupiah(creditBalance)}
+                  {creditExceeded && '; refund melebihi sisa hutang, pilih metode lain atau kurangi barang'}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">Alasan</label>
+              <Input
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Barang rusak, salah ukuran, dll"
+                maxLength={200}
+              />
+            </div>
+
+            {isConnected && (
+              <div className="flex items-center justify-between p-3 rounded-xl bg-secondary/50">
+                <p className="text-sm font-medium">Cetak nota retur</p>
+                <Switch checked={printSlip} onCheckedChange={setPrintSlip} />
+              </div>
+            )}
+
+            <div className="flex items-center justify-between border-t border-border pt-3">
+              <span className="text-muted-foreground">Total Refund</span>
+              <span className="font-mono text-xl font-bold text-destructive">
+                {formatRupiah(totalRefund)}
+              </span>
+            </div>
+
+            <Button
+              onClick={handleSubmit}
+              disabled={isSubmitting || selectedItems.length === 0 || creditExceeded}
+              className="w-full h-12"
+              variant="destructive"
+            >
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Proses Retur
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,3 +1,4 @@
+import { RefObject } from 'react';
 import { Search, X, RefreshCw } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
@@ -7,14 +8,16 @@ interface SearchBarProps {
   onChange: (value: string) => void;
   onRefresh?: () => void;
   isRefreshing?: boolean;
+  inputRef?: RefObject<HTMLInputElement>;
 }
 
-export function SearchBar({ value, onChange, onRefresh, isRefreshing }: SearchBarProps) {
+export function SearchBar({ value, onChange, onRefresh, isRefreshing, inputRef }: SearchBarProps) {
   return (
     <div className="relative flex gap-2">
       <div className="relative flex-1">
         <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
         <Input
+          ref={inputRef}
           type="text"
           inputMode="search"
           enterKeyHint="search"
@@ -26,7 +29,7 @@ export function SearchBar({ value, onChange, onRefresh, isRefreshing }: SearchBa
               (e.target as HTMLInputElement).blur();
             }
           }}
-          placeholder="Cari produk..."
+          placeholder="Cari produk... (F2)"
           className="pl-12 pr-10 h-12 bg-secondary/50 border-border text-base"
         />
         {value && (
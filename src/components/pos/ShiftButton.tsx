@@ -0,0 +1,477 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useShift, fetchShiftReport, CASH_DENOMINATIONS } from '@/hooks/useShift';
+import { useBluetoothPrinter } from '@/hooks/useBluetoothPrinter';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { ShiftReportData } from '@/types/pos';
+import { Clock, Loader2, Printer, ArrowDownToLine, ArrowUpFromLine, Lock, CloudOff } from 'lucide-react';
+
+interface ShiftButtonProps {
+  pendingCount: number;                 // Offline sales not yet in the database
+  onSync: () => Promise<number>;        // Returns how many are still pending
+}
+
+type Step = 'overview' | 'count' | 'closed';
+
+const formatRupiah = (num: number) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(num);
+};
+
+const formatThousands = (digits: string) =>
+  digits ? Number(digits).toLocaleString('id-ID') : '';
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' });
+
+const paymentLabels: Record<string, string> = {
+  cash: 'Tunai (diterima)',
+  qris: 'QRIS',
+  transfer: 'Debit/Kredit',
+  credit: 'Hutang',
+};
+
+// Store address/phone for the printed report (same settings as receipts)
+const getStoreInfoForPrint = async (): Promise<{ address: string; phone: string }> => {
+  const { data } = await supabase.from('app_settings').select('key, value');
+  const settings = (data || []).reduce((acc, item) => {
+    acc[item.key] = item.value || '';
+    return acc;
+  }, {} as Record<string, string>);
+  return {
+    address: settings['store_address'] || 'Jl. Raya No. 88, Jakarta',
+    phone: settings['store_phone'] || '(021) 1234-5678',
+  };
+};
+
+function CashBreakdown({ report }: { report: ShiftReportData }) {
+  const rows: [string, number][] = [
+    ['Modal awal', report.openingFloat],
+    ['+ Penjualan tunai', report.cashSales],
+    ['- Kembalian', -report.changeGiven],
+    ['+ Bayar hutang tunai', report.debtPayments],
+    ['+ Kas masuk', report.cashIn],
+    ['- Kas keluar', -report.cashOut],
+    ['- Refund tunai', -report.cashRefunds],
+    ['- Void tunai', -report.voidRefunds],
+  ];
+
+  return (
+    <div className="rounded-lg bg-secondary/30 p-3 text-sm space-y-1">
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Penjualan ({report.salesCount}x)</span>
+        <span className="font-mono">{formatRupiah(report.salesTotal)}</span>
+      </div>
+      {Object.entries(report.payments).map(([method, amount]) => (
+        <div key={method} className="flex justify-between text-xs text-muted-foreground pl-3">
+          <span>{paymentLabels[method] || method}</span>
+          <span className="font-mono">{formatRupiah(amount)}</span>
+        </div>
+      ))}
+      <div className="border-t border-border my-2" />
+      {rows.map(([label, amount]) => (
+        <div key={label} className="flex justify-between">
+          <span className="text-muted-foreground">{label}</span>
+          <span className="font-mono">{formatRupiah(Math.abs(amount))}</span>
+        </div>
+      ))}
+      <div className="flex justify-between font-semibold pt-1 border-t border-border">
+        <span>Seharusnya di laci</span>
+        <span className="font-mono">{formatRupiah(report.expectedCash)}</span>
+      </div>
+    </div>
+  );
+}
+
+function VarianceLine({ variance }: { variance: number }) {
+  return (
+    <div className={`flex justify-between font-semibold ${variance === 0 ? 'text-success' : 'text-destructive'}`}>
+      <span>{variance === 0 ? 'Selisih (pas)' : variance < 0 ? 'Selisih (kurang)' : 'Selisih (lebih)'}</span>
+      <span className="font-mono">{variance < 0 ? '-' : ''}{formatRupiah(Math.abs(variance))}</span>
+    </div>
+  );
+}
+
+// Header button: open a shift with a float, record cash in/out, close it with a drawer count
+export function ShiftButton({ pendingCount, onSync }: ShiftButtonProps) {
+  const { toast } = useToast();
+  const { shift, isLoading, openShift, addCashMovement, closeShift } = useShift();
+  const { isPrinting, printShiftReport } = useBluetoothPrinter();
+
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<Step>('overview');
+  const [report, setReport] = useState<ShiftReportData | null>(null);
+  const [isLoadingReport, setIsLoadingReport] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [movementDirection, setMovementDirection] = useState<'in' | 'out'>('out');
+  const [movementAmount, setMovementAmount] = useState('');
+  const [movementNote, setMovementNote] = useState('');
+  const [counts, setCounts] = useState<Record<number, string>>({});
+  const [closingNotes, setClosingNotes] = useState('');
+
+  const loadReport = async (shiftId: string) => {
+    setIsLoadingReport(true);
+    try {
+      setReport(await fetchShiftReport(shiftId));
+    } catch (error) {
+      console.error('Error fetching shift report:', error);
+      toast({
+        title: 'Gagal memuat shift',
+        description: 'Periksa koneksi internet lalu coba lagi',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoadingReport(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    setStep('overview');
+    setReport(null);
+    setMovementAmount('');
+    setMovementNote('');
+    setCounts({});
+    setClosingNotes('');
+    if (shift) loadReport(shift.id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const countedCash = CASH_DENOMINATIONS.reduce((sum, value) => sum + value * (Number(counts[value]) || 0), 0);
+
+  const handleOpenShift = async () => {
+    setIsSubmitting(true);
+    try {
+      await openShift(Number(openingFloat) || 0);
+      setOpeningFloat('');
+      setOpen(false);
+      toast({
+        title: 'Shift dibuka',
+        description: `Modal awal ${formatRupiah(Number(openingFloat) || 0)}`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Gagal membuka shift',
+        description: error instanceof Error ? error.message : 'Coba lagi nanti',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAddMovement = async () => {
+    if (!shift) return;
+    setIsSubmitting(true);
+    try {
+      await addCashMovement(movementDirection, Number(movementAmount), movementNote);
+      setMovementAmount('');
+      setMovementNote('');
+      toast({
+        title: movementDirection === 'in' ? 'Kas masuk dicatat' : 'Kas keluar dicatat',
+        description: formatRupiah(Number(movementAmount)),
+      });
+      await loadReport(shift.id);
+    } catch (error) {
+      toast({
+        title: 'Gagal mencatat kas',
+        description: error instanceof Error ? error.message : 'Coba lagi nanti',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Sales still in the outbox would be missing from the expected cash
+  const handleSync = async () => {
+    setIsSyncing(true);
+    const remaining = await onSync();
+    setIsSyncing(false);
+    if (remaining === 0 && shift) {
+      loadReport(shift.id);
+    }
+  };
+
+  const handleStartCount = async () => {
+    if (!shift) return;
+    setStep('count');
+    await loadReport(shift.id);
+  };
+
+  const handleCloseShift = async () => {
+    setIsSubmitting(true);
+    try {
+      const closed = await closeShift(
+        CASH_DENOMINATIONS.map((value) => ({ value, count: Number(counts[value]) || 0 })),
+        closingNotes,
+      );
+      setReport(closed);
+      setStep('closed');
+    } catch (error) {
+      toast({
+        title: 'Gagal menutup shift',
+        description: error instanceof Error ? error.message : 'Coba lagi nanti',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handlePrint = async () => {
+    if (!report) return;
+    await printShiftReport(report, await getStoreInfoForPrint());
+  };
+
+  const canAddMovement = Number(movementAmount) > 0 && movementNote.trim().length >= 3;
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        disabled={isLoading}
+        className={`gap-2 px-2 sm:px-3 h-9 sm:h-9 ${shift ? '' : 'border-warning/50 text-warning'}`}
+        title={shift ? 'Shift sedang berjalan' : 'Shift belum dibuka'}
+      >
+        <Clock className="w-4 h-4" />
+        <span className="hidden lg:inline">{shift ? `Shift ${formatTime(new Date(shift.openedAt))}` : 'Buka Shift'}</span>
+      </Button>
+
+      <Dialog open={open} onOpenChange={(value) => !isSubmitting && setOpen(value)}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Clock className="w-5 h-5" />
+              {step === 'closed' ? 'Shift Ditutup' : step === 'count' ? 'Tutup Shift' : shift ? 'Shift Berjalan' : 'Buka Shift'}
+            </DialogTitle>
+          </DialogHeader>
+
+          {step === 'closed' && report ? (
+            <div className="space-y-4">
+              <CashBreakdown report={report} />
+              <div className="rounded-lg border border-border p-3 text-sm space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Uang dihitung</span>
+                  <span className="font-mono">{formatRupiah(report.countedCash ?? 0)}</span>
+                </div>
+                <VarianceLine variance={report.variance ?? 0} />
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" className="flex-1" onClick={handlePrint} disabled={isPrinting}>
+                  {isPrinting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Printer className="w-4 h-4 mr-2" />}
+                  Cetak Laporan
+                </Button>
+                <Button className="flex-1" onClick={() => setOpen(false)}>
+                  Selesai
+                </Button>
+              </div>
+            </div>
+          ) : !shift ? (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Hitung uang di laci sebelum mulai berjualan. Jumlah ini menjadi modal awal shift.
+              </p>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Modal awal (Rp)</label>
+                <Input
+                  inputMode="numeric"
+                  placeholder="0"
+                  value={formatThousands(openingFloat)}
+                  onChange={(e) => setOpeningFloat(e.target.value.replace(/\D/g, ''))}
+                  className="font-mono text-lg"
+                  autoFocus
+                />
+              </div>
+              <Button className="w-full" onClick={handleOpenShift} disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Buka Shift
+              </Button>
+            </div>
+          ) : step === 'count' ? (
+            <div className="space-y-4">
+              {pendingCount > 0 && (
+                <div className="rounded-lg border border-warning/50 bg-warning/10 p-3 text-sm space-y-2">
+                  <p className="flex items-center gap-2 text-warning font-medium">
+                    <CloudOff className="w-4 h-4" />
+                    {pendingCount} transaksi belum tersinkron
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Sinkronkan dulu supaya penjualan tunainya ikut dihitung.
+                  </p>
+                  <Button size="sm" variant="outline" onClick={handleSync} disabled={isSyncing}>
+                    {isSyncing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Sinkronkan
+                  </Button>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Hitung uang di laci</p>
+                {CASH_DENOMINATIONS.map((value) => {
+                  const count = Number(counts[value]) || 0;
+                  return (
+                    <div key={value} className="flex items-center gap-2 text-sm">
+                      <span className="w-24 font-mono text-right">{value.toLocaleString('id-ID')}</span>
+                      <span className="text-muted-foreground">x</span>
+                      <Input
+                        inputMode="numeric"
+                        placeholder="0"
+                        value={counts[value] || ''}
+                        onChange={(e) => setCounts((prev) => ({ ...prev, [value]: e.target.value.replace(/\D/g, '') }))}
+                        className="w-20 h-8 font-mono"
+                      />
+                      <span className="flex-1 text-right font-mono text-muted-foreground">
+                        {count > 0 ? formatRupiah(value * count) : '-'}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="rounded-lg border border-border p-3 text-sm space-y-1">
+                <div className="flex justify-between font-semibold">
+                  <span>Total dihitung</span>
+                  <span className="font-mono">{formatRupiah(countedCash)}</span>
+                </div>
+                {isLoadingReport ? (
+                  <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                ) : report && (
+                  <>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Seharusnya di laci</span>
+                      <span className="font-mono">{formatRupiah(report.expectedCash)}</span>
+                    </div>
+                    <VarianceLine variance={countedCash - report.expectedCash} />
+                  </>
+                )}
+              </div>
+
+              <Textarea
+                placeholder="Catatan (opsional), mis. alasan selisih"
+                value={closingNotes}
+                onChange={(e) => setClosingNotes(e.target.value)}
+                rows={2}
+              />
+
+              <div className="flex gap-2">
+                <Button variant="outline" className="flex-1" onClick={() => setStep('overview')} disabled={isSubmitting}>
+                  Kembali
+                </Button>
+                <Button
+                  variant="destructive"
+                  className="flex-1"
+                  onClick={handleCloseShift}
+                  disabled={isSubmitting || pendingCount > 0}
+                >
+                  {isSubmitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Lock className="w-4 h-4 mr-2" />}
+                  Tutup Shift
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Dibuka {new Date(shift.openedAt).toLocaleString('id-ID', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                {' '}dengan modal {formatRupiah(shift.openingFloat)}
+              </p>
+
+              {isLoadingReport && !report ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : report && (
+                <CashBreakdown report={report} />
+              )}
+
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Kas masuk / keluar</p>
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    variant={movementDirection === 'in' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setMovementDirection('in')}
+                  >
+                    <ArrowDownToLine className="w-4 h-4 mr-2" />
+                    Kas Masuk
+                  </Button>
+                  <Button
+                    variant={movementDirection === 'out' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setMovementDirection('out')}
+                  >
+                    <ArrowUpFromLine className="w-4 h-4 mr-2" />
+                    Kas Keluar
+                  </Button>
+                </div>
+                <div className="flex gap-2">
+                  <Input
+                    inputMode="numeric"
+                    placeholder="Jumlah"
+                    value={formatThousands(movementAmount)}
+                    onChange={(e) => setMovementAmount(e.target.value.replace(/\D/g, ''))}
+                    className="w-32 font-mono"
+                  />
+                  <Input
+                    placeholder={movementDirection === 'in' ? 'mis. Tambah uang kecil' : 'mis. Bayar supplier'}
+                    value={movementNote}
+                    onChange={(e) => setMovementNote(e.target.value)}
+                    maxLength={60}
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  onClick={handleAddMovement}
+                  disabled={isSubmitting || !canAddMovement}
+                >
+                  {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Catat
+                </Button>
+
+                {report && report.movements.length > 0 && (
+                  <div className="max-h-32 overflow-y-auto space-y-1">
+                    {report.movements.map((movement) => (
+                      <div key={movement.id} className="flex justify-between gap-2 text-xs">
+                        <span className="text-muted-foreground truncate">
+                          {formatTime(movement.createdAt)} {movement.note}
+                        </span>
+                        <span className={`font-mono ${movement.direction === 'out' ? 'text-destructive' : 'text-success'}`}>
+                          {movement.direction === 'out' ? '-' : '+'}{formatRupiah(movement.amount)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex gap-2">
+                <Button variant="outline" className="flex-1" onClick={handlePrint} disabled={isPrinting || !report}>
+                  {isPrinting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Printer className="w-4 h-4 mr-2" />}
+                  Cetak Sementara
+                </Button>
+                <Button variant="destructive" className="flex-1" onClick={handleStartCount}>
+                  <Lock className="w-4 h-4 mr-2" />
+                  Tutup Shift
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useGoogleSheets } from '@/hooks/useGoogleSheets';
+import { broadcastProductsUpdated } from '@/utils/productEvents';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Ban, KeyRound, Loader2 } from 'lucide-react';
+
+export interface VoidableTransaction {
+  id: string;
+  total: number;
+}
+
+interface VoidDialogProps {
+  open: boolean;
+  onClose: () => void;
+  transaction: VoidableTransaction | null;
+  onVoided: (transactionId: string, voidedAt: string, reason: string, stockRestored: boolean) => void;
+}
+
+const formatRupiah = (num: number) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(num);
+};
+
+// Error codes returned by the void_transaction database function
+const voidErrorMessages: Record<string, string> = {
+  'forbidden': 'Anda tidak memiliki akses untuk membatalkan transaksi',
+  'reason_required': 'Alasan pembatalan wajib diisi (min. 3 karakter)',
+  'not_found': 'Transaksi tidak ditemukan',
+  'has_returns': 'Transaksi yang sudah diretur tidak bisa dibatalkan',
+  'invalid_pin': 'PIN admin salah atau terlalu banyak percobaan',
+  'already_voided': 'Transaksi sudah dibatalkan sebelumnya',
+};
+
+export function VoidDialog({ open, onClose, transaction, onVoided }: VoidDialogProps) {
+  const { isAdmin } = useAuth();
+  const { toast } = useToast();
+  const { voidSale } = useGoogleSheets();
+
+  const [reason, setReason] = useState('');
+  const [adminPin, setAdminPin] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setReason('');
+      setAdminPin('');
+    }
+  }, [open]);
+
+  const handleSubmit = async () => {
+    if (!transaction) return;
+
+    if (reason.trim().length < 3) {
+      toast({
+        title: 'Alasan wajib diisi',
+        description: voidErrorMessages['reason_required'],
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (!isAdmin && !adminPin) {
+      toast({
+        title: 'PIN admin diperlukan',
+        description: 'Minta admin memasukkan PIN untuk menyetujui pembatalan',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      // Approval and the voided flag are handled atomically by the database
+      const { data, error } = await supabase.rpc('void_transaction', {
+        _transaction_id: transaction.id,
+        _reason: reason.trim(),
+        ...(isAdmin ? {} : { _admin_pin: adminPin }),
+      });
+
+      if (error) throw new Error(error.message);
+
+      const result = (data || {}) as { error?: string; voided_at?: string };
+      if (result.error) {
+        throw new Error(voidErrorMessages[result.error] || result.error);
+      }
+
+      const restocked = await voidSale(transaction.id);
+      if (restocked) {
+        broadcastProductsUpdated({ source: 'void' });
+        toast({
+          title: 'Transaksi dibatalkan',
+          description: `${transaction.id} (${formatRupiah(transaction.total)}) - stok dikembalikan`,
+        });
+      } else {
+        toast({
+          title: 'Transaksi dibatalkan, stok belum kembali',
+          description: 'Gagal memperbarui Google Sheets. Gunakan tombol "Kembalikan Stok" untuk mencoba lagi.',
+          variant: 'destructive',
+        });
+      }
+
+      onVoided(transaction.id, result.voided_at || new Date().toISOString(), reason.trim(), !!restocked);
+      onClose();
+    } catch (err) {
+      console.error('Error voiding transaction:', err);
+      setAdminPin('');
+      toast({
+        title: 'Gagal membatalkan transaksi',
+        description: err instanceof Error ? err.message : 'Coba lagi nanti',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && !isSubmitting && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Ban className="w-5 h-5 text-destructive" />
+            Batalkan Transaksi
+          </DialogTitle>
+        </DialogHeader>
+
+        {transaction && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between p-3 rounded-xl bg-secondary/50">
+              <span className="text-sm font-mono">{transaction.id}</span>
+              <span className="font-mono font-semibold">{formatRupiah(transaction.total)}</span>
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              Transaksi tetap tersimpan dengan status VOID dan stok semua item dikembalikan.
+            </p>
+
+            <div>
+              <label className="text-sm text-muted-foreground mb-2 block">Alasan pembatalan</label>
+              <Input
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Salah input, pelanggan batal, dll"
+                maxLength={200}
+              />
+            </div>
+
+            {!isAdmin && (
+              <div>
+                <label className="text-sm text-muted-foreground mb-2 flex items-center gap-1.5">
+                  <KeyRound className="w-4 h-4" />
+                  PIN Admin
+                </label>
+                <Input
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  value={adminPin}
+                  onChange={(e) => setAdminPin(e.target.value.replace(/\D/g, ''))}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleSubmit();
+                  }}
+                  placeholder="••••"
+                  maxLength={8}
+                  className="font-mono tracking-widest"
+                />
+              </div>
+            )}
+
+            <Button
+              onClick={handleSubmit}
+              disabled={isSubmitting || reason.trim().length < 3 || (!isAdmin && adminPin.length < 4)}
+              className="w-full h-12"
+              variant="destructive"
+            >
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Batalkan Transaksi
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { Loader2, Users } from 'lucide-react';
+
+interface CashierSummaryRow {
+  cashierId: string | null;
+  name: string;
+  salesCount: number;
+  salesTotal: number;
+  voidCount: number;
+  refundTotal: number;
+}
+
+interface CashierDailySummaryProps {
+  selectedCashierId: string | null;
+  onSelectCashier: (cashierId: string | null, name?: string) => void;
+}
+
+const formatRupiah = (num: number) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(num);
+};
+
+// yyyy-mm-dd in local time, as used by <input type="date">
+const toDateInputValue = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export function CashierDailySummary({ selectedCashierId, onSelectCashier }: CashierDailySummaryProps) {
+  const { toast } = useToast();
+  const [date, setDate] = useState(() => toDateInputValue(new Date()));
+  const [rows, setRows] = useState<CashierSummaryRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchSummary();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [date]);
+
+  const fetchSummary = async () => {
+    if (!date) return;
+    // The store's day, not UTC: local midnight to the next local midnight
+    const [year, month, day] = date.split('-').map(Number);
+    const from = new Date(year, month - 1, day);
+    const to = new Date(year, month - 1, day + 1);
+
+    setIsLoading(true);
+    const { data, error } = await supabase.rpc('cashier_sales_summary', {
+      _from: from.toISOString(),
+      _to: to.toISOString(),
+    });
+
+    if (error) {
+      console.error('Error fetching cashier summary:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal memuat ringkasan kasir',
+        variant: 'destructive',
+      });
+    } else {
+      setRows((data || []).map((row) => ({
+        cashierId: row.cashier_id,
+        name: row.cashier || 'Tanpa data kasir',
+        salesCount: Number(row.sales_count) || 0,
+        salesTotal: Number(row.sales_total) || 0,
+        voidCount: Number(row.void_count) || 0,
+        refundTotal: Number(row.refund_total) || 0,
+      })));
+    }
+    setIsLoading(false);
+  };
+
+  return (
+    <div className="rounded-lg border border-border p-3 mb-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium flex items-center gap-2">
+          <Users className="w-4 h-4" />
+          Ringkasan per Kasir
+        </p>
+        <Input
+          type="date"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          className="h-8 w-40"
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-3">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-3">Tidak ada penjualan pada tanggal ini</p>
+      ) : (
+        <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-2">
+          {rows.map((row) => {
+            const selected = !!row.cashierId && row.cashierId === selectedCashierId;
+            return (
+              <button
+                key={row.cashierId || row.name}
+                onClick={() => row.cashierId && onSelectCashier(selected ? null : row.cashierId, row.name)}
+                disabled={!row.cashierId}
+                className={cn(
+                  'rounded-lg p-3 text-left transition-colors disabled:cursor-default',
+                  selected ? 'bg-primary/15 ring-1 ring-primary' : 'bg-secondary/50 hover:bg-secondary'
+                )}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-medium text-sm truncate">{row.name}</p>
+                  <p className="text-xs text-muted-foreground whitespace-nowrap">{row.salesCount} transaksi</p>
+                </div>
+                <p className="font-mono font-semibold">{formatRupiah(row.salesTotal - row.refundTotal)}</p>
+                {(row.refundTotal > 0 || row.voidCount > 0) && (
+                  <p className="text-xs text-muted-foreground">
+                    {row.refundTotal > 0 && `Retur -${formatRupiah(row.refundTotal)}`}
+                    {row.refundTotal > 0 && row.voidCount > 0 && ', '}
+                    {row.voidCount > 0 && `${row.voidCount} void`}
+                  </p>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
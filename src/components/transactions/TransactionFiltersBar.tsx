@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DATE_RANGE_PRESETS,
+  PAYMENT_METHOD_FILTERS,
+  DateRangePreset,
+  TransactionFilters,
+} from '@/utils/transactionFilters';
+import { Search, X } from 'lucide-react';
+
+interface TransactionFiltersBarProps {
+  filters: TransactionFilters;
+  cashiers: Record<string, string>;   // cashier_id -> name
+  onChange: (filters: TransactionFilters) => void;
+}
+
+const TYPING_DELAY_MS = 400;
+
+const formatThousands = (digits: string) =>
+  digits ? Number(digits).toLocaleString('id-ID') : '';
+
+export function TransactionFiltersBar({ filters, cashiers, onChange }: TransactionFiltersBarProps) {
+  // Typed fields go to the URL (and the server) once typing pauses
+  const [search, setSearch] = useState(filters.q);
+  const [min, setMin] = useState(filters.min);
+  const [max, setMax] = useState(filters.max);
+
+  useEffect(() => {
+    setSearch(filters.q);
+    setMin(filters.min);
+    setMax(filters.max);
+  }, [filters.q, filters.min, filters.max]);
+
+  useEffect(() => {
+    if (search === filters.q && min === filters.min && max === filters.max) return;
+    const timer = setTimeout(() => onChange({ ...filters, q: search, min, max }), TYPING_DELAY_MS);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [search, min, max]);
+
+  const update = (patch: Partial<TransactionFilters>) => onChange({ ...filters, ...patch });
+
+  const isFiltered = filters.range !== 'all' || !!filters.method || !!filters.cashier
+    || !!filters.min || !!filters.max || !!filters.q;
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          placeholder="Cari no. invoice, pelanggan, telepon atau produk..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="pl-9"
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Select value={filters.range} onValueChange={(v) => update({ range: v as DateRangePreset })}>
+          <SelectTrigger className="w-full sm:w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DATE_RANGE_PRESETS.map((preset) => (
+              <SelectItem key={preset.value} value={preset.value}>{preset.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {filters.range === 'custom' && (
+          <div className="flex items-center gap-1">
+            <Input
+              type="date"
+              value={filters.from}
+              max={filters.to || undefined}
+              onChange={(e) => update({ from: e.target.value })}
+              className="w-36"
+            />
+            <span className="text-muted-foreground">-</span>
+            <Input
+              type="date"
+              value={filters.to}
+              min={filters.from || undefined}
+              onChange={(e) => update({ to: e.target.value })}
+              className="w-36"
+            />
+          </div>
+        )}
+
+        <Select value={filters.method || 'all'} onValueChange={(v) => update({ method: v === 'all' ? '' : v })}>
+          <SelectTrigger className="w-full sm:w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Semua pembayaran</SelectItem>
+            {PAYMENT_METHOD_FILTERS.map((method) => (
+              <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={filters.cashier || 'all'} onValueChange={(v) => update({ cashier: v === 'all' ? '' : v })}>
+          <SelectTrigger className="w-full sm:w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Semua kasir</SelectItem>
+            {Object.entries(cashiers).map(([id, name]) => (
+              <SelectItem key={id} value={id}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center gap-1">
+          <Input
+            inputMode="numeric"
+            placeholder="Total min."
+            value={formatThousands(min)}
+            onChange={(e) => setMin(e.target.value.replace(/\D/g, ''))}
+            className="w-28 font-mono"
+          />
+          <span className="text-muted-foreground">-</span>
+          <Input
+            inputMode="numeric"
+            placeholder="maks."
+            value={formatThousands(max)}
+            onChange={(e) => setMax(e.target.value.replace(/\D/g, ''))}
+            className="w-28 font-mono"
+          />
+        </div>
+
+        {isFiltered && (
+          <Button
+            variant="ghost"
+            onClick={() => onChange({ range: 'all', from: '', to: '', method: '', cashier: '', min: '', max: '', q: '' })}
+          >
+            <X className="w-4 h-4 mr-1" />
+            Reset
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
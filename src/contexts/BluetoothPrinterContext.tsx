@@ -1,6 +1,6 @@
 import { createContext, useContext, useState, useCallback, useEffect, type ReactNode, type Context } from 'react';
-import { ReceiptData } from '@/types/pos';
-import { buildReceiptBytes, buildWorkerCopyBytes, isBluetoothSupported, PRINTER_SERVICE_UUIDS, PRINTER_CHARACTERISTIC_UUIDS } from '@/utils/escpos';
+import { ReceiptData, ReturnReceiptData, ShiftReportData } from '@/types/pos';
+import { buildReceiptBytes, buildWorkerCopyBytes, buildReturnReceiptBytes, buildShiftReportBytes, isBluetoothSupported, PRINTER_SERVICE_UUIDS, PRINTER_CHARACTERISTIC_UUIDS } from '@/utils/escpos';
 import { toast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 
@@ -26,6 +26,8 @@ interface BluetoothPrinterContextType {
   printReceipt: (receipt: ReceiptData, storeInfo?: { name?: string; address: string; phone: string }, printWorkerCopy?: boolean) => Promise<boolean>;
   printInvoiceOnly: (receipt: ReceiptData, storeInfo?: { name?: string; address: string; phone: string }) => Promise<boolean>;
   printCarbonCopyOnly: (receipt: ReceiptData) => Promise<boolean>;
+  printReturnReceipt: (returnData: ReturnReceiptData, storeInfo?: { name?: string; address: string; phone: string }) => Promise<boolean>;
+  printShiftReport: (report: ShiftReportData, storeInfo?: { name?: string; address: string; phone: string }) => Promise<boolean>;
 }
 
 // Keep a single context instance across HMR to avoid provider/consumer mismatch
@@ -642,6 +644,114 @@ export function BluetoothPrinterProvider({ children }: { children: ReactNode })
     }
   }, [state.isConnected, getActiveCharacteristic, sendBytesToPrinter]);
 
+  const printReturnReceipt = useCallback(async (
+    returnData: ReturnReceiptData,
+    storeInfo?: { name?: string; address: string; phone: string }
+  ): Promise<boolean> => {
+    if (!state.isConnected) {
+      toast({
+        title: 'Printer Belum Terhubung',
+        description: 'Hubungkan printer terlebih dahulu.',
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    const activeChar = await getActiveCharacteristic();
+    if (!activeChar) {
+      toast({
+        title: 'Printer Error',
+        description: 'Koneksi printer bermasalah. Coba disconnect dan connect ulang.',
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    setState(prev => ({ ...prev, isPrinting: true, error: null }));
+
+    try {
+      const returnBytes = buildReturnReceiptBytes(returnData, storeInfo);
+      await sendBytesToPrinter(returnBytes, activeChar);
+
+      setState(prev => ({ ...prev, isPrinting: false }));
+
+      toast({
+        title: 'Nota Retur Dicetak',
+        description: `Retur untuk ${returnData.originalId} berhasil dicetak.`,
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Print error:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Gagal mencetak';
+      const isGattError = errorMessage.includes('GATT') || errorMessage.includes('NotSupported');
+
+      setState(prev => ({ ...prev, isPrinting: false, error: errorMessage }));
+      toast({
+        title: 'Gagal Mencetak',
+        description: isGattError
+          ? 'Koneksi Bluetooth error. Coba disconnect lalu connect ulang printer.'
+          : errorMessage,
+        variant: 'destructive'
+      });
+      return false;
+    }
+  }, [state.isConnected, getActiveCharacteristic, sendBytesToPrinter]);
+
+  const printShiftReport = useCallback(async (
+    report: ShiftReportData,
+    storeInfo?: { name?: string; address: string; phone: string }
+  ): Promise<boolean> => {
+    if (!state.isConnected) {
+      toast({
+        title: 'Printer Belum Terhubung',
+        description: 'Hubungkan printer terlebih dahulu.',
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    const activeChar = await getActiveCharacteristic();
+    if (!activeChar) {
+      toast({
+        title: 'Printer Error',
+        description: 'Koneksi printer bermasalah. Coba disconnect dan connect ulang.',
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    setState(prev => ({ ...prev, isPrinting: true, error: null }));
+
+    try {
+      const reportBytes = buildShiftReportBytes(report, storeInfo);
+      await sendBytesToPrinter(reportBytes, activeChar);
+
+      setState(prev => ({ ...prev, isPrinting: false }));
+
+      toast({
+        title: 'Laporan Shift Dicetak',
+        description: 'Laporan shift berhasil dicetak.',
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Print error:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Gagal mencetak';
+      const isGattError = errorMessage.includes('GATT') || errorMessage.includes('NotSupported');
+
+      setState(prev => ({ ...prev, isPrinting: false, error: errorMessage }));
+      toast({
+        title: 'Gagal Mencetak',
+        description: isGattError
+          ? 'Koneksi Bluetooth error. Coba disconnect lalu connect ulang printer.'
+          : errorMessage,
+        variant: 'destructive'
+      });
+      return false;
+    }
+  }, [state.isConnected, getActiveCharacteristic, sendBytesToPrinter]);
+
   const value: BluetoothPrinterContextType = {
     ...state,
     isSupported: isBluetoothSupported(),
@@ -651,6 +761,8 @@ export function BluetoothPrinterProvider({ children }: { children: ReactNode })
     printReceipt,
     printInvoiceOnly,
     printCarbonCopyOnly,
+    printReturnReceipt,
+    printShiftReport,
   };
 
   return (
@@ -679,6 +791,8 @@ export function useBluetoothPrinterContext(): BluetoothPrinterContextType {
       printReceipt: async () => false,
       printInvoiceOnly: async () => false,
       printCarbonCopyOnly: async () => false,
+      printReturnReceipt: async () => false,
+      printShiftReport: async () => false,
     };
   }
   return context;
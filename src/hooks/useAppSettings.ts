@@ -11,6 +11,14 @@ interface AppSettings {
   bank_account_holder: string;
   qris_image_url: string;
   bulk_price_percentage: string;
+  loyalty_earn_amount: string;
+  loyalty_point_value: string;
+  tax_rate: string;
+  tax_mode: string;
+  service_charge_rate: string;
+  cash_rounding_unit: string;
+  cash_rounding_mode: string;
+  search_synonyms: string;
 }
 
 const CACHE_KEY = 'pos:app_settings_cache';
@@ -82,6 +90,14 @@ export function useAppSettings() {
         bank_account_holder: settingsMap.bank_account_holder || '',
         qris_image_url: settingsMap.qris_image_url || '',
         bulk_price_percentage: settingsMap.bulk_price_percentage || '98',
+        loyalty_earn_amount: settingsMap.loyalty_earn_amount || '',
+        loyalty_point_value: settingsMap.loyalty_point_value || '100',
+        tax_rate: settingsMap.tax_rate || '',
+        tax_mode: settingsMap.tax_mode || 'inclusive',
+        service_charge_rate: settingsMap.service_charge_rate || '',
+        cash_rounding_unit: settingsMap.cash_rounding_unit || '',
+        cash_rounding_mode: settingsMap.cash_rounding_mode || 'nearest',
+        search_synonyms: settingsMap.search_synonyms || '',
       };
 
       saveToCache(fullSettings);
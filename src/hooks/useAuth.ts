@@ -5,6 +5,13 @@ import type { User } from '@supabase/supabase-js';
 
 type AppRole = 'admin' | 'cashier';
 
+/** Name shown as "Kasir" on receipts: the profile name if set, otherwise the e-mail's user part. */
+export const getCashierName = (user: User): string => {
+  const metadataName = user.user_metadata?.full_name || user.user_metadata?.name;
+  if (typeof metadataName === 'string' && metadataName.trim()) return metadataName.trim();
+  return user.email?.split('@')[0] || 'Kasir';
+};
+
 export function useAuth() {
   const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
   const [user, setUser] = useState<User | null>(null);
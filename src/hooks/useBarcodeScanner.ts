@@ -0,0 +1,65 @@
+import { useEffect, useRef } from 'react';
+
+interface UseBarcodeScannerOptions {
+  onScan: (code: string) => void;
+  enabled?: boolean;
+  minLength?: number; // Shortest burst treated as a scan
+  maxKeyInterval?: number; // ms between keystrokes - scanners type far faster than people
+}
+
+/**
+ * Detects keyboard-wedge (USB/Bluetooth HID) barcode scanners anywhere on the page.
+ * A scan is a burst of characters arriving faster than maxKeyInterval and ended
+ * by Enter or Tab; normal typing is left alone. The terminating key is swallowed
+ * so it doesn't submit forms or blur inputs.
+ */
+export function useBarcodeScanner({
+  onScan,
+  enabled = true,
+  minLength = 4,
+  maxKeyInterval = 50,
+}: UseBarcodeScannerOptions) {
+  const bufferRef = useRef('');
+  const lastKeyTimeRef = useRef(0);
+  const onScanRef = useRef(onScan);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.altKey || e.metaKey) return;
+
+      const now = performance.now();
+      const elapsed = now - lastKeyTimeRef.current;
+      lastKeyTimeRef.current = now;
+
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        const code = bufferRef.current;
+        bufferRef.current = '';
+        if (code.length >= minLength && elapsed <= maxKeyInterval) {
+          e.preventDefault();
+          e.stopPropagation();
+          onScanRef.current(code);
+        }
+        return;
+      }
+
+      // Modifier keys (Shift for uppercase) arrive inside a scan burst too
+      if (e.key.length !== 1) return;
+
+      // A slow gap means a person is typing - start over
+      if (elapsed > maxKeyInterval) {
+        bufferRef.current = '';
+      }
+      bufferRef.current += e.key;
+    };
+
+    // Capture phase so we see the keys before focused inputs handle Enter
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [enabled, minLength, maxKeyInterval]);
+}
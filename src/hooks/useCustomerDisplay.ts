@@ -0,0 +1,164 @@
+import { useEffect, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Customer-facing second screen (/customer-display).
+ *
+ * The POS publishes what the customer should see; the display only listens. A display
+ * in the same browser gets updates over a BroadcastChannel, one on another tablet over
+ * a private Supabase Realtime broadcast channel named after this terminal's display code.
+ * The channel is authorised by RLS on realtime.messages, so both ends must be signed in
+ * as staff. A display that connects late asks for the current state with a "request"
+ * message. Payment details (QRIS image, bank account) never travel in a message; the
+ * display loads them from app_settings and only gets told which one to show.
+ */
+
+export interface CustomerDisplayLine {
+  key: string;
+  name: string;
+  variantName?: string;
+  quantity: number;
+  unitPrice: number;
+  discount: number;     // Item discount plus automatic promotions on this line
+  total: number;
+}
+
+export interface CustomerDisplayPayment {
+  method: 'Tunai' | 'QRIS' | 'Transfer' | 'Hutang' | 'Kombinasi' | null;  // null while choosing
+  discount: number;     // Order discount, voucher and points
+  serviceCharge?: { rate: number; amount: number };
+  tax?: { rate: number; amount: number; included: boolean };  // included = already inside the prices
+  rounding?: number;
+  total: number;        // What the customer pays
+  showQris?: boolean;
+  showBank?: boolean;
+  cashReceived?: number;
+  change?: number;
+}
+
+export interface CustomerDisplayState {
+  lines: CustomerDisplayLine[];
+  subtotal: number;
+  payment: CustomerDisplayPayment | null;                   // Set while the checkout is open
+  completed: { total: number; change?: number } | null;   // Shown after the sale until the next item
+  storeName?: string;
+}
+
+export const EMPTY_CUSTOMER_DISPLAY: CustomerDisplayState = {
+  lines: [],
+  subtotal: 0,
+  payment: null,
+  completed: null,
+};
+
+type DisplayMessage = { type: 'state'; state: CustomerDisplayState } | { type: 'request' };
+
+const LOCAL_CHANNEL = 'pos:customer-display';
+const CODE_KEY = 'pos:customer_display_code';
+const REMOTE_SEND_DELAY_MS = 150;
+
+const post = (channel: BroadcastChannel, message: DisplayMessage) => channel.postMessage(message);
+
+const remoteChannelName = (code: string) => `customer-display:${code.toUpperCase()}`;
+
+/** This terminal's pairing code for displays on another device, created on first use. */
+export const getCustomerDisplayCode = (): string => {
+  try {
+    const existing = localStorage.getItem(CODE_KEY);
+    if (existing) return existing;
+    const code = Math.random().toString(36).slice(2, 8).toUpperCase();
+    localStorage.setItem(CODE_KEY, code);
+    return code;
+  } catch {
+    return 'LOCAL';
+  }
+};
+
+// Publisher side (POS), shared by Index and CheckoutModal
+let currentState: CustomerDisplayState = EMPTY_CUSTOMER_DISPLAY;
+let localChannel: BroadcastChannel | null = null;
+let remoteChannel: RealtimeChannel | null = null;
+let remoteReady = false;
+let remoteTimer: ReturnType<typeof setTimeout> | null = null;
+
+const sendRemote = () => {
+  if (!remoteChannel || !remoteReady) return;
+  // Realtime is rate limited; coalesce bursts such as typing a cash amount
+  if (remoteTimer) clearTimeout(remoteTimer);
+  remoteTimer = setTimeout(() => {
+    remoteTimer = null;
+    remoteChannel?.send({ type: 'broadcast', event: 'state', payload: currentState });
+  }, REMOTE_SEND_DELAY_MS);
+};
+
+const sendState = () => {
+  if (localChannel) post(localChannel, { type: 'state', state: currentState });
+  sendRemote();
+};
+
+const connectPublisher = () => {
+  if (!localChannel && typeof BroadcastChannel !== 'undefined') {
+    localChannel = new BroadcastChannel(LOCAL_CHANNEL);
+    localChannel.onmessage = (e: MessageEvent<DisplayMessage>) => {
+      if (e.data?.type === 'request') sendState();
+    };
+  }
+
+  if (!remoteChannel) {
+    remoteChannel = supabase
+      .channel(remoteChannelName(getCustomerDisplayCode()), { config: { private: true, broadcast: { self: false } } })
+      .on('broadcast', { event: 'request' }, () => sendRemote())
+      .subscribe((status) => {
+        remoteReady = status === 'SUBSCRIBED';
+        if (remoteReady) sendRemote();
+      });
+  }
+};
+
+/** Merge an update into what the customer display shows and push it out. */
+export const publishCustomerDisplay = (update: Partial<CustomerDisplayState>) => {
+  connectPublisher();
+  currentState = { ...currentState, ...update };
+  sendState();
+};
+
+/** Display side: the latest state from the POS, over both transports. */
+export function useCustomerDisplayFeed(code: string | null) {
+  const [state, setState] = useState<CustomerDisplayState>(EMPTY_CUSTOMER_DISPLAY);
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    if (typeof BroadcastChannel === 'undefined') return;
+    const channel = new BroadcastChannel(LOCAL_CHANNEL);
+    channel.onmessage = (e: MessageEvent<DisplayMessage>) => {
+      if (e.data?.type === 'state') {
+        setState(e.data.state);
+        setConnected(true);
+      }
+    };
+    post(channel, { type: 'request' });
+    return () => channel.close();
+  }, []);
+
+  useEffect(() => {
+    if (!code) return;
+    const channel = supabase
+      .channel(remoteChannelName(code), { config: { private: true } })
+      .on('broadcast', { event: 'state' }, ({ payload }) => {
+        setState(payload as CustomerDisplayState);
+        setConnected(true);
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          channel.send({ type: 'broadcast', event: 'request', payload: {} });
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [code]);
+
+  return { state, connected };
+}
@@ -0,0 +1,98 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { Customer, CustomerType } from '@/types/pos';
+
+const SEARCH_DEBOUNCE_MS = 250;
+const SEARCH_LIMIT = 8;
+
+export const customerTypeLabels: Record<CustomerType, string> = {
+  'retail': 'Eceran',
+  'reseller': 'Reseller',
+};
+
+export const mapCustomerRow = (row: Tables<'customers'>): Customer => ({
+  id: row.id,
+  name: row.name,
+  phone: row.phone ?? undefined,
+  address: row.address ?? undefined,
+  notes: row.notes ?? undefined,
+  type: row.customer_type === 'reseller' ? 'reseller' : 'retail',
+});
+
+/** Digits only with a local 0 prefix ("+62 812-345" -> "0812345"), or '' when empty. */
+export const normalizePhone = (value: string): string => {
+  const digits = value.replace(/\D/g, '');
+  return digits.startsWith('62') ? `0${digits.slice(2)}` : digits;
+};
+
+/** Customers whose name or phone matches the query, for autocomplete. */
+export const searchCustomers = async (query: string, limit: number = SEARCH_LIMIT): Promise<Customer[]> => {
+  const term = query.trim();
+  if (term.length < 2) return [];
+
+  // Strip characters that have meaning in a PostgREST or() filter
+  const name = term.replace(/[,()%*]/g, ' ').trim();
+  const phone = normalizePhone(term);
+  const filters = [`name.ilike.%${name}%`];
+  if (phone.length >= 3) filters.push(`phone.ilike.%${phone}%`);
+
+  const { data, error } = await supabase
+    .from('customers')
+    .select('*')
+    .or(filters.join(','))
+    .order('name')
+    .limit(limit);
+
+  if (error) {
+    console.error('[useCustomers] Failed to search customers:', error);
+    return [];
+  }
+  return (data || []).map(mapCustomerRow);
+};
+
+/** Debounced customer lookup by name or phone. */
+export function useCustomerSearch(query: string) {
+  const [results, setResults] = useState<Customer[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    if (query.trim().length < 2) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      const customers = await searchCustomers(query);
+      if (!cancelled) {
+        setResults(customers);
+        setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  return { results, isSearching };
+}
+
+/** What a customer still owes on credit (hutang) sales, or null when it can't be loaded. */
+export const fetchCustomerOutstanding = async (customerId: string): Promise<number | null> => {
+  const { data, error } = await supabase
+    .from('receivables')
+    .select('amount, paid_amount')
+    .eq('customer_id', customerId)
+    .is('cancelled_at', null);
+
+  if (error) {
+    console.error('[useCustomers] Failed to load outstanding credit:', error);
+    return null;
+  }
+  return (data || []).reduce((sum, r) => sum + Number(r.amount) - Number(r.paid_amount), 0);
+};
@@ -0,0 +1,106 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { FavoriteItem } from '@/types/pos';
+
+export const MAX_FAVORITES = 30;
+
+const mapFavoriteRow = (row: Tables<'favorite_products'>): FavoriteItem => ({
+  id: row.id,
+  productId: row.product_id,
+  variantCode: row.variant_code || undefined,
+  position: row.position,
+});
+
+// The signed-in cashier's quick-key grid, stored in Supabase so it follows them between terminals
+export function useFavorites(userId: string | undefined) {
+  const [favorites, setFavorites] = useState<FavoriteItem[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchFavorites = useCallback(async () => {
+    if (!userId) {
+      setFavorites([]);
+      return;
+    }
+
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('favorite_products')
+      .select('*')
+      .eq('user_id', userId)
+      .order('position');
+
+    if (error) {
+      console.error('[useFavorites] Failed to load favorites:', error);
+    } else {
+      setFavorites((data || []).map(mapFavoriteRow));
+    }
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    fetchFavorites();
+  }, [fetchFavorites]);
+
+  const addFavorite = useCallback(async (productId: string, variantCode?: string): Promise<boolean> => {
+    if (!userId || favorites.length >= MAX_FAVORITES) return false;
+    if (favorites.some((f) => f.productId === productId && (f.variantCode || '') === (variantCode || ''))) return true;
+
+    const position = favorites.reduce((max, f) => Math.max(max, f.position), -1) + 1;
+    const { data, error } = await supabase
+      .from('favorite_products')
+      .insert({ user_id: userId, product_id: productId, variant_code: variantCode || '', position })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[useFavorites] Failed to add favorite:', error);
+      return false;
+    }
+    setFavorites((prev) => [...prev, mapFavoriteRow(data)]);
+    return true;
+  }, [userId, favorites]);
+
+  const removeFavorite = useCallback(async (id: string): Promise<boolean> => {
+    const { error } = await supabase.from('favorite_products').delete().eq('id', id);
+    if (error) {
+      console.error('[useFavorites] Failed to remove favorite:', error);
+      return false;
+    }
+    setFavorites((prev) => prev.filter((f) => f.id !== id));
+    return true;
+  }, []);
+
+  // Save a new order (ids first to last); shown right away, reloaded if saving fails
+  const reorderFavorites = useCallback(async (orderedIds: string[]): Promise<boolean> => {
+    if (!userId) return false;
+    const byId = new Map(favorites.map((f) => [f.id, f]));
+    const reordered = orderedIds
+      .map((id, position) => {
+        const favorite = byId.get(id);
+        return favorite ? { ...favorite, position } : null;
+      })
+      .filter(Boolean) as FavoriteItem[];
+    setFavorites(reordered);
+
+    const { error } = await supabase.from('favorite_products').upsert(
+      reordered.map((f) => ({
+        id: f.id,
+        user_id: userId,
+        product_id: f.productId,
+        variant_code: f.variantCode || '',
+        position: f.position,
+      })),
+      { onConflict: 'id' }
+    );
+
+    if (error) {
+      console.error('[useFavorites] Failed to save favorites order:', error);
+      fetchFavorites();
+      return false;
+    }
+    return true;
+  }, [userId, favorites, fetchFavorites]);
+
+  return { favorites, loading, addFavorite, removeFavorite, reorderFavorites };
+}
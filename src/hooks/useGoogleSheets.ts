@@ -1,6 +1,6 @@
 import { useState, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { Product, ReceiptData } from '@/types/pos';
+import { PriceTier, Product, ReceiptData } from '@/types/pos';
 
 type InvokeFnError = any;
 
@@ -37,6 +37,19 @@ async function extractFunctionErrorDetails(fnError: InvokeFnError): Promise<{
   return { message: baseMessage };
 }
 
+export interface SaleStockItem {
+  productId: string;
+  variantCode?: string;
+  quantity: number;
+}
+
+export interface CommitSaleResult {
+  // Fresh stock levels for every touched product (variant stock included)
+  products: { id: string; stock: number; variants?: { code: string; stock: number }[] }[];
+  // Lines sold beyond what the sheet had; stock was clamped at 0
+  oversells: { productId: string; variantCode?: string; requested: number; available: number }[];
+}
+
 export function useGoogleSheets() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -195,6 +208,114 @@ export function useGoogleSheets() {
     }
   }, []);
 
+  // Decrement product/variant stock relative to the sheet's current value.
+  // Returns the new stock levels, or null on failure.
+  const commitSale = useCallback(
+    async (saleId: string, items: SaleStockItem[], allowOversell = true): Promise<CommitSaleResult | null> => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const { data, error: fnError } = await supabase.functions.invoke('sync-google-sheets', {
+          body: {
+            action: 'commitSale',
+            data: { saleId, items, allowOversell },
+          },
+        });
+
+        if (fnError) {
+          const details = await extractFunctionErrorDetails(fnError);
+          const suffix = details.notFoundIds?.length
+            ? ` (ID tidak ditemukan: ${details.notFoundIds.join(', ')})`
+            : '';
+          throw new Error(`${details.message}${suffix}`);
+        }
+        if (data?.error) throw new Error(data.error);
+
+        return {
+          products: Array.isArray(data?.products) ? data.products : [],
+          oversells: Array.isArray(data?.oversells) ? data.oversells : [],
+        };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to commit sale';
+        setError(message);
+        console.error('Error committing sale stock:', err);
+        return null;
+      } finally {
+        setLoading(false);
+      }
+    },
+    []
+  );
+
+  // Restock a return already recorded in the database and append its (negative) row to the
+  // Transactions tab; safe to call again for the same return. Returns the new stock levels,
+  // or null on failure.
+  const recordReturn = useCallback(
+    async (returnId: string): Promise<CommitSaleResult['products'] | null> => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const { data, error: fnError } = await supabase.functions.invoke('sync-google-sheets', {
+          body: {
+            action: 'addReturn',
+            data: { returnId },
+          },
+        });
+
+        if (fnError) {
+          const details = await extractFunctionErrorDetails(fnError);
+          throw new Error(details.message);
+        }
+        if (data?.error) throw new Error(data.error);
+
+        return Array.isArray(data?.products) ? data.products : [];
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to record return';
+        setError(message);
+        console.error('Error recording return:', err);
+        return null;
+      } finally {
+        setLoading(false);
+      }
+    },
+    []
+  );
+
+  // Restock a sale already voided in the database and flag its Sheets row
+  const voidSale = useCallback(
+    async (transactionId: string): Promise<CommitSaleResult['products'] | null> => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const { data, error: fnError } = await supabase.functions.invoke('sync-google-sheets', {
+          body: {
+            action: 'voidSale',
+            data: { transactionId },
+          },
+        });
+
+        if (fnError) {
+          const details = await extractFunctionErrorDetails(fnError);
+          throw new Error(details.message);
+        }
+        if (data?.error) throw new Error(data.error);
+
+        return Array.isArray(data?.products) ? data.products : [];
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to void sale';
+        setError(message);
+        console.error('Error voiding sale:', err);
+        return null;
+      } finally {
+        setLoading(false);
+      }
+    },
+    []
+  );
+
   const updateInventory = useCallback(
     async (
       inventoryUpdates: {
@@ -203,6 +324,8 @@ export function useGoogleSheets() {
         bulkPrice?: number;
         purchasePrice?: number;
         stock?: number;
+        priceTiers?: PriceTier[];
+        taxExempt?: boolean;
       }[]
     ): Promise<boolean> => {
       setLoading(true);
@@ -246,6 +369,7 @@ export function useGoogleSheets() {
       retailPrice: number;
       bulkPrice: number;
       stock: number;
+      barcode?: string;
     }): Promise<boolean> => {
       setLoading(true);
       setError(null);
@@ -365,7 +489,7 @@ export function useGoogleSheets() {
   );
 
   const addVariant = useCallback(
-    async (productId: string, variantCode: string, variantName: string, stock: number, retailPrice?: number, bulkPrice?: number): Promise<boolean> => {
+    async (productId: string, variantCode: string, variantName: string, stock: number, retailPrice?: number, bulkPrice?: number, barcode?: string): Promise<boolean> => {
       setLoading(true);
       setError(null);
 
@@ -373,7 +497,7 @@ export function useGoogleSheets() {
         const { data, error: fnError } = await supabase.functions.invoke('sync-google-sheets', {
           body: {
             action: 'addVariant',
-            data: { productId, variantCode, variantName, stock, retailPrice, bulkPrice },
+            data: { productId, variantCode, variantName, stock, retailPrice, bulkPrice, barcode },
           },
         });
 
@@ -429,7 +553,7 @@ export function useGoogleSheets() {
   );
 
   const updateVariantInventory = useCallback(
-    async (variantUpdates: { productId: string; variantCode: string; stock?: number; retailPrice?: number | ''; bulkPrice?: number | '' }[]): Promise<boolean> => {
+    async (variantUpdates: { productId: string; variantCode: string; stock?: number; retailPrice?: number | ''; bulkPrice?: number | ''; barcode?: string }[]): Promise<boolean> => {
       setLoading(true);
       setError(null);
 
@@ -468,6 +592,9 @@ export function useGoogleSheets() {
     clearCache,
     saveTransaction,
     updateStock,
+    commitSale,
+    recordReturn,
+    voidSale,
     updateInventory,
     addProduct,
     deleteProduct,
@@ -0,0 +1,77 @@
+import { useState, useCallback, useEffect } from 'react';
+import { CartItem, HeldCart } from '@/types/pos';
+
+const STORAGE_KEY = 'pos:held_carts';
+
+const readHeldCarts = (): HeldCart[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeHeldCarts = (carts: HeldCart[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(carts));
+  } catch {
+    // Ignore storage errors
+  }
+};
+
+// Parked carts, persisted in localStorage so they survive a reload
+export function useHeldCarts() {
+  const [heldCarts, setHeldCarts] = useState<HeldCart[]>(readHeldCarts);
+
+  // Keep other tabs on the same terminal in sync
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === STORAGE_KEY) {
+        setHeldCarts(readHeldCarts());
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const updateHeldCarts = useCallback((updater: (prev: HeldCart[]) => HeldCart[]) => {
+    setHeldCarts((prev) => {
+      const next = updater(prev);
+      writeHeldCarts(next);
+      return next;
+    });
+  }, []);
+
+  const holdCart = useCallback((items: CartItem[], label: string): HeldCart => {
+    const heldAt = new Date();
+    const cart: HeldCart = {
+      id: `HOLD-${heldAt.getTime()}-${Math.random().toString(36).slice(2, 6)}`,
+      label: label.trim() || `Keranjang ${heldAt.toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}`,
+      items,
+      heldAt: heldAt.toISOString(),
+    };
+    updateHeldCarts((prev) => [...prev, cart]);
+    return cart;
+  }, [updateHeldCarts]);
+
+  // Remove a parked cart and hand it back to the caller
+  const takeHeldCart = useCallback((id: string): HeldCart | null => {
+    const cart = heldCarts.find((c) => c.id === id) ?? null;
+    updateHeldCarts((prev) => prev.filter((c) => c.id !== id));
+    return cart;
+  }, [heldCarts, updateHeldCarts]);
+
+  const deleteHeldCart = useCallback((id: string) => {
+    updateHeldCarts((prev) => prev.filter((c) => c.id !== id));
+  }, [updateHeldCarts]);
+
+  return {
+    heldCarts,
+    holdCart,
+    takeHeldCart,
+    deleteHeldCart,
+  };
+}
@@ -0,0 +1,48 @@
+import { useEffect, useRef } from 'react';
+
+/**
+ * Keyboard shortcuts on desktop terminals, documented in the command palette.
+ * Keys are KeyboardEvent.key values, "mod+" meaning Ctrl (or Cmd on macOS).
+ */
+export const POS_HOTKEYS: { keys: string; label: string }[] = [
+  { keys: 'Ctrl+K', label: 'Command palette' },
+  { keys: 'F2', label: 'Cari produk' },
+  { keys: 'F4', label: 'Ganti harga eceran/grosir' },
+  { keys: 'F8', label: 'Tahan keranjang' },
+  { keys: 'F12', label: 'Bayar / lanjutkan pembayaran' },
+  { keys: 'Esc', label: 'Batal / kembali' },
+];
+
+type HotkeyHandler = (e: KeyboardEvent) => void;
+
+const toBinding = (e: KeyboardEvent) => {
+  const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
+  return e.ctrlKey || e.metaKey ? `mod+${key}` : key;
+};
+
+/**
+ * Binds shortcuts like { 'mod+k': openPalette, F12: pay } while enabled.
+ * Handlers always see the latest render; a matched key's default action is prevented.
+ */
+export function useHotkeys(bindings: Record<string, HotkeyHandler>, enabled: boolean = true) {
+  const bindingsRef = useRef(bindings);
+
+  useEffect(() => {
+    bindingsRef.current = bindings;
+  }, [bindings]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.altKey || e.repeat) return;
+      const handler = bindingsRef.current[toBinding(e)];
+      if (!handler) return;
+      e.preventDefault();
+      handler(e);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
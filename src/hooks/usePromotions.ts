@@ -0,0 +1,79 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { Promotion, PromotionType } from '@/types/pos';
+
+// Re-evaluate time windows every minute, reload definitions every 5 minutes
+const CLOCK_INTERVAL_MS = 60 * 1000;
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+// Admin broadcasts this after editing promotions (same tab + other tabs)
+export const PROMOTIONS_UPDATED_EVENT = 'pos:promotions_updated';
+
+export const mapPromotionRow = (row: Tables<'promotions'>): Promotion => ({
+  id: row.id,
+  name: row.name,
+  type: row.promo_type as PromotionType,
+  productIds: row.product_ids || [],
+  category: row.category ?? undefined,
+  buyQty: row.buy_qty ?? undefined,
+  freeQty: row.free_qty ?? undefined,
+  bundlePrice: row.bundle_price ?? undefined,
+  percent: row.percent ?? undefined,
+  startsAt: row.starts_at ?? undefined,
+  endsAt: row.ends_at ?? undefined,
+  // Postgres TIME comes back as "HH:MM:SS"
+  startTime: row.start_time ? row.start_time.slice(0, 5) : undefined,
+  endTime: row.end_time ? row.end_time.slice(0, 5) : undefined,
+  isActive: row.is_active,
+});
+
+export const broadcastPromotionsUpdated = () => {
+  try {
+    localStorage.setItem(PROMOTIONS_UPDATED_EVENT, String(Date.now()));
+  } catch {
+    // Ignore storage errors
+  }
+  window.dispatchEvent(new CustomEvent(PROMOTIONS_UPDATED_EVENT));
+};
+
+/** Active promotion definitions plus a clock that ticks so time-limited promotions switch on/off. */
+export function usePromotions() {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [now, setNow] = useState(() => new Date());
+
+  const loadPromotions = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('promotions')
+      .select('*')
+      .eq('is_active', true);
+
+    if (error) {
+      console.error('[usePromotions] Failed to load promotions:', error);
+      return;
+    }
+    setPromotions((data || []).map(mapPromotionRow));
+  }, []);
+
+  useEffect(() => {
+    loadPromotions();
+
+    const refresh = setInterval(loadPromotions, REFRESH_INTERVAL_MS);
+    const clock = setInterval(() => setNow(new Date()), CLOCK_INTERVAL_MS);
+
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === PROMOTIONS_UPDATED_EVENT) loadPromotions();
+    };
+    window.addEventListener(PROMOTIONS_UPDATED_EVENT, loadPromotions);
+    window.addEventListener('storage', handleStorage);
+
+    return () => {
+      clearInterval(refresh);
+      clearInterval(clock);
+      window.removeEventListener(PROMOTIONS_UPDATED_EVENT, loadPromotions);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [loadPromotions]);
+
+  return { promotions, now, reload: loadPromotions };
+}
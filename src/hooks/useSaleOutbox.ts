@@ -0,0 +1,231 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useGoogleSheets, SaleStockItem } from '@/hooks/useGoogleSheets';
+import { ReceiptData } from '@/types/pos';
+import {
+  OutboxSale,
+  OUTBOX_CHANGED_EVENT,
+  enqueueSale,
+  listOutboxSales,
+  countOutboxSales,
+  putOutboxSale,
+  removeOutboxSale,
+} from '@/utils/saleOutbox';
+import { ensureInvoiceNumbers } from '@/utils/invoiceNumbers';
+import { broadcastProductsUpdated } from '@/utils/productEvents';
+
+// Retry interval while there are pending sales and we think we're online
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+// Postgres unique_violation - the row already made it on a previous attempt
+const UNIQUE_VIOLATION = '23505';
+
+const buildTransactionRow = (receipt: ReceiptData) => ({
+  id: receipt.id,
+  items: JSON.parse(JSON.stringify(receipt.items)),
+  subtotal: receipt.subtotal,
+  discount: receipt.discount,
+  total: receipt.total,
+  payment_method: receipt.paymentMethod,
+  payments: JSON.parse(JSON.stringify(receipt.payments ?? [])),
+  promotions: JSON.parse(JSON.stringify(receipt.promotions ?? [])),
+  voucher_code: receipt.voucher?.code || null,
+  voucher_discount: receipt.voucher?.discount || 0,
+  // points_earned and points_balance are filled in by the database from its own settings
+  loyalty_phone: receipt.loyalty?.phone || null,
+  points_redeemed: receipt.loyalty?.pointsRedeemed || 0,
+  points_discount: receipt.loyalty?.pointsDiscount || 0,
+  tax_mode: receipt.tax?.mode || null,
+  tax_rate: receipt.tax?.rate || 0,
+  tax_base: receipt.tax?.base || 0,
+  tax_amount: receipt.tax?.amount || 0,
+  service_charge_rate: receipt.serviceCharge?.rate || 0,
+  service_charge: receipt.serviceCharge?.amount || 0,
+  cash_rounding: receipt.rounding || 0,
+  cash_received: receipt.cashReceived || null,
+  change: receipt.change || null,
+  customer_phone: receipt.customerPhone || null,
+  customer_name: receipt.customerName || null,
+  customer_id: receipt.customerId || null,
+  // credit_outstanding is snapshotted by the database when the sale lands
+  credit_due_date: receipt.credit?.dueDate || null,
+  discount_reason: receipt.manualDiscount?.reason || null,
+  discount_approval_id: receipt.manualDiscount?.approvalId || null,
+  cashier: receipt.cashier?.name || null,
+  cashier_id: receipt.cashier?.id || null,
+  shift_id: receipt.shiftId || null,
+  created_at: receipt.timestamp.toISOString(),
+});
+
+export function useSaleOutbox() {
+  const { saveTransaction, commitSale: commitSaleStock } = useGoogleSheets();
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const syncingRef = useRef(false);
+
+  const refreshCount = useCallback(async () => {
+    try {
+      setPendingCount(await countOutboxSales());
+    } catch (err) {
+      console.error('[useSaleOutbox] Failed to count pending sales:', err);
+    }
+  }, []);
+
+  // Push one sale through every step it hasn't completed yet.
+  // Flags are persisted after each step so a retry never duplicates work.
+  const processSale = useCallback(async (sale: OutboxSale): Promise<OutboxSale> => {
+    const current = { ...sale, attempts: sale.attempts + 1, lastError: undefined };
+
+    try {
+      if (!current.dbSynced) {
+        const { error: dbError } = await supabase
+          .from('transactions')
+          .insert([buildTransactionRow(current.receipt)]);
+        if (dbError && dbError.code !== UNIQUE_VIOLATION) {
+          throw new Error(dbError.message);
+        }
+        current.dbSynced = true;
+        await putOutboxSale(current);
+      }
+
+      if (!current.sheetSynced) {
+        const saved = await saveTransaction(current.receipt);
+        if (!saved) throw new Error('Transaksi gagal disimpan ke Google Sheets');
+        current.sheetSynced = true;
+        await putOutboxSale(current);
+      }
+
+      if (!current.stockSynced) {
+        if (current.stockItems.length > 0) {
+          const stockResult = await commitSaleStock(current.id, current.stockItems);
+          if (!stockResult) throw new Error('Stok gagal diperbarui di Google Sheets');
+          current.stockResult = stockResult;
+        }
+        current.stockSynced = true;
+      }
+
+      await removeOutboxSale(current.id);
+    } catch (err) {
+      current.lastError = err instanceof Error ? err.message : String(err);
+      console.error(`[useSaleOutbox] Sale ${current.id} not synced:`, current.lastError);
+      await putOutboxSale(current);
+    }
+
+    return current;
+  }, [saveTransaction, commitSaleStock]);
+
+  // Replay pending sales oldest-first; stop at the first failure to keep order
+  const syncNow = useCallback(async (): Promise<number> => {
+    if (syncingRef.current) return pendingCount;
+    syncingRef.current = true;
+    setIsSyncing(true);
+
+    try {
+      const sales = await listOutboxSales();
+      let stockChanged = false;
+      for (const sale of sales) {
+        const result = await processSale(sale);
+        if (result.stockResult) stockChanged = true;
+        if (result.lastError) break;
+      }
+
+      // Replayed sales moved stock behind the POS's back - let open pages reload
+      if (stockChanged) broadcastProductsUpdated({ source: 'outbox' });
+    } catch (err) {
+      console.error('[useSaleOutbox] Replay failed:', err);
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+    }
+
+    const remaining = await countOutboxSales().catch(() => pendingCount);
+    setPendingCount(remaining);
+    return remaining;
+  }, [processSale, pendingCount]);
+
+  /**
+   * Persist a finished sale locally, then try to sync the whole queue.
+   * Returns the stored entry state after the attempt (lastError set if it is
+   * still pending).
+   */
+  const commitSale = useCallback(async (
+    receipt: ReceiptData,
+    stockItems: SaleStockItem[]
+  ): Promise<OutboxSale> => {
+    const sale = await enqueueSale(receipt, stockItems);
+
+    // Older sales go first; if one of them is stuck, this one waits too
+    const pendingBefore = (await listOutboxSales()).filter((s) => s.id !== sale.id);
+    if (pendingBefore.length > 0 || !navigator.onLine || syncingRef.current) {
+      if (navigator.onLine) void syncNow();
+      await refreshCount();
+      return { ...sale, lastError: 'Menunggu sinkronisasi' };
+    }
+
+    syncingRef.current = true;
+    setIsSyncing(true);
+    try {
+      return await processSale(sale);
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+      await refreshCount();
+    }
+  }, [processSale, syncNow, refreshCount]);
+
+  // Initial count + keep in sync with other tabs
+  useEffect(() => {
+    refreshCount();
+
+    const handleCustom = () => {
+      refreshCount();
+    };
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === OUTBOX_CHANGED_EVENT) {
+        refreshCount();
+      }
+    };
+
+    window.addEventListener(OUTBOX_CHANGED_EVENT, handleCustom);
+    window.addEventListener('storage', handleStorage);
+
+    return () => {
+      window.removeEventListener(OUTBOX_CHANGED_EVENT, handleCustom);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [refreshCount]);
+
+  // Replay as soon as the browser reports connectivity, and periodically after that
+  useEffect(() => {
+    const handleOnline = () => {
+      syncNow();
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [syncNow]);
+
+  // Keep invoice numbers in reserve so the till can go on selling offline
+  useEffect(() => {
+    void ensureInvoiceNumbers();
+    const handleOnline = () => {
+      void ensureInvoiceNumbers();
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, []);
+
+  useEffect(() => {
+    if (pendingCount === 0) return;
+    const interval = setInterval(() => {
+      if (navigator.onLine) syncNow();
+    }, RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [pendingCount, syncNow]);
+
+  return {
+    pendingCount,
+    isSyncing,
+    commitSale,
+    syncNow,
+  };
+}
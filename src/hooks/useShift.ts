@@ -0,0 +1,204 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { useAuth, getCashierName } from '@/hooks/useAuth';
+import { CashDenominationCount, ShiftCashMovement, ShiftReportData } from '@/types/pos';
+
+type ShiftRow = Tables<'shifts'>;
+
+// The open shift as last seen online; sales made offline still carry its id
+const STORAGE_KEY = 'pos:open_shift';
+
+// Rupiah notes and coins in circulation, largest first
+export const CASH_DENOMINATIONS = [100000, 50000, 20000, 10000, 5000, 2000, 1000, 500, 200, 100];
+
+const shiftErrorMessages: Record<string, string> = {
+  forbidden: 'Akun ini tidak boleh membuka atau menutup shift',
+  invalid_amount: 'Modal awal tidak valid',
+  not_found: 'Shift tidak ditemukan',
+  already_closed: 'Shift sudah ditutup',
+  invalid_count: 'Hitungan uang tidak valid',
+};
+
+export interface OpenShift {
+  id: string;
+  userId: string;
+  openedAt: string;
+  openingFloat: number;
+}
+
+const readCachedShift = (): OpenShift | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as OpenShift) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeCachedShift = (shift: OpenShift | null) => {
+  try {
+    if (shift) localStorage.setItem(STORAGE_KEY, JSON.stringify(shift));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Ignore storage errors
+  }
+};
+
+/** Id of the user's open shift, for stamping sales and returns; undefined when none is open. */
+export const getOpenShiftId = (userId: string | undefined): string | undefined => {
+  const cached = readCachedShift();
+  return userId && cached?.userId === userId ? cached.id : undefined;
+};
+
+const toOpenShift = (row: ShiftRow): OpenShift => ({
+  id: row.id,
+  userId: row.opened_by,
+  openedAt: row.opened_at,
+  openingFloat: Number(row.opening_float) || 0,
+});
+
+const parseDenominations = (value: unknown): CashDenominationCount[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value
+    .map((d) => ({ value: Number(d?.value) || 0, count: Number(d?.count) || 0 }))
+    .filter((d) => d.value > 0);
+};
+
+/** Report for a shift: live totals while it's open, the closing snapshot once it's closed. */
+export const fetchShiftReport = async (shiftId: string): Promise<ShiftReportData> => {
+  const [shiftResult, movementsResult] = await Promise.all([
+    supabase.from('shifts').select('*').eq('id', shiftId).single(),
+    supabase.from('shift_cash_movements').select('*').eq('shift_id', shiftId).order('created_at'),
+  ]);
+  if (shiftResult.error) throw new Error(shiftResult.error.message);
+  if (movementsResult.error) throw new Error(movementsResult.error.message);
+
+  const shift = shiftResult.data;
+  let summary = shift.summary as Record<string, unknown> | null;
+  if (!summary) {
+    const { data, error } = await supabase.rpc('shift_cash_summary', { _shift_id: shiftId });
+    if (error) throw new Error(error.message);
+    summary = (data || {}) as Record<string, unknown>;
+  }
+  const amount = (key: string) => Number(summary?.[key]) || 0;
+  const payments = (summary.payments && typeof summary.payments === 'object' ? summary.payments : {}) as Record<string, unknown>;
+
+  const movements: ShiftCashMovement[] = (movementsResult.data || []).map((m) => ({
+    id: m.id,
+    direction: m.direction === 'out' ? 'out' : 'in',
+    amount: Number(m.amount) || 0,
+    note: m.note,
+    createdAt: new Date(m.created_at),
+  }));
+
+  return {
+    id: shift.id,
+    cashier: shift.cashier || undefined,
+    openedAt: new Date(shift.opened_at),
+    closedAt: shift.closed_at ? new Date(shift.closed_at) : undefined,
+    openingFloat: Number(shift.opening_float) || 0,
+    salesCount: amount('sales_count'),
+    salesTotal: amount('sales_total'),
+    voidCount: amount('void_count'),
+    payments: Object.fromEntries(Object.entries(payments).map(([method, value]) => [method, Number(value) || 0])),
+    cashSales: amount('cash_sales'),
+    changeGiven: amount('change_given'),
+    debtPayments: amount('debt_payments'),
+    cashIn: amount('cash_in'),
+    cashOut: amount('cash_out'),
+    cashRefunds: amount('cash_refunds'),
+    voidRefunds: amount('void_refunds'),
+    expectedCash: shift.expected_cash ?? amount('expected_cash'),
+    countedCash: shift.counted_cash ?? undefined,
+    variance: shift.variance ?? undefined,
+    denominations: parseDenominations(shift.denominations),
+    movements,
+    notes: shift.notes || undefined,
+  };
+};
+
+// RPC results are {"error": code} on failure; turn that into a readable Error
+const unwrapShiftResult = (data: unknown, error: { message: string } | null): ShiftRow => {
+  if (error) throw new Error(error.message);
+  const result = data as ShiftRow & { error?: string };
+  if (result?.error) throw new Error(shiftErrorMessages[result.error] || result.error);
+  return result;
+};
+
+/** The signed-in user's shift: open it with a float, record cash movements, close it with a count. */
+export function useShift() {
+  const { user } = useAuth();
+  const [shift, setShift] = useState<OpenShift | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const applyShift = useCallback((next: OpenShift | null) => {
+    setShift(next);
+    writeCachedShift(next);
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+
+    // Offline (or until the server answers), trust what this device last saw
+    const cached = readCachedShift();
+    setShift(cached?.userId === user.id ? cached : null);
+
+    const { data, error } = await supabase
+      .from('shifts')
+      .select('*')
+      .eq('opened_by', user.id)
+      .is('closed_at', null)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[useShift] Failed to load open shift:', error);
+    } else {
+      applyShift(data ? toOpenShift(data) : null);
+    }
+    setIsLoading(false);
+  }, [user, applyShift]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const openShift = useCallback(async (openingFloat: number) => {
+    if (!user) throw new Error('Silakan login terlebih dahulu');
+    const { data, error } = await supabase.rpc('open_shift', {
+      _opening_float: openingFloat,
+      _cashier: getCashierName(user),
+    });
+    const row = unwrapShiftResult(data, error);
+    applyShift(toOpenShift(row));
+  }, [user, applyShift]);
+
+  const addCashMovement = useCallback(async (direction: 'in' | 'out', amount: number, note: string) => {
+    if (!user || !shift) throw new Error('Belum ada shift yang dibuka');
+    const { error } = await supabase
+      .from('shift_cash_movements')
+      .insert([{ shift_id: shift.id, direction, amount, note: note.trim(), created_by: user.id }]);
+    if (error) throw new Error(error.message);
+  }, [user, shift]);
+
+  const closeShift = useCallback(async (denominations: CashDenominationCount[], notes: string): Promise<ShiftReportData> => {
+    if (!shift) throw new Error('Belum ada shift yang dibuka');
+    const { data, error } = await supabase.rpc('close_shift', {
+      _shift_id: shift.id,
+      _denominations: JSON.parse(JSON.stringify(denominations.filter((d) => d.count > 0))),
+      _notes: notes,
+    });
+    const row = unwrapShiftResult(data, error);
+    applyShift(null);
+    return fetchShiftReport(row.id);
+  }, [shift, applyShift]);
+
+  return {
+    shift,
+    isLoading,
+    refresh,
+    openShift,
+    addCashMovement,
+    closeShift,
+  };
+}
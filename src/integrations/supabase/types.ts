@@ -14,6 +14,42 @@ export type Database = {
   }
   public: {
     Tables: {
+      admin_pin_attempts: {
+        Row: {
+          attempted_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          attempted_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          attempted_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      admin_pins: {
+        Row: {
+          pin_hash: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          pin_hash: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          pin_hash?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       app_settings: {
         Row: {
           created_at: string
@@ -38,6 +74,257 @@ export type Database = {
         }
         Relationships: []
       }
+      customers: {
+        Row: {
+          address: string | null
+          created_at: string
+          created_by: string | null
+          customer_type: string
+          id: string
+          name: string
+          notes: string | null
+          phone: string | null
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          created_at?: string
+          created_by?: string | null
+          customer_type?: string
+          id?: string
+          name: string
+          notes?: string | null
+          phone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          created_at?: string
+          created_by?: string | null
+          customer_type?: string
+          id?: string
+          name?: string
+          notes?: string | null
+          phone?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      discount_approvals: {
+        Row: {
+          amount: number
+          approved_by: string
+          approved_by_email: string | null
+          created_at: string
+          details: Json
+          id: string
+          max_percent: number
+          reason: string
+          requested_by: string
+          requested_by_email: string | null
+          transaction_id: string | null
+        }
+        Insert: {
+          amount: number
+          approved_by: string
+          approved_by_email?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          max_percent: number
+          reason: string
+          requested_by: string
+          requested_by_email?: string | null
+          transaction_id?: string | null
+        }
+        Update: {
+          amount?: number
+          approved_by?: string
+          approved_by_email?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          max_percent?: number
+          reason?: string
+          requested_by?: string
+          requested_by_email?: string | null
+          transaction_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "discount_approvals_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      favorite_products: {
+        Row: {
+          created_at: string
+          id: string
+          position: number
+          product_id: string
+          user_id: string
+          variant_code: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          position?: number
+          product_id: string
+          user_id?: string
+          variant_code?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          position?: number
+          product_id?: string
+          user_id?: string
+          variant_code?: string
+        }
+        Relationships: []
+      }
+      invoice_number_blocks: {
+        Row: {
+          first_number: number
+          id: string
+          last_number: number
+          prefix: string
+          reserved_at: string
+          reserved_by: string | null
+          terminal_id: string
+        }
+        Insert: {
+          first_number: number
+          id?: string
+          last_number: number
+          prefix: string
+          reserved_at?: string
+          reserved_by?: string | null
+          terminal_id: string
+        }
+        Update: {
+          first_number?: number
+          id?: string
+          last_number?: number
+          prefix?: string
+          reserved_at?: string
+          reserved_by?: string | null
+          terminal_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_number_blocks_terminal_id_fkey"
+            columns: ["terminal_id"]
+            isOneToOne: false
+            referencedRelation: "pos_terminals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_number_voids: {
+        Row: {
+          invoice_id: string
+          reason: string
+          terminal_id: string
+          voided_at: string
+          voided_by: string | null
+        }
+        Insert: {
+          invoice_id: string
+          reason: string
+          terminal_id: string
+          voided_at?: string
+          voided_by?: string | null
+        }
+        Update: {
+          invoice_id?: string
+          reason?: string
+          terminal_id?: string
+          voided_at?: string
+          voided_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_number_voids_terminal_id_fkey"
+            columns: ["terminal_id"]
+            isOneToOne: false
+            referencedRelation: "pos_terminals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      loyalty_ledger: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          entry_type: string
+          id: string
+          phone: string
+          points: number
+          return_id: string | null
+          transaction_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          entry_type: string
+          id?: string
+          phone: string
+          points: number
+          return_id?: string | null
+          transaction_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          entry_type?: string
+          id?: string
+          phone?: string
+          points?: number
+          return_id?: string | null
+          transaction_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loyalty_ledger_return_id_fkey"
+            columns: ["return_id"]
+            isOneToOne: false
+            referencedRelation: "transaction_returns"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pos_terminals: {
+        Row: {
+          code: string
+          created_at: string
+          created_by: string | null
+          id: string
+          last_reserved_at: string | null
+          next_number: number
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          last_reserved_at?: string | null
+          next_number?: number
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          last_reserved_at?: string | null
+          next_number?: number
+        }
+        Relationships: []
+      }
       printer_configs: {
         Row: {
           created_at: string
@@ -68,50 +355,510 @@ export type Database = {
         }
         Relationships: []
       }
+      promotions: {
+        Row: {
+          buy_qty: number | null
+          bundle_price: number | null
+          category: string | null
+          created_at: string
+          created_by: string | null
+          end_time: string | null
+          ends_at: string | null
+          free_qty: number | null
+          id: string
+          is_active: boolean
+          name: string
+          percent: number | null
+          product_ids: string[]
+          promo_type: string
+          start_time: string | null
+          starts_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          buy_qty?: number | null
+          bundle_price?: number | null
+          category?: string | null
+          created_at?: string
+          created_by?: string | null
+          end_time?: string | null
+          ends_at?: string | null
+          free_qty?: number | null
+          id?: string
+          is_active?: boolean
+          name: string
+          percent?: number | null
+          product_ids?: string[]
+          promo_type: string
+          start_time?: string | null
+          starts_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          buy_qty?: number | null
+          bundle_price?: number | null
+          category?: string | null
+          created_at?: string
+          created_by?: string | null
+          end_time?: string | null
+          ends_at?: string | null
+          free_qty?: number | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          percent?: number | null
+          product_ids?: string[]
+          promo_type?: string
+          start_time?: string | null
+          starts_at?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      receivable_payments: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          id: string
+          note: string | null
+          payment_method: string
+          receivable_id: string
+          reference: string | null
+          shift_id: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          note?: string | null
+          payment_method: string
+          receivable_id: string
+          reference?: string | null
+          shift_id?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          note?: string | null
+          payment_method?: string
+          receivable_id?: string
+          reference?: string | null
+          shift_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "receivable_payments_receivable_id_fkey"
+            columns: ["receivable_id"]
+            isOneToOne: false
+            referencedRelation: "receivables"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "receivable_payments_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "shifts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      receivables: {
+        Row: {
+          amount: number
+          cancelled_at: string | null
+          created_at: string
+          customer_id: string | null
+          due_date: string | null
+          id: string
+          paid_amount: number
+          transaction_id: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          cancelled_at?: string | null
+          created_at?: string
+          customer_id?: string | null
+          due_date?: string | null
+          id?: string
+          paid_amount?: number
+          transaction_id: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          cancelled_at?: string | null
+          created_at?: string
+          customer_id?: string | null
+          due_date?: string | null
+          id?: string
+          paid_amount?: number
+          transaction_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "receivables_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "receivables_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sheet_stock_commits: {
+        Row: {
+          committed_at: string
+          committed_by: string | null
+          sale_id: string
+        }
+        Insert: {
+          committed_at?: string
+          committed_by?: string | null
+          sale_id: string
+        }
+        Update: {
+          committed_at?: string
+          committed_by?: string | null
+          sale_id?: string
+        }
+        Relationships: []
+      }
+      sheet_transaction_appends: {
+        Row: {
+          appended_at: string
+          appended_by: string | null
+          sale_id: string
+        }
+        Insert: {
+          appended_at?: string
+          appended_by?: string | null
+          sale_id: string
+        }
+        Update: {
+          appended_at?: string
+          appended_by?: string | null
+          sale_id?: string
+        }
+        Relationships: []
+      }
+      shift_cash_movements: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          direction: string
+          id: string
+          note: string
+          shift_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          direction: string
+          id?: string
+          note: string
+          shift_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          direction?: string
+          id?: string
+          note?: string
+          shift_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shift_cash_movements_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "shifts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shifts: {
+        Row: {
+          cashier: string | null
+          closed_at: string | null
+          closed_by: string | null
+          counted_cash: number | null
+          denominations: Json | null
+          expected_cash: number | null
+          id: string
+          notes: string | null
+          opened_at: string
+          opened_by: string
+          opening_float: number
+          summary: Json | null
+          variance: number | null
+        }
+        Insert: {
+          cashier?: string | null
+          closed_at?: string | null
+          closed_by?: string | null
+          counted_cash?: number | null
+          denominations?: Json | null
+          expected_cash?: number | null
+          id?: string
+          notes?: string | null
+          opened_at?: string
+          opened_by: string
+          opening_float?: number
+          summary?: Json | null
+          variance?: number | null
+        }
+        Update: {
+          cashier?: string | null
+          closed_at?: string | null
+          closed_by?: string | null
+          counted_cash?: number | null
+          denominations?: Json | null
+          expected_cash?: number | null
+          id?: string
+          notes?: string | null
+          opened_at?: string
+          opened_by?: string
+          opening_float?: number
+          summary?: Json | null
+          variance?: number | null
+        }
+        Relationships: []
+      }
+      transaction_returns: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          items: Json
+          reason: string | null
+          refund_method: string
+          shift_id: string | null
+          stock_restored: boolean
+          total_refund: number
+          transaction_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id: string
+          items: Json
+          reason?: string | null
+          refund_method: string
+          shift_id?: string | null
+          stock_restored?: boolean
+          total_refund?: number
+          transaction_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          items?: Json
+          reason?: string | null
+          refund_method?: string
+          shift_id?: string | null
+          stock_restored?: boolean
+          total_refund?: number
+          transaction_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_returns_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "shifts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_returns_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       transactions: {
         Row: {
           cash_received: number | null
+          cash_rounding: number
           cashier: string | null
+          cashier_id: string | null
           change: number | null
           created_at: string
+          credit_due_date: string | null
+          credit_outstanding: number | null
+          customer_id: string | null
           customer_name: string | null
           customer_phone: string | null
           discount: number
+          discount_approval_id: string | null
+          discount_reason: string | null
+          discount_violation: string | null
           id: string
           items: Json
+          loyalty_phone: string | null
           payment_method: string
+          payments: Json
+          points_balance: number | null
+          points_discount: number
+          points_earned: number
+          points_redeemed: number
+          promotions: Json
+          search_text: string | null
+          service_charge: number
+          service_charge_rate: number
+          shift_id: string | null
           subtotal: number
+          tax_amount: number
+          tax_base: number
+          tax_mode: string | null
+          tax_rate: number
           total: number
+          void_approved_by: string | null
+          void_reason: string | null
+          void_shift_id: string | null
+          void_stock_restored: boolean
+          voided_at: string | null
+          voided_by: string | null
+          voucher_code: string | null
+          voucher_discount: number
         }
         Insert: {
           cash_received?: number | null
+          cash_rounding?: number
           cashier?: string | null
+          cashier_id?: string | null
           change?: number | null
           created_at?: string
+          credit_due_date?: string | null
+          credit_outstanding?: number | null
+          customer_id?: string | null
           customer_name?: string | null
           customer_phone?: string | null
           discount?: number
+          discount_approval_id?: string | null
+          discount_reason?: string | null
+          discount_violation?: string | null
           id: string
           items: Json
+          loyalty_phone?: string | null
           payment_method: string
+          payments?: Json
+          points_balance?: number | null
+          points_discount?: number
+          points_earned?: number
+          points_redeemed?: number
+          promotions?: Json
+          search_text?: never
+          service_charge?: number
+          service_charge_rate?: number
+          shift_id?: string | null
           subtotal: number
+          tax_amount?: number
+          tax_base?: number
+          tax_mode?: string | null
+          tax_rate?: number
           total: number
+          void_approved_by?: string | null
+          void_reason?: string | null
+          void_shift_id?: string | null
+          void_stock_restored?: boolean
+          voided_at?: string | null
+          voided_by?: string | null
+          voucher_code?: string | null
+          voucher_discount?: number
         }
         Update: {
           cash_received?: number | null
+          cash_rounding?: number
           cashier?: string | null
+          cashier_id?: string | null
           change?: number | null
           created_at?: string
+          credit_due_date?: string | null
+          credit_outstanding?: number | null
+          customer_id?: string | null
           customer_name?: string | null
           customer_phone?: string | null
           discount?: number
+          discount_approval_id?: string | null
+          discount_reason?: string | null
+          discount_violation?: string | null
           id?: string
           items?: Json
+          loyalty_phone?: string | null
           payment_method?: string
+          payments?: Json
+          points_balance?: number | null
+          points_discount?: number
+          points_earned?: number
+          points_redeemed?: number
+          promotions?: Json
+          search_text?: never
+          service_charge?: number
+          service_charge_rate?: number
+          shift_id?: string | null
           subtotal?: number
+          tax_amount?: number
+          tax_base?: number
+          tax_mode?: string | null
+          tax_rate?: number
           total?: number
+          void_approved_by?: string | null
+          void_reason?: string | null
+          void_shift_id?: string | null
+          void_stock_restored?: boolean
+          voided_at?: string | null
+          voided_by?: string | null
+          voucher_code?: string | null
+          voucher_discount?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "transactions_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_discount_approval_id_fkey"
+            columns: ["discount_approval_id"]
+            isOneToOne: false
+            referencedRelation: "discount_approvals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "shifts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_void_shift_id_fkey"
+            columns: ["void_shift_id"]
+            isOneToOne: false
+            referencedRelation: "shifts"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_roles: {
         Row: {
@@ -134,11 +881,179 @@ export type Database = {
         }
         Relationships: []
       }
+      voucher_redemptions: {
+        Row: {
+          code: string
+          discount_amount: number
+          id: string
+          redeemed_at: string
+          redeemed_by: string | null
+          transaction_id: string
+          voucher_id: string
+        }
+        Insert: {
+          code: string
+          discount_amount: number
+          id?: string
+          redeemed_at?: string
+          redeemed_by?: string | null
+          transaction_id: string
+          voucher_id: string
+        }
+        Update: {
+          code?: string
+          discount_amount?: number
+          id?: string
+          redeemed_at?: string
+          redeemed_by?: string | null
+          transaction_id?: string
+          voucher_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "voucher_redemptions_voucher_id_fkey"
+            columns: ["voucher_id"]
+            isOneToOne: false
+            referencedRelation: "vouchers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vouchers: {
+        Row: {
+          amount: number
+          code: string
+          created_at: string
+          created_by: string | null
+          discount_type: string
+          expires_at: string | null
+          id: string
+          is_active: boolean
+          max_discount: number | null
+          min_spend: number
+          note: string | null
+          single_use: boolean
+          times_used: number
+          updated_at: string
+          usage_limit: number | null
+        }
+        Insert: {
+          amount: number
+          code: string
+          created_at?: string
+          created_by?: string | null
+          discount_type: string
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_discount?: number | null
+          min_spend?: number
+          note?: string | null
+          single_use?: boolean
+          times_used?: number
+          updated_at?: string
+          usage_limit?: number | null
+        }
+        Update: {
+          amount?: number
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          discount_type?: string
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_discount?: number | null
+          min_spend?: number
+          note?: string | null
+          single_use?: boolean
+          times_used?: number
+          updated_at?: string
+          usage_limit?: number | null
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      reserved_invoice_numbers: {
+        Row: {
+          invoice_id: string | null
+          number: number | null
+          terminal_code: string | null
+          terminal_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_number_blocks_terminal_id_fkey"
+            columns: ["terminal_id"]
+            isOneToOne: false
+            referencedRelation: "pos_terminals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      approve_discount: {
+        Args: {
+          _admin_pin?: string
+          _amount: number
+          _details: Json
+          _max_percent: number
+          _reason: string
+        }
+        Returns: Json
+      }
+      cashier_sales_summary: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          cashier: string
+          cashier_id: string
+          refund_total: number
+          sales_count: number
+          sales_total: number
+          void_count: number
+        }[]
+      }
+      check_voucher: { Args: { _amount: number; _code: string }; Returns: Json }
+      close_shift: {
+        Args: { _denominations: Json; _notes?: string; _shift_id: string }
+        Returns: Json
+      }
+      credit_amount: { Args: { _payments: Json }; Returns: number }
+      customer_purchase_summary: {
+        Args: { _customer_id: string }
+        Returns: Json
+      }
+      evaluate_voucher: {
+        Args: {
+          _amount: number
+          _voucher: Database["public"]["Tables"]["vouchers"]["Row"]
+        }
+        Returns: Json
+      }
+      filter_transactions: {
+        Args: {
+          _cashier_id?: string
+          _from?: string
+          _max_total?: number
+          _method?: string
+          _min_total?: number
+          _search?: string
+          _to?: string
+        }
+        Returns: Database["public"]["Tables"]["transactions"]["Row"][]
+        SetofOptions: {
+          from: "*"
+          to: "transactions"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      format_invoice_number: {
+        Args: { _number: number; _prefix: string; _terminal_code: string }
+        Returns: string
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -146,6 +1061,68 @@ export type Database = {
         }
         Returns: boolean
       }
+      invoice_number_status: {
+        Args: never
+        Returns: {
+          held: number
+          last_used: string
+          reserved: number
+          skipped: number
+          terminal_code: string
+          terminal_id: string
+          used: number
+          voided: number
+        }[]
+      }
+      loyalty_balance: { Args: { _phone: string }; Returns: number }
+      loyalty_setting: { Args: { _key: string }; Returns: number }
+      open_shift: {
+        Args: { _cashier?: string; _opening_float: number }
+        Returns: Json
+      }
+      redeem_loyalty_points: {
+        Args: { _phone: string; _points: number; _transaction_id: string }
+        Returns: Json
+      }
+      redeem_voucher: {
+        Args: { _amount: number; _code: string; _transaction_id: string }
+        Returns: Json
+      }
+      reserve_invoice_numbers: {
+        Args: { _count: number; _terminal_code: string }
+        Returns: Json
+      }
+      set_admin_pin: { Args: { _pin: string }; Returns: undefined }
+      shift_cash_summary: { Args: { _shift_id: string }; Returns: Json }
+      transactions_summary: {
+        Args: {
+          _cashier_id?: string
+          _from?: string
+          _max_total?: number
+          _method?: string
+          _min_total?: number
+          _search?: string
+          _to?: string
+        }
+        Returns: Json
+      }
+      verify_admin_pin: { Args: { _pin: string }; Returns: string }
+      void_invoice_number: {
+        Args: { _invoice_id: string; _reason: string }
+        Returns: Json
+      }
+      void_transaction: {
+        Args: {
+          _admin_pin?: string
+          _reason: string
+          _transaction_id: string
+        }
+        Returns: Json
+      }
+      void_unused_invoice_numbers: {
+        Args: { _reason: string; _terminal_id: string }
+        Returns: Json
+      }
     }
     Enums: {
       app_role: "admin" | "cashier"
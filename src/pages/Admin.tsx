@@ -3,8 +3,10 @@ import { useNavigate } from 'react-router-dom';
 import { useTheme } from 'next-themes';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { 
   Select, 
   SelectContent, 
@@ -21,8 +23,17 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { toast } from 'sonner';
-import { ArrowLeft, UserPlus, Trash2, Shield, ShoppingCart, Loader2, Link, Save, MapPin, Phone, Building2, CreditCard, Upload, Image, Printer, Bluetooth, Unlink, Percent, Sun, Moon } from 'lucide-react';
+import { ArrowLeft, UserPlus, Trash2, Shield, ShoppingCart, Loader2, Link, Save, MapPin, Phone, Building2, CreditCard, Upload, Image, Printer, Bluetooth, Unlink, Percent, Gift, Sun, Moon, KeyRound, Landmark, Coins, Search, Hash } from 'lucide-react';
+import { PromotionManager } from '@/components/admin/PromotionManager';
+import { VoucherManager } from '@/components/admin/VoucherManager';
+import { DiscountApprovalLog } from '@/components/admin/DiscountApprovalLog';
+import { ShiftLog } from '@/components/admin/ShiftLog';
 import { isBluetoothSupported, PRINTER_SERVICE_UUIDS, PRINTER_CHARACTERISTIC_UUIDS } from '@/utils/escpos';
+import { parseTaxMode } from '@/utils/tax';
+import { CASH_ROUNDING_UNITS, getCashRoundingAdjustment } from '@/utils/cashRounding';
+import { parseSearchSynonyms } from '@/utils/productSearch';
+import { parseDiscountLimit } from '@/utils/discountLimits';
+import type { CashRoundingMode, TaxMode } from '@/types/pos';
 
 type AppRole = 'admin' | 'cashier';
 
@@ -35,6 +46,11 @@ interface UserWithRole {
   printerDeviceId?: string | null;
 }
 
+type TerminalNumberStatus = Database['public']['Functions']['invoice_number_status']['Returns'][number];
+
+// Must match the check in reserve_invoice_numbers
+const INVOICE_PREFIX_PATTERN = /^[A-Z0-9]{1,10}$/;
+
 export default function Admin() {
   const navigate = useNavigate();
   const { theme, setTheme } = useTheme();
@@ -52,6 +68,12 @@ export default function Admin() {
   const [publicInvoiceUrl, setPublicInvoiceUrl] = useState('');
   const [isSavingUrl, setIsSavingUrl] = useState(false);
 
+  // Invoice numbering state
+  const [invoicePrefix, setInvoicePrefix] = useState('INV');
+  const [isSavingPrefix, setIsSavingPrefix] = useState(false);
+  const [terminals, setTerminals] = useState<TerminalNumberStatus[]>([]);
+  const [voidingTerminalId, setVoidingTerminalId] = useState<string | null>(null);
+
   // Store info settings
   const [storeName, setStoreName] = useState('');
   const [storeAddress, setStoreAddress] = useState('');
@@ -72,6 +94,33 @@ export default function Admin() {
   const [bulkPricePercentage, setBulkPricePercentage] = useState('98');
   const [isSavingBulkPrice, setIsSavingBulkPrice] = useState(false);
 
+  // Loyalty points settings
+  const [loyaltyEarnAmount, setLoyaltyEarnAmount] = useState('');
+  const [loyaltyPointValue, setLoyaltyPointValue] = useState('100');
+  const [isSavingLoyalty, setIsSavingLoyalty] = useState(false);
+
+  // Tax (PPN) and service charge settings
+  const [taxRate, setTaxRate] = useState('');
+  const [taxMode, setTaxMode] = useState<TaxMode>('inclusive');
+  const [serviceChargeRate, setServiceChargeRate] = useState('');
+  const [isSavingTax, setIsSavingTax] = useState(false);
+
+  // Cash rounding settings
+  const [cashRoundingUnit, setCashRoundingUnit] = useState('');
+  const [cashRoundingMode, setCashRoundingMode] = useState<CashRoundingMode>('nearest');
+  const [isSavingRounding, setIsSavingRounding] = useState(false);
+  const [searchSynonyms, setSearchSynonyms] = useState('');
+  const [isSavingSynonyms, setIsSavingSynonyms] = useState(false);
+
+  // Approval PIN state
+  const [approvalPin, setApprovalPin] = useState('');
+  const [isSavingPin, setIsSavingPin] = useState(false);
+
+  // Discount limit state (percent per role, empty = no limit)
+  const [cashierDiscountLimit, setCashierDiscountLimit] = useState('');
+  const [adminDiscountLimit, setAdminDiscountLimit] = useState('');
+  const [isSavingDiscountLimits, setIsSavingDiscountLimits] = useState(false);
+
   // Printer config state
   const [connectingPrinterForUser, setConnectingPrinterForUser] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -87,6 +136,7 @@ export default function Admin() {
     if (isAdmin) {
       fetchUsers();
       fetchAllSettings();
+      fetchTerminals();
     }
   }, [isAdmin]);
 
@@ -112,11 +162,32 @@ export default function Admin() {
       setBankAccountHolder(settings['bank_account_holder'] || '');
       setQrisImageUrl(settings['qris_image_url'] || '');
       setBulkPricePercentage(settings['bulk_price_percentage'] || '98');
+      setLoyaltyEarnAmount(settings['loyalty_earn_amount'] || '');
+      setLoyaltyPointValue(settings['loyalty_point_value'] || '100');
+      setTaxRate(settings['tax_rate'] || '');
+      setTaxMode(parseTaxMode(settings['tax_mode']));
+      setServiceChargeRate(settings['service_charge_rate'] || '');
+      setCashRoundingUnit(settings['cash_rounding_unit'] || '');
+      setCashRoundingMode((settings['cash_rounding_mode'] as CashRoundingMode) || 'nearest');
+      setSearchSynonyms(settings['search_synonyms'] || '');
+      setInvoicePrefix(settings['invoice_prefix'] || 'INV');
+      setCashierDiscountLimit(settings['discount_limit_cashier'] || '');
+      setAdminDiscountLimit(settings['discount_limit_admin'] || '');
     } catch (error) {
       console.error('Error fetching settings:', error);
     }
   };
 
+  const fetchTerminals = async () => {
+    const { data, error } = await supabase.rpc('invoice_number_status');
+
+    if (error) {
+      console.error('Error fetching terminals:', error);
+      return;
+    }
+    setTerminals(data || []);
+  };
+
   const updateSetting = async (key: string, value: string | null) => {
     // Use upsert to handle cases where the setting might not exist yet
     const { error } = await supabase
@@ -144,6 +215,52 @@ export default function Admin() {
     }
   };
 
+  const handleSaveInvoicePrefix = async () => {
+    const prefix = invoicePrefix.trim().toUpperCase();
+    if (!INVOICE_PREFIX_PATTERN.test(prefix)) {
+      toast.error('Awalan hanya boleh huruf dan angka (1-10 karakter)');
+      return;
+    }
+
+    setIsSavingPrefix(true);
+    try {
+      await updateSetting('invoice_prefix', prefix);
+      setInvoicePrefix(prefix);
+      toast.success('Awalan nomor invoice berhasil disimpan');
+    } catch (error) {
+      console.error('Error saving invoice prefix:', error);
+      toast.error('Gagal menyimpan awalan nomor invoice');
+    } finally {
+      setIsSavingPrefix(false);
+    }
+  };
+
+  // Write off the numbers a reset or retired terminal still holds, so the series is accounted for
+  const handleVoidUnusedNumbers = async (terminal: TerminalNumberStatus) => {
+    const count = terminal.skipped + terminal.held;
+    if (!confirm(`Hapuskan ${count} nomor invoice ${terminal.terminal_code} yang belum terpakai? Lakukan ini hanya jika perangkat sudah direset atau tidak dipakai lagi.`)) {
+      return;
+    }
+
+    setVoidingTerminalId(terminal.terminal_id);
+    try {
+      const { data, error } = await supabase.rpc('void_unused_invoice_numbers', {
+        _terminal_id: terminal.terminal_id,
+        _reason: 'Perangkat direset atau tidak dipakai',
+      });
+      if (error) throw error;
+      const result = (data || {}) as { error?: string; voided?: number };
+      if (result.error) throw new Error(result.error);
+      toast.success(`${result.voided ?? 0} nomor invoice dihapuskan`);
+      fetchTerminals();
+    } catch (error) {
+      console.error('Error voiding invoice numbers:', error);
+      toast.error('Gagal menghapuskan nomor invoice');
+    } finally {
+      setVoidingTerminalId(null);
+    }
+  };
+
   const handleSaveStoreInfo = async () => {
     setIsSavingStoreInfo(true);
     try {
@@ -197,6 +314,128 @@ export default function Admin() {
     }
   };
 
+  const handleSaveLoyalty = async () => {
+    const earnAmount = loyaltyEarnAmount ? parseInt(loyaltyEarnAmount, 10) : 0;
+    const pointValue = parseInt(loyaltyPointValue, 10);
+    if (isNaN(earnAmount) || earnAmount < 0) {
+      toast.error('Nominal belanja per poin tidak valid');
+      return;
+    }
+    if (isNaN(pointValue) || pointValue < 1) {
+      toast.error('Nilai tukar poin minimal Rp1');
+      return;
+    }
+
+    setIsSavingLoyalty(true);
+    try {
+      await updateSetting('loyalty_earn_amount', earnAmount > 0 ? String(earnAmount) : '');
+      await updateSetting('loyalty_point_value', String(pointValue));
+      toast.success(earnAmount > 0 ? 'Pengaturan poin berhasil disimpan' : 'Program poin dinonaktifkan');
+    } catch (error) {
+      console.error('Error saving loyalty settings:', error);
+      toast.error('Gagal menyimpan pengaturan poin');
+    } finally {
+      setIsSavingLoyalty(false);
+    }
+  };
+
+  const handleSaveTax = async () => {
+    const rate = taxRate ? parseFloat(taxRate.replace(',', '.')) : 0;
+    if (isNaN(rate) || rate < 0 || rate > 100) {
+      toast.error('Tarif PPN harus antara 0 dan 100%');
+      return;
+    }
+    const serviceRate = serviceChargeRate ? parseFloat(serviceChargeRate.replace(',', '.')) : 0;
+    if (isNaN(serviceRate) || serviceRate < 0 || serviceRate > 100) {
+      toast.error('Service charge harus antara 0 dan 100%');
+      return;
+    }
+
+    setIsSavingTax(true);
+    try {
+      await updateSetting('tax_rate', rate > 0 ? String(rate) : '');
+      await updateSetting('tax_mode', taxMode);
+      await updateSetting('service_charge_rate', serviceRate > 0 ? String(serviceRate) : '');
+      toast.success('Pengaturan PPN & service charge berhasil disimpan');
+    } catch (error) {
+      console.error('Error saving tax settings:', error);
+      toast.error('Gagal menyimpan pengaturan PPN');
+    } finally {
+      setIsSavingTax(false);
+    }
+  };
+
+  const handleSaveCashRounding = async () => {
+    setIsSavingRounding(true);
+    try {
+      await updateSetting('cash_rounding_unit', cashRoundingUnit || '');
+      await updateSetting('cash_rounding_mode', cashRoundingMode);
+      toast.success(cashRoundingUnit ? 'Pembulatan tunai berhasil disimpan' : 'Pembulatan tunai dinonaktifkan');
+    } catch (error) {
+      console.error('Error saving cash rounding:', error);
+      toast.error('Gagal menyimpan pembulatan tunai');
+    } finally {
+      setIsSavingRounding(false);
+    }
+  };
+
+  const handleSaveSynonyms = async () => {
+    setIsSavingSynonyms(true);
+    try {
+      const cleaned = searchSynonyms.split('\n').map((line) => line.trim()).filter(Boolean).join('\n');
+      await updateSetting('search_synonyms', cleaned);
+      setSearchSynonyms(cleaned);
+      toast.success('Sinonim pencarian berhasil disimpan');
+    } catch (error) {
+      console.error('Error saving search synonyms:', error);
+      toast.error('Gagal menyimpan sinonim pencarian');
+    } finally {
+      setIsSavingSynonyms(false);
+    }
+  };
+
+  const handleSaveApprovalPin = async () => {
+    if (!/^\d{4,8}$/.test(approvalPin)) {
+      toast.error('PIN harus 4-8 digit angka');
+      return;
+    }
+
+    setIsSavingPin(true);
+    try {
+      const { error } = await supabase.rpc('set_admin_pin', { _pin: approvalPin });
+      if (error) throw error;
+      setApprovalPin('');
+      toast.success('PIN persetujuan berhasil disimpan');
+    } catch (error) {
+      console.error('Error saving approval PIN:', error);
+      toast.error('Gagal menyimpan PIN persetujuan');
+    } finally {
+      setIsSavingPin(false);
+    }
+  };
+
+  const handleSaveDiscountLimits = async () => {
+    const limits = [cashierDiscountLimit, adminDiscountLimit].map((value) =>
+      value.trim() ? parseDiscountLimit(value) : null
+    );
+    if ([cashierDiscountLimit, adminDiscountLimit].some((value, i) => value.trim() && limits[i] === null)) {
+      toast.error('Batas diskon harus 0-99%, kosongkan jika tanpa batas');
+      return;
+    }
+
+    setIsSavingDiscountLimits(true);
+    try {
+      await updateSetting('discount_limit_cashier', limits[0] !== null ? String(limits[0]) : '');
+      await updateSetting('discount_limit_admin', limits[1] !== null ? String(limits[1]) : '');
+      toast.success('Batas diskon berhasil disimpan');
+    } catch (error) {
+      console.error('Error saving discount limits:', error);
+      toast.error('Gagal menyimpan batas diskon');
+    } finally {
+      setIsSavingDiscountLimits(false);
+    }
+  };
+
   const handleQrisUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -620,6 +859,108 @@ export default function Admin() {
           </div>
         </section>
 
+        {/* Automatic Promotions */}
+        <PromotionManager />
+
+        {/* Vouchers */}
+        <VoucherManager />
+
+        {/* Approval PIN */}
+        <section className="pos-card p-6">
+          <h2 className="text-lg font-semibold mb-2 flex items-center gap-2">
+            <KeyRound className="w-5 h-5" />
+            PIN Persetujuan Admin
+          </h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            PIN ini dimasukkan di perangkat kasir untuk menyetujui pembatalan transaksi (void)
+            dan diskon di atas batas. Setiap admin memiliki PIN sendiri.
+          </p>
+
+          <div className="flex gap-2 items-center">
+            <Input
+              type="password"
+              inputMode="numeric"
+              autoComplete="new-password"
+              placeholder="4-8 digit"
+              value={approvalPin}
+              onChange={(e) => setApprovalPin(e.target.value.replace(/\D/g, ''))}
+              maxLength={8}
+              className="w-40 font-mono tracking-widest"
+            />
+            <Button onClick={handleSaveApprovalPin} disabled={isSavingPin || approvalPin.length < 4} className="ml-auto">
+              {isSavingPin ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <>
+                  <Save className="w-4 h-4 mr-2" />
+                  Simpan
+                </>
+              )}
+            </Button>
+          </div>
+        </section>
+
+        {/* Discount Limits */}
+        <section className="pos-card p-6">
+          <h2 className="text-lg font-semibold mb-2 flex items-center gap-2">
+            <Percent className="w-5 h-5" />
+            Batas Diskon Manual
+          </h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Diskon item atau order terbesar yang boleh diberikan tanpa PIN admin, dalam persen.
+            Setiap diskon manual tetap wajib diberi alasan. Kosongkan jika tanpa batas.
+          </p>
+
+          <div className="flex flex-wrap gap-4 items-end">
+            <div>
+              <label className="text-sm text-muted-foreground mb-1 block">Kasir</label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min="0"
+                  max="99"
+                  placeholder="Tanpa batas"
+                  value={cashierDiscountLimit}
+                  onChange={(e) => setCashierDiscountLimit(e.target.value)}
+                  className="w-32"
+                />
+                <span className="text-muted-foreground">%</span>
+              </div>
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground mb-1 block">Admin</label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min="0"
+                  max="99"
+                  placeholder="Tanpa batas"
+                  value={adminDiscountLimit}
+                  onChange={(e) => setAdminDiscountLimit(e.target.value)}
+                  className="w-32"
+                />
+                <span className="text-muted-foreground">%</span>
+              </div>
+            </div>
+            <Button onClick={handleSaveDiscountLimits} disabled={isSavingDiscountLimits} className="ml-auto">
+              {isSavingDiscountLimits ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <>
+                  <Save className="w-4 h-4 mr-2" />
+                  Simpan
+                </>
+              )}
+            </Button>
+          </div>
+        </section>
+
+        {/* Discount approval audit */}
+        <DiscountApprovalLog />
+
+        {/* Cash drawer reconciliation per shift */}
+        <ShiftLog />
+
         {/* Bulk Price Formula Setting */}
         <section className="pos-card p-6">
           <h2 className="text-lg font-semibold mb-2 flex items-center gap-2">
@@ -658,6 +999,240 @@ export default function Admin() {
           </p>
         </section>
 
+        {/* Loyalty Points */}
+        <section className="pos-card p-6">
+          <h2 className="text-lg font-semibold mb-2 flex items-center gap-2">
+            <Gift className="w-5 h-5" />
+            Poin Loyalitas
+          </h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Pelanggan mengumpulkan poin berdasarkan nomor HP dan bisa menukarnya sebagai potongan saat pembayaran.
+            Kosongkan nominal belanja untuk menonaktifkan perolehan poin.
+          </p>
+
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm text-muted-foreground mb-1 block">Belanja per 1 poin (Rp)</label>
+              <Input
+                type="number"
+                min="0"
+                placeholder="10000"
+                value={loyaltyEarnAmount}
+                onChange={(e) => setLoyaltyEarnAmount(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground mb-1 block">Nilai tukar 1 poin (Rp)</label>
+              <Input
+                type="number"
+                min="1"
+                placeholder="100"
+                value={loyaltyPointValue}
+                onChange={(e) => setLoyaltyPointValue(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex items-center gap-2 mt-4">
+            <p className="text-xs text-muted-foreground">
+              {parseInt(loyaltyEarnAmount) > 0
+                ? `Belanja Rp${parseInt(loyaltyEarnAmount).toLocaleString('id-ID')} = 1 poin, 1 poin = Rp${(parseInt(loyaltyPointValue) || 0).toLocaleString('id-ID')}`
+                : 'Perolehan poin nonaktif'}
+            </p>
+            <Button onClick={handleSaveLoyalty} disabled={isSavingLoyalty} className="ml-auto">
+              {isSavingLoyalty ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <>
+                  <Save className="w-4 h-4 mr-2" />
+                  Simpan
+                </>
+              )}
+            </Button>
+          </div>
+        </section>
+
+        {/* Tax (PPN) and service charge */}
+        <section className="pos-card p-6">
+          <h2 className="text-lg font-semibold mb-2 flex items-center gap-2">
+            <Landmark className="w-5 h-5" />
+            Pajak (PPN) & Service Charge
+          </h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            PPN dihitung di setiap penjualan dan dicetak terpisah di struk. Produk yang ditandai bebas PPN di
+            Inventori tidak dikenakan pajak. Service charge ditambahkan setelah diskon dan ikut dikenakan PPN.
+            Kosongkan tarif untuk menonaktifkan PPN atau service charge.
+          </p>
+
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm text-muted-foreground mb-1 block">Tarif PPN (%)</label>
+              <Input
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                placeholder="11"
+                value={taxRate}
+                onChange={(e) => setTaxRate(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground mb-1 block">Harga jual</label>
+              <div className="grid grid-cols-2 gap-2">
+                {(['inclusive', 'exclusive'] as TaxMode[]).map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => setTaxMode(mode)}
+                    className={`h-10 rounded-lg border-2 text-sm font-medium transition-all ${
+                      taxMode === mode
+                        ? 'border-primary bg-primary/10'
+                        : 'border-border hover:border-primary/50'
+                    }`}
+                  >
+                    {mode === 'inclusive' ? 'Sudah termasuk PPN' : 'Belum termasuk PPN'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground mb-1 block">Service charge (%)</label>
+              <Input
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                placeholder="5"
+                value={serviceChargeRate}
+                onChange={(e) => setServiceChargeRate(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex items-center gap-2 mt-4">
+            <p className="text-xs text-muted-foreground">
+              {parseFloat(taxRate) > 0
+                ? taxMode === 'inclusive'
+                  ? `Harga produk sudah termasuk PPN ${taxRate}%`
+                  : `PPN ${taxRate}% ditambahkan ke total belanja`
+                : 'PPN nonaktif'}
+              {parseFloat(serviceChargeRate) > 0 ? ` · Service charge ${serviceChargeRate}%` : ''}
+            </p>
+            <Button onClick={handleSaveTax} disabled={isSavingTax} className="ml-auto">
+              {isSavingTax ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <>
+                  <Save className="w-4 h-4 mr-2" />
+                  Simpan
+                </>
+              )}
+            </Button>
+          </div>
+        </section>
+
+        {/* Cash Rounding */}
+        <section className="pos-card p-6">
+          <h2 className="text-lg font-semibold mb-2 flex items-center gap-2">
+            <Coins className="w-5 h-5" />
+            Pembulatan Tunai
+          </h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Total pembayaran tunai dibulatkan agar mudah memberi kembalian. Selisihnya dicetak sebagai baris
+            Pembulatan di struk. QRIS, transfer dan hutang tetap dibayar sesuai total.
+          </p>
+
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm text-muted-foreground mb-1 block">Kelipatan</label>
+              <div className="grid grid-cols-4 gap-2">
+                {['', ...CASH_ROUNDING_UNITS.map(String)].map((unit) => (
+                  <button
+                    key={unit || 'off'}
+                    onClick={() => setCashRoundingUnit(unit)}
+                    className={`h-10 rounded-lg border-2 text-sm font-medium transition-all ${
+                      cashRoundingUnit === unit
+                        ? 'border-primary bg-primary/10'
+                        : 'border-border hover:border-primary/50'
+                    }`}
+                  >
+                    {unit ? `Rp${parseInt(unit).toLocaleString('id-ID')}` : 'Off'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground mb-1 block">Arah</label>
+              <div className="grid grid-cols-3 gap-2">
+                {([['nearest', 'Terdekat'], ['up', 'Ke atas'], ['down', 'Ke bawah']] as [CashRoundingMode, string][]).map(([mode, label]) => (
+                  <button
+                    key={mode}
+                    onClick={() => setCashRoundingMode(mode)}
+                    disabled={!cashRoundingUnit}
+                    className={`h-10 rounded-lg border-2 text-sm font-medium transition-all disabled:opacity-50 ${
+                      cashRoundingMode === mode
+                        ? 'border-primary bg-primary/10'
+                        : 'border-border hover:border-primary/50'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center gap-2 mt-4">
+            <p className="text-xs text-muted-foreground">
+              {cashRoundingUnit
+                ? `Contoh: Rp12.340 menjadi Rp${(12340 + getCashRoundingAdjustment(12340, { unit: parseInt(cashRoundingUnit), mode: cashRoundingMode })).toLocaleString('id-ID')}`
+                : 'Pembulatan tunai nonaktif'}
+            </p>
+            <Button onClick={handleSaveCashRounding} disabled={isSavingRounding} className="ml-auto">
+              {isSavingRounding ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <>
+                  <Save className="w-4 h-4 mr-2" />
+                  Simpan
+                </>
+              )}
+            </Button>
+          </div>
+        </section>
+
+        {/* Search Synonyms */}
+        <section className="pos-card p-6">
+          <h2 className="text-lg font-semibold mb-2 flex items-center gap-2">
+            <Search className="w-5 h-5" />
+            Sinonim Pencarian
+          </h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Satu kelompok per baris, kata dipisah koma atau tanda =. Mencari salah satu kata juga
+            menemukan produk dengan kata lainnya.
+          </p>
+
+          <Textarea
+            value={searchSynonyms}
+            onChange={(e) => setSearchSynonyms(e.target.value)}
+            placeholder={'bohlam = lampu\nparalon, pipa'}
+            rows={5}
+            className="font-mono text-sm"
+          />
+          <div className="flex items-center gap-2 mt-4">
+            <p className="text-xs text-muted-foreground">
+              {parseSearchSynonyms(searchSynonyms).size} kata dengan sinonim
+            </p>
+            <Button onClick={handleSaveSynonyms} disabled={isSavingSynonyms} className="ml-auto">
+              {isSavingSynonyms ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <>
+                  <Save className="w-4 h-4 mr-2" />
+                  Simpan
+                </>
+              )}
+            </Button>
+          </div>
+        </section>
+
         {/* QRIS Image Upload */}
         <section className="pos-card p-6">
           <h2 className="text-lg font-semibold mb-2 flex items-center gap-2">
@@ -759,6 +1334,72 @@ export default function Admin() {
           </div>
         </section>
 
+        {/* Invoice Numbering */}
+        <section className="pos-card p-6">
+          <h2 className="text-lg font-semibold mb-2 flex items-center gap-2">
+            <Hash className="w-5 h-5" />
+            Nomor Invoice
+          </h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Setiap perangkat kasir memiliki nomor urut sendiri tanpa loncatan, contoh {invoicePrefix || 'INV'}-K01-000123.
+            Nomor dipesan per blok agar tetap bisa berjualan saat offline; awalan baru berlaku untuk blok berikutnya.
+            Nomor dari checkout yang dibatalkan dicatat sebagai dibatalkan, sehingga setiap nomor tercatat.
+          </p>
+
+          <div className="flex gap-2 items-center">
+            <Input
+              type="text"
+              placeholder="INV"
+              value={invoicePrefix}
+              onChange={(e) => setInvoicePrefix(e.target.value.toUpperCase())}
+              maxLength={10}
+              className="w-40 font-mono uppercase"
+            />
+            <Button onClick={handleSaveInvoicePrefix} disabled={isSavingPrefix} className="ml-auto">
+              {isSavingPrefix ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <>
+                  <Save className="w-4 h-4 mr-2" />
+                  Simpan
+                </>
+              )}
+            </Button>
+          </div>
+
+          {terminals.length > 0 && (
+            <div className="mt-4 space-y-1">
+              <p className="text-sm font-medium">Perangkat kasir</p>
+              {terminals.map((terminal) => (
+                <div key={terminal.terminal_id} className="flex items-center justify-between gap-2 text-sm p-2 rounded-lg bg-secondary/30">
+                  <div className="min-w-0">
+                    <p className="font-mono font-medium">
+                      {terminal.terminal_code}
+                      {terminal.last_used && <span className="text-muted-foreground font-normal"> · terakhir {terminal.last_used}</span>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {terminal.reserved} dipesan · {terminal.used} terpakai · {terminal.voided} dibatalkan · {terminal.held} belum dipakai
+                      {terminal.skipped > 0 && (
+                        <span className="text-destructive"> · {terminal.skipped} terlewat/belum tersinkron</span>
+                      )}
+                    </p>
+                  </div>
+                  {terminal.skipped + terminal.held > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleVoidUnusedNumbers(terminal)}
+                      disabled={voidingTerminalId !== null}
+                    >
+                      {voidingTerminalId === terminal.terminal_id ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Hapuskan'}
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
         {/* Public Invoice URL Setting */}
         <section className="pos-card p-6">
           <h2 className="text-lg font-semibold mb-2 flex items-center gap-2">
@@ -0,0 +1,417 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { customerTypeLabels, fetchCustomerOutstanding, mapCustomerRow } from '@/hooks/useCustomers';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { CustomerFormDialog } from '@/components/customers/CustomerFormDialog';
+import { ArrowLeft, Loader2, Pencil, Trash2, Phone, MapPin, StickyNote, ExternalLink, ChevronRight } from 'lucide-react';
+import logo88 from '@/assets/logo-88.png';
+import { Customer } from '@/types/pos';
+
+interface CustomerTransaction {
+  id: string;
+  created_at: string;
+  total: number;
+  payment_method: string;
+  voided_at: string | null;
+}
+
+interface PurchaseSummary {
+  salesCount: number;
+  salesTotal: number;
+  returnsTotal: number;
+  lastPurchase: string | null;
+}
+
+const HISTORY_PAGE_SIZE = 50;
+
+const formatRupiah = (num: number) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(num);
+};
+
+export default function CustomerDetail() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { isAuthenticated, isAdmin } = useAuth();
+  const { toast } = useToast();
+
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [transactions, setTransactions] = useState<CustomerTransaction[]>([]);
+  const [returnsByTransaction, setReturnsByTransaction] = useState<Record<string, number>>({});
+  const [summary, setSummary] = useState<PurchaseSummary | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [pointsBalance, setPointsBalance] = useState<number | null>(null);
+  const [outstanding, setOutstanding] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [formOpen, setFormOpen] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  // One page of history, newest first; after = the last row already shown (keyset on created_at, id)
+  const fetchHistoryPage = useCallback(async (target: Customer, after?: CustomerTransaction) => {
+    // Sales linked to the customer, plus older sales sent to the same WhatsApp number
+    const filters = [`customer_id.eq.${target.id}`];
+    if (target.phone) filters.push(`customer_phone.eq.${target.phone}`);
+    const condition = after
+      ? `and(or(${filters.join(',')}),or(created_at.lt."${after.created_at}",and(created_at.eq."${after.created_at}",id.lt."${after.id}")))`
+      : filters.join(',');
+
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('id, created_at, total, payment_method, voided_at')
+      .or(condition)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(HISTORY_PAGE_SIZE + 1);
+
+    if (error) {
+      console.error('Error fetching customer transactions:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal memuat riwayat belanja',
+        variant: 'destructive',
+      });
+      return;
+    }
+    const rows = (data || []).slice(0, HISTORY_PAGE_SIZE);
+    setHasMore((data || []).length > HISTORY_PAGE_SIZE);
+    setTransactions((prev) => (after ? [...prev, ...rows] : rows));
+
+    const ids = rows.map((t) => t.id);
+    if (ids.length === 0) {
+      if (!after) setReturnsByTransaction({});
+      return;
+    }
+
+    const { data: returns, error: returnsError } = await supabase
+      .from('transaction_returns')
+      .select('transaction_id, total_refund')
+      .in('transaction_id', ids);
+
+    if (returnsError) {
+      console.error('Error fetching returns:', returnsError);
+      return;
+    }
+
+    const pageReturns = (returns || []).reduce((acc, r) => {
+      acc[r.transaction_id] = (acc[r.transaction_id] || 0) + Number(r.total_refund);
+      return acc;
+    }, {} as Record<string, number>);
+    setReturnsByTransaction((prev) => (after ? { ...prev, ...pageReturns } : pageReturns));
+  }, [toast]);
+
+  const fetchHistory = useCallback(async (target: Customer) => {
+    const [, summaryResult, outstandingAmount] = await Promise.all([
+      fetchHistoryPage(target),
+      supabase.rpc('customer_purchase_summary', { _customer_id: target.id }),
+      fetchCustomerOutstanding(target.id),
+    ]);
+    setOutstanding(outstandingAmount);
+
+    // Lifetime figures over every sale, not just the pages loaded
+    if (summaryResult.error) {
+      console.error('Error fetching purchase summary:', summaryResult.error);
+      setSummary(null);
+    } else {
+      const result = (summaryResult.data || {}) as Record<string, unknown>;
+      setSummary({
+        salesCount: Number(result.sales_count) || 0,
+        salesTotal: Number(result.sales_total) || 0,
+        returnsTotal: Number(result.returns_total) || 0,
+        lastPurchase: typeof result.last_purchase === 'string' ? result.last_purchase : null,
+      });
+    }
+
+    if (target.phone) {
+      const { data: balance } = await supabase.rpc('loyalty_balance', { _phone: target.phone });
+      setPointsBalance(Number(balance) || 0);
+    } else {
+      setPointsBalance(null);
+    }
+  }, [fetchHistoryPage]);
+
+  const handleLoadMore = async () => {
+    if (!customer || transactions.length === 0) return;
+    setLoadingMore(true);
+    await fetchHistoryPage(customer, transactions[transactions.length - 1]);
+    setLoadingMore(false);
+  };
+
+  const fetchCustomer = useCallback(async () => {
+    if (!id) return;
+    setLoading(true);
+
+    const { data, error } = await supabase
+      .from('customers')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) console.error('Error fetching customer:', error);
+      setCustomer(null);
+    } else {
+      const mapped = mapCustomerRow(data);
+      setCustomer(mapped);
+      await fetchHistory(mapped);
+    }
+    setLoading(false);
+  }, [id, fetchHistory]);
+
+  useEffect(() => {
+    // Wait for auth to be determined (not null)
+    if (isAuthenticated === null) return;
+
+    if (!isAuthenticated) {
+      navigate('/login');
+      return;
+    }
+    fetchCustomer();
+  }, [isAuthenticated, navigate, fetchCustomer]);
+
+  const handleDelete = async () => {
+    if (!customer) return;
+    if (!confirm(`Hapus pelanggan "${customer.name}"? Riwayat transaksi tetap tersimpan.`)) return;
+
+    setIsDeleting(true);
+    const { error } = await supabase.from('customers').delete().eq('id', customer.id);
+    setIsDeleting(false);
+
+    if (error) {
+      // Postgres foreign_key_violation: receivables keep the customer around
+      if (error.code === '23503') {
+        toast({ title: 'Gagal', description: 'Pelanggan masih memiliki piutang', variant: 'destructive' });
+        return;
+      }
+      console.error('Error deleting customer:', error);
+      toast({ title: 'Gagal', description: 'Gagal menghapus pelanggan', variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Berhasil', description: 'Pelanggan dihapus' });
+    navigate('/customers');
+  };
+
+  // Lifetime spend: completed sales less refunds, voided sales excluded
+  const returnsTotal = summary?.returnsTotal ?? 0;
+  const lifetimeSpend = (summary?.salesTotal ?? 0) - returnsTotal;
+  const lastPurchase = summary?.lastPurchase;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-40">
+        <div className="container max-w-7xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4 min-w-0">
+              <Button variant="ghost" size="icon" onClick={() => navigate('/customers')}>
+                <ArrowLeft className="w-5 h-5" />
+              </Button>
+              <div className="flex items-center gap-3 min-w-0">
+                <img src={logo88} alt="Toko 88" className="h-10 w-auto rounded-lg" />
+                <div className="min-w-0">
+                  <h1 className="font-bold text-xl truncate">{customer?.name || 'Pelanggan'}</h1>
+                  <p className="text-xs text-muted-foreground">Detail dan riwayat belanja</p>
+                </div>
+              </div>
+            </div>
+            {customer && (
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={() => setFormOpen(true)}>
+                  <Pencil className="w-4 h-4 sm:mr-2" />
+                  <span className="hidden sm:inline">Edit</span>
+                </Button>
+                {isAdmin && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleDelete}
+                    disabled={isDeleting}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    {isDeleting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="container max-w-7xl mx-auto px-4 py-6 space-y-6">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : !customer ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <p>Pelanggan tidak ditemukan</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid md:grid-cols-2 gap-4">
+              <Card>
+                <CardContent className="pt-6 space-y-2 text-sm">
+                  <span className={`inline-block text-xs px-2 py-0.5 rounded-full ${customer.type === 'reseller' ? 'bg-pos-bulk/20 text-pos-bulk' : 'bg-secondary text-muted-foreground'}`}>
+                    {customerTypeLabels[customer.type]}
+                  </span>
+                  <p className="flex items-center gap-2">
+                    <Phone className="w-4 h-4 text-muted-foreground" />
+                    <span className="font-mono">{customer.phone || '-'}</span>
+                  </p>
+                  <p className="flex items-start gap-2">
+                    <MapPin className="w-4 h-4 text-muted-foreground mt-0.5" />
+                    <span className="whitespace-pre-line">{customer.address || '-'}</span>
+                  </p>
+                  {customer.notes && (
+                    <p className="flex items-start gap-2 text-muted-foreground">
+                      <StickyNote className="w-4 h-4 mt-0.5" />
+                      <span className="whitespace-pre-line">{customer.notes}</span>
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <div className="grid grid-cols-2 gap-2 sm:gap-4">
+                <div className="rounded-lg bg-primary/10 p-3 col-span-2">
+                  <p className="text-xs text-muted-foreground">Total Belanja</p>
+                  <p className="font-mono font-semibold text-xl text-primary">{formatRupiah(lifetimeSpend)}</p>
+                  {returnsTotal > 0 && (
+                    <p className="text-xs text-destructive">Termasuk retur -{formatRupiah(returnsTotal)}</p>
+                  )}
+                </div>
+                <div className="rounded-lg bg-secondary/50 p-3">
+                  <p className="text-xs text-muted-foreground">Transaksi</p>
+                  <p className="font-mono font-semibold">{summary?.salesCount ?? 0}</p>
+                </div>
+                <div className="rounded-lg bg-secondary/50 p-3">
+                  <p className="text-xs text-muted-foreground">Terakhir Belanja</p>
+                  <p className="font-semibold text-sm">
+                    {lastPurchase ? new Date(lastPurchase).toLocaleDateString('id-ID') : '-'}
+                  </p>
+                </div>
+                {outstanding !== null && outstanding > 0 && (
+                  <button
+                    onClick={() => navigate(`/receivables?customer=${customer.id}`)}
+                    className="rounded-lg bg-destructive/10 p-3 col-span-2 text-left flex items-center justify-between"
+                  >
+                    <div>
+                      <p className="text-xs text-muted-foreground">Sisa Hutang</p>
+                      <p className="font-mono font-semibold text-destructive">{formatRupiah(outstanding)}</p>
+                    </div>
+                    <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                  </button>
+                )}
+                {pointsBalance !== null && (
+                  <div className="rounded-lg bg-secondary/50 p-3 col-span-2">
+                    <p className="text-xs text-muted-foreground">Saldo Poin</p>
+                    <p className="font-mono font-semibold">{pointsBalance}</p>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Riwayat Transaksi</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {transactions.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <p>Belum ada transaksi</p>
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Tanggal</TableHead>
+                        <TableHead className="hidden sm:table-cell">ID Transaksi</TableHead>
+                        <TableHead className="text-right">Total</TableHead>
+                        <TableHead className="hidden sm:table-cell">Pembayaran</TableHead>
+                        <TableHead className="w-10" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {transactions.map((t) => (
+                        <TableRow key={t.id}>
+                          <TableCell>
+                            <div className="text-sm">{new Date(t.created_at).toLocaleDateString('id-ID')}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {new Date(t.created_at).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}
+                            </div>
+                          </TableCell>
+                          <TableCell className="hidden sm:table-cell font-mono text-xs">{t.id}</TableCell>
+                          <TableCell className="text-right font-semibold">
+                            <span className={t.voided_at ? 'line-through text-muted-foreground' : ''}>
+                              {formatRupiah(Number(t.total))}
+                            </span>
+                            {t.voided_at && (
+                              <div className="text-xs font-semibold text-destructive">VOID</div>
+                            )}
+                            {returnsByTransaction[t.id] > 0 && (
+                              <div className="text-xs font-normal text-destructive">
+                                Retur -{formatRupiah(returnsByTransaction[t.id])}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell className="hidden sm:table-cell capitalize">{t.payment_method}</TableCell>
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => navigate(`/invoice/${t.id}`)}
+                              title="Lihat Invoice"
+                            >
+                              <ExternalLink className="w-4 h-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+
+                {hasMore && (
+                  <Button
+                    variant="outline"
+                    className="w-full mt-4"
+                    onClick={handleLoadMore}
+                    disabled={loadingMore}
+                  >
+                    {loadingMore && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Muat lebih banyak
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+
+      <CustomerFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        customer={customer}
+        onSaved={(updated) => {
+          setCustomer(updated);
+          fetchHistory(updated);
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useCustomerDisplayFeed } from '@/hooks/useCustomerDisplay';
+import { useAuth } from '@/hooks/useAuth';
+import { useAppSettings } from '@/hooks/useAppSettings';
+import { useFullscreen } from '@/hooks/useFullscreen';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Maximize, Minimize, ShoppingCart } from 'lucide-react';
+import logo88 from '@/assets/logo-88.png';
+
+const formatRupiah = (num: number) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(num);
+};
+
+const paymentMethodLabels: Record<string, string> = {
+  'Tunai': 'Tunai',
+  'QRIS': 'QRIS',
+  'Transfer': 'Transfer Bank',
+  'Hutang': 'Hutang',
+  'Kombinasi': 'Kombinasi',
+};
+
+// Second screen facing the customer. It is signed in with a staff account (the remote
+// channel is private) and shows QRIS / bank details from its own copy of the settings.
+export default function CustomerDisplay() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const code = searchParams.get('code');
+  const { isAuthenticated } = useAuth();
+  const { settings } = useAppSettings();
+  const { state, connected } = useCustomerDisplayFeed(isAuthenticated ? code : null);
+  const { isFullscreen, isSupported, toggleFullscreen } = useFullscreen();
+  const [codeInput, setCodeInput] = useState('');
+  const lastLineRef = useRef<HTMLDivElement>(null);
+
+  const { lines, payment, completed } = state;
+
+  // Keep the newest line in view as items are scanned
+  useEffect(() => {
+    lastLineRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [lines.length]);
+
+  const itemCount = lines.reduce((sum, line) => sum + line.quantity, 0);
+
+  const renderIdle = () => (
+    <div className="flex-1 flex flex-col items-center justify-center text-center gap-4 p-8">
+      <img src={logo88} alt="Toko 88" className="h-32 w-auto rounded-2xl" />
+      <h1 className="text-4xl font-bold">Selamat Datang</h1>
+      {state.storeName && <p className="text-2xl text-muted-foreground">{state.storeName}</p>}
+
+      {!code && !connected && (
+        <form
+          className="flex gap-2 mt-8"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (codeInput.trim()) setSearchParams({ code: codeInput.trim().toUpperCase() });
+          }}
+        >
+          <Input
+            value={codeInput}
+            onChange={(e) => setCodeInput(e.target.value)}
+            placeholder="Kode layar dari kasir"
+            className="h-12 w-56 font-mono uppercase text-center"
+            maxLength={12}
+          />
+          <Button type="submit" className="h-12">Hubungkan</Button>
+        </form>
+      )}
+    </div>
+  );
+
+  const renderCompleted = () => (
+    <div className="flex-1 flex flex-col items-center justify-center text-center gap-6 p-8">
+      <h1 className="text-5xl font-bold text-primary">Terima Kasih!</h1>
+      <div className="space-y-2">
+        <p className="text-2xl text-muted-foreground">Total Belanja</p>
+        <p className="font-mono text-5xl font-bold">{formatRupiah(completed?.total || 0)}</p>
+      </div>
+      {!!completed?.change && completed.change > 0 && (
+        <div className="space-y-2">
+          <p className="text-2xl text-muted-foreground">Kembalian</p>
+          <p className="font-mono text-4xl font-bold text-green-600">{formatRupiah(completed.change)}</p>
+        </div>
+      )}
+    </div>
+  );
+
+  const renderCart = () => (
+    <div className="flex-1 grid lg:grid-cols-5 gap-6 p-6 min-h-0">
+      {/* Items */}
+      <div className="lg:col-span-3 pos-card flex flex-col min-h-0">
+        <div className="flex items-center gap-2 px-5 py-4 border-b border-border">
+          <ShoppingCart className="w-5 h-5 text-primary" />
+          <h2 className="text-xl font-semibold">Belanjaan Anda</h2>
+          <span className="ml-auto text-muted-foreground">{itemCount} item</span>
+        </div>
+        <div className="flex-1 overflow-y-auto divide-y divide-border">
+          {lines.map((line, index) => (
+            <div
+              key={line.key}
+              ref={index === lines.length - 1 ? lastLineRef : undefined}
+              className="flex items-start justify-between gap-4 px-5 py-3"
+            >
+              <div className="min-w-0">
+                <p className="text-lg font-medium">
+                  {line.name}
+                  {line.variantName && <span className="text-muted-foreground"> [{line.variantName}]</span>}
+                </p>
+                <p className="text-muted-foreground font-mono">
+                  {line.quantity} × {formatRupiah(line.unitPrice)}
+                </p>
+                {line.discount > 0 && (
+                  <p className="text-sm text-green-600 font-mono">Hemat {formatRupiah(line.discount)}</p>
+                )}
+              </div>
+              <p className="text-lg font-mono font-semibold whitespace-nowrap">{formatRupiah(line.total)}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Totals and payment */}
+      <div className="lg:col-span-2 flex flex-col gap-4">
+        <div className="pos-card p-5 space-y-2 text-lg">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Subtotal</span>
+            <span className="font-mono">{formatRupiah(state.subtotal)}</span>
+          </div>
+          {payment && payment.discount > 0 && (
+            <div className="flex justify-between text-green-600">
+              <span>Diskon</span>
+              <span className="font-mono">-{formatRupiah(payment.discount)}</span>
+            </div>
+          )}
+          {payment?.serviceCharge && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Service {payment.serviceCharge.rate}%</span>
+              <span className="font-mono">{formatRupiah(payment.serviceCharge.amount)}</span>
+            </div>
+          )}
+          {payment?.tax && !payment.tax.included && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">PPN {payment.tax.rate}%</span>
+              <span className="font-mono">{formatRupiah(payment.tax.amount)}</span>
+            </div>
+          )}
+          {!!payment?.rounding && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Pembulatan</span>
+              <span className="font-mono">{formatRupiah(payment.rounding)}</span>
+            </div>
+          )}
+          <div className="flex justify-between items-end pt-3 border-t border-border">
+            <span className="text-xl font-semibold">Total</span>
+            <span className="font-mono text-4xl font-bold text-primary">
+              {formatRupiah(payment ? payment.total : state.subtotal)}
+            </span>
+          </div>
+          {payment?.tax?.included && (
+            <p className="text-sm text-muted-foreground text-right">
+              Termasuk PPN {payment.tax.rate}% {formatRupiah(payment.tax.amount)}
+            </p>
+          )}
+        </div>
+
+        {payment?.method && (
+          <div className="pos-card p-5 space-y-3 flex-1">
+            <p className="text-muted-foreground">
+              Pembayaran: <span className="font-semibold text-foreground">{paymentMethodLabels[payment.method]}</span>
+            </p>
+
+            {payment.showQris && settings?.qris_image_url && (
+              <div className="bg-white rounded-xl p-3 flex justify-center">
+                <img src={settings.qris_image_url} alt="QRIS" className="max-h-[45vh] object-contain" />
+              </div>
+            )}
+
+            {payment.showBank && settings?.bank_account_number && (
+              <div className="bg-secondary/50 rounded-xl p-4 space-y-1">
+                <p className="text-lg font-semibold">{settings.bank_name}</p>
+                <p className="font-mono text-3xl font-bold tracking-wide">{settings.bank_account_number}</p>
+                <p className="text-muted-foreground">a.n. {settings.bank_account_holder}</p>
+              </div>
+            )}
+
+            {payment.cashReceived !== undefined && (
+              <div className="space-y-1 text-lg">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Dibayar</span>
+                  <span className="font-mono">{formatRupiah(payment.cashReceived)}</span>
+                </div>
+                {payment.change !== undefined && (
+                  <div className="flex justify-between font-semibold">
+                    <span>Kembalian</span>
+                    <span className="font-mono text-2xl text-green-600">{formatRupiah(payment.change)}</span>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="h-screen bg-background flex flex-col overflow-hidden">
+      <header className="flex items-center gap-3 px-6 py-3 border-b border-border bg-card/50">
+        <img src={logo88} alt="Toko 88" className="h-10 w-auto rounded-lg" />
+        <p className="font-bold text-xl">{state.storeName || 'Toko 88'}</p>
+        {isSupported && (
+          <Button variant="ghost" size="icon" className="ml-auto" onClick={toggleFullscreen}>
+            {isFullscreen ? <Minimize className="w-5 h-5" /> : <Maximize className="w-5 h-5" />}
+          </Button>
+        )}
+      </header>
+
+      {lines.length > 0 ? renderCart() : completed ? renderCompleted() : renderIdle()}
+    </div>
+  );
+}
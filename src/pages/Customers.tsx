@@ -0,0 +1,215 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { customerTypeLabels, mapCustomerRow, normalizePhone } from '@/hooks/useCustomers';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { CustomerFormDialog } from '@/components/customers/CustomerFormDialog';
+import { ArrowLeft, Search, RefreshCw, Loader2, Plus, ChevronRight, Wallet } from 'lucide-react';
+import logo88 from '@/assets/logo-88.png';
+import { Customer } from '@/types/pos';
+
+export default function Customers() {
+  const navigate = useNavigate();
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [formOpen, setFormOpen] = useState(false);
+
+  useEffect(() => {
+    // Wait for auth to be determined (not null)
+    if (isAuthenticated === null) return;
+
+    if (!isAuthenticated) {
+      navigate('/login');
+      return;
+    }
+    fetchCustomers();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isAuthenticated, navigate]);
+
+  const fetchCustomers = async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('customers')
+      .select('*')
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching customers:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal memuat daftar pelanggan',
+        variant: 'destructive',
+      });
+    } else {
+      setCustomers((data || []).map(mapCustomerRow));
+    }
+    setLoading(false);
+  };
+
+  const filteredCustomers = customers.filter((c) => {
+    const query = search.trim().toLowerCase();
+    if (!query) return true;
+    const phone = normalizePhone(query);
+    return (
+      c.name.toLowerCase().includes(query) ||
+      (phone.length > 0 && !!c.phone?.includes(phone)) ||
+      !!c.address?.toLowerCase().includes(query)
+    );
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-40">
+        <div className="container max-w-7xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+                <ArrowLeft className="w-5 h-5" />
+              </Button>
+              <div className="flex items-center gap-3">
+                <img src={logo88} alt="Toko 88" className="h-10 w-auto rounded-lg" />
+                <div>
+                  <h1 className="font-bold text-xl">Pelanggan</h1>
+                  <p className="text-xs text-muted-foreground">Daftar pelanggan dan riwayat belanja</p>
+                </div>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => navigate('/receivables')}>
+                <Wallet className="w-4 h-4 sm:mr-2" />
+                <span className="hidden sm:inline">Piutang</span>
+              </Button>
+              <Button variant="outline" size="sm" onClick={fetchCustomers}>
+                <RefreshCw className="w-4 h-4 sm:mr-2" />
+                <span className="hidden sm:inline">Refresh</span>
+              </Button>
+              <Button size="sm" onClick={() => setFormOpen(true)}>
+                <Plus className="w-4 h-4 sm:mr-2" />
+                <span className="hidden sm:inline">Tambah</span>
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container max-w-7xl mx-auto px-4 py-6">
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <CardTitle>{customers.length} Pelanggan</CardTitle>
+              <div className="relative w-full sm:w-64">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  placeholder="Cari nama, telepon, atau alamat..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              </div>
+            ) : filteredCustomers.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <p>Tidak ada pelanggan ditemukan</p>
+              </div>
+            ) : (
+              <>
+                {/* Desktop Table View */}
+                <div className="hidden md:block overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Nama</TableHead>
+                        <TableHead>Telepon</TableHead>
+                        <TableHead>Jenis</TableHead>
+                        <TableHead>Alamat</TableHead>
+                        <TableHead className="w-10" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {filteredCustomers.map((c) => (
+                        <TableRow
+                          key={c.id}
+                          className="cursor-pointer"
+                          onClick={() => navigate(`/customers/${c.id}`)}
+                        >
+                          <TableCell className="font-medium">{c.name}</TableCell>
+                          <TableCell className="font-mono text-sm">{c.phone || '-'}</TableCell>
+                          <TableCell>
+                            <span className={`text-xs px-2 py-0.5 rounded-full ${c.type === 'reseller' ? 'bg-pos-bulk/20 text-pos-bulk' : 'bg-secondary text-muted-foreground'}`}>
+                              {customerTypeLabels[c.type]}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground max-w-xs truncate">
+                            {c.address || '-'}
+                          </TableCell>
+                          <TableCell>
+                            <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                {/* Mobile Card View */}
+                <div className="md:hidden space-y-3">
+                  {filteredCustomers.map((c) => (
+                    <button
+                      key={c.id}
+                      onClick={() => navigate(`/customers/${c.id}`)}
+                      className="w-full text-left bg-muted/30 rounded-lg p-3 border border-border flex items-center gap-3"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <p className="font-semibold truncate">{c.name}</p>
+                          {c.type === 'reseller' && (
+                            <span className="text-xs px-2 py-0.5 rounded-full bg-pos-bulk/20 text-pos-bulk">
+                              {customerTypeLabels[c.type]}
+                            </span>
+                          )}
+                        </div>
+                        {c.phone && <p className="text-xs text-muted-foreground font-mono">{c.phone}</p>}
+                        {c.address && <p className="text-xs text-muted-foreground truncate">{c.address}</p>}
+                      </div>
+                      <ChevronRight className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <CustomerFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        onSaved={(customer) => navigate(`/customers/${customer.id}`)}
+      />
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useMemo, useEffect, useCallback } from 'react';
+import { useState, useMemo, useEffect, useCallback, useRef } from 'react';
 import { Product, CartItem, ReceiptData, ReceiptDeliveryMethod } from '@/types/pos';
 import { ProductCard } from '@/components/pos/ProductCard';
 import { ProductGridSkeleton } from '@/components/pos/ProductCardSkeleton';
@@ -10,12 +10,30 @@ import { CategoryFilter } from '@/components/pos/CategoryFilter';
 import { FloatingCartButton } from '@/components/pos/FloatingCartButton';
 import { MobileCartSheet } from '@/components/pos/MobileCartSheet';
 import { BluetoothPrinterButton } from '@/components/pos/BluetoothPrinterButton';
+import { CommandPalette } from '@/components/pos/CommandPalette';
+import { FavoritesGrid } from '@/components/pos/FavoritesGrid';
+import { CustomerDisplayButton } from '@/components/pos/CustomerDisplayButton';
+import { ShiftButton } from '@/components/pos/ShiftButton';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
-import { useGoogleSheets } from '@/hooks/useGoogleSheets';
+import { useGoogleSheets, CommitSaleResult } from '@/hooks/useGoogleSheets';
 import { useAuth } from '@/hooks/useAuth';
 import { useTripleTap } from '@/hooks/useTripleTap';
+import { useSaleOutbox } from '@/hooks/useSaleOutbox';
+import { useHeldCarts } from '@/hooks/useHeldCarts';
+import { usePromotions } from '@/hooks/usePromotions';
+import { useBarcodeScanner } from '@/hooks/useBarcodeScanner';
+import { useHotkeys } from '@/hooks/useHotkeys';
+import { useAppSettings } from '@/hooks/useAppSettings';
+import { useFavorites, MAX_FAVORITES } from '@/hooks/useFavorites';
+import { publishCustomerDisplay } from '@/hooks/useCustomerDisplay';
+import { findProductByCode } from '@/utils/barcode';
+import { getLinePricing, getLineTotal } from '@/utils/pricing';
+import { evaluatePromotions, getCartLineKey } from '@/utils/promotions';
+import { buildProductSearchIndex, parseSearchSynonyms, searchProducts } from '@/utils/productSearch';
+import { PRODUCTS_UPDATED_EVENT } from '@/utils/productEvents';
 import { supabase } from '@/integrations/supabase/client';
-import { Package, LogOut, Shield, RefreshCw, History, Maximize, Minimize } from 'lucide-react';
+import { Package, LogOut, Shield, RefreshCw, History, Users, Maximize, Minimize, CloudOff, Star, LayoutGrid } from 'lucide-react';
 import logo88 from '@/assets/logo-88.png';
 import { Button } from '@/components/ui/button';
 import { useNavigate } from 'react-router-dom';
@@ -23,9 +41,14 @@ import { useFullscreen } from '@/hooks/useFullscreen';
 const Index = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { isAuthenticated, isAdmin, logout } = useAuth();
-  const { fetchProducts, getCachedProducts, clearCache, saveTransaction, updateStock, error: sheetsError } = useGoogleSheets();
+  const { isAuthenticated, isAdmin, user, logout } = useAuth();
+  const { fetchProducts, getCachedProducts, clearCache } = useGoogleSheets();
+  const { pendingCount, isSyncing, commitSale, syncNow } = useSaleOutbox();
+  const { heldCarts, holdCart, takeHeldCart, deleteHeldCart } = useHeldCarts();
+  const { promotions, now } = usePromotions();
   const { isFullscreen, isSupported, toggleFullscreen } = useFullscreen();
+  const { settings } = useAppSettings();
+  const { favorites, loading: favoritesLoading, addFavorite, removeFavorite, reorderFavorites } = useFavorites(user?.id);
   const [products, setProducts] = useState<Product[]>([]);
   const [search, setSearch] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
@@ -38,19 +61,24 @@ const Index = () => {
   const [mobileCartOpen, setMobileCartOpen] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [pricingMode, setPricingMode] = useState<'retail' | 'grosir'>('retail');
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [productView, setProductView] = useState<'all' | 'favorites'>('all');
+  const searchInputRef = useRef<HTMLInputElement>(null);
+
+  const togglePricingMode = () => {
+    const newMode = pricingMode === 'retail' ? 'grosir' : 'retail';
+    setPricingMode(newMode);
+    toast({
+      title: newMode === 'grosir' ? 'Mode Grosir Aktif' : 'Mode Eceran Aktif',
+      description: newMode === 'grosir' 
+        ? 'Tap 3x logo atau tekan F4 untuk kembali ke mode eceran' 
+        : 'Harga eceran ditampilkan',
+    });
+  };
 
   // Triple-tap gesture to toggle pricing mode
   const { handleTap: handleLogoTap } = useTripleTap({
-    onTripleTap: () => {
-      const newMode = pricingMode === 'retail' ? 'grosir' : 'retail';
-      setPricingMode(newMode);
-      toast({
-        title: newMode === 'grosir' ? 'Mode Grosir Aktif' : 'Mode Eceran Aktif',
-        description: newMode === 'grosir' 
-          ? 'Tap 3x logo untuk kembali ke mode eceran' 
-          : 'Harga eceran ditampilkan',
-      });
-    },
+    onTripleTap: togglePricingMode,
   });
 
   // Pull-to-refresh state
@@ -89,16 +117,16 @@ const Index = () => {
     };
 
     const handleStorage = (e: StorageEvent) => {
-      if (e.key === 'pos:products_updated') {
+      if (e.key === PRODUCTS_UPDATED_EVENT) {
         loadProducts();
       }
     };
 
-    window.addEventListener('pos:products_updated', handleCustom as EventListener);
+    window.addEventListener(PRODUCTS_UPDATED_EVENT, handleCustom as EventListener);
     window.addEventListener('storage', handleStorage);
 
     return () => {
-      window.removeEventListener('pos:products_updated', handleCustom as EventListener);
+      window.removeEventListener(PRODUCTS_UPDATED_EVENT, handleCustom as EventListener);
       window.removeEventListener('storage', handleStorage);
     };
   }, [loadProducts]);
@@ -173,27 +201,49 @@ const Index = () => {
   }, [products]);
 
 
+  // Rebuilt only when products or synonyms change; each keystroke just queries it
+  const searchIndex = useMemo(
+    () => buildProductSearchIndex(products, parseSearchSynonyms(settings?.search_synonyms)),
+    [products, settings?.search_synonyms]
+  );
+
   const filteredProducts = useMemo(() => {
-    const searchLower = search.toLowerCase();
-    return products.filter((product) => {
-      const matchesName = product.name.toLowerCase().includes(searchLower);
-
-      // Also search in variant names and codes (ignore empty/placeholder variants)
-      const matchesVariant =
-        (Array.isArray(product.variants)
-          ? product.variants.some((v) => {
-              const code = typeof v?.code === 'string' ? v.code.trim().toLowerCase() : '';
-              const name = typeof v?.name === 'string' ? v.name.trim().toLowerCase() : '';
-              if (!code && !name) return false;
-              return code.includes(searchLower) || name.includes(searchLower);
-            })
-          : false) || false;
-
-      const matchesSearch = matchesName || matchesVariant;
-      const matchesCategory = !selectedCategory || product.category === selectedCategory;
-      return matchesSearch && matchesCategory;
-    });
-  }, [products, search, selectedCategory]);
+    return searchProducts(searchIndex, search).filter(
+      (product) => !selectedCategory || product.category === selectedCategory
+    );
+  }, [searchIndex, search, selectedCategory]);
+
+  const handleSearchChange = (value: string) => {
+    setSearch(value);
+    // Searching always looks through the full product list
+    if (value) setProductView('all');
+  };
+
+  const handleAddFavorite = async (productId: string, variantCode?: string) => {
+    const added = await addFavorite(productId, variantCode);
+    if (!added) {
+      toast({
+        title: 'Gagal',
+        description: favorites.length >= MAX_FAVORITES
+          ? `Maksimal ${MAX_FAVORITES} favorit`
+          : 'Gagal menambahkan favorit',
+        variant: 'destructive',
+      });
+    }
+    return added;
+  };
+
+  const handleRemoveFavorite = async (id: string) => {
+    if (!(await removeFavorite(id))) {
+      toast({ title: 'Gagal', description: 'Gagal menghapus favorit', variant: 'destructive' });
+    }
+  };
+
+  const handleReorderFavorites = async (orderedIds: string[]) => {
+    if (!(await reorderFavorites(orderedIds))) {
+      toast({ title: 'Gagal', description: 'Urutan favorit gagal disimpan', variant: 'destructive' });
+    }
+  };
 
   const handleAddToCart = (product: Product, quantity: number = 1, variantCode?: string, variantName?: string) => {
     // Determine priceType from current pricingMode
@@ -243,6 +293,51 @@ const Index = () => {
     });
   };
 
+  // Keyboard-wedge scanner: exact code match goes straight into the cart
+  const handleBarcodeScan = (code: string) => {
+    // The burst may have been typed into the focused search box
+    setSearch((prev) => (prev.endsWith(code) ? prev.slice(0, -code.length) : prev));
+
+    const match = findProductByCode(products, code);
+    if (!match) {
+      toast({
+        title: 'Produk tidak ditemukan',
+        description: `Kode "${code}" tidak terdaftar`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const { product, variant } = match;
+    const realVariants = (product.variants || []).filter((v) => v.code?.trim() || v.name?.trim());
+    if (!variant && realVariants.length > 0) {
+      // Product-level code on a product with variants - let the cashier pick one
+      setSearch(product.name);
+      toast({
+        title: 'Pilih varian',
+        description: `${product.name} memiliki beberapa varian`,
+      });
+      return;
+    }
+
+    const availableStock = variant ? variant.stock : product.stock;
+    if (availableStock <= 0) {
+      toast({
+        title: 'Stok habis',
+        description: `${product.name}${variant ? ` [${variant.name}]` : ''}`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    handleAddToCart(product, 1, variant?.code, variant?.name);
+  };
+
+  useBarcodeScanner({
+    onScan: handleBarcodeScan,
+    enabled: !checkoutOpen && !receiptOpen && products.length > 0,
+  });
+
   const handleUpdateQuantity = (productId: string, priceType: 'retail' | 'bulk', delta: number, variantCode?: string) => {
     setCart((prev) => {
       return prev
@@ -294,8 +389,7 @@ const Index = () => {
     setCart((prev) => {
       return prev.map((item) => {
         if (item.product.id === productId && item.priceType === priceType && item.variantCode === variantCode) {
-          const price = priceType === 'retail' ? item.product.retailPrice : item.product.bulkPrice;
-          const maxDiscount = price * item.quantity;
+          const maxDiscount = getLinePricing(item).unitPrice * item.quantity;
           return { ...item, discount: Math.min(maxDiscount, Math.max(0, discount)) };
         }
         return item;
@@ -313,71 +407,135 @@ const Index = () => {
     setCart([]);
   };
 
+  // Park the current cart so the next customer can be served
+  const handleHoldCart = (label: string) => {
+    if (cart.length === 0) return;
+    const held = holdCart(cart, label);
+    setCart([]);
+    toast({
+      title: 'Keranjang ditahan',
+      description: held.label,
+    });
+  };
+
+  // Desktop shortcuts; dialogs handle their own keys while open
+  useHotkeys({
+    'mod+k': () => setPaletteOpen(true),
+    F2: () => searchInputRef.current?.focus(),
+    F4: togglePricingMode,
+    F8: () => handleHoldCart(''),
+    F12: () => {
+      if (cart.length > 0) setCheckoutOpen(true);
+    },
+    Escape: () => {
+      if (document.activeElement !== searchInputRef.current) return;
+      setSearch('');
+      searchInputRef.current?.blur();
+    },
+  }, !checkoutOpen && !receiptOpen && !paletteOpen);
+
+  const handleResumeCart = (id: string) => {
+    const held = takeHeldCart(id);
+    if (!held) return;
+
+    // Don't lose what's on screen - park it in place of the resumed cart
+    if (cart.length > 0) {
+      holdCart(cart, '');
+    }
+
+    // Parked items carry a product snapshot; refresh stock/prices from the latest list
+    const items = held.items.map(item => {
+      const latest = products.find(p => p.id === item.product.id);
+      return latest ? { ...item, product: latest } : item;
+    });
+
+    setCart(items);
+    toast({
+      title: 'Keranjang dilanjutkan',
+      description: cart.length > 0
+        ? `${held.label} — keranjang sebelumnya ditahan`
+        : held.label,
+    });
+  };
+
   const handleCheckoutComplete = async (
     receipt: ReceiptData,
     method: ReceiptDeliveryMethod,
     phone?: string
   ) => {
-    // Save transaction to database for QR code invoice
-    const { error: dbError } = await supabase
-      .from('transactions')
-      .insert([{
-        id: receipt.id,
-        items: JSON.parse(JSON.stringify(receipt.items)),
-        subtotal: receipt.subtotal,
-        discount: receipt.discount,
-        total: receipt.total,
-        payment_method: receipt.paymentMethod,
-        cash_received: receipt.cashReceived || null,
-        change: receipt.change || null,
-        customer_phone: receipt.customerPhone || null,
-        customer_name: receipt.customerName || null,
-        cashier: 'Admin',
-      }]);
-
-    if (dbError) {
-      console.error('Error saving to database:', dbError);
-    }
-
-    // Save transaction to Google Sheets
-    const saved = await saveTransaction(receipt);
-    if (saved) {
+    // Stock movement for this sale - the server decrements relative to the sheet
+    const stockItems = receipt.items.map(item => ({
+      productId: item.product.id,
+      ...(item.variantCode ? { variantCode: item.variantCode } : {}),
+      quantity: item.quantity,
+    }));
+
+    // Persist the sale locally first, then sync to Supabase + Google Sheets.
+    // If we're offline it stays in the outbox and is replayed later.
+    let synced = false;
+    let stockResult: CommitSaleResult | undefined;
+    try {
+      const result = await commitSale(receipt, stockItems);
+      synced = !result.lastError;
+      stockResult = result.stockResult;
+    } catch (err) {
+      console.error('Error queueing sale:', err);
       toast({
-        title: 'Transaksi tersimpan',
-        description: 'Data tersimpan ke Google Sheets',
+        title: 'Gagal menyimpan transaksi',
+        description: 'Transaksi tidak dapat disimpan di perangkat ini',
+        variant: 'destructive',
       });
     }
 
-    // Update stock after sale - decrement stock for each item sold
-    const stockUpdates = receipt.items.map(item => {
-      const currentProduct = products.find(p => p.id === item.product.id);
-      const currentStock = currentProduct?.stock ?? item.product.stock;
-      const newStock = Math.max(0, currentStock - item.quantity);
-      return {
-        id: item.product.id,
-        stock: newStock,
-      };
-    });
+    if (stockResult) {
+      // Apply the authoritative stock levels returned by the sheet
+      setProducts(prev => prev.map(p => {
+        const level = stockResult.products.find(l => l.id === p.id);
+        if (!level) return p;
+        const variants = p.variants?.map(v => {
+          const variantLevel = level.variants?.find(lv => lv.code === v.code);
+          return variantLevel ? { ...v, stock: variantLevel.stock } : v;
+        });
+        return { ...p, stock: level.stock, ...(variants ? { variants } : {}) };
+      }));
 
-    const stockUpdated = await updateStock(stockUpdates);
-    if (stockUpdated) {
-      // Update local products state to reflect new stock
+      if (stockResult.oversells.length > 0) {
+        toast({
+          title: 'Stok tidak mencukupi',
+          description: `${stockResult.oversells.length} item terjual melebihi stok di Google Sheets. Periksa Inventory.`,
+          variant: 'destructive',
+        });
+      }
+    } else {
+      // Offline: reflect the sale locally; the sheet catches up on sync
       setProducts(prev => prev.map(p => {
-        const update = stockUpdates.find(u => u.id === p.id);
-        return update ? { ...p, stock: update.stock } : p;
+        const sold = receipt.items.filter(item => item.product.id === p.id);
+        if (sold.length === 0) return p;
+        const variants = p.variants?.map(v => {
+          const qty = sold
+            .filter(item => item.variantCode === v.code)
+            .reduce((sum, item) => sum + item.quantity, 0);
+          return qty > 0 ? { ...v, stock: Math.max(0, v.stock - qty) } : v;
+        });
+        const totalQty = sold.reduce((sum, item) => sum + item.quantity, 0);
+        return { ...p, stock: Math.max(0, p.stock - totalQty), ...(variants ? { variants } : {}) };
       }));
-      console.log('Stock updated successfully');
+    }
+
+    if (synced) {
+      toast({
+        title: 'Transaksi tersimpan',
+        description: 'Data tersimpan ke Google Sheets',
+      });
     } else {
-      console.error('Failed to update stock');
       toast({
-        title: 'Peringatan',
-        description: sheetsError ?? 'Stok gagal diperbarui di Google Sheets',
-        variant: 'destructive',
+        title: 'Transaksi disimpan offline',
+        description: 'Akan disinkronkan otomatis saat koneksi kembali',
       });
     }
 
     // Auto-send WhatsApp invoice if delivery method is whatsapp
-    if (method === 'whatsapp' && receipt.customerPhone) {
+    if (method === 'whatsapp' && receipt.customerPhone && synced) {
       try {
         const { data, error } = await supabase.functions.invoke('send-whatsapp-invoice', {
           body: { 
@@ -402,8 +560,15 @@ const Index = () => {
       } catch (err) {
         console.error('WhatsApp send error:', err);
       }
+    } else if (method === 'whatsapp' && receipt.customerPhone) {
+      toast({
+        title: 'WhatsApp belum terkirim',
+        description: 'Kirim ulang dari Riwayat setelah transaksi tersinkron',
+        variant: 'destructive',
+      });
     }
 
+    publishCustomerDisplay({ completed: { total: receipt.total, change: receipt.change } });
     setCurrentReceipt(receipt);
     setDeliveryMethod(method);
     setCheckoutOpen(false);
@@ -416,26 +581,36 @@ const Index = () => {
     setCurrentReceipt(null);
   };
 
-  // Calculate cart totals for floating button (with item discounts in Rp)
-  // Uses variant-specific prices when available
-  const cartTotal = cart.reduce((sum, item) => {
-    let price: number;
-    if (item.variantCode && item.product.variants) {
-      const variant = item.product.variants.find(v => v.code === item.variantCode);
-      if (item.priceType === 'retail') {
-        price = variant?.retailPrice ?? item.product.retailPrice;
-      } else {
-        price = variant?.bulkPrice ?? item.product.bulkPrice;
-      }
-    } else {
-      price = item.priceType === 'retail' ? item.product.retailPrice : item.product.bulkPrice;
-    }
-    const discount = item.discount || 0;
-    const discountedTotal = (price * item.quantity) - discount;
-    return sum + Math.max(0, discountedTotal);
-  }, 0);
+  // Automatic promotions, re-evaluated as the cart changes and as time windows open/close
+  const promotionResult = useMemo(() => evaluatePromotions(cart, promotions, now), [cart, promotions, now]);
+
+  // Calculate cart totals for floating button (variant prices, quantity tiers, item discounts and promotions)
+  const cartTotal = cart.reduce((sum, item) => sum + getLineTotal(item), 0) - promotionResult.total;
   const cartItemCount = cart.length;
 
+  // Mirror the cart on the customer display; a new item replaces the last sale's thank-you
+  useEffect(() => {
+    publishCustomerDisplay({
+      storeName: settings?.store_name,
+      lines: cart.map((item) => {
+        const key = getCartLineKey(item);
+        const promoDiscount = (promotionResult.lines[key] || []).reduce((sum, p) => sum + p.discount, 0);
+        return {
+          key,
+          name: item.product.name,
+          variantName: item.variantName,
+          quantity: item.quantity,
+          unitPrice: getLinePricing(item).unitPrice,
+          discount: item.discount + promoDiscount,
+          total: getLineTotal(item) - promoDiscount,
+        };
+      }),
+      subtotal: cartTotal,
+      ...(cart.length > 0 ? { completed: null } : {}),
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cart, promotionResult, settings?.store_name]);
+
   return (
     <div 
       className="min-h-screen bg-background"
@@ -490,6 +665,30 @@ const Index = () => {
 
             {/* Navigation - icon only on mobile */}
             <div className="flex items-center gap-1 sm:gap-3">
+              {pendingCount > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={async () => {
+                    const remaining = await syncNow();
+                    toast({
+                      title: remaining === 0 ? 'Sinkronisasi selesai' : 'Belum tersinkron',
+                      description: remaining === 0
+                        ? 'Semua transaksi offline sudah tersimpan'
+                        : `${remaining} transaksi masih menunggu koneksi`,
+                      variant: remaining === 0 ? undefined : 'destructive',
+                    });
+                  }}
+                  disabled={isSyncing}
+                  className="gap-2 px-2 sm:px-3 h-9 sm:h-9 border-warning/50 text-warning"
+                  title="Transaksi menunggu sinkronisasi"
+                >
+                  {isSyncing ? <RefreshCw className="w-4 h-4 animate-spin" /> : <CloudOff className="w-4 h-4" />}
+                  <span className="font-mono text-xs font-semibold">{pendingCount}</span>
+                  <span className="hidden lg:inline">Belum sinkron</span>
+                </Button>
+              )}
+              <ShiftButton pendingCount={pendingCount} onSync={syncNow} />
               <Button
                 variant="outline"
                 size="sm"
@@ -508,6 +707,15 @@ const Index = () => {
                 <History className="w-4 h-4" />
                 <span className="hidden sm:inline">Riwayat</span>
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigate('/customers')}
+                className="gap-2 px-2 sm:px-3 h-9 sm:h-9"
+              >
+                <Users className="w-4 h-4" />
+                <span className="hidden sm:inline">Pelanggan</span>
+              </Button>
               {isAdmin && (
                 <Button
                   variant="outline"
@@ -519,6 +727,7 @@ const Index = () => {
                   <span className="hidden sm:inline">Admin</span>
                 </Button>
               )}
+              <CustomerDisplayButton />
               {isSupported && (
                 <Button
                   variant="outline"
@@ -572,8 +781,9 @@ const Index = () => {
               <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
                 <div className="flex-1">
                   <SearchBar 
+                    inputRef={searchInputRef}
                     value={search} 
-                    onChange={setSearch} 
+                    onChange={handleSearchChange} 
                     onRefresh={async () => {
                       setIsRefreshing(true);
                       await loadProducts(true);
@@ -586,36 +796,68 @@ const Index = () => {
                     isRefreshing={isRefreshing}
                   />
                 </div>
-                <CategoryFilter
-                  categories={categories}
-                  selected={selectedCategory}
-                  onSelect={setSelectedCategory}
-                />
+                <div className="flex gap-2">
+                  <Tabs value={productView} onValueChange={(value) => setProductView(value as 'all' | 'favorites')}>
+                    <TabsList className="h-11">
+                      <TabsTrigger value="all" className="h-9 px-3" title="Semua produk">
+                        <LayoutGrid className="w-4 h-4" />
+                      </TabsTrigger>
+                      <TabsTrigger value="favorites" className="h-9 px-3 gap-1.5">
+                        <Star className="w-4 h-4" />
+                        <span>Favorit</span>
+                      </TabsTrigger>
+                    </TabsList>
+                  </Tabs>
+                  {productView === 'all' && (
+                    <div className="flex-1">
+                      <CategoryFilter
+                        categories={categories}
+                        selected={selectedCategory}
+                        onSelect={setSelectedCategory}
+                      />
+                    </div>
+                  )}
+                </div>
               </div>
             </div>
 
-            {/* Responsive product grid: 2 cols mobile, 2 cols tablet, 3 cols desktop */}
-            <div className="grid grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4 md:gap-5 items-stretch">
-              {!initialLoadDone && products.length === 0 ? (
-                <ProductGridSkeleton count={6} />
-              ) : (
-                filteredProducts.map((product) => (
-                  <ProductCard
-                    key={product.id}
-                    product={product}
-                    pricingMode={pricingMode}
-                    onAdd={handleAddToCart}
-                    searchQuery={search}
-                  />
-                ))
-              )}
-            </div>
+            {productView === 'favorites' ? (
+              <FavoritesGrid
+                favorites={favorites}
+                loading={favoritesLoading}
+                searchIndex={searchIndex}
+                pricingMode={pricingMode}
+                onAdd={handleAddToCart}
+                onAddFavorite={handleAddFavorite}
+                onRemoveFavorite={handleRemoveFavorite}
+                onReorder={handleReorderFavorites}
+              />
+            ) : (
+              <>
+                {/* Responsive product grid: 2 cols mobile, 2 cols tablet, 3 cols desktop */}
+                <div className="grid grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4 md:gap-5 items-stretch">
+                  {!initialLoadDone && products.length === 0 ? (
+                    <ProductGridSkeleton count={6} />
+                  ) : (
+                    filteredProducts.map((product) => (
+                      <ProductCard
+                        key={product.id}
+                        product={product}
+                        pricingMode={pricingMode}
+                        onAdd={handleAddToCart}
+                        searchQuery={search}
+                      />
+                    ))
+                  )}
+                </div>
 
-            {initialLoadDone && filteredProducts.length === 0 && products.length > 0 && (
-              <div className="text-center py-8 sm:py-12 text-muted-foreground">
-                <p className="text-base sm:text-lg">Produk tidak ditemukan</p>
-                <p className="text-xs sm:text-sm">Coba kata kunci lain</p>
-              </div>
+                {initialLoadDone && filteredProducts.length === 0 && products.length > 0 && (
+                  <div className="text-center py-8 sm:py-12 text-muted-foreground">
+                    <p className="text-base sm:text-lg">Produk tidak ditemukan</p>
+                    <p className="text-xs sm:text-sm">Coba kata kunci lain</p>
+                  </div>
+                )}
+              </>
             )}
           </div>
 
@@ -624,12 +866,17 @@ const Index = () => {
             <div className="sticky top-16 sm:top-24 h-[calc(100vh-6rem)] sm:h-[calc(100vh-8rem)]">
               <CartPanel
                 items={cart}
+                promotions={promotionResult}
                 onUpdateQuantity={handleUpdateQuantity}
                 onSetQuantity={handleSetQuantity}
                 onSetDiscount={handleSetItemDiscount}
                 onRemove={handleRemoveFromCart}
                 onClear={handleClearCart}
                 onCheckout={() => setCheckoutOpen(true)}
+                heldCarts={heldCarts}
+                onHoldCart={handleHoldCart}
+                onResumeCart={handleResumeCart}
+                onDeleteHeldCart={deleteHeldCart}
               />
             </div>
           </div>
@@ -643,6 +890,7 @@ const Index = () => {
       <FloatingCartButton
         itemCount={cartItemCount}
         total={cartTotal}
+        heldCount={heldCarts.length}
         onClick={() => setMobileCartOpen(true)}
       />
 
@@ -651,19 +899,38 @@ const Index = () => {
         open={mobileCartOpen}
         onClose={() => setMobileCartOpen(false)}
         items={cart}
+        promotions={promotionResult}
         onUpdateQuantity={handleUpdateQuantity}
         onSetQuantity={handleSetQuantity}
         onSetDiscount={handleSetItemDiscount}
         onRemove={handleRemoveFromCart}
         onClear={handleClearCart}
         onCheckout={() => setCheckoutOpen(true)}
+        heldCarts={heldCarts}
+        onHoldCart={handleHoldCart}
+        onResumeCart={handleResumeCart}
+        onDeleteHeldCart={deleteHeldCart}
       />
 
       {/* Modals */}
+      <CommandPalette
+        open={paletteOpen}
+        onOpenChange={setPaletteOpen}
+        searchIndex={searchIndex}
+        pricingMode={pricingMode}
+        canCheckout={cart.length > 0}
+        onAddProduct={handleAddToCart}
+        onTogglePricing={togglePricingMode}
+        onCheckout={() => setCheckoutOpen(true)}
+        onHoldCart={() => handleHoldCart('')}
+        onNavigate={navigate}
+      />
+
       <CheckoutModal
         open={checkoutOpen}
         onClose={() => setCheckoutOpen(false)}
         items={cart}
+        promotions={promotionResult}
         onComplete={handleCheckoutComplete}
       />
 
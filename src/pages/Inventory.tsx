@@ -1,6 +1,6 @@
 import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, Plus, Minus, Save, RefreshCw, Edit2, Check, X, Search, AlertTriangle, PlusCircle, Loader2, Trash2, Wrench, Layers } from 'lucide-react';
+import { ArrowLeft, Plus, Minus, Save, RefreshCw, Edit2, Check, X, Search, AlertTriangle, PlusCircle, Loader2, Trash2, Wrench, Layers, TrendingDown, BadgePercent } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
@@ -9,6 +9,7 @@ import { useAuth } from '@/hooks/useAuth';
 import { AddProductModal } from '@/components/inventory/AddProductModal';
 import { VariantStockEditor } from '@/components/inventory/VariantStockEditor';
 import { VariantManagerModal } from '@/components/inventory/VariantManagerModal';
+import { PriceTierModal } from '@/components/inventory/PriceTierModal';
 import { CategoryFilter } from '@/components/pos/CategoryFilter';
 import {
   AlertDialog,
@@ -20,7 +21,8 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import type { Product } from '@/types/pos';
+import type { PriceTier, Product } from '@/types/pos';
+import { broadcastProductsUpdated } from '@/utils/productEvents';
 
 const LOW_STOCK_THRESHOLD = 5;
 const STOCK_SAVE_DEBOUNCE_MS = 600;
@@ -74,20 +76,10 @@ export default function Inventory() {
   const [productToDelete, setProductToDelete] = useState<Product | null>(null);
   const [isRepairingFormat, setIsRepairingFormat] = useState(false);
   const [variantManagerProduct, setVariantManagerProduct] = useState<Product | null>(null);
+  const [priceTierProduct, setPriceTierProduct] = useState<Product | null>(null);
   // Debounce timeouts for stock input typing
   const stockDebounceRefs = useRef<Record<string, NodeJS.Timeout>>({});
 
-  // Broadcast to other pages/tabs (POS) that product data has changed
-  const broadcastProductsUpdated = useCallback((payload: { productId: string; stock: number }) => {
-    const message = { ...payload, ts: Date.now() };
-    try {
-      localStorage.setItem('pos:products_updated', JSON.stringify(message));
-    } catch {
-      // ignore storage errors
-    }
-    window.dispatchEvent(new CustomEvent('pos:products_updated', { detail: message }));
-  }, []);
-
   // Per-product stock save queue to prevent request races overwriting newer values
   // (e.g. debounce + blur + rapid typing causing multiple updateStock calls)
   const stockSaveStateRef = useRef<Record<string, { inFlight: boolean; pending?: number }>>({});
@@ -251,7 +243,7 @@ export default function Inventory() {
         return next;
       });
     }
-  }, [updateStock, products, toast, broadcastProductsUpdated]);
+  }, [updateStock, products, toast]);
 
   const handleFieldChange = (productId: string, field: keyof EditedProduct, value: number) => {
     const safeValue = Number.isFinite(value) ? value : 0;
@@ -373,10 +365,10 @@ export default function Inventory() {
         return next;
       });
     }
-  }, [updateVariantStock, broadcastProductsUpdated, toast, sheetsError]);
+  }, [updateVariantStock, toast, sheetsError]);
 
   // Handle variant inventory update (price changes)
-  const handleUpdateVariantInventory = useCallback(async (productId: string, variantCode: string, updates: { stock?: number; retailPrice?: number | ''; bulkPrice?: number | '' }) => {
+  const handleUpdateVariantInventory = useCallback(async (productId: string, variantCode: string, updates: { stock?: number; retailPrice?: number | ''; bulkPrice?: number | ''; barcode?: string }) => {
     const variantKey = `${productId}|${variantCode}`;
     
     setSavingVariantKeys(prev => new Set(prev).add(variantKey));
@@ -499,6 +491,35 @@ export default function Inventory() {
     }
   };
 
+  // Quantity price breaks are saved on every Products sheet row of the product (column M)
+  const handleSavePriceTiers = async (productId: string, priceTiers: PriceTier[]) => {
+    const success = await updateInventory([{ id: productId, priceTiers }]);
+    if (success) {
+      setProducts(prev => prev.map(p => (
+        p.id === productId ? { ...p, priceTiers: priceTiers.length > 0 ? priceTiers : undefined } : p
+      )));
+      const product = products.find(p => p.id === productId);
+      broadcastProductsUpdated({ productId, stock: product?.stock ?? 0 });
+    }
+    return success;
+  };
+
+  // PPN exemption is saved on every Products sheet row of the product (column N)
+  const handleToggleTaxExempt = async (product: Product) => {
+    const taxExempt = !product.taxExempt;
+    const success = await updateInventory([{ id: product.id, taxExempt }]);
+    if (success) {
+      setProducts(prev => prev.map(p => (
+        p.id === product.id ? { ...p, taxExempt: taxExempt || undefined } : p
+      )));
+      broadcastProductsUpdated({ productId: product.id, stock: product.stock });
+      toast({
+        title: 'Berhasil',
+        description: taxExempt ? `${product.name} bebas PPN` : `${product.name} dikenakan PPN`,
+      });
+    }
+  };
+
   const handleDeleteProduct = async () => {
     if (!productToDelete) return;
     
@@ -861,6 +882,24 @@ export default function Inventory() {
                           >
                             <Layers className="w-4 h-4" />
                           </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className={`h-8 w-8 ${product.priceTiers?.length ? 'text-primary hover:text-primary' : ''}`}
+                            onClick={() => setPriceTierProduct(product)}
+                            title="Harga Bertingkat"
+                          >
+                            <TrendingDown className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className={`h-8 w-8 ${product.taxExempt ? 'text-primary hover:text-primary' : ''}`}
+                            onClick={() => handleToggleTaxExempt(product)}
+                            title={product.taxExempt ? 'Bebas PPN' : 'Dikenakan PPN'}
+                          >
+                            <BadgePercent className="w-4 h-4" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="icon"
@@ -1003,6 +1042,24 @@ export default function Inventory() {
                         >
                           <Layers className="w-3 h-3" />
                         </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className={`h-6 w-6 ${product.priceTiers?.length ? 'text-primary' : ''}`}
+                          onClick={() => setPriceTierProduct(product)}
+                          title="Harga Bertingkat"
+                        >
+                          <TrendingDown className="w-3 h-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className={`h-6 w-6 ${product.taxExempt ? 'text-primary' : ''}`}
+                          onClick={() => handleToggleTaxExempt(product)}
+                          title={product.taxExempt ? 'Bebas PPN' : 'Dikenakan PPN'}
+                        >
+                          <BadgePercent className="w-3 h-3" />
+                        </Button>
                         <Button
                           variant="ghost"
                           size="icon"
@@ -1137,6 +1194,17 @@ export default function Inventory() {
           onSuccess={loadProducts}
         />
       )}
+
+      {/* Price Tier Modal */}
+      {priceTierProduct && (
+        <PriceTierModal
+          open={!!priceTierProduct}
+          onOpenChange={(open) => !open && setPriceTierProduct(null)}
+          product={priceTierProduct}
+          onSave={handleSavePriceTiers}
+          onSuccess={loadProducts}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
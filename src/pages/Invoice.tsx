@@ -4,29 +4,40 @@ import { supabase } from '@/integrations/supabase/client';
 import { format } from 'date-fns';
 import { id } from 'date-fns/locale';
 import { Loader2 } from 'lucide-react';
-
-interface TransactionItem {
-  product: {
-    name: string;
-    retailPrice: number;
-    bulkPrice: number;
-  };
-  quantity: number;
-  priceType: 'retail' | 'bulk';
-}
+import { AppliedPromotion, CartItem } from '@/types/pos';
+import { getChargedUnitPrice, getLinePricing } from '@/utils/pricing';
 
 interface Transaction {
   id: string;
-  items: TransactionItem[];
+  items: CartItem[];
   subtotal: number;
   discount: number;
   total: number;
   payment_method: string;
+  payments: { method: string; amount: number; reference?: string }[] | null;
+  promotions: AppliedPromotion[] | null;
+  voucher_code: string | null;
+  voucher_discount: number;
+  loyalty_phone: string | null;
+  points_earned: number;
+  points_redeemed: number;
+  points_discount: number;
+  points_balance: number | null;
+  tax_mode: 'inclusive' | 'exclusive' | null;
+  tax_rate: number;
+  tax_amount: number;
+  service_charge_rate: number;
+  service_charge: number;
+  cash_rounding: number;
+  credit_due_date: string | null;
+  credit_outstanding: number | null;
   cash_received: number | null;
   change: number | null;
   customer_name: string | null;
   cashier: string | null;
   created_at: string;
+  voided_at: string | null;
+  void_reason: string | null;
 }
 
 const formatRupiah = (num: number) => {
@@ -41,6 +52,8 @@ const paymentMethodLabels: Record<string, string> = {
   'cash': 'Tunai',
   'qris': 'QRIS',
   'transfer': 'Debit/Kredit',
+  'credit': 'Hutang',
+  'split': 'Kombinasi',
 };
 
 export default function Invoice() {
@@ -67,10 +80,12 @@ export default function Invoice() {
         console.error('Error fetching transaction:', fetchError);
         setError('Invoice tidak ditemukan');
       } else if (data) {
-        // Cast items from Json to TransactionItem[]
+        // Cast items from Json to CartItem[]
         setTransaction({
           ...data,
-          items: data.items as unknown as TransactionItem[]
+          items: data.items as unknown as CartItem[],
+          payments: data.payments as unknown as Transaction['payments'],
+          promotions: data.promotions as unknown as Transaction['promotions'],
         } as Transaction);
       }
       setLoading(false);
@@ -98,7 +113,7 @@ export default function Invoice() {
     );
   }
 
-  const items = transaction.items as TransactionItem[];
+  const items = transaction.items as CartItem[];
   const timestamp = new Date(transaction.created_at);
 
   return (
@@ -111,6 +126,18 @@ export default function Invoice() {
           <p className="text-xs">Tel: (021) 1234-5678</p>
         </div>
 
+        {transaction.voided_at && (
+          <div className="text-center border-2 border-red-600 text-red-600 rounded p-2 mb-4">
+            <p className="font-bold tracking-widest">DIBATALKAN (VOID)</p>
+            <p className="text-xs">
+              {format(new Date(transaction.voided_at), 'dd MMM yyyy HH:mm', { locale: id })}
+            </p>
+            {transaction.void_reason && (
+              <p className="text-xs mt-1">Alasan: {transaction.void_reason}</p>
+            )}
+          </div>
+        )}
+
         {/* Transaction Info */}
         <div className="text-xs border-b border-dashed border-gray-400 pb-3 mb-3">
           <div className="flex justify-between">
@@ -147,9 +174,9 @@ export default function Invoice() {
             <span className="w-20 text-right">Total</span>
           </div>
           {items.map((item, idx) => {
-            const price = item.priceType === 'retail' 
-              ? item.product.retailPrice 
-              : item.product.bulkPrice;
+            // Same pricing as the cart, so a variant's own price is used
+            const { basePrice, tier } = getLinePricing(item);
+            const price = getChargedUnitPrice(item);
             const total = price * item.quantity;
             
             return (
@@ -165,6 +192,7 @@ export default function Invoice() {
                   <span className="w-20 text-right">{formatRupiah(total)}</span>
                 </div>
                 <div className="text-gray-500 text-right">
+                  {price < basePrice && tier && <span>Harga {tier.minQty}+ </span>}
                   @ {formatRupiah(price)}
                 </div>
               </div>
@@ -174,6 +202,12 @@ export default function Invoice() {
 
         {/* Totals */}
         <div className="text-xs space-y-1 border-b border-dashed border-gray-400 pb-3 mb-3">
+          {Array.isArray(transaction.promotions) && transaction.promotions.map((promo, index) => (
+            <div key={index} className="flex justify-between text-green-600">
+              <span>Promo {promo.name}:</span>
+              <span>-{formatRupiah(promo.discount)}</span>
+            </div>
+          ))}
           <div className="flex justify-between">
             <span>Subtotal:</span>
             <span>{formatRupiah(transaction.subtotal)}</span>
@@ -184,10 +218,46 @@ export default function Invoice() {
               <span>-{formatRupiah(transaction.discount)}</span>
             </div>
           )}
+          {transaction.voucher_code && transaction.voucher_discount > 0 && (
+            <div className="flex justify-between text-green-600">
+              <span>Voucher {transaction.voucher_code}:</span>
+              <span>-{formatRupiah(transaction.voucher_discount)}</span>
+            </div>
+          )}
+          {transaction.points_discount > 0 && (
+            <div className="flex justify-between text-green-600">
+              <span>Tukar {transaction.points_redeemed} poin:</span>
+              <span>-{formatRupiah(transaction.points_discount)}</span>
+            </div>
+          )}
+          {Number(transaction.service_charge) > 0 && (
+            <div className="flex justify-between">
+              <span>Service {transaction.service_charge_rate}%:</span>
+              <span>{formatRupiah(transaction.service_charge)}</span>
+            </div>
+          )}
+          {transaction.tax_mode === 'exclusive' && transaction.tax_amount > 0 && (
+            <div className="flex justify-between">
+              <span>PPN {transaction.tax_rate}%:</span>
+              <span>{formatRupiah(transaction.tax_amount)}</span>
+            </div>
+          )}
+          {Number(transaction.cash_rounding) !== 0 && (
+            <div className="flex justify-between">
+              <span>Pembulatan:</span>
+              <span>{transaction.cash_rounding < 0 ? '-' : ''}{formatRupiah(Math.abs(transaction.cash_rounding))}</span>
+            </div>
+          )}
           <div className="flex justify-between font-bold text-sm mt-2 pt-2 border-t border-gray-300">
             <span>TOTAL:</span>
             <span>{formatRupiah(transaction.total)}</span>
           </div>
+          {transaction.tax_mode === 'inclusive' && transaction.tax_amount > 0 && (
+            <div className="flex justify-between text-gray-500">
+              <span>Termasuk PPN {transaction.tax_rate}%:</span>
+              <span>{formatRupiah(transaction.tax_amount)}</span>
+            </div>
+          )}
         </div>
 
         {/* Payment */}
@@ -196,6 +266,17 @@ export default function Invoice() {
             <span>Pembayaran:</span>
             <span>{paymentMethodLabels[transaction.payment_method] || transaction.payment_method}</span>
           </div>
+          {Array.isArray(transaction.payments) && transaction.payments.length > 1 && (
+            transaction.payments.map((p, index) => (
+              <div key={index} className="flex justify-between pl-2">
+                <span>
+                  {paymentMethodLabels[p.method] || p.method}
+                  {p.reference && <span className="text-gray-500"> ({p.reference})</span>}
+                </span>
+                <span>{formatRupiah(p.amount)}</span>
+              </div>
+            ))
+          )}
           {transaction.cash_received && (
             <>
               <div className="flex justify-between">
@@ -208,8 +289,44 @@ export default function Invoice() {
               </div>
             </>
           )}
+          {transaction.credit_due_date && (
+            <div className="flex justify-between">
+              <span>Jatuh tempo:</span>
+              <span>{format(new Date(transaction.credit_due_date), 'dd MMM yyyy', { locale: id })}</span>
+            </div>
+          )}
+          {transaction.credit_outstanding !== null && (
+            <div className="flex justify-between font-semibold">
+              <span>Sisa hutang:</span>
+              <span>{formatRupiah(transaction.credit_outstanding)}</span>
+            </div>
+          )}
         </div>
 
+        {/* Loyalty points */}
+        {transaction.loyalty_phone && (
+          <div className="text-xs space-y-1 border-b border-dashed border-gray-400 pb-3 mb-3">
+            {transaction.points_earned > 0 && (
+              <div className="flex justify-between">
+                <span>Poin didapat:</span>
+                <span>+{transaction.points_earned}</span>
+              </div>
+            )}
+            {transaction.points_redeemed > 0 && (
+              <div className="flex justify-between">
+                <span>Poin ditukar:</span>
+                <span>-{transaction.points_redeemed}</span>
+              </div>
+            )}
+            {transaction.points_balance !== null && (
+              <div className="flex justify-between font-semibold">
+                <span>Saldo poin:</span>
+                <span>{transaction.points_balance}</span>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Footer */}
         <div className="text-center text-xs text-gray-600 mt-4">
           <p className="font-semibold">Terima Kasih!</p>
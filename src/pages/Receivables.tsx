@@ -0,0 +1,301 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ReceivablePaymentDialog, ReceivableSummary } from '@/components/customers/ReceivablePaymentDialog';
+import { ArrowLeft, Search, RefreshCw, Loader2, ExternalLink, Wallet, X } from 'lucide-react';
+import logo88 from '@/assets/logo-88.png';
+
+interface ReceivableRow {
+  id: string;
+  transaction_id: string;
+  customer_id: string | null;  // Null for a credit sale that reached the server without one
+  amount: number;
+  paid_amount: number;
+  due_date: string | null;
+  created_at: string;
+  customers: { name: string; phone: string | null } | null;
+}
+
+const formatRupiah = (num: number) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(num);
+};
+
+const remainingOf = (r: ReceivableRow) => Number(r.amount) - Number(r.paid_amount);
+
+// Due dates are plain dates; compare against today's local date
+const isOverdue = (r: ReceivableRow) => {
+  if (!r.due_date || remainingOf(r) <= 0) return false;
+  const today = new Date();
+  const todayKey = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+  return r.due_date < todayKey;
+};
+
+export default function Receivables() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const customerFilter = searchParams.get('customer');
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+
+  const [receivables, setReceivables] = useState<ReceivableRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [showPaid, setShowPaid] = useState(false);
+  const [payTarget, setPayTarget] = useState<ReceivableSummary | null>(null);
+
+  useEffect(() => {
+    // Wait for auth to be determined (not null)
+    if (isAuthenticated === null) return;
+
+    if (!isAuthenticated) {
+      navigate('/login');
+      return;
+    }
+    fetchReceivables();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isAuthenticated, navigate, customerFilter]);
+
+  const fetchReceivables = async () => {
+    setLoading(true);
+    let query = supabase
+      .from('receivables')
+      .select('id, transaction_id, customer_id, amount, paid_amount, due_date, created_at, customers(name, phone)')
+      .is('cancelled_at', null)
+      .order('created_at', { ascending: false });
+
+    if (customerFilter) {
+      query = query.eq('customer_id', customerFilter);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching receivables:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal memuat daftar piutang',
+        variant: 'destructive',
+      });
+    } else {
+      setReceivables((data || []) as ReceivableRow[]);
+    }
+    setLoading(false);
+  };
+
+  const filteredReceivables = receivables.filter((r) => {
+    if (!showPaid && remainingOf(r) <= 0) return false;
+    const query = search.trim().toLowerCase();
+    if (!query) return true;
+    return (
+      r.transaction_id.toLowerCase().includes(query) ||
+      !!r.customers?.name.toLowerCase().includes(query) ||
+      !!r.customers?.phone?.includes(query)
+    );
+  });
+
+  const totalOutstanding = receivables.reduce((sum, r) => sum + remainingOf(r), 0);
+  const overdueCount = receivables.filter(isOverdue).length;
+  const filteredCustomerName = customerFilter ? receivables[0]?.customers?.name : undefined;
+
+  const openPayment = (r: ReceivableRow) => {
+    setPayTarget({
+      id: r.id,
+      transactionId: r.transaction_id,
+      customerName: r.customers?.name || '-',
+      amount: Number(r.amount),
+      paidAmount: Number(r.paid_amount),
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-40">
+        <div className="container max-w-7xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+                <ArrowLeft className="w-5 h-5" />
+              </Button>
+              <div className="flex items-center gap-3">
+                <img src={logo88} alt="Toko 88" className="h-10 w-auto rounded-lg" />
+                <div>
+                  <h1 className="font-bold text-xl">Piutang</h1>
+                  <p className="text-xs text-muted-foreground">Hutang pelanggan dan pembayarannya</p>
+                </div>
+              </div>
+            </div>
+            <Button variant="outline" size="sm" onClick={fetchReceivables}>
+              <RefreshCw className="w-4 h-4 sm:mr-2" />
+              <span className="hidden sm:inline">Refresh</span>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container max-w-7xl mx-auto px-4 py-6 space-y-6">
+        <div className="grid grid-cols-2 gap-2 sm:gap-4">
+          <div className="rounded-lg bg-destructive/10 p-3">
+            <p className="text-xs text-muted-foreground">Total Belum Dibayar</p>
+            <p className="font-mono font-semibold text-xl text-destructive">{formatRupiah(totalOutstanding)}</p>
+          </div>
+          <div className="rounded-lg bg-secondary/50 p-3">
+            <p className="text-xs text-muted-foreground">Lewat Jatuh Tempo</p>
+            <p className="font-mono font-semibold text-xl">{overdueCount}</p>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div className="flex items-center gap-2 flex-wrap">
+                <CardTitle>{filteredReceivables.length} Piutang</CardTitle>
+                {customerFilter && (
+                  <button
+                    onClick={() => setSearchParams({})}
+                    className="flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-primary/10 text-primary"
+                  >
+                    {filteredCustomerName || 'Satu pelanggan'}
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant={showPaid ? 'outline' : 'default'}
+                  size="sm"
+                  onClick={() => setShowPaid(false)}
+                >
+                  Belum Lunas
+                </Button>
+                <Button
+                  variant={showPaid ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setShowPaid(true)}
+                >
+                  Semua
+                </Button>
+                <div className="relative w-full sm:w-64">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Cari pelanggan atau invoice..."
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    className="pl-9"
+                  />
+                </div>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              </div>
+            ) : filteredReceivables.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <p>Tidak ada piutang</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tanggal</TableHead>
+                    <TableHead>Pelanggan</TableHead>
+                    <TableHead className="hidden md:table-cell">ID Transaksi</TableHead>
+                    <TableHead className="hidden sm:table-cell">Jatuh Tempo</TableHead>
+                    <TableHead className="text-right hidden sm:table-cell">Jumlah</TableHead>
+                    <TableHead className="text-right">Sisa</TableHead>
+                    <TableHead className="w-24" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredReceivables.map((r) => {
+                    const remaining = remainingOf(r);
+                    const overdue = isOverdue(r);
+                    return (
+                      <TableRow key={r.id} className={overdue ? 'bg-destructive/5' : ''}>
+                        <TableCell className="text-sm">
+                          {new Date(r.created_at).toLocaleDateString('id-ID')}
+                        </TableCell>
+                        <TableCell>
+                          {r.customer_id ? (
+                            <button
+                              onClick={() => navigate(`/customers/${r.customer_id}`)}
+                              className="font-medium hover:underline text-left"
+                            >
+                              {r.customers?.name || '-'}
+                            </button>
+                          ) : (
+                            <span className="text-sm text-destructive">Tanpa pelanggan</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="hidden md:table-cell font-mono text-xs">
+                          <button
+                            onClick={() => navigate(`/invoice/${r.transaction_id}`)}
+                            className="flex items-center gap-1 hover:underline"
+                          >
+                            {r.transaction_id}
+                            <ExternalLink className="w-3 h-3" />
+                          </button>
+                        </TableCell>
+                        <TableCell className="hidden sm:table-cell text-sm">
+                          {r.due_date ? (
+                            <span className={overdue ? 'text-destructive font-semibold' : ''}>
+                              {new Date(r.due_date).toLocaleDateString('id-ID')}
+                            </span>
+                          ) : '-'}
+                        </TableCell>
+                        <TableCell className="text-right hidden sm:table-cell font-mono">
+                          {formatRupiah(Number(r.amount))}
+                        </TableCell>
+                        <TableCell className="text-right font-mono font-semibold">
+                          {remaining > 0 ? (
+                            <span className="text-destructive">{formatRupiah(remaining)}</span>
+                          ) : (
+                            <span className="text-xs text-green-600">LUNAS</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Button variant="outline" size="sm" onClick={() => openPayment(r)}>
+                            <Wallet className="w-4 h-4 sm:mr-2" />
+                            <span className="hidden sm:inline">{remaining > 0 ? 'Bayar' : 'Riwayat'}</span>
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <ReceivablePaymentDialog
+        open={!!payTarget}
+        onOpenChange={(open) => !open && setPayTarget(null)}
+        receivable={payTarget}
+        onSaved={fetchReceivables}
+      />
+    </div>
+  );
+}
@@ -1,12 +1,11 @@
-import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import { useBluetoothPrinter } from '@/hooks/useBluetoothPrinter';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Input } from '@/components/ui/input';
 import {
   Table,
   TableBody,
@@ -21,12 +20,39 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { ThermalReceiptPreview } from '@/components/pos/ThermalReceiptPreview';
 import { BluetoothPrinterButton } from '@/components/pos/BluetoothPrinterButton';
-import { ArrowLeft, Search, MessageCircle, Eye, RefreshCw, Loader2, Printer, FileText, Copy } from 'lucide-react';
+import { ReturnDialog } from '@/components/pos/ReturnDialog';
+import { VoidDialog } from '@/components/pos/VoidDialog';
+import { CashierDailySummary } from '@/components/transactions/CashierDailySummary';
+import { TransactionFiltersBar } from '@/components/transactions/TransactionFiltersBar';
+import {
+  TransactionFilters,
+  parseTransactionFilters,
+  toTransactionFilterArgs,
+  toTransactionSearchParams,
+} from '@/utils/transactionFilters';
+import {
+  TransactionExportFormat,
+  TransactionExportLayout,
+  buildTransactionExport,
+  getTransactionExportFileName,
+} from '@/utils/transactionExport';
+import { downloadBlob } from '@/utils/spreadsheet';
+import { broadcastProductsUpdated } from '@/utils/productEvents';
+import { useGoogleSheets } from '@/hooks/useGoogleSheets';
+import { ArrowLeft, MessageCircle, Eye, RefreshCw, Loader2, Printer, FileText, Copy, Undo2, Ban, RotateCcw, Download } from 'lucide-react';
 import logo88 from '@/assets/logo-88.png';
 import { Json } from '@/integrations/supabase/types';
-import { ReceiptData, CartItem } from '@/types/pos';
+import { ReceiptData, CartItem, PaymentEntry, ReturnReceiptData, AppliedPromotion } from '@/types/pos';
 
 interface Transaction {
   id: string;
@@ -36,11 +62,48 @@ interface Transaction {
   discount: number;
   total: number;
   payment_method: string;
+  payments: Json;
+  promotions: Json;
+  voucher_code: string | null;
+  voucher_discount: number;
+  loyalty_phone: string | null;
+  points_earned: number;
+  points_redeemed: number;
+  points_discount: number;
+  points_balance: number | null;
+  credit_due_date: string | null;
+  credit_outstanding: number | null;
+  tax_mode: string | null;
+  tax_rate: number;
+  tax_base: number;
+  tax_amount: number;
+  service_charge_rate: number;
+  service_charge: number;
+  cash_rounding: number;
   cash_received: number | null;
   change: number | null;
   customer_phone: string | null;
   customer_name: string | null;
+  customer_id: string | null;
   cashier: string | null;
+  cashier_id: string | null;
+  shift_id: string | null;
+  search_text: string | null;
+  discount_reason: string | null;
+  discount_approval_id: string | null;
+  voided_at: string | null;
+  void_reason: string | null;
+  void_stock_restored: boolean;
+}
+
+const PAGE_SIZE = 50;
+const EXPORT_BATCH_SIZE = 500;
+
+interface TransactionTotals {
+  count: number;
+  salesTotal: number;
+  returnsTotal: number;
+  roundingTotal: number;
 }
 
 const formatRupiah = (num: number) => {
@@ -51,20 +114,63 @@ const formatRupiah = (num: number) => {
   }).format(num);
 };
 
+// Parse the stored tender breakdown, dropping anything malformed
+const parsePayments = (payments: Json): PaymentEntry[] => {
+  if (!Array.isArray(payments)) return [];
+  return (payments as Partial<Record<keyof PaymentEntry, unknown>>[])
+    .filter((p) => p && typeof p.method === 'string' && Number(p.amount) > 0)
+    .map((p) => ({
+      method: p.method as PaymentEntry['method'],
+      amount: Number(p.amount),
+      ...(p.reference ? { reference: String(p.reference) } : {}),
+    }));
+};
+
+// Parse the promotions applied to the sale
+const parsePromotions = (promotions: Json): AppliedPromotion[] => {
+  if (!Array.isArray(promotions)) return [];
+  return (promotions as Partial<Record<keyof AppliedPromotion, unknown>>[])
+    .filter((p) => p && typeof p.name === 'string' && Number(p.discount) > 0)
+    .map((p) => ({ id: String(p.id ?? ''), name: p.name as string, discount: Number(p.discount) }));
+};
+
+// "cash", or "cash + qris" for split payments
+const formatPaymentMethod = (t: Transaction) => {
+  const payments = parsePayments(t.payments);
+  if (payments.length > 1) {
+    return Array.from(new Set(payments.map(p => p.method))).join(' + ');
+  }
+  return t.payment_method;
+};
+
 export default function Transactions() {
   const navigate = useNavigate();
   const { isAuthenticated } = useAuth();
   const { toast } = useToast();
   const { isConnected, isPrinting, printInvoiceOnly, printCarbonCopyOnly } = useBluetoothPrinter();
+  const { voidSale, recordReturn } = useGoogleSheets();
   
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
-  const [search, setSearch] = useState('');
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [totals, setTotals] = useState<TransactionTotals | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Bumped on every new query so a slow response for old filters is dropped
+  const requestIdRef = useRef(0);
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
   const [detailOpen, setDetailOpen] = useState(false);
   const [sendingWhatsApp, setSendingWhatsApp] = useState<string | null>(null);
   const [printingId, setPrintingId] = useState<string | null>(null);
   const [storeInfo, setStoreInfo] = useState<{ address: string; phone: string } | null>(null);
+  const [returnsByTransaction, setReturnsByTransaction] = useState<Record<string, number>>({});
+  // Returns whose stock hasn't made it back to Sheets yet, per sale
+  const [pendingReturnStock, setPendingReturnStock] = useState<Record<string, string[]>>({});
+  const [returnTarget, setReturnTarget] = useState<Transaction | null>(null);
+  const [voidTarget, setVoidTarget] = useState<Transaction | null>(null);
+  const [restockingId, setRestockingId] = useState<string | null>(null);
+  const [knownCashiers, setKnownCashiers] = useState<Record<string, string>>({});
+  const [exporting, setExporting] = useState(false);
 
   useEffect(() => {
     // Wait for auth to be determined (not null)
@@ -74,10 +180,23 @@ export default function Transactions() {
       navigate('/login');
       return;
     }
-    fetchTransactions();
     fetchStoreInfo();
   }, [isAuthenticated, navigate]);
 
+  const filters = useMemo(() => parseTransactionFilters(searchParams), [searchParams]);
+  const filterKey = searchParams.toString();
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    fetchTransactions();
+    fetchTotals();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isAuthenticated, filterKey]);
+
+  const handleFiltersChange = (next: TransactionFilters) => {
+    setSearchParams(toTransactionSearchParams(next), { replace: true });
+  };
+
   const fetchStoreInfo = async () => {
     try {
       const { data } = await supabase
@@ -98,13 +217,22 @@ export default function Transactions() {
     }
   };
 
-  const fetchTransactions = async () => {
-    setLoading(true);
-    const { data, error } = await supabase
-      .from('transactions')
-      .select('*')
+  // One page, newest first; after = the last row already shown (keyset on created_at, id)
+  const fetchTransactions = async (after?: Transaction) => {
+    const requestId = after ? requestIdRef.current : ++requestIdRef.current;
+    if (after) setLoadingMore(true);
+    else setLoading(true);
+
+    let query = supabase
+      .rpc('filter_transactions', toTransactionFilterArgs(filters))
       .order('created_at', { ascending: false })
-      .limit(100);
+      .order('id', { ascending: false })
+      .limit(PAGE_SIZE + 1);
+    if (after) {
+      query = query.or(`created_at.lt."${after.created_at}",and(created_at.eq."${after.created_at}",id.lt."${after.id}")`);
+    }
+    const { data, error } = await query;
+    if (requestId !== requestIdRef.current) return;
 
     if (error) {
       console.error('Error fetching transactions:', error);
@@ -114,9 +242,126 @@ export default function Transactions() {
         variant: 'destructive',
       });
     } else {
-      setTransactions(data as Transaction[]);
+      const rows = (data || []).slice(0, PAGE_SIZE) as Transaction[];
+      setHasMore((data || []).length > PAGE_SIZE);
+      setTransactions((prev) => (after ? [...prev, ...rows] : rows));
+      rememberCashiers(rows.map((t) => [t.cashier_id, t.cashier]));
+      await fetchReturns(rows.map((t) => t.id), !!after);
     }
     setLoading(false);
+    setLoadingMore(false);
+  };
+
+  // Sales, returns and net over every matching transaction, not just the loaded pages
+  const fetchTotals = async () => {
+    const requestId = requestIdRef.current;
+    const { data, error } = await supabase.rpc('transactions_summary', toTransactionFilterArgs(filters));
+    if (requestId !== requestIdRef.current) return;
+
+    if (error) {
+      console.error('Error fetching transaction totals:', error);
+      setTotals(null);
+      return;
+    }
+    const result = (data || {}) as Record<string, number>;
+    setTotals({
+      count: Number(result.count) || 0,
+      salesTotal: Number(result.sales_total) || 0,
+      returnsTotal: Number(result.returns_total) || 0,
+      roundingTotal: Number(result.rounding_total) || 0,
+    });
+  };
+
+  // Every transaction matching the filters, walked in keyset batches like "Muat lebih banyak"
+  const handleExport = async (layout: TransactionExportLayout, format: TransactionExportFormat) => {
+    setExporting(true);
+    try {
+      const rows: Transaction[] = [];
+      for (;;) {
+        const last = rows[rows.length - 1];
+        let query = supabase
+          .rpc('filter_transactions', toTransactionFilterArgs(filters))
+          .order('created_at', { ascending: false })
+          .order('id', { ascending: false })
+          .limit(EXPORT_BATCH_SIZE);
+        if (last) {
+          query = query.or(`created_at.lt."${last.created_at}",and(created_at.eq."${last.created_at}",id.lt."${last.id}")`);
+        }
+        const { data, error } = await query;
+        if (error) throw error;
+        rows.push(...((data || []) as Transaction[]));
+        if ((data || []).length < EXPORT_BATCH_SIZE) break;
+      }
+
+      if (rows.length === 0) {
+        toast({
+          title: 'Tidak ada data',
+          description: 'Tidak ada transaksi yang cocok dengan filter',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      const blob = buildTransactionExport(rows.map(convertToReceiptData), layout, format);
+      downloadBlob(blob, getTransactionExportFileName(layout, format));
+      toast({
+        title: 'Ekspor selesai',
+        description: `${rows.length.toLocaleString('id-ID')} transaksi diekspor`,
+      });
+    } catch (error) {
+      console.error('Export transactions error:', error);
+      toast({
+        title: 'Gagal mengekspor',
+        description: 'Coba lagi nanti',
+        variant: 'destructive',
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // Cashiers seen so far, for the filter; old sales without a cashier_id can't be filtered
+  const rememberCashiers = (entries: [string | null, string | null][]) => {
+    setKnownCashiers((prev) => {
+      const next = { ...prev };
+      for (const [id, name] of entries) {
+        if (id && !next[id]) next[id] = name || 'Kasir';
+      }
+      return next;
+    });
+  };
+
+  // Refunded amount per transaction, used to show net sales
+  const fetchReturns = async (transactionIds: string[], append = false) => {
+    if (transactionIds.length === 0) {
+      if (!append) {
+        setReturnsByTransaction({});
+        setPendingReturnStock({});
+      }
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('transaction_returns')
+      .select('id, transaction_id, total_refund, stock_restored')
+      .in('transaction_id', transactionIds);
+
+    if (error) {
+      console.error('Error fetching returns:', error);
+      return;
+    }
+
+    const refunds = (data || []).reduce((acc, r) => {
+      acc[r.transaction_id] = (acc[r.transaction_id] || 0) + Number(r.total_refund);
+      return acc;
+    }, {} as Record<string, number>);
+    setReturnsByTransaction((prev) => (append ? { ...prev, ...refunds } : refunds));
+
+    const pending = (data || []).filter((r) => !r.stock_restored).reduce((acc, r) => {
+      acc[r.transaction_id] = [...(acc[r.transaction_id] || []), r.id];
+      return acc;
+    }, {} as Record<string, string[]>);
+    setPendingReturnStock((prev) => (append ? { ...prev, ...pending } : pending));
   };
 
   const handleResendWhatsApp = async (transaction: Transaction) => {
@@ -243,14 +488,80 @@ export default function Transactions() {
     setPrintingId(null);
   };
 
-  const filteredTransactions = transactions.filter((t) => {
-    const searchLower = search.toLowerCase();
-    return (
-      t.id.toLowerCase().includes(searchLower) ||
-      t.customer_name?.toLowerCase().includes(searchLower) ||
-      t.customer_phone?.includes(search)
-    );
-  });
+  const handleReturnCompleted = (returnData: ReturnReceiptData, stockRestored: boolean) => {
+    setReturnsByTransaction((prev) => ({
+      ...prev,
+      [returnData.originalId]: (prev[returnData.originalId] || 0) + returnData.totalRefund,
+    }));
+    if (!stockRestored) {
+      setPendingReturnStock((prev) => ({
+        ...prev,
+        [returnData.originalId]: [...(prev[returnData.originalId] || []), returnData.id],
+      }));
+    }
+    fetchTotals();
+  };
+
+  const handleVoided = (transactionId: string, voidedAt: string, reason: string, stockRestored: boolean) => {
+    const update = (t: Transaction): Transaction => t.id === transactionId
+      ? { ...t, voided_at: voidedAt, void_reason: reason, void_stock_restored: stockRestored }
+      : t;
+    setTransactions((prev) => prev.map(update));
+    setSelectedTransaction((prev) => (prev ? update(prev) : prev));
+    fetchTotals();
+  };
+
+  // Retry the Sheets side of a void whose stock didn't make it back
+  const handleRetryVoidStock = async (t: Transaction) => {
+    setRestockingId(t.id);
+    const restocked = await voidSale(t.id);
+    setRestockingId(null);
+
+    if (restocked) {
+      broadcastProductsUpdated({ source: 'void' });
+
+      handleVoided(t.id, t.voided_at || new Date().toISOString(), t.void_reason || '', true);
+      toast({
+        title: 'Stok dikembalikan',
+        description: `Stok untuk ${t.id} sudah diperbarui`,
+      });
+    } else {
+      toast({
+        title: 'Gagal mengembalikan stok',
+        description: 'Coba lagi nanti',
+        variant: 'destructive',
+      });
+    }
+  };
+
+
+  // Retry the Sheets side of returns whose stock didn't make it back
+  const handleRetryReturnStock = async (t: Transaction) => {
+    const returnIds = pendingReturnStock[t.id] || [];
+    setRestockingId(t.id);
+    const failed: string[] = [];
+    for (const returnId of returnIds) {
+      if (!(await recordReturn(returnId))) failed.push(returnId);
+    }
+    setRestockingId(null);
+    setPendingReturnStock((prev) => ({ ...prev, [t.id]: failed }));
+
+    if (failed.length < returnIds.length) {
+      broadcastProductsUpdated({ source: 'return' });
+    }
+    if (failed.length === 0) {
+      toast({
+        title: 'Stok dikembalikan',
+        description: `Stok retur untuk ${t.id} sudah diperbarui`,
+      });
+    } else {
+      toast({
+        title: 'Gagal mengembalikan stok retur',
+        description: 'Coba lagi nanti',
+        variant: 'destructive',
+      });
+    }
+  };
 
   const convertToReceiptData = (t: Transaction): ReceiptData => {
     // Parse and validate items from JSON - ensure all fields have safe defaults
@@ -265,10 +576,15 @@ export default function Transactions() {
         purchasePrice: Number(item.product?.purchasePrice) || 0,
         stock: Number(item.product?.stock) || 0,
         category: item.product?.category || '',
+        ...(Array.isArray(item.product?.variants) ? { variants: item.product.variants } : {}),
+        ...(Array.isArray(item.product?.priceTiers) ? { priceTiers: item.product.priceTiers } : {}),
       },
       quantity: Number(item.quantity) || 1,
       priceType: item.priceType === 'bulk' ? 'bulk' : 'retail',
       discount: Number(item.discount) || 0,
+      ...(Number(item.promoDiscount) > 0 ? { promoDiscount: Number(item.promoDiscount) } : {}),
+      ...(item.variantCode ? { variantCode: item.variantCode } : {}),
+      ...(item.variantName ? { variantName: item.variantName } : {}),
     }));
     
     return {
@@ -279,10 +595,48 @@ export default function Transactions() {
       discount: t.discount,
       total: t.total,
       paymentMethod: t.payment_method,
+      payments: parsePayments(t.payments),
+      promotions: parsePromotions(t.promotions),
+      ...(t.voucher_code ? { voucher: { code: t.voucher_code, discount: Number(t.voucher_discount) || 0 } } : {}),
+      ...(t.loyalty_phone ? {
+        loyalty: {
+          phone: t.loyalty_phone,
+          pointsEarned: Number(t.points_earned) || 0,
+          pointsRedeemed: Number(t.points_redeemed) || 0,
+          pointsDiscount: Number(t.points_discount) || 0,
+          balance: t.points_balance ?? undefined,
+        },
+      } : {}),
+      ...(t.tax_mode && Number(t.tax_amount) > 0 ? {
+        tax: {
+          mode: t.tax_mode === 'exclusive' ? 'exclusive' : 'inclusive',
+          rate: Number(t.tax_rate),
+          base: Number(t.tax_base),
+          amount: Number(t.tax_amount),
+        },
+      } : {}),
+      ...(Number(t.service_charge) > 0 ? {
+        serviceCharge: { rate: Number(t.service_charge_rate), amount: Number(t.service_charge) },
+      } : {}),
+      ...(Number(t.cash_rounding) !== 0 ? { rounding: Number(t.cash_rounding) } : {}),
+      ...(t.credit_outstanding !== null ? {
+        credit: {
+          amount: parsePayments(t.payments)
+            .filter((p) => p.method === 'credit')
+            .reduce((sum, p) => sum + p.amount, 0),
+          dueDate: t.credit_due_date || undefined,
+          outstanding: Number(t.credit_outstanding),
+        },
+      } : {}),
       cashReceived: t.cash_received || undefined,
       change: t.change || undefined,
       customerPhone: t.customer_phone || undefined,
       customerName: t.customer_name || undefined,
+      ...(t.cashier_id && t.cashier ? { cashier: { id: t.cashier_id, name: t.cashier } } : {}),
+      ...(t.discount_reason ? {
+        manualDiscount: { reason: t.discount_reason, approvalId: t.discount_approval_id || undefined },
+      } : {}),
+      ...(t.voided_at ? { voidedAt: new Date(t.voided_at), voidReason: t.void_reason || undefined } : {}),
     };
   };
 
@@ -304,10 +658,40 @@ export default function Transactions() {
                 </div>
               </div>
             </div>
-            <Button variant="outline" size="sm" onClick={fetchTransactions}>
-              <RefreshCw className="w-4 h-4 mr-2" />
-              Refresh
-            </Button>
+            <div className="flex items-center gap-2">
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" disabled={exporting || !totals || totals.count === 0}>
+                    {exporting ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Download className="w-4 h-4 mr-2" />
+                    )}
+                    Ekspor
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel>Per transaksi</DropdownMenuLabel>
+                  <DropdownMenuItem onClick={() => handleExport('header', 'xlsx')}>Excel (.xlsx)</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport('header', 'csv')}>CSV</DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel>Per item</DropdownMenuLabel>
+                  <DropdownMenuItem onClick={() => handleExport('items', 'xlsx')}>Excel (.xlsx)</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport('items', 'csv')}>CSV</DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  fetchTransactions();
+                  fetchTotals();
+                }}
+              >
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Refresh
+              </Button>
+            </div>
           </div>
         </div>
       </header>
@@ -316,25 +700,54 @@ export default function Transactions() {
       <main className="container max-w-7xl mx-auto px-4 py-6">
         <Card>
           <CardHeader>
-            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
-              <CardTitle>Transaksi Terbaru</CardTitle>
-              <div className="relative w-full sm:w-64">
-                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                <Input
-                  placeholder="Cari ID, nama, atau telepon..."
-                  value={search}
-                  onChange={(e) => setSearch(e.target.value)}
-                  className="pl-9"
-                />
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <CardTitle>Transaksi</CardTitle>
+                {totals && (
+                  <span className="text-sm text-muted-foreground">{totals.count.toLocaleString('id-ID')} transaksi</span>
+                )}
               </div>
+              <TransactionFiltersBar
+                filters={filters}
+                cashiers={knownCashiers}
+                onChange={handleFiltersChange}
+              />
             </div>
           </CardHeader>
           <CardContent>
+            <CashierDailySummary
+              selectedCashierId={filters.cashier || null}
+              onSelectCashier={(id, name) => {
+                if (id && name) rememberCashiers([[id, name]]);
+                handleFiltersChange({ ...filters, cashier: id || '' });
+              }}
+            />
+            {!loading && totals && totals.count > 0 && (
+              <div className="grid grid-cols-3 gap-2 sm:gap-4 mb-4">
+                <div className="rounded-lg bg-secondary/50 p-3">
+                  <p className="text-xs text-muted-foreground">Penjualan</p>
+                  <p className="font-mono font-semibold text-sm sm:text-base">{formatRupiah(totals.salesTotal)}</p>
+                  {totals.roundingTotal !== 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Pembulatan {totals.roundingTotal < 0 ? '-' : '+'}{formatRupiah(Math.abs(totals.roundingTotal))}
+                    </p>
+                  )}
+                </div>
+                <div className="rounded-lg bg-destructive/10 p-3">
+                  <p className="text-xs text-muted-foreground">Retur</p>
+                  <p className="font-mono font-semibold text-sm sm:text-base text-destructive">-{formatRupiah(totals.returnsTotal)}</p>
+                </div>
+                <div className="rounded-lg bg-primary/10 p-3">
+                  <p className="text-xs text-muted-foreground">Bersih</p>
+                  <p className="font-mono font-semibold text-sm sm:text-base text-primary">{formatRupiah(totals.salesTotal - totals.returnsTotal)}</p>
+                </div>
+              </div>
+            )}
             {loading ? (
               <div className="flex items-center justify-center py-12">
                 <Loader2 className="w-8 h-8 animate-spin text-primary" />
               </div>
-            ) : filteredTransactions.length === 0 ? (
+            ) : transactions.length === 0 ? (
               <div className="text-center py-12 text-muted-foreground">
                 <p>Tidak ada transaksi ditemukan</p>
               </div>
@@ -348,16 +761,17 @@ export default function Transactions() {
                         <TableHead>ID Transaksi</TableHead>
                         <TableHead>Tanggal</TableHead>
                         <TableHead>Pelanggan</TableHead>
+                        <TableHead>Kasir</TableHead>
                         <TableHead className="text-right">Total</TableHead>
                         <TableHead>Pembayaran</TableHead>
                         <TableHead className="text-right">Aksi</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {filteredTransactions.map((t) => (
+                      {transactions.map((t) => (
                         <TableRow key={t.id}>
                           <TableCell className="font-mono text-xs">
-                            {t.id.slice(0, 20)}...
+                            {t.id}
                           </TableCell>
                           <TableCell>
                             <div className="text-sm">
@@ -368,13 +782,36 @@ export default function Transactions() {
                             </div>
                           </TableCell>
                           <TableCell>
-                            {t.customer_name || t.customer_phone || '-'}
+                            {t.customer_id ? (
+                              <button
+                                onClick={() => navigate(`/customers/${t.customer_id}`)}
+                                className="text-primary hover:underline text-left"
+                              >
+                                {t.customer_name || t.customer_phone || 'Pelanggan'}
+                              </button>
+                            ) : (
+                              t.customer_name || t.customer_phone || '-'
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {t.cashier || '-'}
                           </TableCell>
                           <TableCell className="text-right font-semibold">
-                            {formatRupiah(t.total)}
+                            <span className={t.voided_at ? 'line-through text-muted-foreground' : ''}>
+                              {formatRupiah(t.total)}
+                            </span>
+                            {t.voided_at && (
+                              <div className="text-xs font-semibold text-destructive">VOID</div>
+                            )}
+                            {returnsByTransaction[t.id] > 0 && (
+                              <div className="text-xs font-normal text-destructive">
+                                Retur -{formatRupiah(returnsByTransaction[t.id])}
+                                {pendingReturnStock[t.id]?.length > 0 && ' · stok belum kembali'}
+                              </div>
+                            )}
                           </TableCell>
                           <TableCell>
-                            <span className="capitalize">{t.payment_method}</span>
+                            <span className="capitalize">{formatPaymentMethod(t)}</span>
                           </TableCell>
                           <TableCell className="text-right">
                             <div className="flex items-center justify-end gap-1">
@@ -410,6 +847,45 @@ export default function Transactions() {
                               >
                                 <Copy className="w-4 h-4" />
                               </Button>
+                              {t.voided_at ? (
+                                !t.void_stock_restored && (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => handleRetryVoidStock(t)}
+                                    disabled={restockingId === t.id}
+                                    title="Kembalikan Stok"
+                                    className="text-destructive hover:text-destructive"
+                                  >
+                                    {restockingId === t.id ? (
+                                      <Loader2 className="w-4 h-4 animate-spin" />
+                                    ) : (
+                                      <RotateCcw className="w-4 h-4" />
+                                    )}
+                                  </Button>
+                                )
+                              ) : (
+                                <>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => setReturnTarget(t)}
+                                    title="Retur"
+                                    className="text-destructive hover:text-destructive"
+                                  >
+                                    <Undo2 className="w-4 h-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => setVoidTarget(t)}
+                                    title="Batalkan (Void)"
+                                    className="text-destructive hover:text-destructive"
+                                  >
+                                    <Ban className="w-4 h-4" />
+                                  </Button>
+                                </>
+                              )}
                               {t.customer_phone && (
                                 <Button
                                   variant="ghost"
@@ -436,18 +912,28 @@ export default function Transactions() {
 
                 {/* Mobile Card View */}
                 <div className="md:hidden space-y-3">
-                  {filteredTransactions.map((t) => (
+                  {transactions.map((t) => (
                     <div 
                       key={t.id} 
                       className="bg-muted/30 rounded-lg p-3 border border-border"
                     >
                       <div className="flex items-start justify-between gap-2 mb-2">
                         <div className="flex-1 min-w-0">
-                          <p className="font-semibold text-primary text-lg">
+                          <p className={`font-semibold text-lg ${t.voided_at ? 'line-through text-muted-foreground' : 'text-primary'}`}>
                             {formatRupiah(t.total)}
                           </p>
+                          {t.voided_at && (
+                            <p className="text-xs font-semibold text-destructive">VOID</p>
+                          )}
+                          {returnsByTransaction[t.id] > 0 && (
+                            <p className="text-xs text-destructive">
+                              Retur -{formatRupiah(returnsByTransaction[t.id])}
+                              {pendingReturnStock[t.id]?.length > 0 && ' · stok belum kembali'}
+                            </p>
+                          )}
                           <p className="text-xs text-muted-foreground truncate">
                             {t.customer_name || t.customer_phone || 'Pelanggan Umum'}
+                            {t.cashier && ` · Kasir ${t.cashier}`}
                           </p>
                         </div>
                         <div className="text-right text-xs text-muted-foreground">
@@ -458,7 +944,7 @@ export default function Transactions() {
                       
                       <div className="flex items-center justify-between pt-2 border-t border-border/50">
                         <span className="text-xs px-2 py-0.5 bg-secondary rounded-full capitalize">
-                          {t.payment_method}
+                          {formatPaymentMethod(t)}
                         </span>
                         <div className="flex items-center gap-1">
                           <Button
@@ -492,6 +978,42 @@ export default function Transactions() {
                           >
                             <Copy className="w-4 h-4" />
                           </Button>
+                          {t.voided_at ? (
+                            !t.void_stock_restored && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleRetryVoidStock(t)}
+                                disabled={restockingId === t.id}
+                                className="h-8 w-8 text-destructive hover:text-destructive"
+                              >
+                                {restockingId === t.id ? (
+                                  <Loader2 className="w-4 h-4 animate-spin" />
+                                ) : (
+                                  <RotateCcw className="w-4 h-4" />
+                                )}
+                              </Button>
+                            )
+                          ) : (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setReturnTarget(t)}
+                                className="h-8 w-8 text-destructive hover:text-destructive"
+                              >
+                                <Undo2 className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setVoidTarget(t)}
+                                className="h-8 w-8 text-destructive hover:text-destructive"
+                              >
+                                <Ban className="w-4 h-4" />
+                              </Button>
+                            </>
+                          )}
                           {t.customer_phone && (
                             <Button
                               variant="ghost"
@@ -512,6 +1034,18 @@ export default function Transactions() {
                     </div>
                   ))}
                 </div>
+
+                {hasMore && (
+                  <Button
+                    variant="outline"
+                    className="w-full mt-4"
+                    onClick={() => fetchTransactions(transactions[transactions.length - 1])}
+                    disabled={loadingMore}
+                  >
+                    {loadingMore && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Muat lebih banyak
+                  </Button>
+                )}
               </>
             )}
           </CardContent>
@@ -531,6 +1065,33 @@ export default function Transactions() {
                 storeInfo={storeInfo || undefined}
                 type="invoice"
               />
+              {selectedTransaction.discount_reason && (
+                <div className="rounded-lg bg-secondary/50 p-3 text-sm">
+                  <p>Alasan diskon: {selectedTransaction.discount_reason}</p>
+                  {selectedTransaction.discount_approval_id && (
+                    <p className="text-xs text-muted-foreground">Melebihi batas, disetujui dengan PIN admin</p>
+                  )}
+                </div>
+              )}
+              {pendingReturnStock[selectedTransaction.id]?.length > 0 && (
+                <div className="rounded-lg border border-destructive/40 bg-destructive/10 p-3 space-y-2">
+                  <p className="text-sm text-destructive">Stok barang retur belum kembali ke Google Sheets</p>
+                  <Button
+                    onClick={() => handleRetryReturnStock(selectedTransaction)}
+                    disabled={restockingId === selectedTransaction.id}
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                  >
+                    {restockingId === selectedTransaction.id ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                    )}
+                    Kembalikan Stok Retur
+                  </Button>
+                </div>
+              )}
               <div className="grid grid-cols-2 gap-2">
                 <Button
                   onClick={() => handlePrintInvoice(selectedTransaction)}
@@ -559,6 +1120,57 @@ export default function Transactions() {
                   Nota Gudang
                 </Button>
               </div>
+              {selectedTransaction.voided_at ? (
+                <div className="rounded-lg border border-destructive/40 bg-destructive/10 p-3 space-y-2">
+                  <p className="text-sm font-semibold text-destructive">
+                    Dibatalkan {new Date(selectedTransaction.voided_at).toLocaleString('id-ID')}
+                  </p>
+                  {selectedTransaction.void_reason && (
+                    <p className="text-sm text-muted-foreground">Alasan: {selectedTransaction.void_reason}</p>
+                  )}
+                  {!selectedTransaction.void_stock_restored && (
+                    <Button
+                      onClick={() => handleRetryVoidStock(selectedTransaction)}
+                      disabled={restockingId === selectedTransaction.id}
+                      variant="outline"
+                      size="sm"
+                      className="w-full"
+                    >
+                      {restockingId === selectedTransaction.id ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <RotateCcw className="w-4 h-4 mr-2" />
+                      )}
+                      Kembalikan Stok
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    onClick={() => {
+                      setDetailOpen(false);
+                      setReturnTarget(selectedTransaction);
+                    }}
+                    variant="outline"
+                    className="w-full text-destructive hover:text-destructive"
+                  >
+                    <Undo2 className="w-4 h-4 mr-2" />
+                    Retur Barang
+                  </Button>
+                  <Button
+                    onClick={() => {
+                      setDetailOpen(false);
+                      setVoidTarget(selectedTransaction);
+                    }}
+                    variant="outline"
+                    className="w-full text-destructive hover:text-destructive"
+                  >
+                    <Ban className="w-4 h-4 mr-2" />
+                    Batalkan
+                  </Button>
+                </div>
+              )}
               {selectedTransaction.customer_phone && (
                 <Button
                   onClick={() => handleResendWhatsApp(selectedTransaction)}
@@ -578,6 +1190,21 @@ export default function Transactions() {
         </DialogContent>
       </Dialog>
 
+      <ReturnDialog
+        open={!!returnTarget}
+        onClose={() => setReturnTarget(null)}
+        transaction={returnTarget}
+        storeInfo={storeInfo || undefined}
+        onCompleted={handleReturnCompleted}
+      />
+
+      <VoidDialog
+        open={!!voidTarget}
+        onClose={() => setVoidTarget(null)}
+        transaction={voidTarget}
+        onVoided={handleVoided}
+      />
+
       {/* Bluetooth Printer Button */}
       <BluetoothPrinterButton />
     </div>
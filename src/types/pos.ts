@@ -4,6 +4,13 @@ export interface ProductVariant {
   stock: number;       // Stock for this specific variant
   retailPrice?: number;  // Optional: variant-specific retail price (uses product price if not set)
   bulkPrice?: number;    // Optional: variant-specific bulk price (uses product price if not set)
+  barcode?: string;      // Optional: scanner barcode for this variant (Products sheet column L)
+}
+
+// Quantity price break: from minQty pieces on, each unit costs price
+export interface PriceTier {
+  minQty: number;
+  price: number;
 }
 
 export interface Product {
@@ -14,6 +21,9 @@ export interface Product {
   purchasePrice: number; // Harga Beli / Modal
   stock: number;         // Total stock (sum of variants if they exist, otherwise main stock)
   category: string;
+  barcode?: string;      // Optional: scanner barcode (Products sheet column L)
+  priceTiers?: PriceTier[];     // Optional: quantity price breaks, ascending by minQty (Products sheet column M)
+  taxExempt?: boolean;          // Optional: not subject to PPN (Products sheet column N)
   variants?: ProductVariant[];  // Optional for backward compatibility
 }
 
@@ -24,8 +34,99 @@ export interface CartItem {
   discount?: number; // Item-level discount in Rupiah
   variantCode?: string;  // Which variant was selected (if product has variants)
   variantName?: string;  // Display name of selected variant
+  promoDiscount?: number; // Automatic promotion discount for this line, stamped at checkout
+  unitPrice?: number;     // Price charged per unit (tier applied), stamped at checkout
+}
+
+export type PromotionType = 'buy_x_get_y' | 'bundle' | 'category_percent';
+
+export interface Promotion {
+  id: string;
+  name: string;
+  type: PromotionType;
+  productIds: string[];  // buy_x_get_y: eligible products (pooled); bundle: one unit of each
+  category?: string;     // category_percent
+  buyQty?: number;
+  freeQty?: number;
+  bundlePrice?: number;
+  percent?: number;
+  startsAt?: string;     // ISO timestamps bounding the promotion (optional)
+  endsAt?: string;
+  startTime?: string;    // Daily hours "HH:MM", local time (optional)
+  endTime?: string;
+  isActive: boolean;
+}
+
+export interface AppliedPromotion {
+  id: string;
+  name: string;
+  discount: number;
+}
+
+export interface AppliedVoucher {
+  code: string;
+  discount: number;
+}
+
+export type CustomerType = 'retail' | 'reseller';
+
+export interface Customer {
+  id: string;
+  name: string;
+  phone?: string;
+  address?: string;
+  notes?: string;
+  type: CustomerType;
+}
+
+export interface LoyaltyPoints {
+  phone: string;
+  pointsEarned: number;
+  pointsRedeemed: number;
+  pointsDiscount: number; // Rupiah taken off for the redeemed points
+  balance?: number;       // Balance after this sale (unknown when checked out offline)
+}
+
+export interface CreditInfo {
+  amount: number;        // Paid with the credit tender on this sale
+  dueDate?: string;      // YYYY-MM-DD
+  outstanding?: number;  // Customer's total debt after this sale (unknown when checked out offline)
+}
+
+// A discount typed in by staff (not a promotion, voucher or points)
+export interface ManualDiscount {
+  label: string;    // Product name, or "Diskon order"
+  amount: number;
+  percent: number;  // Of the line or order it was taken off
+}
+
+export interface ManualDiscountInfo {
+  reason: string;
+  approvalId?: string;  // discount_approvals row when an admin PIN approved going over the limit
+}
+
+// The signed-in user who made the sale
+export interface CashierInfo {
+  id: string;
+  name: string;         // Display name as printed on the receipt
 }
 
+export type TaxMode = 'inclusive' | 'exclusive'; // inclusive = prices already contain PPN
+
+export interface TaxInfo {
+  mode: TaxMode;
+  rate: number;    // Percent, e.g. 11
+  base: number;    // DPP: taxable amount excluding the tax
+  amount: number;  // PPN charged on this sale
+}
+
+export interface ServiceChargeInfo {
+  rate: number;    // Percent, e.g. 5
+  amount: number;  // Added to the bill after discounts, before PPN
+}
+
+export type CashRoundingMode = 'nearest' | 'up' | 'down';
+
 export interface BankInfo {
   bankName: string;
   accountNumber: string;
@@ -37,21 +138,120 @@ export interface StoreInfo {
   phone: string;
 }
 
+export type PaymentMethodCode = 'cash' | 'qris' | 'transfer' | 'credit'; // credit = hutang, paid later
+
+export interface PaymentEntry {
+  method: PaymentMethodCode;
+  amount: number;        // Amount tendered with this method (cash may exceed what's due - see change)
+  reference?: string;    // QRIS/transfer reference number
+}
+
 export interface ReceiptData {
   id: string;
   items: CartItem[];
   subtotal: number;
   discount: number;
   total: number;
-  paymentMethod: string;
+  paymentMethod: string; // 'cash' | 'qris' | 'transfer' | 'credit', or 'split' when payments has several tenders
+  payments?: PaymentEntry[]; // Per-tender breakdown (always set for new sales)
   cashReceived?: number;
   change?: number;
   timestamp: Date;
   customerPhone?: string;
   customerName?: string;
+  customerId?: string;             // Customer from the directory, when one was picked
   bankInfo?: BankInfo;
   storeInfo?: StoreInfo;
   printWorkerCopy?: boolean;
+  voidedAt?: Date; // Set when the sale was voided (reprints only)
+  voidReason?: string;
+  promotions?: AppliedPromotion[]; // Automatic promotions, itemised on the receipt
+  voucher?: AppliedVoucher;        // Redeemed voucher code, taken off after the order discount
+  loyalty?: LoyaltyPoints;         // Points earned/spent, for sales to a phone number in the points program
+  credit?: CreditInfo;             // Set when part of the sale was taken on credit (hutang)
+  tax?: TaxInfo;                   // PPN on this sale; absent when tax is switched off
+  serviceCharge?: ServiceChargeInfo; // Absent when the service charge is switched off
+  rounding?: number;               // Cash rounding adjustment already included in total (negative when rounded down)
+  manualDiscount?: ManualDiscountInfo; // Why staff discounted this sale, and who approved it
+  cashier?: CashierInfo;
+  shiftId?: string;                // Cashier's open shift when the sale was made
 }
 
 export type ReceiptDeliveryMethod = 'display' | 'barcode' | 'whatsapp' | 'bluetooth';
+
+export interface HeldCart {
+  id: string;
+  label: string;        // Customer name or note entered when parking
+  items: CartItem[];
+  heldAt: string;       // ISO timestamp (kept as string so it survives localStorage)
+}
+
+// A quick-key tile on the POS favorites grid
+export interface FavoriteItem {
+  id: string;
+  productId: string;
+  variantCode?: string; // Pinned variant; unset for products without variants
+  position: number;
+}
+
+export interface ReturnItem {
+  productId: string;
+  productName: string;
+  variantCode?: string;
+  variantName?: string;
+  priceType?: 'retail' | 'bulk';
+  quantity: number;
+  amount: number;       // Refund for this line (after item + order discounts)
+}
+
+export interface ReturnReceiptData {
+  id: string;           // RET-… id
+  originalId: string;   // Invoice number of the sale being returned
+  items: ReturnItem[];
+  totalRefund: number;
+  refundMethod: PaymentMethodCode;
+  reason?: string;
+  timestamp: Date;
+  customerName?: string;
+  customerPhone?: string;
+}
+
+// Notes/coins counted in the drawer when a shift is closed
+export interface CashDenominationCount {
+  value: number;        // Face value in Rupiah
+  count: number;
+}
+
+// Cash put into (e.g. extra small change) or taken out of (e.g. paying a supplier) the drawer
+export interface ShiftCashMovement {
+  id: string;
+  direction: 'in' | 'out';
+  amount: number;
+  note: string;
+  createdAt: Date;
+}
+
+export interface ShiftReportData {
+  id: string;
+  cashier?: string;
+  openedAt: Date;
+  closedAt?: Date;
+  openingFloat: number;
+  salesCount: number;
+  salesTotal: number;
+  voidCount: number;                   // Voids made during the shift, whichever shift the sale was in
+  payments: Record<string, number>;   // Tendered per payment method (cash before change)
+  cashSales: number;
+  changeGiven: number;
+  debtPayments: number;                // Hutang repaid in cash during the shift
+  cashIn: number;
+  cashOut: number;
+  cashRefunds: number;
+  voidRefunds: number;                 // Cash paid back on sales voided during the shift
+  expectedCash: number;
+  countedCash?: number;                // Set once the shift is closed
+  variance?: number;                   // counted - expected; negative = drawer short
+  denominations?: CashDenominationCount[];
+  movements: ShiftCashMovement[];
+  notes?: string;
+}
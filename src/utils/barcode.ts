@@ -0,0 +1,37 @@
+import { Product, ProductVariant } from '@/types/pos';
+
+export interface ScanMatch {
+  product: Product;
+  variant?: ProductVariant;
+}
+
+const normalize = (value: string | undefined) => (value || '').trim().toUpperCase();
+
+/**
+ * Resolve a scanned code to a product (and variant) by exact match.
+ * Order: variant barcode, product barcode, product ID, then variant code -
+ * variant codes like "MERAH" repeat across products, so those only count
+ * when exactly one product has them.
+ */
+export const findProductByCode = (products: Product[], rawCode: string): ScanMatch | null => {
+  const code = normalize(rawCode);
+  if (!code) return null;
+
+  for (const product of products) {
+    const variant = product.variants?.find((v) => normalize(v.barcode) === code);
+    if (variant) return { product, variant };
+  }
+
+  const byBarcode = products.find((p) => normalize(p.barcode) === code);
+  if (byBarcode) return { product: byBarcode };
+
+  const byId = products.find((p) => normalize(p.id) === code);
+  if (byId) return { product: byId };
+
+  const variantMatches: ScanMatch[] = [];
+  for (const product of products) {
+    const variant = product.variants?.find((v) => normalize(v.code) === code);
+    if (variant) variantMatches.push({ product, variant });
+  }
+  return variantMatches.length === 1 ? variantMatches[0] : null;
+};
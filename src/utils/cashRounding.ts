@@ -0,0 +1,29 @@
+import { CashRoundingMode } from '@/types/pos';
+
+export interface CashRoundingRule {
+  unit: number;            // Round to a multiple of this many Rupiah; 0 = off
+  mode: CashRoundingMode;
+}
+
+export const CASH_ROUNDING_UNITS = [100, 500, 1000];
+
+/** Rule from the cash_rounding_unit / cash_rounding_mode settings; unknown units switch rounding off. */
+export const parseCashRoundingRule = (unit: string | undefined, mode: string | undefined): CashRoundingRule => {
+  const value = parseInt(unit ?? '', 10);
+  return {
+    unit: CASH_ROUNDING_UNITS.includes(value) ? value : 0,
+    mode: mode === 'up' || mode === 'down' ? mode : 'nearest',
+  };
+};
+
+/** Adjustment that brings amount to the rule's unit (negative when rounding down). */
+export const getCashRoundingAdjustment = (amount: number, rule: CashRoundingRule): number => {
+  if (rule.unit <= 0 || amount <= 0) return 0;
+  const units = amount / rule.unit;
+  const rounded = rule.mode === 'up'
+    ? Math.ceil(units)
+    : rule.mode === 'down'
+      ? Math.floor(units)
+      : Math.round(units);
+  return rounded * rule.unit - amount;
+};
@@ -0,0 +1,38 @@
+import { CartItem, ManualDiscount } from '@/types/pos';
+import { getLinePricing } from '@/utils/pricing';
+
+/** Limit in percent from a discount_limit_<role> setting, or null for no limit. */
+export const parseDiscountLimit = (value: string | undefined): number | null => {
+  const limit = parseFloat(String(value ?? '').replace(',', '.'));
+  return Number.isFinite(limit) && limit >= 0 && limit < 100 ? limit : null;
+};
+
+/** Manual item discounts and the order discount, each as a share of what it was taken off. */
+export const getManualDiscounts = (items: CartItem[], subtotal: number, orderDiscount: number): ManualDiscount[] => {
+  const discounts: ManualDiscount[] = [];
+
+  for (const item of items) {
+    const amount = item.discount || 0;
+    const lineTotal = getLinePricing(item).unitPrice * item.quantity;
+    if (amount <= 0 || lineTotal <= 0) continue;
+    discounts.push({
+      label: item.variantName ? `${item.product.name} [${item.variantName}]` : item.product.name,
+      amount,
+      percent: Math.round((amount / lineTotal) * 10000) / 100,
+    });
+  }
+
+  if (orderDiscount > 0 && subtotal > 0) {
+    discounts.push({
+      label: 'Diskon order',
+      amount: orderDiscount,
+      percent: Math.round((orderDiscount / subtotal) * 10000) / 100,
+    });
+  }
+
+  return discounts;
+};
+
+/** The deepest discount, which is what the limit is checked against. */
+export const getMaxDiscountPercent = (discounts: ManualDiscount[]): number =>
+  discounts.reduce((max, d) => Math.max(max, d.percent), 0);
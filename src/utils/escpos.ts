@@ -1,5 +1,5 @@
-import { ReceiptData } from '@/types/pos';
-import { buildInvoiceLines, buildWorkerCopyLines, LINE_WIDTH, LINE_WIDTH_DOUBLE } from './receiptLayout';
+import { ReceiptData, ReturnReceiptData, ShiftReportData } from '@/types/pos';
+import { buildInvoiceLines, buildWorkerCopyLines, buildReturnLines, buildShiftReportLines, LINE_WIDTH, LINE_WIDTH_DOUBLE } from './receiptLayout';
 
 // ESC/POS Commands for thermal printers
 const ESC = 0x1B;
@@ -119,6 +119,40 @@ export const buildWorkerCopyBytes = (receipt: ReceiptData): Uint8Array => {
   return new Uint8Array(bytes);
 };
 
+export const buildReturnReceiptBytes = (returnData: ReturnReceiptData, storeInfo?: { name?: string; address: string; phone: string }): Uint8Array => {
+  const bytes: number[] = [];
+
+  bytes.push(...INIT);
+  bytes.push(...SET_CODEPAGE);
+
+  const lines = buildReturnLines(returnData, storeInfo);
+  for (const line of lines) {
+    processLine(line, bytes);
+  }
+
+  bytes.push(LF);
+  bytes.push(...CUT_PAPER);
+
+  return new Uint8Array(bytes);
+};
+
+export const buildShiftReportBytes = (report: ShiftReportData, storeInfo?: { name?: string; address: string; phone: string }): Uint8Array => {
+  const bytes: number[] = [];
+
+  bytes.push(...INIT);
+  bytes.push(...SET_CODEPAGE);
+
+  const lines = buildShiftReportLines(report, storeInfo);
+  for (const line of lines) {
+    processLine(line, bytes);
+  }
+
+  bytes.push(LF);
+  bytes.push(...CUT_PAPER);
+
+  return new Uint8Array(bytes);
+};
+
 // Check if Web Bluetooth is supported
 export const isBluetoothSupported = (): boolean => {
   return 'bluetooth' in navigator;
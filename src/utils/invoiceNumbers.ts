@@ -0,0 +1,198 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Sequential invoice numbers, e.g. INV-K01-000123.
+ *
+ * Each terminal (browser) has its own series in the database. Numbers are reserved in
+ * blocks with reserve_invoice_numbers and kept in localStorage, so checkout never waits
+ * on the network and keeps working offline until the block runs out. Numbers are handed
+ * out strictly in order. A number taken for a checkout that was cancelled goes to the next
+ * sale if nothing later was handed out meanwhile; otherwise it is voided on the server
+ * (void_invoice_number, which also gives back a voucher or points redeemed against it),
+ * so every reserved number ends up either on a sale or voided with a reason.
+ */
+
+const STORAGE_KEY = 'pos:invoice_numbers';
+const LOCK_NAME = 'pos:invoice_numbers';
+const BLOCK_SIZE = 50;
+const REFILL_BELOW = 15;   // Top up while online before the block gets this low
+const NUMBER_DIGITS = 6;
+
+interface InvoiceNumberBlock {
+  prefix: string;
+  next: number;   // Next number to hand out
+  last: number;   // Last number of the block, inclusive
+}
+
+interface PendingVoid {
+  id: string;
+  reason: string;
+}
+
+interface InvoiceNumberState {
+  terminalCode: string | null;
+  blocks: InvoiceNumberBlock[];
+  lastTaken: string | null;   // Highest number handed out so far
+  held: string | null;        // lastTaken, handed back by a cancelled checkout; goes out next
+  voids: PendingVoid[];       // Waiting to be voided on the server
+}
+
+// Permanent answers from void_invoice_number; anything else is retried
+const FINAL_VOID_ERRORS = ['used', 'not_reserved'];
+
+const formatInvoiceNumber = (prefix: string, terminalCode: string, n: number) =>
+  `${prefix}-${terminalCode}-${String(n).padStart(NUMBER_DIGITS, '0')}`;
+
+const loadState = (): InvoiceNumberState => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw) as Partial<InvoiceNumberState>;
+      return {
+        terminalCode: parsed.terminalCode || null,
+        blocks: Array.isArray(parsed.blocks) ? parsed.blocks : [],
+        lastTaken: parsed.lastTaken || null,
+        held: parsed.held || null,
+        voids: Array.isArray(parsed.voids) ? parsed.voids : [],
+      };
+    }
+  } catch {
+    // Corrupt entry - start over, the database hands out a fresh terminal code
+  }
+  return { terminalCode: null, blocks: [], lastTaken: null, held: null, voids: [] };
+};
+
+const saveState = (state: InvoiceNumberState) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+};
+
+const remaining = (state: InvoiceNumberState) =>
+  (state.held ? 1 : 0) + state.blocks.reduce((sum, b) => sum + Math.max(0, b.last - b.next + 1), 0);
+
+// Other tabs of the POS share the same numbers; take them one at a time
+const withLock = <T>(fn: () => Promise<T>): Promise<T> => {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return navigator.locks.request(LOCK_NAME, fn);
+  }
+  return fn();
+};
+
+const reserveBlock = async (state: InvoiceNumberState): Promise<InvoiceNumberState> => {
+  const { data, error } = await supabase.rpc('reserve_invoice_numbers', {
+    _terminal_code: state.terminalCode || '',
+    _count: BLOCK_SIZE,
+  });
+  if (error) throw new Error(error.message);
+
+  const result = (data || {}) as {
+    error?: string;
+    terminal_code?: string;
+    prefix?: string;
+    first_number?: number;
+    last_number?: number;
+  };
+  if (result.error || !result.terminal_code || !result.prefix || !result.first_number || !result.last_number) {
+    throw new Error(result.error || 'invalid_response');
+  }
+
+  // A different code means the database didn't know this terminal; start its series afresh
+  const sameTerminal = result.terminal_code === state.terminalCode;
+  return {
+    terminalCode: result.terminal_code,
+    blocks: [
+      ...(sameTerminal ? state.blocks : []),
+      { prefix: result.prefix, next: Number(result.first_number), last: Number(result.last_number) },
+    ],
+    lastTaken: sameTerminal ? state.lastTaken : null,
+    held: sameTerminal ? state.held : null,
+    voids: state.voids,
+  };
+};
+
+// Void the numbers of cancelled checkouts on the server; what fails stays queued
+const flushVoids = async (state: InvoiceNumberState): Promise<InvoiceNumberState> => {
+  const left: PendingVoid[] = [];
+  for (const pending of state.voids) {
+    const { data, error } = await supabase.rpc('void_invoice_number', {
+      _invoice_id: pending.id,
+      _reason: pending.reason,
+    });
+    const result = (data || {}) as { error?: string };
+    if (error || (result.error && !FINAL_VOID_ERRORS.includes(result.error))) {
+      console.error('[invoiceNumbers] Failed to void invoice number:', pending.id, error || result.error);
+      left.push(pending);
+    }
+  }
+  return { ...state, voids: left };
+};
+
+/** Top up the local block and send queued voids while online. Safe to call often. */
+export const ensureInvoiceNumbers = (): Promise<number> =>
+  withLock(async () => {
+    let state = loadState();
+    if (!navigator.onLine) return remaining(state);
+    if (state.voids.length > 0) {
+      state = await flushVoids(state);
+      saveState(state);
+    }
+    if (remaining(state) >= REFILL_BELOW) return remaining(state);
+    try {
+      state = await reserveBlock(state);
+      saveState(state);
+    } catch (err) {
+      console.error('[invoiceNumbers] Failed to reserve invoice numbers:', err);
+    }
+    return remaining(state);
+  });
+
+/** The next invoice number of this terminal. Throws when none are left and none can be reserved. */
+export const takeInvoiceNumber = async (): Promise<string> => {
+  const id = await withLock(async () => {
+    let state = loadState();
+    if (remaining(state) === 0) {
+      try {
+        state = await reserveBlock(state);
+      } catch (err) {
+        console.error('[invoiceNumbers] Failed to reserve invoice numbers:', err);
+        throw new Error('Nomor invoice habis. Sambungkan internet untuk mengambil nomor baru.');
+      }
+    }
+
+    let taken: string;
+    if (state.held) {
+      taken = state.held;
+      state.held = null;
+    } else {
+      const block = state.blocks[0];
+      taken = formatInvoiceNumber(block.prefix, state.terminalCode as string, block.next);
+      block.next += 1;
+      if (block.next > block.last) state.blocks = state.blocks.slice(1);
+    }
+    state.lastTaken = taken;
+    saveState(state);
+    return taken;
+  });
+
+  void ensureInvoiceNumbers();
+  return id;
+};
+
+/**
+ * Hand back a number whose sale was never recorded. The next sale gets it when it is still
+ * the latest number and nothing was redeemed against it; otherwise it is voided.
+ */
+export const releaseInvoiceNumber = async (id: string, { redeemed = false } = {}): Promise<void> => {
+  await withLock(async () => {
+    const state = loadState();
+    if (state.held === id || state.voids.some((v) => v.id === id)) return;
+    if (!redeemed && !state.held && state.lastTaken === id) {
+      state.held = id;
+    } else {
+      const reason = redeemed ? 'Checkout dibatalkan setelah voucher/poin dipakai' : 'Checkout dibatalkan';
+      state.voids = [...state.voids, { id, reason }];
+    }
+    saveState(state);
+  });
+
+  void ensureInvoiceNumbers();
+};
@@ -0,0 +1,54 @@
+import { CartItem, PriceTier } from '@/types/pos';
+
+export interface LinePricing {
+  basePrice: number;   // Retail/bulk price for the line (variant price when set)
+  unitPrice: number;   // Price actually charged per unit after quantity tiers
+  tier?: PriceTier;    // Tier that lowered the price, if any
+}
+
+type PricedItem = Pick<CartItem, 'product' | 'quantity' | 'priceType' | 'variantCode'>;
+
+/** Retail or bulk price for a cart line, preferring the variant's own price. */
+export const getBasePrice = (item: Pick<CartItem, 'product' | 'priceType' | 'variantCode'>): number => {
+  const variant = item.variantCode
+    ? item.product.variants?.find((v) => v.code === item.variantCode)
+    : undefined;
+  const price = item.priceType === 'retail'
+    ? variant?.retailPrice ?? item.product.retailPrice
+    : variant?.bulkPrice ?? item.product.bulkPrice;
+  return Number(price) || 0;
+};
+
+/** Highest tier whose minimum quantity is reached, or undefined below the first break. */
+export const getActiveTier = (tiers: PriceTier[] | undefined, quantity: number): PriceTier | undefined => {
+  let active: PriceTier | undefined;
+  for (const tier of tiers || []) {
+    if (quantity >= tier.minQty && (!active || tier.minQty > active.minQty)) {
+      active = tier;
+    }
+  }
+  return active;
+};
+
+/**
+ * Unit price for a line at its current quantity. Tiers only ever lower the
+ * price, so a bulk (grosir) price that is already cheaper still wins.
+ */
+export const getLinePricing = (item: PricedItem): LinePricing => {
+  const basePrice = getBasePrice(item);
+  const tier = getActiveTier(item.product.priceTiers, item.quantity);
+  if (tier && tier.price < basePrice) {
+    return { basePrice, unitPrice: tier.price, tier };
+  }
+  return { basePrice, unitPrice: basePrice };
+};
+
+/** Unit price charged on a recorded sale line; sales from before it was stamped work it out again. */
+export const getChargedUnitPrice = (item: PricedItem & Pick<CartItem, 'unitPrice'>): number =>
+  item.unitPrice ?? getLinePricing(item).unitPrice;
+
+/** Line total after tier pricing and the line's own discount (never negative). */
+export const getLineTotal = (item: PricedItem & Pick<CartItem, 'discount'>): number => {
+  const { unitPrice } = getLinePricing(item);
+  return Math.max(0, unitPrice * item.quantity - (item.discount || 0));
+};
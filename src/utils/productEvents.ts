@@ -0,0 +1,13 @@
+// Same-tab (custom event) + cross-tab (storage event) notice that product data or stock changed
+export const PRODUCTS_UPDATED_EVENT = 'pos:products_updated';
+
+/** Tell the POS/Inventory, in this tab and others, to reload products. */
+export const broadcastProductsUpdated = (detail: Record<string, unknown>) => {
+  const message = { ...detail, ts: Date.now() };
+  try {
+    localStorage.setItem(PRODUCTS_UPDATED_EVENT, JSON.stringify(message));
+  } catch {
+    // Ignore storage errors
+  }
+  window.dispatchEvent(new CustomEvent(PRODUCTS_UPDATED_EVENT, { detail: message }));
+};
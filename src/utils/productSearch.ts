@@ -0,0 +1,236 @@
+import { Product } from '@/types/pos';
+
+/**
+ * Product search for the POS grid and command palette.
+ *
+ * The index is built once per product list: every token of a product's name, category,
+ * ID and variants goes into one vocabulary. A query then only scans the vocabulary
+ * (a few thousand words) instead of every product, so typing stays responsive on
+ * slow tablets. Each query word must match some token of a product, exactly, as a
+ * prefix, inside a word or within a small edit distance; results are ranked by how
+ * well they matched.
+ */
+
+// How much a token counts depending on where it came from
+const FIELD_WEIGHT = {
+  name: 1,
+  variant: 0.8,
+  id: 0.7,
+  category: 0.5,
+} as const;
+
+type Field = keyof typeof FIELD_WEIGHT;
+
+// Per query word; a product's score is the sum over the words
+const MATCH_SCORE = {
+  exact: 100,
+  prefix: 60,
+  typo1: 35,
+  infix: 30,
+  typo2: 20,
+};
+
+const SYNONYM_FACTOR = 0.9;
+const EXACT_ID_BONUS = 1000;
+const ID_PREFIX_BONUS = 200;
+const NAME_PREFIX_BONUS = 50;
+const WORD_CACHE_SIZE = 200;
+
+export interface ProductSearchIndex {
+  products: Product[];
+  ids: string[];                                  // Normalized product IDs, by product index
+  barcodes: Set<string>[];                        // Product and variant barcodes, by product index
+  names: string[];                                // Normalized names, by product index
+  vocabulary: Map<string, Map<number, number>>;   // token -> product index -> field weight
+  synonyms: Map<string, string[]>;                // word -> other words of its group
+  wordCache: Map<string, Map<number, number>>;    // Query word -> scores, reused while typing
+}
+
+/** Lower case, accents dropped, anything but letters and digits turned into spaces. */
+export const normalizeSearchText = (value: string): string =>
+  value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const tokenize = (value: string | undefined): string[] => {
+  if (!value) return [];
+  const normalized = normalizeSearchText(value);
+  return normalized ? normalized.split(' ') : [];
+};
+
+/**
+ * Synonym groups from the search_synonyms setting: one group per line, words separated
+ * by commas or "=", e.g. "bohlam = lampu". Every word of a group finds the others.
+ */
+export const parseSearchSynonyms = (value: string | undefined): Map<string, string[]> => {
+  const synonyms = new Map<string, string[]>();
+  for (const line of (value || '').split('\n')) {
+    const words = [...new Set(line.split(/[,=]/).map(normalizeSearchText).filter((w) => w && !w.includes(' ')))];
+    if (words.length < 2) continue;
+    for (const word of words) {
+      const others = words.filter((w) => w !== word);
+      synonyms.set(word, [...new Set([...(synonyms.get(word) || []), ...others])]);
+    }
+  }
+  return synonyms;
+};
+
+export const buildProductSearchIndex = (products: Product[], synonyms: Map<string, string[]> = new Map()): ProductSearchIndex => {
+  const vocabulary = new Map<string, Map<number, number>>();
+
+  const add = (token: string, index: number, field: Field) => {
+    let postings = vocabulary.get(token);
+    if (!postings) {
+      postings = new Map();
+      vocabulary.set(token, postings);
+    }
+    const weight = FIELD_WEIGHT[field];
+    if ((postings.get(index) ?? 0) < weight) postings.set(index, weight);
+  };
+
+  const barcodes = products.map((product, index) => {
+    tokenize(product.name).forEach((t) => add(t, index, 'name'));
+    tokenize(product.category).forEach((t) => add(t, index, 'category'));
+    tokenize(product.id).forEach((t) => add(t, index, 'id'));
+
+    const codes = new Set<string>();
+    if (product.barcode?.trim()) codes.add(product.barcode.trim().toLowerCase());
+    for (const variant of product.variants || []) {
+      tokenize(variant?.name).forEach((t) => add(t, index, 'variant'));
+      tokenize(variant?.code).forEach((t) => add(t, index, 'variant'));
+      if (variant?.barcode?.trim()) codes.add(variant.barcode.trim().toLowerCase());
+    }
+    return codes;
+  });
+
+  return {
+    products,
+    ids: products.map((p) => normalizeSearchText(p.id)),
+    barcodes,
+    names: products.map((p) => normalizeSearchText(p.name)),
+    vocabulary,
+    synonyms,
+    wordCache: new Map(),
+  };
+};
+
+// Scratch rows for boundedDistance, grown as needed instead of allocated per call
+let previousRow = new Uint8Array(64);
+let currentRow = new Uint8Array(64);
+
+/** Levenshtein distance, or max + 1 as soon as it is known to exceed max. */
+const boundedDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  if (b.length >= previousRow.length) {
+    previousRow = new Uint8Array(b.length + 1);
+    currentRow = new Uint8Array(b.length + 1);
+  }
+
+  for (let j = 0; j <= b.length; j++) previousRow[j] = Math.min(j, 255);
+  for (let i = 1; i <= a.length; i++) {
+    currentRow[0] = Math.min(i, 255);
+    let rowMin = currentRow[0];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a.charCodeAt(i - 1) === b.charCodeAt(j - 1) ? 0 : 1;
+      currentRow[j] = Math.min(previousRow[j] + 1, currentRow[j - 1] + 1, previousRow[j - 1] + cost);
+      if (currentRow[j] < rowMin) rowMin = currentRow[j];
+    }
+    if (rowMin > max) return max + 1;
+    [previousRow, currentRow] = [currentRow, previousRow];
+  }
+  return previousRow[b.length];
+};
+
+// Short words and anything with digits ("5w", "12mm") must be typed exactly
+const allowedTypos = (word: string) => {
+  if (/\d/.test(word) || word.length < 4) return 0;
+  return word.length < 8 ? 1 : 2;
+};
+
+/** How well a query word matches a vocabulary token, 0 for no match. */
+const matchScore = (word: string, token: string): number => {
+  if (token === word) return MATCH_SCORE.exact;
+  if (token.startsWith(word)) return MATCH_SCORE.prefix;
+
+  const typos = allowedTypos(word);
+  if (typos > 0) {
+    // Compare with the token cut to the word's length too, so a typo in a half-typed word still matches
+    const distance = Math.min(
+      boundedDistance(word, token, typos),
+      token.length > word.length ? boundedDistance(word, token.slice(0, word.length), typos) : typos + 1,
+    );
+    if (distance === 1) return MATCH_SCORE.typo1;
+    if (distance === 2 && typos >= 2) return MATCH_SCORE.typo2;
+  }
+
+  if (word.length >= 3 && token.includes(word)) return MATCH_SCORE.infix;
+  return 0;
+};
+
+/** Best score per product index for one query word, synonyms included. */
+const scoreWord = (index: ProductSearchIndex, word: string): Map<number, number> => {
+  const cached = index.wordCache.get(word);
+  if (cached) return cached;
+
+  const scores = new Map<number, number>();
+  const variants: [string, number][] = [
+    [word, 1],
+    ...(index.synonyms.get(word) || []).map((s): [string, number] => [s, SYNONYM_FACTOR]),
+  ];
+
+  for (const [token, postings] of index.vocabulary) {
+    let best = 0;
+    for (const [term, factor] of variants) {
+      best = Math.max(best, matchScore(term, token) * factor);
+    }
+    if (best === 0) continue;
+    for (const [productIndex, weight] of postings) {
+      const score = best * weight;
+      if (score > (scores.get(productIndex) ?? 0)) scores.set(productIndex, score);
+    }
+  }
+
+  if (index.wordCache.size >= WORD_CACHE_SIZE) index.wordCache.clear();
+  index.wordCache.set(word, scores);
+  return scores;
+};
+
+/** Products matching every word of the query, best first; all products for an empty query. */
+export const searchProducts = (index: ProductSearchIndex, query: string): Product[] => {
+  const words = [...new Set(tokenize(query))];
+  if (words.length === 0) return index.products;
+
+  const normalizedQuery = normalizeSearchText(query);
+  const rawQuery = query.trim().toLowerCase();
+
+  let totals = new Map<number, number>();
+  words.forEach((word, i) => {
+    if (i > 0 && totals.size === 0) return;
+    const next = new Map<number, number>();
+    for (const [productIndex, score] of scoreWord(index, word)) {
+      if (i > 0 && !totals.has(productIndex)) continue;
+      next.set(productIndex, (totals.get(productIndex) ?? 0) + score);
+    }
+    totals = next;
+  });
+
+  // A scanned or typed exact ID/barcode always comes first, even if its words didn't match
+  index.products.forEach((_, productIndex) => {
+    if (index.ids[productIndex] === normalizedQuery || index.barcodes[productIndex].has(rawQuery)) {
+      totals.set(productIndex, (totals.get(productIndex) ?? 0) + EXACT_ID_BONUS);
+    }
+  });
+
+  const ranked = [...totals].map(([productIndex, score]) => {
+    let total = score;
+    if (words.length === 1 && index.ids[productIndex].startsWith(normalizedQuery)) total += ID_PREFIX_BONUS;
+    if (index.names[productIndex].startsWith(normalizedQuery)) total += NAME_PREFIX_BONUS;
+    return { productIndex, total };
+  });
+
+  ranked.sort((a, b) => b.total - a.total || a.productIndex - b.productIndex);
+  return ranked.map((r) => index.products[r.productIndex]);
+};
@@ -0,0 +1,182 @@
+import { AppliedPromotion, CartItem, Promotion } from '@/types/pos';
+import { getLinePricing, getLineTotal } from '@/utils/pricing';
+
+export interface PromotionResult {
+  applied: AppliedPromotion[];                 // Per promotion, in evaluation order
+  lines: Record<string, AppliedPromotion[]>;   // Per cart line (see getCartLineKey)
+  total: number;
+}
+
+export const EMPTY_PROMOTION_RESULT: PromotionResult = { applied: [], lines: {}, total: 0 };
+
+// Same key the cart panels use for a line
+export const getCartLineKey = (item: Pick<CartItem, 'product' | 'priceType' | 'variantCode'>) =>
+  `${item.product.id}-${item.priceType}${item.variantCode ? `-${item.variantCode}` : ''}`;
+
+const timeToMinutes = (value: string) => {
+  const [hours, minutes] = value.split(':').map((part) => parseInt(part, 10) || 0);
+  return hours * 60 + minutes;
+};
+
+/** Whether a promotion runs at `now`: active flag, date window and daily hours (overnight ranges allowed). */
+export const isPromotionActive = (promotion: Promotion, now: Date = new Date()): boolean => {
+  if (!promotion.isActive) return false;
+  if (promotion.startsAt && now < new Date(promotion.startsAt)) return false;
+  if (promotion.endsAt && now > new Date(promotion.endsAt)) return false;
+
+  if (promotion.startTime && promotion.endTime) {
+    const current = now.getHours() * 60 + now.getMinutes();
+    const start = timeToMinutes(promotion.startTime);
+    const end = timeToMinutes(promotion.endTime);
+    const inHours = start <= end
+      ? current >= start && current < end
+      : current >= start || current < end;
+    if (!inHours) return false;
+  }
+
+  return true;
+};
+
+interface PromoLine {
+  key: string;
+  item: CartItem;
+  unitPrice: number;
+  remaining: number;  // Units not yet used by a bundle or buy-X-get-Y
+  cap: number;        // Line total after manual discount; promotions never go below zero
+  discount: number;
+}
+
+// Bundles first, then buy-X-get-Y, then category percentages: a unit counts towards one
+// promotion only, so nothing stacks on an already discounted unit.
+const TYPE_ORDER: Record<Promotion['type'], number> = {
+  bundle: 0,
+  buy_x_get_y: 1,
+  category_percent: 2,
+};
+
+/** Take up to `quantity` units from the lines in the given order. */
+const takeUnits = (lines: PromoLine[], quantity: number) => {
+  const taken: { line: PromoLine; quantity: number }[] = [];
+  let left = quantity;
+  for (const line of lines) {
+    if (left <= 0) break;
+    const qty = Math.min(line.remaining, left);
+    if (qty > 0) {
+      taken.push({ line, quantity: qty });
+      left -= qty;
+    }
+  }
+  return taken;
+};
+
+/**
+ * Evaluate active promotions against the cart. Discounts are computed on the
+ * tier-adjusted unit price and split over the lines they came from so the
+ * cart can show them per line and returns can refund what was paid.
+ */
+export const evaluatePromotions = (
+  items: CartItem[],
+  promotions: Promotion[],
+  now: Date = new Date()
+): PromotionResult => {
+  const active = promotions
+    .filter((p) => isPromotionActive(p, now))
+    .sort((a, b) => TYPE_ORDER[a.type] - TYPE_ORDER[b.type]);
+  if (active.length === 0 || items.length === 0) return EMPTY_PROMOTION_RESULT;
+
+  const lines: PromoLine[] = items.map((item) => ({
+    key: getCartLineKey(item),
+    item,
+    unitPrice: getLinePricing(item).unitPrice,
+    remaining: item.quantity,
+    cap: getLineTotal(item),
+    discount: 0,
+  }));
+
+  const result: PromotionResult = { applied: [], lines: {}, total: 0 };
+
+  const applyToLine = (promotion: Promotion, line: PromoLine, amount: number) => {
+    const value = Math.min(Math.round(amount), line.cap - line.discount);
+    if (value <= 0) return 0;
+    line.discount += value;
+    result.lines[line.key] = [
+      ...(result.lines[line.key] || []),
+      { id: promotion.id, name: promotion.name, discount: value },
+    ];
+    return value;
+  };
+
+  // Spread a promotion discount over the units it used, proportional to their value
+  const allocate = (promotion: Promotion, used: { line: PromoLine; quantity: number }[], discount: number) => {
+    const base = used.reduce((sum, u) => sum + u.line.unitPrice * u.quantity, 0);
+    let left = discount;
+    let applied = 0;
+    used.forEach((u, index) => {
+      const share = index === used.length - 1
+        ? left
+        : base > 0 ? Math.round((discount * u.line.unitPrice * u.quantity) / base) : 0;
+      left -= share;
+      applied += applyToLine(promotion, u.line, share);
+    });
+    return applied;
+  };
+
+  for (const promotion of active) {
+    let discount = 0;
+
+    if (promotion.type === 'bundle' && promotion.bundlePrice !== undefined) {
+      const componentIds = Array.from(new Set(promotion.productIds));
+      const candidates = componentIds.map((id) => lines.filter((l) => l.item.product.id === id && l.remaining > 0));
+      const bundles = Math.min(...candidates.map((c) => c.reduce((sum, l) => sum + l.remaining, 0)));
+      if (componentIds.length < 2 || bundles <= 0) continue;
+
+      const used = candidates.flatMap((c) => takeUnits(c, bundles));
+      const normalPrice = used.reduce((sum, u) => sum + u.line.unitPrice * u.quantity, 0);
+      const bundleDiscount = normalPrice - bundles * promotion.bundlePrice;
+      if (bundleDiscount <= 0) continue;
+
+      used.forEach((u) => { u.line.remaining -= u.quantity; });
+      discount = allocate(promotion, used, bundleDiscount);
+    }
+
+    if (promotion.type === 'buy_x_get_y' && promotion.buyQty && promotion.freeQty) {
+      const eligible = lines.filter((l) => promotion.productIds.includes(l.item.product.id) && l.remaining > 0);
+      const units = eligible.reduce((sum, l) => sum + l.remaining, 0);
+      const groups = Math.floor(units / (promotion.buyQty + promotion.freeQty));
+      if (groups <= 0) continue;
+
+      // The cheapest units are the free ones; the paid units of each group are used up too
+      const cheapestFirst = [...eligible].sort((a, b) => a.unitPrice - b.unitPrice);
+      const free = takeUnits(cheapestFirst, groups * promotion.freeQty);
+      free.forEach((u) => {
+        u.line.remaining -= u.quantity;
+        discount += applyToLine(promotion, u.line, u.line.unitPrice * u.quantity);
+      });
+      const paid = takeUnits([...cheapestFirst].reverse(), groups * promotion.buyQty);
+      paid.forEach((u) => { u.line.remaining -= u.quantity; });
+    }
+
+    if (promotion.type === 'category_percent' && promotion.percent && promotion.category) {
+      const category = promotion.category.trim().toLowerCase();
+      for (const line of lines) {
+        if (line.remaining <= 0 || line.item.product.category.trim().toLowerCase() !== category) continue;
+        discount += applyToLine(promotion, line, (line.unitPrice * line.remaining * promotion.percent) / 100);
+        line.remaining = 0;
+      }
+    }
+
+    if (discount > 0) {
+      result.applied.push({ id: promotion.id, name: promotion.name, discount });
+      result.total += discount;
+    }
+  }
+
+  return result.total > 0 ? result : EMPTY_PROMOTION_RESULT;
+};
+
+/** Stamp each line's promotion discount onto the items saved with the sale. */
+export const applyPromotionsToItems = (items: CartItem[], result: PromotionResult): CartItem[] =>
+  items.map((item) => {
+    const promoDiscount = (result.lines[getCartLineKey(item)] || []).reduce((sum, p) => sum + p.discount, 0);
+    return promoDiscount > 0 ? { ...item, promoDiscount } : item;
+  });
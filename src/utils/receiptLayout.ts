@@ -1,4 +1,5 @@
-import { ReceiptData, CartItem } from '@/types/pos';
+import { ReceiptData, CartItem, ReturnReceiptData, ShiftReportData } from '@/types/pos';
+import { getLinePricing } from '@/utils/pricing';
 
 // Fixed column widths for 80mm paper (48 chars normal, 24 chars double-size)
 const LINE_WIDTH = 48;
@@ -84,10 +85,24 @@ export const buildInvoiceLines = (
   })));
   lines.push(formatTwoColumn('Waktu:', receipt.timestamp.toLocaleTimeString('id-ID')));
   lines.push(formatTwoColumn('Nama Pelanggan:', sanitizeReceiptText((receipt.customerName || '-').slice(0, 20))));
+  if (receipt.cashier) {
+    lines.push(formatTwoColumn('Kasir:', sanitizeReceiptText(receipt.cashier.name.slice(0, 20))));
+  }
   lines.push(createSeparator('-'));
+
+  // Voided sale: make it impossible to mistake the reprint for a valid receipt
+  if (receipt.voidedAt) {
+    lines.push('@@CENTER@@@@BOLD@@*** DIBATALKAN (VOID) ***');
+    lines.push(formatTwoColumn('Dibatalkan:', receipt.voidedAt.toLocaleString('id-ID')));
+    if (receipt.voidReason) {
+      lines.push('Alasan: ' + sanitizeReceiptText(receipt.voidReason).slice(0, LINE_WIDTH - 8));
+    }
+    lines.push(createSeparator('-'));
+  }
   
   // Items section
   let totalBulkDiscount = 0;
+  let totalTierDiscount = 0;
   let totalItemDiscount = 0;
   let subtotalBeforeDiscount = 0;
   
@@ -103,6 +118,11 @@ export const buildInvoiceLines = (
     // Calculate bulk discount (difference between retail and bulk price)
     const bulkDiscount = item.priceType === 'bulk' ? (retailPrice - bulkPrice) * quantity : 0;
     totalBulkDiscount += bulkDiscount;
+
+    // Quantity tier: the unit price dropped below the normal price for this quantity
+    const { basePrice, unitPrice, tier } = getLinePricing({ ...item, quantity });
+    const tierDiscount = tier ? (basePrice - unitPrice) * quantity : 0;
+    totalTierDiscount += tierDiscount;
     
     const itemDiscount = Number(item.discount) || 0;
     totalItemDiscount += itemDiscount;
@@ -126,7 +146,12 @@ export const buildInvoiceLines = (
       lines.push(padLeft(discountStr, LINE_WIDTH));
     }
     
-    // Line 4: Item discount if exists (right-aligned with minus)
+    // Line 4: Tier price, so customers see why the unit price changed
+    if (tier && tierDiscount > 0) {
+      lines.push(formatTwoColumn(`  Harga ${tier.minQty}+ @${formatRupiah(unitPrice)}`, `-${formatRupiah(tierDiscount)}`));
+    }
+    
+    // Line 5: Item discount if exists (right-aligned with minus)
     if (itemDiscount > 0) {
       const discountStr = `-${formatRupiah(itemDiscount)}`;
       lines.push(padLeft(discountStr, LINE_WIDTH));
@@ -138,15 +163,58 @@ export const buildInvoiceLines = (
   // Subtotal: total before any discounts
   lines.push(formatTwoColumn('Subtotal:', `Rp${formatRupiah(subtotalBeforeDiscount)}`));
   
-  // Diskon: combine all discounts (bulk + item + global)
-  const totalDiscount = totalBulkDiscount + totalItemDiscount + (receipt.discount || 0);
+  // Promo: one line per automatic promotion
+  let totalPromoDiscount = 0;
+  for (const promo of receipt.promotions || []) {
+    const amount = Number(promo.discount) || 0;
+    if (amount <= 0) continue;
+    totalPromoDiscount += amount;
+    lines.push(formatTwoColumn(`Promo ${sanitizeReceiptText(promo.name)}`, `-Rp${formatRupiah(amount)}`));
+  }
+  
+  // Diskon: combine all other discounts (bulk + tier + item + global)
+  const totalDiscount = totalBulkDiscount + totalTierDiscount + totalItemDiscount + (receipt.discount || 0);
   if (totalDiscount > 0) {
     lines.push(formatTwoColumn('Diskon:', `-Rp${formatRupiah(totalDiscount)}`));
   }
   
-  // Total: after all discounts
-  const finalTotal = subtotalBeforeDiscount - totalDiscount;
+  // Voucher: redeemed code, taken off after the order discount
+  const voucherDiscount = Number(receipt.voucher?.discount) || 0;
+  if (receipt.voucher && voucherDiscount > 0) {
+    lines.push(formatTwoColumn(`Voucher ${sanitizeReceiptText(receipt.voucher.code)}`, `-Rp${formatRupiah(voucherDiscount)}`));
+  }
+  
+  // Points spent on this sale
+  const pointsDiscount = Number(receipt.loyalty?.pointsDiscount) || 0;
+  if (receipt.loyalty && pointsDiscount > 0) {
+    lines.push(formatTwoColumn(`Tukar ${receipt.loyalty.pointsRedeemed} poin`, `-Rp${formatRupiah(pointsDiscount)}`));
+  }
+  
+  // Service charge on the amount after discounts
+  const serviceCharge = Number(receipt.serviceCharge?.amount) || 0;
+  if (receipt.serviceCharge && serviceCharge > 0) {
+    lines.push(formatTwoColumn(`Service ${receipt.serviceCharge.rate}%`, `Rp${formatRupiah(serviceCharge)}`));
+  }
+  
+  // PPN added on top when prices exclude tax
+  const taxAmount = Number(receipt.tax?.amount) || 0;
+  const taxAdded = receipt.tax?.mode === 'exclusive' ? taxAmount : 0;
+  if (receipt.tax && taxAdded > 0) {
+    lines.push(formatTwoColumn(`PPN ${receipt.tax.rate}%`, `Rp${formatRupiah(taxAdded)}`));
+  }
+  
+  // Cash rounding, its own line so the total still reconciles
+  const rounding = Number(receipt.rounding) || 0;
+  if (rounding !== 0) {
+    lines.push(formatTwoColumn('Pembulatan', `${rounding < 0 ? '-' : ''}Rp${formatRupiah(Math.abs(rounding))}`));
+  }
+  
+  // Total: after all discounts, promotions, voucher and points, plus service charge, any added PPN and rounding
+  const finalTotal = subtotalBeforeDiscount - totalDiscount - totalPromoDiscount - voucherDiscount - pointsDiscount + serviceCharge + taxAdded + rounding;
   lines.push('@@BOLD@@' + formatTwoColumn('TOTAL:', `Rp${formatRupiah(finalTotal)}`));
+  if (receipt.tax && receipt.tax.mode === 'inclusive' && taxAmount > 0) {
+    lines.push(formatTwoColumn(`Termasuk PPN ${receipt.tax.rate}%`, `Rp${formatRupiah(taxAmount)}`));
+  }
   lines.push(createSeparator('-'));
   
   // Payment
@@ -154,16 +222,45 @@ export const buildInvoiceLines = (
     'cash': 'Tunai',
     'qris': 'QRIS',
     'transfer': 'Transfer Bank',
+    'credit': 'Hutang',
   };
-  lines.push(formatTwoColumn('Pembayaran:', paymentLabels[receipt.paymentMethod] || receipt.paymentMethod));
+  const isSplit = (receipt.payments?.length ?? 0) > 1;
+
+  if (isSplit) {
+    // One line per tender, reference (if any) underneath
+    lines.push(formatTwoColumn('Pembayaran:', 'Kombinasi'));
+    for (const payment of receipt.payments!) {
+      const label = paymentLabels[payment.method] || payment.method;
+      lines.push(formatTwoColumn(`  ${label}`, `Rp${formatRupiah(payment.amount)}`));
+      if (payment.reference) {
+        lines.push(`    Ref: ${sanitizeReceiptText(payment.reference)}`);
+      }
+    }
+    if (receipt.cashReceived) {
+      lines.push('@@BOLD@@' + formatTwoColumn('Kembalian:', `Rp${formatRupiah(receipt.change || 0)}`));
+    }
+  } else {
+    lines.push(formatTwoColumn('Pembayaran:', paymentLabels[receipt.paymentMethod] || receipt.paymentMethod));
+
+    if (receipt.cashReceived) {
+      lines.push(formatTwoColumn('Tunai:', `Rp${formatRupiah(receipt.cashReceived)}`));
+      lines.push('@@BOLD@@' + formatTwoColumn('Kembalian:', `Rp${formatRupiah(receipt.change || 0)}`));
+    }
+  }
   
-  if (receipt.cashReceived) {
-    lines.push(formatTwoColumn('Tunai:', `Rp${formatRupiah(receipt.cashReceived)}`));
-    lines.push('@@BOLD@@' + formatTwoColumn('Kembalian:', `Rp${formatRupiah(receipt.change || 0)}`));
+  // Credit (hutang)
+  if (receipt.credit) {
+    if (receipt.credit.dueDate) {
+      lines.push(formatTwoColumn('Jatuh tempo:', new Date(receipt.credit.dueDate).toLocaleDateString('id-ID')));
+    }
+    if (receipt.credit.outstanding !== undefined) {
+      lines.push('@@BOLD@@' + formatTwoColumn('Sisa hutang:', `Rp${formatRupiah(receipt.credit.outstanding)}`));
+    }
   }
   
   // Bank transfer info
-  if (receipt.paymentMethod === 'transfer' && receipt.bankInfo) {
+  const paidByTransfer = receipt.paymentMethod === 'transfer' || !!receipt.payments?.some(p => p.method === 'transfer');
+  if (paidByTransfer && receipt.bankInfo) {
     lines.push(createSeparator('-'));
     lines.push('@@BOLD@@Transfer ke:');
     lines.push(formatTwoColumn('Bank:', receipt.bankInfo.bankName));
@@ -171,6 +268,21 @@ export const buildInvoiceLines = (
     lines.push(formatTwoColumn('A/N:', receipt.bankInfo.accountHolder));
   }
   
+  // Loyalty points
+  if (receipt.loyalty) {
+    lines.push(createSeparator('-'));
+    lines.push(formatTwoColumn('Member:', receipt.loyalty.phone));
+    if (receipt.loyalty.pointsEarned > 0) {
+      lines.push(formatTwoColumn('Poin didapat:', `+${receipt.loyalty.pointsEarned}`));
+    }
+    if (receipt.loyalty.pointsRedeemed > 0) {
+      lines.push(formatTwoColumn('Poin ditukar:', `-${receipt.loyalty.pointsRedeemed}`));
+    }
+    if (receipt.loyalty.balance !== undefined) {
+      lines.push('@@BOLD@@' + formatTwoColumn('Saldo poin:', String(receipt.loyalty.balance)));
+    }
+  }
+  
   lines.push(createSeparator('-'));
   
   // Footer
@@ -205,6 +317,11 @@ export const buildWorkerCopyLines = (receipt: ReceiptData): string[] => {
   });
   lines.push('@@CENTER@@' + dateStr + ' ' + timeStr);
   lines.push(createSeparator('-', LINE_WIDTH));
+
+  if (receipt.voidedAt) {
+    lines.push('@@CENTER@@DIBATALKAN@@DOUBLE@@');
+    lines.push(createSeparator('-', LINE_WIDTH));
+  }
   
   // Items - Name and Quantity (double size, 24 char width)
   // Dynamically adjust column widths based on longest qty string
@@ -252,6 +369,148 @@ export const buildWorkerCopyLines = (receipt: ReceiptData): string[] => {
   return lines;
 };
 
+// Build return receipt lines - references the original invoice
+export const buildReturnLines = (
+  returnData: ReturnReceiptData,
+  storeInfo?: { name?: string; address: string; phone: string }
+): string[] => {
+  const lines: string[] = [];
+
+  const storeName = sanitizeReceiptText(storeInfo?.name || 'TOKO BESI 88');
+  lines.push(`@@CENTER@@${storeName}@@DOUBLE@@`);
+  if (storeInfo?.address) lines.push('@@CENTER@@' + sanitizeReceiptText(storeInfo.address));
+  if (storeInfo?.phone) lines.push('@@CENTER@@Tel: ' + sanitizeReceiptText(storeInfo.phone));
+  lines.push(createSeparator('-'));
+  lines.push('@@CENTER@@@@BOLD@@NOTA RETUR');
+  lines.push(createSeparator('-'));
+
+  lines.push(formatTwoColumn('No Retur:', sanitizeReceiptText(returnData.id)));
+  lines.push(formatTwoColumn('Invoice Asal:', sanitizeReceiptText(returnData.originalId)));
+  lines.push(formatTwoColumn('Tanggal:', returnData.timestamp.toLocaleDateString('id-ID', {
+    day: '2-digit', month: 'short', year: 'numeric'
+  })));
+  lines.push(formatTwoColumn('Waktu:', returnData.timestamp.toLocaleTimeString('id-ID')));
+  lines.push(formatTwoColumn('Nama Pelanggan:', sanitizeReceiptText((returnData.customerName || '-').slice(0, 20))));
+  lines.push(createSeparator('-'));
+
+  for (const item of returnData.items) {
+    let productDisplayName = sanitizeReceiptText(item.productName || 'Item');
+    if (item.variantName) {
+      productDisplayName += ` [${sanitizeReceiptText(item.variantName)}]`;
+    }
+    lines.push('@@BOLD@@' + productDisplayName);
+    lines.push(formatTwoColumn(`  ${Number(item.quantity) || 0}x dikembalikan`, `-${formatRupiah(item.amount)}`));
+  }
+
+  lines.push(createSeparator('-'));
+
+  const refundLabels: Record<string, string> = {
+    'cash': 'Tunai',
+    'qris': 'QRIS',
+    'transfer': 'Transfer Bank',
+    'credit': 'Potong hutang',
+  };
+  lines.push('@@BOLD@@' + formatTwoColumn('TOTAL REFUND:', `Rp${formatRupiah(returnData.totalRefund)}`));
+  lines.push(formatTwoColumn('Dikembalikan via:', refundLabels[returnData.refundMethod] || returnData.refundMethod));
+  if (returnData.reason) {
+    lines.push('Alasan: ' + sanitizeReceiptText(returnData.reason).slice(0, LINE_WIDTH - 8));
+  }
+
+  lines.push(createSeparator('-'));
+  lines.push('@@CENTER@@Tanda tangan pelanggan:');
+  lines.push('');
+  lines.push('');
+  lines.push('@@CENTER@@(____________________)');
+
+  return lines;
+};
+
+// Shift report (X/Z report): sales, where the cash went and the drawer count
+export const buildShiftReportLines = (
+  report: ShiftReportData,
+  storeInfo?: { name?: string; address: string; phone: string }
+): string[] => {
+  const lines: string[] = [];
+  const formatDateTime = (date: Date) => date.toLocaleString('id-ID', {
+    day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit'
+  });
+  const signed = (amount: number) => `${amount < 0 ? '-' : ''}Rp${formatRupiah(Math.abs(amount))}`;
+
+  const storeName = sanitizeReceiptText(storeInfo?.name || 'TOKO BESI 88');
+  lines.push(`@@CENTER@@${storeName}@@DOUBLE@@`);
+  if (storeInfo?.address) lines.push('@@CENTER@@' + sanitizeReceiptText(storeInfo.address));
+  lines.push(createSeparator('-'));
+  lines.push(`@@CENTER@@@@BOLD@@${report.closedAt ? 'LAPORAN TUTUP SHIFT' : 'LAPORAN SHIFT (BELUM DITUTUP)'}`);
+  lines.push(createSeparator('-'));
+
+  lines.push(formatTwoColumn('Kasir:', sanitizeReceiptText((report.cashier || '-').slice(0, 20))));
+  lines.push(formatTwoColumn('Dibuka:', formatDateTime(report.openedAt)));
+  lines.push(formatTwoColumn('Ditutup:', report.closedAt ? formatDateTime(report.closedAt) : '-'));
+  lines.push(createSeparator('-'));
+
+  lines.push('@@BOLD@@PENJUALAN');
+  lines.push(formatTwoColumn(`Transaksi (${report.salesCount}x)`, `Rp${formatRupiah(report.salesTotal)}`));
+  if (report.voidCount > 0) {
+    lines.push(formatTwoColumn('Void:', `${report.voidCount}x`));
+  }
+  const paymentLabels: Record<string, string> = {
+    'cash': 'Tunai (diterima)',
+    'qris': 'QRIS',
+    'transfer': 'Debit/Kredit',
+    'credit': 'Hutang',
+  };
+  for (const [method, amount] of Object.entries(report.payments)) {
+    lines.push(formatTwoColumn(`  ${paymentLabels[method] || method}`, `Rp${formatRupiah(amount)}`));
+  }
+  lines.push(createSeparator('-'));
+
+  lines.push('@@BOLD@@KAS');
+  lines.push(formatTwoColumn('Modal awal', `Rp${formatRupiah(report.openingFloat)}`));
+  lines.push(formatTwoColumn('+ Penjualan tunai', `Rp${formatRupiah(report.cashSales)}`));
+  lines.push(formatTwoColumn('- Kembalian', `Rp${formatRupiah(report.changeGiven)}`));
+  lines.push(formatTwoColumn('+ Bayar hutang tunai', `Rp${formatRupiah(report.debtPayments)}`));
+  lines.push(formatTwoColumn('+ Kas masuk', `Rp${formatRupiah(report.cashIn)}`));
+  lines.push(formatTwoColumn('- Kas keluar', `Rp${formatRupiah(report.cashOut)}`));
+  lines.push(formatTwoColumn('- Refund tunai', `Rp${formatRupiah(report.cashRefunds)}`));
+  lines.push(formatTwoColumn('- Void tunai', `Rp${formatRupiah(report.voidRefunds)}`));
+  lines.push('@@BOLD@@' + formatTwoColumn('SEHARUSNYA DI LACI:', `Rp${formatRupiah(report.expectedCash)}`));
+
+  if (report.movements.length > 0) {
+    lines.push(createSeparator('-'));
+    lines.push('@@BOLD@@KAS MASUK / KELUAR');
+    for (const movement of report.movements) {
+      const time = movement.createdAt.toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' });
+      const amount = `${movement.direction === 'out' ? '-' : '+'}Rp${formatRupiah(movement.amount)}`;
+      lines.push(formatTwoColumn(`${time} ${sanitizeReceiptText(movement.note)}`, amount));
+    }
+  }
+
+  if (report.countedCash !== undefined) {
+    lines.push(createSeparator('-'));
+    lines.push('@@BOLD@@HITUNG UANG');
+    for (const d of report.denominations || []) {
+      if (d.count <= 0) continue;
+      lines.push(formatTwoColumn(`  ${formatRupiah(d.value)} x ${d.count}`, `Rp${formatRupiah(d.value * d.count)}`));
+    }
+    lines.push('@@BOLD@@' + formatTwoColumn('TOTAL DIHITUNG:', `Rp${formatRupiah(report.countedCash)}`));
+    const variance = report.variance ?? 0;
+    const varianceLabel = variance === 0 ? 'SELISIH (PAS):' : variance < 0 ? 'SELISIH (KURANG):' : 'SELISIH (LEBIH):';
+    lines.push('@@BOLD@@' + formatTwoColumn(varianceLabel, signed(variance)));
+  }
+
+  if (report.notes) {
+    lines.push('Catatan: ' + sanitizeReceiptText(report.notes).slice(0, LINE_WIDTH - 9));
+  }
+
+  lines.push(createSeparator('-'));
+  lines.push('@@CENTER@@Tanda tangan kasir:');
+  lines.push('');
+  lines.push('');
+  lines.push('@@CENTER@@(____________________)');
+
+  return lines;
+};
+
 // Render lines as plain text (for preview) - applies centering and strips other tags
 export const renderPlainText = (lines: string[]): string => {
   return lines.map(line => {
@@ -0,0 +1,130 @@
+import { ReceiptData } from '@/types/pos';
+import type { SaleStockItem, CommitSaleResult } from '@/hooks/useGoogleSheets';
+
+/**
+ * Durable outbox for committed sales.
+ *
+ * Every checkout is written here first, then pushed to Supabase and the
+ * sync-google-sheets function. If the connection drops halfway, the entry
+ * stays in IndexedDB (with per-step flags so nothing is sent twice) and is
+ * replayed in order once we are back online.
+ */
+
+const DB_NAME = 'pos-outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'sales';
+
+export interface OutboxSale {
+  id: string; // Receipt/invoice id, doubles as the key
+  receipt: ReceiptData;
+  stockItems: SaleStockItem[]; // Relative decrements sent to commitSale
+  createdAt: number; // Replay order
+  attempts: number;
+  lastError?: string;
+  dbSynced: boolean; // transactions row inserted
+  sheetSynced: boolean; // Sheets Transactions row appended
+  stockSynced: boolean; // Sheets stock updated
+  stockResult?: CommitSaleResult; // Stock levels returned by the last successful sync
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB tidak didukung di browser ini'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = fn(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Dates do not survive structured clone as ReceiptData expects everywhere else
+const reviveSale = (sale: OutboxSale): OutboxSale => ({
+  ...sale,
+  receipt: { ...sale.receipt, timestamp: new Date(sale.receipt.timestamp) },
+});
+
+export const putOutboxSale = async (sale: OutboxSale): Promise<void> => {
+  await runRequest('readwrite', (store) => store.put(sale));
+  notifyOutboxChanged();
+};
+
+export const enqueueSale = async (
+  receipt: ReceiptData,
+  stockItems: SaleStockItem[]
+): Promise<OutboxSale> => {
+  const sale: OutboxSale = {
+    id: receipt.id,
+    receipt,
+    stockItems,
+    createdAt: Date.now(),
+    attempts: 0,
+    dbSynced: false,
+    sheetSynced: false,
+    stockSynced: false,
+  };
+  await putOutboxSale(sale);
+  return sale;
+};
+
+export const removeOutboxSale = async (id: string): Promise<void> => {
+  await runRequest('readwrite', (store) => store.delete(id));
+  notifyOutboxChanged();
+};
+
+export const listOutboxSales = async (): Promise<OutboxSale[]> => {
+  const sales = await runRequest<OutboxSale[]>('readonly', (store) =>
+    store.index('createdAt').getAll()
+  );
+  return sales.map(reviveSale);
+};
+
+export const countOutboxSales = async (): Promise<number> => {
+  return runRequest<number>('readonly', (store) => store.count());
+};
+
+// Same-tab + cross-tab change notification, mirrors pos:products_updated
+export const OUTBOX_CHANGED_EVENT = 'pos:outbox_changed';
+
+const notifyOutboxChanged = () => {
+  try {
+    localStorage.setItem(OUTBOX_CHANGED_EVENT, String(Date.now()));
+  } catch {
+    // Ignore storage errors
+  }
+  window.dispatchEvent(new CustomEvent(OUTBOX_CHANGED_EVENT));
+};
@@ -0,0 +1,233 @@
+/**
+ * Minimal spreadsheet writers for exports: CSV, and XLSX with real numbers and dates.
+ *
+ * The XLSX is a single-sheet workbook written by hand (a zip of a few XML parts, stored
+ * without compression), which is all Excel, LibreOffice and Google Sheets need and
+ * keeps a spreadsheet library out of the bundle.
+ */
+
+export type SpreadsheetCellType = 'text' | 'number' | 'money' | 'date';
+
+export interface SpreadsheetColumn {
+  header: string;
+  type: SpreadsheetCellType;
+  width?: number;   // In characters
+}
+
+export type SpreadsheetValue = string | number | Date | null | undefined;
+
+// Style indexes into cellXfs in styles.xml below
+const STYLE = { text: 0, number: 0, money: 1, date: 2, header: 3 } as const;
+
+const escapeXml = (value: string) =>
+  value
+    // Characters XML 1.0 can't carry at all
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const formatLocalDateTime = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+
+// Excel stores dates as days since 1899-12-30 in local (wall-clock) time
+const toExcelDate = (date: Date) =>
+  (date.getTime() - date.getTimezoneOffset() * 60000) / 86400000 + 25569;
+
+const columnName = (index: number) => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+// Text a spreadsheet would run as a formula when it opens the CSV
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * CSV with a BOM so Excel reads it as UTF-8; dates as "yyyy-mm-dd hh:mm:ss", numbers unformatted.
+ * Text that starts like a formula (=, +, -, @) gets a leading ' so it stays text.
+ */
+export const buildCsv = (columns: SpreadsheetColumn[], rows: SpreadsheetValue[][]): Blob => {
+  const cell = (value: SpreadsheetValue) => {
+    if (value === null || value === undefined) return '';
+    let text = value instanceof Date ? formatLocalDateTime(value) : String(value);
+    if (typeof value === 'string' && FORMULA_START.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = [columns.map((c) => cell(c.header)), ...rows.map((row) => row.map(cell))];
+  return new Blob(['﻿' + lines.map((line) => line.join(',')).join('\r\n')], { type: 'text/csv;charset=utf-8' });
+};
+
+const buildSheetXml = (columns: SpreadsheetColumn[], rows: SpreadsheetValue[][]) => {
+  const cellXml = (value: SpreadsheetValue, type: SpreadsheetCellType | 'header', ref: string) => {
+    if (value === null || value === undefined || value === '') return '';
+    if (value instanceof Date) {
+      return `<c r="${ref}" s="${STYLE.date}"><v>${toExcelDate(value)}</v></c>`;
+    }
+    if (typeof value === 'number' && Number.isFinite(value) && type !== 'text' && type !== 'header') {
+      return `<c r="${ref}" s="${STYLE[type]}"><v>${value}</v></c>`;
+    }
+    return `<c r="${ref}" t="inlineStr" s="${type === 'header' ? STYLE.header : STYLE.text}"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+  };
+
+  const header = `<row r="1">${columns.map((c, i) => cellXml(c.header, 'header', `${columnName(i)}1`)).join('')}</row>`;
+  const body = rows.map((row, r) =>
+    `<row r="${r + 2}">${columns.map((c, i) => cellXml(row[i], c.type, `${columnName(i)}${r + 2}`)).join('')}</row>`
+  ).join('');
+  const widths = columns.map((c, i) =>
+    `<col min="${i + 1}" max="${i + 1}" width="${c.width ?? Math.max(10, c.header.length + 2)}" customWidth="1"/>`
+  ).join('');
+  const lastCell = `${columnName(columns.length - 1)}${rows.length + 1}`;
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    + `<cols>${widths}</cols>`
+    + `<sheetData>${header}${body}</sheetData>`
+    + `<autoFilter ref="A1:${lastCell}"/>`
+    + '</worksheet>';
+};
+
+const STYLES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+  + '<numFmts count="1"><numFmt numFmtId="164" formatCode="dd/mm/yyyy hh:mm"/></numFmts>'
+  + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+  + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+  + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+  + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+  + '<cellXfs count="4">'
+  + '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+  + '<xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+  + '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+  + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>'
+  + '</cellXfs>'
+  + '</styleSheet>';
+
+const CONTENT_TYPES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+  + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+  + '<Default Extension="xml" ContentType="application/xml"/>'
+  + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+  + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+  + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+  + '</Types>';
+
+const ROOT_RELS_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+  + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+  + '</Relationships>';
+
+const WORKBOOK_RELS_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+  + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+  + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+  + '</Relationships>';
+
+const buildWorkbookXml = (sheetName: string) => '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+  // Sheet names: max 31 characters, none of : \ / ? * [ ]
+  + `<sheets><sheet name="${escapeXml(sheetName.replace(/[:\\/?*[\]]/g, ' ').slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>`
+  + '</workbook>';
+
+// CRC-32 as required by the zip format
+let crcTable: Uint32Array | null = null;
+const crc32 = (data: Uint8Array) => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+/** Zip archive with every file stored uncompressed. */
+const buildZip = (files: { name: string; content: string }[]): Blob => {
+  const encoder = new TextEncoder();
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034B50, true);   // Local file header signature
+    local.setUint16(4, 20, true);           // Version needed
+    local.setUint16(6, 0x0800, true);       // UTF-8 names
+    local.setUint16(8, 0, true);            // Stored
+    local.setUint16(10, dosTime, true);
+    local.setUint16(12, dosDate, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    parts.push(new Uint8Array(local.buffer), name, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014B50, true);   // Central directory signature
+    entry.setUint16(4, 20, true);           // Version made by
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint16(10, 0, true);
+    entry.setUint16(12, dosTime, true);
+    entry.setUint16(14, dosDate, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);      // Offset of the local header
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054B50, true);       // End of central directory signature
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+};
+
+export const buildXlsx = (sheetName: string, columns: SpreadsheetColumn[], rows: SpreadsheetValue[][]): Blob =>
+  buildZip([
+    { name: '[Content_Types].xml', content: CONTENT_TYPES_XML },
+    { name: '_rels/.rels', content: ROOT_RELS_XML },
+    { name: 'xl/workbook.xml', content: buildWorkbookXml(sheetName) },
+    { name: 'xl/_rels/workbook.xml.rels', content: WORKBOOK_RELS_XML },
+    { name: 'xl/styles.xml', content: STYLES_XML },
+    { name: 'xl/worksheets/sheet1.xml', content: buildSheetXml(columns, rows) },
+  ]);
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  // Give the browser a moment to start the download before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
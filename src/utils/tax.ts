@@ -0,0 +1,54 @@
+import { CartItem, TaxMode } from '@/types/pos';
+import { getLineTotal } from '@/utils/pricing';
+
+export interface TaxBreakdown {
+  base: number;    // DPP: taxable amount excluding the tax
+  amount: number;  // PPN
+}
+
+const NO_TAX: TaxBreakdown = { base: 0, amount: 0 };
+
+/** PPN rate in percent from the tax_rate setting; 0 when tax is off or the value is unusable. */
+export const parseTaxRate = (value: string | undefined): number => {
+  const rate = parseFloat(String(value ?? '').replace(',', '.'));
+  return Number.isFinite(rate) && rate > 0 && rate <= 100 ? rate : 0;
+};
+
+export const parseTaxMode = (value: string | undefined): TaxMode =>
+  value === 'exclusive' ? 'exclusive' : 'inclusive';
+
+/** Service charge rate in percent from the service_charge_rate setting; 0 when it is off. */
+export const parseServiceChargeRate = (value: string | undefined): number => {
+  const rate = parseFloat(String(value ?? '').replace(',', '.'));
+  return Number.isFinite(rate) && rate > 0 && rate <= 100 ? rate : 0;
+};
+
+/** Service charge on what is left to pay after every discount, in whole Rupiah. */
+export const calculateServiceCharge = (amountDue: number, rate: number): number =>
+  rate > 0 && amountDue > 0 ? Math.round(amountDue * rate / 100) : 0;
+
+/**
+ * Tax on a sale whose lines (after promotions) come to amountDue once order-level
+ * discounts are taken off. Those discounts are spread over the lines pro rata, so only
+ * the taxable lines' share is taxed. Inclusive prices already contain the tax;
+ * exclusive prices get it added on top.
+ */
+export const calculateTax = (items: CartItem[], amountDue: number, rate: number, mode: TaxMode): TaxBreakdown => {
+  if (rate <= 0 || amountDue <= 0) return NO_TAX;
+
+  let linesTotal = 0;
+  let taxableTotal = 0;
+  for (const item of items) {
+    const line = Math.max(0, getLineTotal(item) - (item.promoDiscount || 0));
+    linesTotal += line;
+    if (!item.product.taxExempt) taxableTotal += line;
+  }
+  if (linesTotal <= 0 || taxableTotal <= 0) return NO_TAX;
+
+  const taxable = Math.round(amountDue * taxableTotal / linesTotal);
+  if (mode === 'inclusive') {
+    const amount = Math.round(taxable * rate / (100 + rate));
+    return { base: taxable - amount, amount };
+  }
+  return { base: taxable, amount: Math.round(taxable * rate / 100) };
+};
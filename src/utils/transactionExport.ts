@@ -0,0 +1,146 @@
+import { ReceiptData } from '@/types/pos';
+import { getLinePricing, getLineTotal } from '@/utils/pricing';
+import { SpreadsheetColumn, SpreadsheetValue, buildCsv, buildXlsx } from '@/utils/spreadsheet';
+
+/**
+ * Spreadsheet exports of the Transactions page: "header" has one row per sale,
+ * "items" one row per line item. Voided sales are kept and marked, so the export
+ * matches the list it was taken from.
+ */
+
+export type TransactionExportLayout = 'header' | 'items';
+export type TransactionExportFormat = 'csv' | 'xlsx';
+
+const PAYMENT_LABELS: Record<string, string> = {
+  cash: 'Tunai',
+  qris: 'QRIS',
+  transfer: 'Debit/Kredit',
+  credit: 'Hutang',
+  split: 'Kombinasi',
+};
+
+const paymentLabel = (method: string) => PAYMENT_LABELS[method] || method;
+
+// Amount per tender, e.g. "Tunai 50.000; QRIS 25.000"
+const formatPayments = (receipt: ReceiptData) =>
+  (receipt.payments || [])
+    .map((p) => `${paymentLabel(p.method)} ${p.amount.toLocaleString('id-ID')}${p.reference ? ` (${p.reference})` : ''}`)
+    .join('; ');
+
+const status = (receipt: ReceiptData) => (receipt.voidedAt ? 'VOID' : 'Selesai');
+
+const HEADER_COLUMNS: SpreadsheetColumn[] = [
+  { header: 'No. Invoice', type: 'text', width: 20 },
+  { header: 'Tanggal', type: 'date', width: 17 },
+  { header: 'Kasir', type: 'text', width: 16 },
+  { header: 'Pelanggan', type: 'text', width: 20 },
+  { header: 'Telepon', type: 'text', width: 15 },
+  { header: 'Metode', type: 'text', width: 13 },
+  { header: 'Rincian Pembayaran', type: 'text', width: 28 },
+  { header: 'Jumlah Item', type: 'number' },
+  { header: 'Subtotal', type: 'money', width: 13 },
+  { header: 'Diskon', type: 'money' },
+  { header: 'Promo', type: 'money' },
+  { header: 'Voucher', type: 'money' },
+  { header: 'Potongan Poin', type: 'money' },
+  { header: 'Service', type: 'money' },
+  { header: 'PPN', type: 'money' },
+  { header: 'Pembulatan', type: 'money', width: 12 },
+  { header: 'Total', type: 'money', width: 13 },
+  { header: 'Tunai Diterima', type: 'money', width: 15 },
+  { header: 'Kembalian', type: 'money', width: 12 },
+  { header: 'Sisa Hutang', type: 'money', width: 12 },
+  { header: 'Alasan Diskon', type: 'text', width: 24 },
+  { header: 'Status', type: 'text' },
+  { header: 'Alasan Void', type: 'text', width: 24 },
+];
+
+const ITEM_COLUMNS: SpreadsheetColumn[] = [
+  { header: 'No. Invoice', type: 'text', width: 20 },
+  { header: 'Tanggal', type: 'date', width: 17 },
+  { header: 'Kasir', type: 'text', width: 16 },
+  { header: 'Pelanggan', type: 'text', width: 20 },
+  { header: 'Kode Produk', type: 'text', width: 14 },
+  { header: 'Nama Produk', type: 'text', width: 30 },
+  { header: 'Kategori', type: 'text', width: 14 },
+  { header: 'Varian', type: 'text', width: 14 },
+  { header: 'Jenis Harga', type: 'text', width: 12 },
+  { header: 'Qty', type: 'number', width: 8 },
+  { header: 'Harga Satuan', type: 'money', width: 13 },
+  { header: 'Diskon Item', type: 'money', width: 12 },
+  { header: 'Promo', type: 'money' },
+  { header: 'Total Baris', type: 'money', width: 13 },
+  { header: 'Harga Beli', type: 'money', width: 12 },
+  { header: 'Total Modal', type: 'money', width: 13 },
+  { header: 'Status', type: 'text' },
+];
+
+const headerRow = (receipt: ReceiptData): SpreadsheetValue[] => [
+  receipt.id,
+  receipt.timestamp,
+  receipt.cashier?.name,
+  receipt.customerName,
+  receipt.customerPhone,
+  paymentLabel(receipt.paymentMethod),
+  formatPayments(receipt),
+  receipt.items.reduce((sum, item) => sum + item.quantity, 0),
+  receipt.subtotal,
+  receipt.discount,
+  (receipt.promotions || []).reduce((sum, p) => sum + p.discount, 0),
+  receipt.voucher?.discount ?? 0,
+  receipt.loyalty?.pointsDiscount ?? 0,
+  receipt.serviceCharge?.amount ?? 0,
+  receipt.tax?.amount ?? 0,
+  receipt.rounding ?? 0,
+  receipt.total,
+  receipt.cashReceived,
+  receipt.change,
+  receipt.credit?.outstanding,
+  receipt.manualDiscount?.reason,
+  status(receipt),
+  receipt.voidReason,
+];
+
+const itemRows = (receipt: ReceiptData): SpreadsheetValue[][] =>
+  receipt.items.map((item) => [
+    receipt.id,
+    receipt.timestamp,
+    receipt.cashier?.name,
+    receipt.customerName,
+    item.product.id,
+    item.product.name,
+    item.product.category,
+    item.variantName || item.variantCode,
+    item.priceType === 'bulk' ? 'Grosir' : 'Eceran',
+    item.quantity,
+    getLinePricing(item).unitPrice,
+    item.discount || 0,
+    item.promoDiscount || 0,
+    Math.max(0, getLineTotal(item) - (item.promoDiscount || 0)),
+    item.product.purchasePrice,
+    item.product.purchasePrice * item.quantity,
+    status(receipt),
+  ]);
+
+export const buildTransactionExport = (
+  receipts: ReceiptData[],
+  layout: TransactionExportLayout,
+  format: TransactionExportFormat,
+): Blob => {
+  const columns = layout === 'header' ? HEADER_COLUMNS : ITEM_COLUMNS;
+  const rows = layout === 'header' ? receipts.map(headerRow) : receipts.flatMap(itemRows);
+  return format === 'csv'
+    ? buildCsv(columns, rows)
+    : buildXlsx(layout === 'header' ? 'Transaksi' : 'Rincian Item', columns, rows);
+};
+
+/** e.g. transaksi-rincian-20261019-1430.xlsx */
+export const getTransactionExportFileName = (
+  layout: TransactionExportLayout,
+  format: TransactionExportFormat,
+  now: Date = new Date(),
+) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const stamp = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}-${pad(now.getHours())}${pad(now.getMinutes())}`;
+  return `transaksi${layout === 'items' ? '-rincian' : ''}-${stamp}.${format}`;
+};
@@ -0,0 +1,127 @@
+/**
+ * Filters of the Transactions page. They live in the URL query string so a filtered list
+ * can be bookmarked or shared, and map one-to-one onto the arguments of the
+ * filter_transactions / transactions_summary database functions.
+ */
+
+export type DateRangePreset = 'all' | 'today' | 'yesterday' | 'week' | 'month' | 'custom';
+
+export const DATE_RANGE_PRESETS: { value: DateRangePreset; label: string }[] = [
+  { value: 'all', label: 'Semua tanggal' },
+  { value: 'today', label: 'Hari ini' },
+  { value: 'yesterday', label: 'Kemarin' },
+  { value: 'week', label: 'Minggu ini' },
+  { value: 'month', label: 'Bulan ini' },
+  { value: 'custom', label: 'Pilih tanggal' },
+];
+
+// 'split' only matches sales paid with several methods; the others match any tender
+export const PAYMENT_METHOD_FILTERS: { value: string; label: string }[] = [
+  { value: 'cash', label: 'Tunai' },
+  { value: 'qris', label: 'QRIS' },
+  { value: 'transfer', label: 'Debit/Kredit' },
+  { value: 'credit', label: 'Hutang' },
+  { value: 'split', label: 'Kombinasi' },
+];
+
+export interface TransactionFilters {
+  range: DateRangePreset;
+  from: string;        // yyyy-mm-dd, custom range only
+  to: string;          // yyyy-mm-dd inclusive, custom range only
+  method: string;      // '' = any
+  cashier: string;     // cashier_id, '' = any
+  min: string;         // Rupiah, '' = no bound
+  max: string;
+  q: string;
+}
+
+export interface TransactionFilterArgs {
+  _from?: string;
+  _to?: string;
+  _method?: string;
+  _cashier_id?: string;
+  _min_total?: number;
+  _max_total?: number;
+  _search?: string;
+}
+
+const PRESET_VALUES = new Set(DATE_RANGE_PRESETS.map((p) => p.value));
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const parseTransactionFilters = (params: URLSearchParams): TransactionFilters => {
+  const range = params.get('range') as DateRangePreset | null;
+  const date = (key: string) => {
+    const value = params.get(key) || '';
+    return DATE_PATTERN.test(value) ? value : '';
+  };
+  return {
+    range: range && PRESET_VALUES.has(range) ? range : 'all',
+    from: date('from'),
+    to: date('to'),
+    method: params.get('method') || '',
+    cashier: params.get('cashier') || '',
+    min: (params.get('min') || '').replace(/\D/g, ''),
+    max: (params.get('max') || '').replace(/\D/g, ''),
+    q: params.get('q') || '',
+  };
+};
+
+/** Query string for the filters, leaving out everything at its default. */
+export const toTransactionSearchParams = (filters: TransactionFilters): Record<string, string> => {
+  const params: Record<string, string> = {};
+  if (filters.range !== 'all') params.range = filters.range;
+  if (filters.range === 'custom') {
+    if (filters.from) params.from = filters.from;
+    if (filters.to) params.to = filters.to;
+  }
+  if (filters.method) params.method = filters.method;
+  if (filters.cashier) params.cashier = filters.cashier;
+  if (filters.min) params.min = filters.min;
+  if (filters.max) params.max = filters.max;
+  if (filters.q.trim()) params.q = filters.q.trim();
+  return params;
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const parseLocalDate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/** [from, to) in the store's local time; either end may be open. Weeks start on Monday. */
+export const getDateRange = (filters: TransactionFilters, now: Date = new Date()): { from?: Date; to?: Date } => {
+  const today = startOfDay(now);
+  switch (filters.range) {
+    case 'today':
+      return { from: today, to: addDays(today, 1) };
+    case 'yesterday':
+      return { from: addDays(today, -1), to: today };
+    case 'week':
+      return { from: addDays(today, -((today.getDay() + 6) % 7)), to: addDays(today, 1) };
+    case 'month':
+      return { from: new Date(today.getFullYear(), today.getMonth(), 1), to: addDays(today, 1) };
+    case 'custom':
+      return {
+        from: filters.from ? parseLocalDate(filters.from) : undefined,
+        to: filters.to ? addDays(parseLocalDate(filters.to), 1) : undefined,
+      };
+    default:
+      return {};
+  }
+};
+
+export const toTransactionFilterArgs = (filters: TransactionFilters): TransactionFilterArgs => {
+  const { from, to } = getDateRange(filters);
+  const args: TransactionFilterArgs = {};
+  if (from) args._from = from.toISOString();
+  if (to) args._to = to.toISOString();
+  if (filters.method) args._method = filters.method;
+  if (filters.cashier) args._cashier_id = filters.cashier;
+  if (filters.min) args._min_total = Number(filters.min);
+  if (filters.max) args._max_total = Number(filters.max);
+  if (filters.q.trim()) args._search = filters.q.trim();
+  return args;
+};
@@ -101,6 +101,7 @@ ${transaction.discount > 0 ? `- Discount: -${formatRupiah(transaction.discount)}
 
 PAYMENT:
 - Method: ${transaction.payment_method.toUpperCase()}
+${Array.isArray(transaction.payments) && transaction.payments.length > 1 ? transaction.payments.map((p: { method: string; amount: number }) => `  - ${String(p.method).toUpperCase()}: ${formatRupiah(p.amount)}`).join('\n') : ''}
 ${transaction.cash_received ? `- Cash: ${formatRupiah(transaction.cash_received)}` : ''}
 ${transaction.change ? `- Change: ${formatRupiah(transaction.change)}` : ''}
 
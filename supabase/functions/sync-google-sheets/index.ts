@@ -40,7 +40,7 @@ setInterval(() => {
 }, RATE_LIMIT_WINDOW_MS);
 
 // Input validation schemas
-const VALID_ACTIONS = ['getProducts', 'addTransaction', 'updateStock', 'updateInventory', 'addProduct', 'deleteProduct', 'repairPriceFormat', 'updateVariantStock', 'addVariant', 'deleteVariant', 'updateVariantInventory'] as const;
+const VALID_ACTIONS = ['getProducts', 'addTransaction', 'updateStock', 'updateInventory', 'addProduct', 'deleteProduct', 'repairPriceFormat', 'updateVariantStock', 'addVariant', 'deleteVariant', 'updateVariantInventory', 'commitSale', 'addReturn', 'voidSale'] as const;
 type ValidAction = typeof VALID_ACTIONS[number];
 
 function isValidAction(action: string): action is ValidAction {
@@ -229,6 +229,24 @@ async function updateSheetData(accessToken: string, sheetId: string, range: stri
   }
 }
 
+// Write several disjoint ranges in a single request (used to touch only the changed stock cells)
+async function batchUpdateSheetData(accessToken: string, sheetId: string, updates: { range: string; values: (string | number)[][] }[]): Promise<void> {
+  const url = `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values:batchUpdate`;
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ valueInputOption: "USER_ENTERED", data: updates }),
+  });
+
+  if (!response.ok) {
+    console.error("Failed to batch update sheet data");
+    throw new Error("Failed to update data");
+  }
+}
+
 async function getSheetNumericId(accessToken: string, sheetId: string, title: string): Promise<number> {
   const url = `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}?fields=sheets(properties(sheetId,title))`;
   const response = await fetch(url, {
@@ -316,9 +334,89 @@ function normalizeProductsRow(row: any[]): any[] {
     row[8] ?? '', // VariantName
     row[9] !== undefined && row[9] !== '' ? parseRupiah(row[9]) : '', // VariantRetailPrice
     row[10] !== undefined && row[10] !== '' ? parseRupiah(row[10]) : '', // VariantBulkPrice
+    barcodeCell(row[11]), // Barcode
+    row[12] ?? '', // PriceTiers
+    row[13] ?? '', // TaxExempt
   ];
 }
 
+// Write barcodes as text so USER_ENTERED doesn't turn "0012345" into 12345
+function barcodeCell(value: unknown): string {
+  const barcode = String(value ?? '').trim();
+  return /^\d+$/.test(barcode) ? `'${barcode}` : barcode;
+}
+
+// Optional barcode (EAN/UPC/Code128 etc.) - letters, digits and - _ . only
+function validateBarcode(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '';
+  const barcode = validateString(value, 'Barcode', 64).trim();
+  if (!/^[A-Za-z0-9._-]+$/.test(barcode)) {
+    throw new Error('Invalid barcode');
+  }
+  return barcode;
+}
+
+// The POS scanner needs exact, unique matches - returns true if another row already uses the barcode
+function isBarcodeTaken(rows: unknown[][], barcode: string, ignoreRowIndex: number = -1): boolean {
+  return rows.some((row, index) => index !== ignoreRowIndex && String(row[11] ?? '').trim() === barcode);
+}
+
+type PriceTier = { minQty: number; price: number };
+
+// Quantity price breaks (column M), stored as text like "12=9500; 48=9000" (min qty = unit price).
+// Below the first break the normal retail/bulk price applies. Malformed entries are skipped.
+function parsePriceTiers(value: unknown): PriceTier[] {
+  const tiers: PriceTier[] = [];
+  for (const part of String(value ?? '').split(/[;\n]/)) {
+    const match = part.trim().match(/^(\d+)\s*=\s*(.+)$/);
+    if (!match) continue;
+    const minQty = parseInt(match[1], 10);
+    const price = parseRupiah(match[2]);
+    if (minQty >= 2 && price > 0 && !tiers.some((t) => t.minQty === minQty)) {
+      tiers.push({ minQty, price });
+    }
+  }
+  return tiers.sort((a, b) => a.minQty - b.minQty);
+}
+
+function formatPriceTiers(tiers: PriceTier[]): string {
+  return tiers.map((t) => `${t.minQty}=${t.price}`).join('; ');
+}
+
+function validatePriceTiers(value: unknown): PriceTier[] {
+  if (!Array.isArray(value)) {
+    throw new Error('Price tiers must be an array');
+  }
+  if (value.length > 10) {
+    throw new Error('Too many price tiers (max 10)');
+  }
+  const tiers: PriceTier[] = [];
+  for (const tier of value) {
+    const minQty = validateStock(tier?.minQty);
+    if (minQty < 2) {
+      throw new Error('Price tier minimum quantity must be at least 2');
+    }
+    if (tiers.some((t) => t.minQty === minQty)) {
+      throw new Error('Duplicate price tier quantity');
+    }
+    const price = validatePositiveNumber(tier?.price, 'Price tier price');
+    if (price <= 0) {
+      throw new Error('Price tier price must be greater than zero');
+    }
+    tiers.push({ minQty, price });
+  }
+  return tiers.sort((a, b) => a.minQty - b.minQty);
+}
+
+// Tax exemption flag (column N): "YA" marks a product as not subject to PPN
+function parseTaxExempt(value: unknown): boolean {
+  return ['ya', 'y', 'yes', 'true', '1', 'x'].includes(String(value ?? '').trim().toLowerCase());
+}
+
+function taxExemptCell(taxExempt: boolean): string {
+  return taxExempt ? 'YA' : '';
+}
+
 // Helper to parse Indonesian Rupiah format
 function parseRupiah(value: string | number): number {
   if (typeof value === 'number') {
@@ -363,7 +461,7 @@ function normalizeProductIdForMatch(id: string): string {
 // Build products from Products sheet rows, grouping variants by product ID
 // If a row has VariantCode (column H), it's a variant row
 // Products are grouped by ID, with variants aggregated
-function buildProductsFromRows(rows: any[][]): { id: string; name: string; retailPrice: number; bulkPrice: number; purchasePrice: number; stock: number; category: string; variants?: { code: string; name: string; stock: number; retailPrice?: number; bulkPrice?: number }[]; rowIndex: number }[] {
+function buildProductsFromRows(rows: any[][]): { id: string; name: string; retailPrice: number; bulkPrice: number; purchasePrice: number; stock: number; category: string; barcode?: string; priceTiers?: PriceTier[]; taxExempt?: boolean; variants?: { code: string; name: string; stock: number; retailPrice?: number; bulkPrice?: number; barcode?: string }[]; rowIndex: number }[] {
   const productMap = new Map<string, {
     id: string;
     name: string;
@@ -372,7 +470,10 @@ function buildProductsFromRows(rows: any[][]): { id: string; name: string; retai
     purchasePrice: number;
     stock: number;
     category: string;
-    variants: { code: string; name: string; stock: number; retailPrice?: number; bulkPrice?: number; rowIndex: number }[];
+    barcode: string;
+    priceTiers: PriceTier[];
+    taxExempt: boolean;
+    variants: { code: string; name: string; stock: number; retailPrice?: number; bulkPrice?: number; barcode: string; rowIndex: number }[];
     rowIndex: number;
   }>();
 
@@ -389,6 +490,9 @@ function buildProductsFromRows(rows: any[][]): { id: string; name: string; retai
     const variantName = String(row[8] ?? '').trim();
     const variantRetailPrice = row[9] !== undefined && row[9] !== '' ? parseRupiah(row[9]) : undefined;
     const variantBulkPrice = row[10] !== undefined && row[10] !== '' ? parseRupiah(row[10]) : undefined;
+    const barcode = String(row[11] ?? '').trim(); // Column L, per row (product or variant)
+    const priceTiers = parsePriceTiers(row[12]); // Column M, shared by all rows of a product
+    const taxExempt = parseTaxExempt(row[13]); // Column N, shared by all rows of a product
 
     if (!productId) continue;
 
@@ -408,18 +512,24 @@ function buildProductsFromRows(rows: any[][]): { id: string; name: string; retai
           purchasePrice,
           stock: 0, // Will be calculated from variants
           category,
+          barcode: '',
+          priceTiers,
+          taxExempt,
           variants: [],
           rowIndex: i,
         });
       }
       
       const product = productMap.get(normalizedId)!;
+      if (product.priceTiers.length === 0) product.priceTiers = priceTiers;
+      if (taxExempt) product.taxExempt = true;
       product.variants.push({
         code: variantCode || variantName, // Use name as code fallback
         name: variantName || variantCode,
         stock,
         retailPrice: variantRetailPrice,
         bulkPrice: variantBulkPrice,
+        barcode,
         rowIndex: i,
       });
     } else {
@@ -433,6 +543,9 @@ function buildProductsFromRows(rows: any[][]): { id: string; name: string; retai
           purchasePrice,
           stock,
           category,
+          barcode,
+          priceTiers,
+          taxExempt,
           variants: [],
           rowIndex: i,
         });
@@ -440,12 +553,15 @@ function buildProductsFromRows(rows: any[][]): { id: string; name: string; retai
         // Update stock for existing product (non-variant row)
         const product = productMap.get(normalizedId)!;
         product.stock = stock;
+        if (barcode) product.barcode = barcode;
+        if (product.priceTiers.length === 0) product.priceTiers = priceTiers;
+        if (taxExempt) product.taxExempt = true;
       }
     }
   }
 
   // Calculate total stock from variants if they exist
-  const products: { id: string; name: string; retailPrice: number; bulkPrice: number; purchasePrice: number; stock: number; category: string; variants?: { code: string; name: string; stock: number; retailPrice?: number; bulkPrice?: number }[]; rowIndex: number }[] = [];
+  const products: { id: string; name: string; retailPrice: number; bulkPrice: number; purchasePrice: number; stock: number; category: string; barcode?: string; priceTiers?: PriceTier[]; taxExempt?: boolean; variants?: { code: string; name: string; stock: number; retailPrice?: number; bulkPrice?: number; barcode?: string }[]; rowIndex: number }[] = [];
   
   for (const product of productMap.values()) {
     if (product.variants.length > 0) {
@@ -458,12 +574,16 @@ function buildProductsFromRows(rows: any[][]): { id: string; name: string; retai
         purchasePrice: product.purchasePrice,
         stock: product.stock,
         category: product.category,
+        ...(product.barcode ? { barcode: product.barcode } : {}),
+        ...(product.priceTiers.length > 0 ? { priceTiers: product.priceTiers } : {}),
+        ...(product.taxExempt ? { taxExempt: true } : {}),
         variants: product.variants.map(v => ({ 
           code: v.code, 
           name: v.name, 
           stock: v.stock,
           ...(v.retailPrice !== undefined ? { retailPrice: v.retailPrice } : {}),
           ...(v.bulkPrice !== undefined ? { bulkPrice: v.bulkPrice } : {}),
+          ...(v.barcode ? { barcode: v.barcode } : {}),
         })),
         rowIndex: product.rowIndex,
       });
@@ -476,6 +596,9 @@ function buildProductsFromRows(rows: any[][]): { id: string; name: string; retai
         purchasePrice: product.purchasePrice,
         stock: product.stock,
         category: product.category,
+        ...(product.barcode ? { barcode: product.barcode } : {}),
+        ...(product.priceTiers.length > 0 ? { priceTiers: product.priceTiers } : {}),
+        ...(product.taxExempt ? { taxExempt: true } : {}),
         rowIndex: product.rowIndex,
       });
     }
@@ -484,6 +607,115 @@ function buildProductsFromRows(rows: any[][]): { id: string; name: string; retai
   return products;
 }
 
+// Stock movement for one product or variant row (quantity is always positive)
+interface StockMovement {
+  productId: string;
+  variantCode: string;
+  quantity: number;
+}
+
+interface StockChange {
+  rowIndex: number;
+  productId: string;
+  variantCode: string;
+  stock: number;
+}
+
+// Validate sale/return lines and aggregate them per product/variant,
+// so duplicate cart lines move stock once
+function parseStockMovements(items: { productId?: unknown; variantCode?: unknown; quantity?: unknown }[]): Map<string, StockMovement> {
+  const movements = new Map<string, StockMovement>();
+  for (const item of items) {
+    validateString(item?.productId, 'Product ID', 50);
+    const variantCode = item.variantCode ? validateString(item.variantCode, 'Variant Code', 50).trim() : '';
+    const quantity = validatePositiveNumber(item.quantity, 'Quantity', 10000);
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new Error('Quantity must be a positive whole number');
+    }
+
+    const key = `${normalizeProductIdForMatch(String(item.productId))}|${variantCode.toUpperCase()}`;
+    const existing = movements.get(key);
+    if (existing) {
+      existing.quantity += quantity;
+    } else {
+      movements.set(key, { productId: String(item.productId), variantCode, quantity });
+    }
+  }
+  return movements;
+}
+
+// Work out new stock values relative to what the sheet holds right now.
+// direction -1 sells (decrement), +1 restocks (returns/voids).
+// Variant rows match on code (H) or, like buildProductsFromRows, on name (I) when the code is empty.
+function planStockChanges(rows: unknown[][], movements: Map<string, StockMovement>, direction: 1 | -1): {
+  changes: StockChange[];
+  notFound: { productId: string; variantCode?: string }[];
+  oversells: { productId: string; variantCode?: string; requested: number; available: number }[];
+} {
+  const rowIndexByKey = new Map<string, number>();
+  rows.forEach((row, index) => {
+    const productKey = normalizeProductIdForMatch(String(row[0] ?? '').trim());
+    const variantCode = String(row[7] ?? '').trim();
+    const variantName = String(row[8] ?? '').trim();
+    const key = `${productKey}|${(variantCode || variantName).toUpperCase()}`;
+    if (!rowIndexByKey.has(key)) {
+      rowIndexByKey.set(key, index);
+    }
+  });
+
+  const changes: StockChange[] = [];
+  const notFound: { productId: string; variantCode?: string }[] = [];
+  const oversells: { productId: string; variantCode?: string; requested: number; available: number }[] = [];
+
+  for (const [key, movement] of movements) {
+    const variantInfo = movement.variantCode ? { variantCode: movement.variantCode } : {};
+    const rowIndex = rowIndexByKey.get(key);
+    if (rowIndex === undefined) {
+      notFound.push({ productId: movement.productId, ...variantInfo });
+      continue;
+    }
+
+    const currentStock = parseInt(String(rows[rowIndex][5]).replace(/[^\d]/g, '')) || 0;
+    const newStock = currentStock + direction * movement.quantity;
+    if (newStock < 0) {
+      oversells.push({ productId: movement.productId, ...variantInfo, requested: movement.quantity, available: currentStock });
+    }
+
+    changes.push({
+      rowIndex,
+      productId: movement.productId,
+      variantCode: movement.variantCode,
+      stock: Math.max(0, newStock),
+    });
+  }
+
+  return { changes, notFound, oversells };
+}
+
+// Write only the touched stock cells (column F); sheet rows start at 2 (row 1 is the header)
+async function writeStockChanges(accessToken: string, sheetId: string, changes: StockChange[]): Promise<void> {
+  await batchUpdateSheetData(
+    accessToken,
+    sheetId,
+    changes.map((c) => ({ range: `Products!F${c.rowIndex + 2}`, values: [[c.stock]] }))
+  );
+}
+
+// Fresh stock levels for every product touched by the changes, so the client can apply them directly
+function collectStockLevels(rows: unknown[][], changes: StockChange[]): { id: string; stock: number; variants?: { code: string; stock: number }[] }[] {
+  for (const c of changes) {
+    rows[c.rowIndex][5] = c.stock;
+  }
+  const touchedProductKeys = new Set(changes.map((c) => normalizeProductIdForMatch(c.productId)));
+  return buildProductsFromRows(rows)
+    .filter((p) => touchedProductKeys.has(normalizeProductIdForMatch(p.id)))
+    .map((p) => ({
+      id: p.id,
+      stock: p.stock,
+      ...(p.variants ? { variants: p.variants.map((v) => ({ code: v.code, stock: v.stock })) } : {}),
+    }));
+}
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === "OPTIONS") {
@@ -507,7 +739,7 @@ serve(async (req) => {
     }
 
     // Actions that require authentication
-    const authRequiredActions = ['addTransaction', 'updateStock', 'updateInventory', 'addProduct', 'updateVariantStock', 'addVariant', 'deleteVariant', 'updateVariantInventory'];
+    const authRequiredActions = ['addTransaction', 'updateStock', 'updateInventory', 'addProduct', 'updateVariantStock', 'addVariant', 'deleteVariant', 'updateVariantInventory', 'commitSale', 'addReturn', 'voidSale'];
     
     let user = null;
     
@@ -590,8 +822,8 @@ serve(async (req) => {
       
       console.log(`[${requestId}] Using bulk price percentage: ${bulkPricePercentage}%`);
       
-      // Read Products sheet with variant columns (A-I)
-      const rows = await getSheetData(accessToken, sheetId, "Products!A2:K");
+      // Read Products sheet with variant, barcode, price tier and tax columns (A-N)
+      const rows = await getSheetData(accessToken, sheetId, "Products!A2:N");
       
       // Build products with variants grouped
       const builtProducts = buildProductsFromRows(rows);
@@ -616,6 +848,9 @@ serve(async (req) => {
           purchasePrice: product.purchasePrice,
           stock: product.stock,
           category: product.category,
+          ...(product.barcode ? { barcode: product.barcode } : {}),
+          ...(product.priceTiers ? { priceTiers: product.priceTiers } : {}),
+          ...(product.taxExempt ? { taxExempt: true } : {}),
           ...(product.variants ? { variants: product.variants } : {}),
         };
       });
@@ -635,7 +870,7 @@ serve(async (req) => {
         });
 
         // Fire and forget - update in background, and re-apply currency format (best effort)
-        updateSheetData(accessToken, sheetId, "Products!A2:K", updatedRows)
+        updateSheetData(accessToken, sheetId, "Products!A2:N", updatedRows)
           .then(() => ensureProductsCurrencyFormat(accessToken, sheetId))
           .then(() => console.log(`Updated ${productsToUpdate.length} products with default bulk prices`))
           .catch((err: unknown) => console.error('Failed to update bulk prices:', err));
@@ -649,6 +884,7 @@ serve(async (req) => {
       });
     }
 
+    // The sale id is claimed in sheet_transaction_appends first, so a retried sale is appended once.
     if (action === "addTransaction") {
       const { receipt } = data || {};
       
@@ -666,17 +902,63 @@ serve(async (req) => {
       if (receipt.discount !== undefined) {
         validatePositiveNumber(receipt.discount, 'Discount');
       }
+      if (receipt.voucher !== undefined) {
+        validateString(receipt.voucher?.code, 'Voucher code', 32);
+        validatePositiveNumber(receipt.voucher?.discount, 'Voucher discount');
+      }
+      if (receipt.loyalty !== undefined) {
+        validateString(receipt.loyalty?.phone, 'Loyalty phone', 15);
+        validatePositiveNumber(receipt.loyalty?.pointsDiscount, 'Points discount');
+      }
+      if (receipt.tax !== undefined) {
+        if (!['inclusive', 'exclusive'].includes(receipt.tax?.mode)) {
+          throw new Error('Invalid tax mode');
+        }
+        validatePositiveNumber(receipt.tax?.base, 'Tax base');
+        validatePositiveNumber(receipt.tax?.amount, 'Tax amount');
+      }
+      if (receipt.serviceCharge !== undefined) {
+        validatePositiveNumber(receipt.serviceCharge?.rate, 'Service charge rate', 100);
+        validatePositiveNumber(receipt.serviceCharge?.amount, 'Service charge');
+      }
+      if (receipt.rounding !== undefined && (typeof receipt.rounding !== 'number' || Math.abs(receipt.rounding) > 1000)) {
+        throw new Error('Invalid cash rounding');
+      }
       
-      const validPaymentMethods = ['cash', 'transfer', 'qris'];
+      const validPaymentMethods = ['cash', 'transfer', 'qris', 'credit'];
       const paymentMethod = String(receipt.paymentMethod || '').toLowerCase();
-      if (!validPaymentMethods.includes(paymentMethod)) {
+      if (!validPaymentMethods.includes(paymentMethod) && paymentMethod !== 'split') {
         return new Response(
           JSON.stringify({ error: 'Invalid payment method' }),
           { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
 
+      // Split payments: every tender needs a known method and an amount
+      const payments: { method: string; amount: number; reference?: string }[] = Array.isArray(receipt.payments) ? receipt.payments : [];
+      for (const payment of payments) {
+        if (!validPaymentMethods.includes(String(payment?.method || '').toLowerCase())) {
+          return new Response(
+            JSON.stringify({ error: 'Invalid payment method' }),
+            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+        validatePositiveNumber(payment.amount, 'Payment amount');
+        if (payment.reference !== undefined) {
+          validateString(payment.reference, 'Payment reference', 100);
+        }
+      }
+      if (paymentMethod === 'split' && payments.length < 2) {
+        return new Response(
+          JSON.stringify({ error: 'Split payment requires at least two payments' }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
       const customerPhone = validatePhoneNumber(receipt.customerPhone);
+      if (receipt.cashier?.name !== undefined) {
+        validateString(receipt.cashier.name, 'Cashier name', 100);
+      }
 
       // Validate items
       for (const item of receipt.items) {
@@ -702,20 +984,60 @@ serve(async (req) => {
         return `${sanitizeForSheets(item.product.name)}${variantInfo} x${item.quantity} (${item.priceType === 'retail' ? 'Eceran' : 'Grosir'})`;
       }).join("; ");
 
+      // e.g. "cash 50000; qris 30000 (ref 1234)"
+      const paymentsSummary = payments.map((p) => {
+        const ref = p.reference ? ` (ref ${p.reference})` : '';
+        return `${String(p.method).toLowerCase()} ${p.amount}${ref}`;
+      }).join("; ");
+
       const row = [
         sanitizeForSheets(receipt.id),
         new Date(receipt.timestamp).toLocaleString("id-ID"),
         sanitizeForSheets(itemsSummary),
         receipt.subtotal,
-        receipt.discount || 0,
+        // Voucher and points discounts are folded into the discount column so Subtotal - Discount = Total
+        // (plus service charge, PPN when prices exclude tax, and cash rounding)
+        (receipt.discount || 0) + (receipt.voucher?.discount || 0) + (receipt.loyalty?.pointsDiscount || 0),
         receipt.total,
         receipt.paymentMethod,
         receipt.cashReceived || "",
         receipt.change || "",
         sanitizeForSheets(customerPhone),
+        sanitizeForSheets(paymentsSummary),
+        "", // Void status (L), filled in by voidSale
+        receipt.tax?.base ?? "", // DPP (M)
+        receipt.tax?.amount ?? "", // PPN (N)
+        receipt.rounding ?? "", // Cash rounding (O)
+        sanitizeForSheets(receipt.cashier?.name || ""), // Cashier (P)
+        receipt.serviceCharge?.amount ?? "", // Service charge (Q)
       ];
 
-      await appendSheetData(accessToken, sheetId, "Transactions!A:J", [row]);
+      const serviceClient = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+      );
+
+      // The primary key settles retries and two requests for the same sale racing each other
+      const { error: claimError } = await serviceClient
+        .from('sheet_transaction_appends')
+        .insert({ sale_id: receipt.id, appended_by: user?.id ?? null });
+      if (claimError?.code === '23505') {
+        console.log(`[${requestId}] addTransaction ${receipt.id}: already appended, skipping`);
+        return new Response(JSON.stringify({ success: true, duplicate: true }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      if (claimError) {
+        throw new Error(claimError.message);
+      }
+
+      try {
+        await appendSheetData(accessToken, sheetId, "Transactions!A:Q", [row]);
+      } catch (appendError) {
+        // Nothing was appended: release the claim so the outbox can retry
+        await serviceClient.from('sheet_transaction_appends').delete().eq('sale_id', receipt.id);
+        throw appendError;
+      }
 
       console.log(`[${requestId}] Transaction ${receipt.id} added successfully`);
 
@@ -740,7 +1062,7 @@ serve(async (req) => {
         validateStock(update.stock);
       }
 
-      const rows = await getSheetData(accessToken, sheetId, "Products!A2:K");
+      const rows = await getSheetData(accessToken, sheetId, "Products!A2:N");
 
       const updatesByKey = new Map<string, { id: string; stock: number }>();
       for (const u of stockUpdates) {
@@ -785,7 +1107,7 @@ serve(async (req) => {
         );
       }
 
-      await updateSheetData(accessToken, sheetId, "Products!A2:K", updatedRows);
+      await updateSheetData(accessToken, sheetId, "Products!A2:N", updatedRows);
       await ensureProductsCurrencyFormat(accessToken, sheetId);
 
       console.log(`[${requestId}] Stock updated for ${stockUpdates.length} products`);
@@ -795,6 +1117,326 @@ serve(async (req) => {
       });
     }
 
+    // Action: Commit a sale's stock movement.
+    // Decrements are applied relative to the current sheet value (not a client-computed
+    // absolute number), variant rows included, and only the touched stock cells are written.
+    // The sale id is claimed in sheet_stock_commits first, so a retried sale moves stock once.
+    if (action === "commitSale") {
+      const { saleId, items, allowOversell } = data || {};
+
+      if (!items || !Array.isArray(items) || items.length === 0) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid sale data' }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (saleId !== undefined) {
+        validateString(saleId, 'Sale ID', 100);
+      }
+
+      const serviceClient = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+      );
+
+      if (saleId !== undefined) {
+        const { data: committed, error: commitLookupError } = await serviceClient
+          .from('sheet_stock_commits')
+          .select('sale_id')
+          .eq('sale_id', saleId)
+          .maybeSingle();
+        if (commitLookupError) {
+          throw new Error(commitLookupError.message);
+        }
+        if (committed) {
+          console.log(`[${requestId}] commitSale ${saleId}: already committed, skipping`);
+          return new Response(JSON.stringify({ success: true, products: [], oversells: [], duplicate: true }), {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+      }
+
+      const movements = parseStockMovements(items);
+      const rows = await getSheetData(accessToken, sheetId, "Products!A2:N");
+      const { changes, notFound, oversells } = planStockChanges(rows, movements, -1);
+
+      if (notFound.length > 0) {
+        console.log(`[${requestId}] commitSale: items not found in sheet: ${JSON.stringify(notFound)}`);
+        return new Response(
+          JSON.stringify({
+            error: 'Some products were not found in Google Sheets (ID mismatch)',
+            notFoundIds: notFound.map((n) => n.variantCode ? `${n.productId}/${n.variantCode}` : n.productId),
+          }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (oversells.length > 0 && !allowOversell) {
+        console.log(`[${requestId}] commitSale: rejected oversell ${JSON.stringify(oversells)}`);
+        return new Response(
+          JSON.stringify({ error: 'Insufficient stock', oversells }),
+          { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (saleId !== undefined) {
+        // The primary key settles two requests for the same sale racing each other
+        const { error: claimError } = await serviceClient
+          .from('sheet_stock_commits')
+          .insert({ sale_id: saleId, committed_by: user?.id ?? null });
+        if (claimError?.code === '23505') {
+          console.log(`[${requestId}] commitSale ${saleId}: committed by a concurrent request, skipping`);
+          return new Response(JSON.stringify({ success: true, products: [], oversells: [], duplicate: true }), {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+        if (claimError) {
+          throw new Error(claimError.message);
+        }
+      }
+
+      try {
+        await writeStockChanges(accessToken, sheetId, changes);
+      } catch (writeError) {
+        // Nothing was written: release the claim so the outbox can retry
+        if (saleId !== undefined) {
+          await serviceClient.from('sheet_stock_commits').delete().eq('sale_id', saleId);
+        }
+        throw writeError;
+      }
+      const products = collectStockLevels(rows, changes);
+
+      if (oversells.length > 0) {
+        console.log(`[${requestId}] commitSale${saleId ? ` ${saleId}` : ''}: oversold ${JSON.stringify(oversells)}`);
+      }
+      console.log(`[${requestId}] commitSale${saleId ? ` ${saleId}` : ''}: stock decremented for ${changes.length} rows`);
+
+      return new Response(JSON.stringify({ success: true, products, oversells }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Action: Finish a return that was recorded in the database (check_return priced it).
+    // Puts the returned quantities back on the stock rows and appends a negative row
+    // to the Transactions tab so sheet totals net the refund out. Both come from the
+    // stored return, not from the client, and only once.
+    if (action === "addReturn") {
+      const { returnId } = data || {};
+      validateString(returnId, 'Return ID', 100);
+
+      const serviceClient = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+      );
+
+      const { data: returnRecord, error: fetchError } = await serviceClient
+        .from('transaction_returns')
+        .select('id, transaction_id, items, total_refund, refund_method, created_at, stock_restored, transactions(customer_phone)')
+        .eq('id', returnId)
+        .maybeSingle();
+
+      if (fetchError) {
+        throw new Error(fetchError.message);
+      }
+
+      if (!returnRecord) {
+        return new Response(
+          JSON.stringify({ error: 'Return not found' }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (returnRecord.stock_restored) {
+        console.log(`[${requestId}] addReturn ${returnId}: already restored, skipping`);
+        return new Response(JSON.stringify({ success: true, products: [], notRestocked: [] }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      const returnItems: { productId?: string; productName?: string; variantCode?: string; variantName?: string; quantity?: number }[] =
+        Array.isArray(returnRecord.items) ? returnRecord.items : [];
+      const movements = parseStockMovements(returnItems);
+      const rows = await getSheetData(accessToken, sheetId, "Products!A2:N");
+      const { changes, notFound } = planStockChanges(rows, movements, 1);
+
+      // Set the flag before touching the sheet, and only if it is still unset, so a retry or
+      // a concurrent request for the same return can't restock or append the row twice
+      const { data: claimed, error: claimError } = await serviceClient
+        .from('transaction_returns')
+        .update({ stock_restored: true })
+        .eq('id', returnId)
+        .eq('stock_restored', false)
+        .select('id');
+
+      if (claimError) {
+        throw new Error(claimError.message);
+      }
+      if (!claimed || claimed.length === 0) {
+        console.log(`[${requestId}] addReturn ${returnId}: restored by a concurrent request, skipping`);
+        return new Response(JSON.stringify({ success: true, products: [], notRestocked: [] }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      if (changes.length > 0) {
+        try {
+          await writeStockChanges(accessToken, sheetId, changes);
+        } catch (writeError) {
+          // Nothing was written: clear the flag so the return can be retried
+          await serviceClient.from('transaction_returns').update({ stock_restored: false }).eq('id', returnId);
+          throw writeError;
+        }
+      }
+
+      // Items deleted from the sheet since the sale can't be restocked, but the refund still stands
+      if (notFound.length > 0) {
+        console.log(`[${requestId}] addReturn ${returnId}: items not restocked (not in sheet): ${JSON.stringify(notFound)}`);
+      }
+
+      const itemsSummary = returnItems.map((item) => {
+        const variantInfo = item.variantName ? ` [${sanitizeForSheets(String(item.variantName))}]` : '';
+        return `${sanitizeForSheets(String(item.productName || ''))}${variantInfo} x${Number(item.quantity) || 0}`;
+      }).join("; ");
+      const totalRefund = Number(returnRecord.total_refund) || 0;
+
+      const row = [
+        sanitizeForSheets(returnRecord.id),
+        new Date(returnRecord.created_at).toLocaleString("id-ID"),
+        sanitizeForSheets(`RETUR ${returnRecord.transaction_id}: ${itemsSummary}`),
+        -totalRefund,
+        0,
+        -totalRefund,
+        String(returnRecord.refund_method).toLowerCase(),
+        "",
+        "",
+        sanitizeForSheets(validatePhoneNumber(returnRecord.transactions?.customer_phone)),
+        "",
+      ];
+
+      await appendSheetData(accessToken, sheetId, "Transactions!A:K", [row]);
+
+      const products = collectStockLevels(rows, changes);
+
+      console.log(`[${requestId}] Return ${returnId} for ${returnRecord.transaction_id} recorded, ${changes.length} stock rows restored`);
+
+      return new Response(JSON.stringify({
+        success: true,
+        products,
+        notRestocked: notFound,
+      }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Action: Finish a void that was approved in the database (void_transaction).
+    // Stock comes back from the stored sale lines, not from the client, and only once;
+    // the Transactions row is kept and flagged in column L.
+    if (action === "voidSale") {
+      const { transactionId } = data || {};
+      validateString(transactionId, 'Transaction ID', 100);
+
+      const serviceClient = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+      );
+
+      const { data: transaction, error: fetchError } = await serviceClient
+        .from('transactions')
+        .select('id, items, voided_at, void_reason, void_stock_restored')
+        .eq('id', transactionId)
+        .maybeSingle();
+
+      if (fetchError) {
+        throw new Error(fetchError.message);
+      }
+
+      if (!transaction || !transaction.voided_at) {
+        return new Response(
+          JSON.stringify({ error: 'Transaction is not voided' }),
+          { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (transaction.void_stock_restored) {
+        console.log(`[${requestId}] voidSale ${transactionId}: already restored, skipping`);
+        return new Response(JSON.stringify({ success: true, products: [], notRestocked: [] }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      const saleItems: { product?: { id?: string }; variantCode?: string; quantity?: number }[] =
+        Array.isArray(transaction.items) ? transaction.items : [];
+      const movements = parseStockMovements(
+        saleItems
+          .filter((item) => item?.product?.id)
+          .map((item) => ({
+            productId: item.product?.id,
+            variantCode: item.variantCode,
+            quantity: Number(item.quantity) || 0,
+          }))
+      );
+
+      const rows = await getSheetData(accessToken, sheetId, "Products!A2:N");
+      const { changes, notFound } = planStockChanges(rows, movements, 1);
+
+      // Set the flag before touching stock, and only if it is still unset, so a retry or a
+      // concurrent request for the same void can't restock twice
+      const { data: claimed, error: claimError } = await serviceClient
+        .from('transactions')
+        .update({ void_stock_restored: true })
+        .eq('id', transactionId)
+        .eq('void_stock_restored', false)
+        .select('id');
+
+      if (claimError) {
+        throw new Error(claimError.message);
+      }
+      if (!claimed || claimed.length === 0) {
+        console.log(`[${requestId}] voidSale ${transactionId}: restored by a concurrent request, skipping`);
+        return new Response(JSON.stringify({ success: true, products: [], notRestocked: [] }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      if (changes.length > 0) {
+        try {
+          await writeStockChanges(accessToken, sheetId, changes);
+        } catch (writeError) {
+          // Nothing was written: clear the flag so the void can be retried
+          await serviceClient.from('transactions').update({ void_stock_restored: false }).eq('id', transactionId);
+          throw writeError;
+        }
+      }
+
+      if (notFound.length > 0) {
+        console.log(`[${requestId}] voidSale ${transactionId}: items not restocked (not in sheet): ${JSON.stringify(notFound)}`);
+      }
+
+      // Flag the sale row; row 1 of the tab is the header
+      const idColumn = await getSheetData(accessToken, sheetId, "Transactions!A:A");
+      const sheetRowIndex = idColumn.findIndex((r) => String(r[0] ?? '').replace(/^'/, '') === transactionId);
+      if (sheetRowIndex >= 0) {
+        await updateSheetData(accessToken, sheetId, `Transactions!L${sheetRowIndex + 1}`, [
+          [sanitizeForSheets(`VOID: ${transaction.void_reason || ''}`)],
+        ]);
+      } else {
+        console.log(`[${requestId}] voidSale ${transactionId}: row not found in Transactions tab`);
+      }
+
+      const products = collectStockLevels(rows, changes);
+
+      console.log(`[${requestId}] Sale ${transactionId} voided, ${changes.length} stock rows restored`);
+
+      return new Response(JSON.stringify({
+        success: true,
+        products,
+        notRestocked: notFound,
+      }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
     // New action: Update variant stock (in Products sheet - column F is stock, column H is VariantCode)
     if (action === "updateVariantStock") {
       const { variantUpdates } = data || {};
@@ -813,7 +1455,7 @@ serve(async (req) => {
         validateStock(update.stock);
       }
 
-      const rows = await getSheetData(accessToken, sheetId, "Products!A2:K");
+      const rows = await getSheetData(accessToken, sheetId, "Products!A2:N");
 
       // Create a map for quick lookup: "normalizedProductId|variantCode" -> update
       const updatesByKey = new Map<string, { productId: string; variantCode: string; stock: number }>();
@@ -861,7 +1503,7 @@ serve(async (req) => {
         );
       }
 
-      await updateSheetData(accessToken, sheetId, "Products!A2:K", updatedRows);
+      await updateSheetData(accessToken, sheetId, "Products!A2:N", updatedRows);
       await ensureProductsCurrencyFormat(accessToken, sheetId);
 
       console.log(`[${requestId}] Variant stock updated for ${variantUpdates.length} variants`);
@@ -893,12 +1535,15 @@ serve(async (req) => {
         if (update.bulkPrice !== undefined && update.bulkPrice !== '') {
           validatePositiveNumber(update.bulkPrice, 'Variant Bulk Price');
         }
+        if (update.barcode !== undefined) {
+          update.barcode = validateBarcode(update.barcode);
+        }
       }
 
-      const rows = await getSheetData(accessToken, sheetId, "Products!A2:K");
+      const rows = await getSheetData(accessToken, sheetId, "Products!A2:N");
 
       // Create a map for quick lookup: "normalizedProductId|variantCode" -> update
-      const updatesByKey = new Map<string, { productId: string; variantCode: string; stock?: number; retailPrice?: number | ''; bulkPrice?: number | '' }>();
+      const updatesByKey = new Map<string, { productId: string; variantCode: string; stock?: number; retailPrice?: number | ''; bulkPrice?: number | ''; barcode?: string }>();
       for (const u of variantUpdates) {
         const key = `${normalizeProductIdForMatch(String(u.productId))}|${String(u.variantCode).toUpperCase()}`;
         updatesByKey.set(key, { 
@@ -907,12 +1552,14 @@ serve(async (req) => {
           stock: u.stock,
           retailPrice: u.retailPrice,
           bulkPrice: u.bulkPrice,
+          barcode: u.barcode,
         });
       }
 
       const appliedKeys = new Set<string>();
+      let barcodeConflict = false;
 
-      const updatedRows = rows.map((row) => {
+      const updatedRows = rows.map((row, rowIndex) => {
         const productId = String(row[0] ?? '').trim();
         const variantCode = String(row[7] ?? '').trim(); // Column H is VariantCode
         
@@ -937,6 +1584,12 @@ serve(async (req) => {
           if (update.bulkPrice !== undefined) {
             normalized[10] = update.bulkPrice === '' ? '' : update.bulkPrice; // VariantBulkPrice (K)
           }
+          if (update.barcode !== undefined) {
+            if (update.barcode && isBarcodeTaken(rows, update.barcode, rowIndex)) {
+              barcodeConflict = true;
+            }
+            normalized[11] = barcodeCell(update.barcode); // Barcode (L)
+          }
         }
 
         return normalized;
@@ -947,6 +1600,13 @@ serve(async (req) => {
         return !appliedKeys.has(key);
       });
 
+      if (barcodeConflict) {
+        return new Response(
+          JSON.stringify({ error: 'Barcode already used by another product' }),
+          { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
       if (notFoundUpdates.length > 0) {
         console.log(`[${requestId}] updateVariantInventory: Variants not found: ${JSON.stringify(notFoundUpdates)}`);
         return new Response(
@@ -958,7 +1618,7 @@ serve(async (req) => {
         );
       }
 
-      await updateSheetData(accessToken, sheetId, "Products!A2:K", updatedRows);
+      await updateSheetData(accessToken, sheetId, "Products!A2:N", updatedRows);
       await ensureProductsCurrencyFormat(accessToken, sheetId);
 
       console.log(`[${requestId}] Variant inventory updated for ${variantUpdates.length} variants`);
@@ -969,7 +1629,7 @@ serve(async (req) => {
     }
 
     if (action === "addVariant") {
-      const { productId, variantCode, variantName, stock, retailPrice, bulkPrice } = data || {};
+      const { productId, variantCode, variantName, stock, retailPrice, bulkPrice, barcode } = data || {};
 
       if (!productId || typeof productId !== 'string') {
         return new Response(
@@ -984,9 +1644,17 @@ serve(async (req) => {
       const validatedStock = validateStock(stock ?? 0);
       const validatedRetailPrice = retailPrice !== undefined && retailPrice !== '' ? validatePositiveNumber(retailPrice, 'Variant Retail Price') : '';
       const validatedBulkPrice = bulkPrice !== undefined && bulkPrice !== '' ? validatePositiveNumber(bulkPrice, 'Variant Bulk Price') : '';
+      const validatedBarcode = validateBarcode(barcode);
 
       // Get existing products to find the product data
-      const rows = await getSheetData(accessToken, sheetId, "Products!A2:K");
+      const rows = await getSheetData(accessToken, sheetId, "Products!A2:N");
+
+      if (validatedBarcode && isBarcodeTaken(rows, validatedBarcode)) {
+        return new Response(
+          JSON.stringify({ error: 'Barcode already used by another product' }),
+          { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
 
       // Find the product (any row with matching ID)
       let productData: any[] | null = null;
@@ -1033,9 +1701,12 @@ serve(async (req) => {
         sanitizeForSheets(validatedVariantName), // VariantName
         validatedRetailPrice, // VariantRetailPrice (optional)
         validatedBulkPrice, // VariantBulkPrice (optional)
+        barcodeCell(validatedBarcode), // Barcode (optional)
+        productData[12] ?? '', // PriceTiers (shared with the product)
+        productData[13] ?? '', // TaxExempt (shared with the product)
       ];
 
-      await appendSheetData(accessToken, sheetId, "Products!A:K", [newVariantRow]);
+      await appendSheetData(accessToken, sheetId, "Products!A:N", [newVariantRow]);
       await ensureProductsCurrencyFormat(accessToken, sheetId);
 
       console.log(`[${requestId}] Variant ${validatedVariantCode} added to product ${validatedProductId}`);
@@ -1066,7 +1737,7 @@ serve(async (req) => {
       const validatedProductId = validateString(productId, 'Product ID', 50);
       const validatedVariantCode = validateString(variantCode, 'Variant Code', 50);
 
-      const rows = await getSheetData(accessToken, sheetId, "Products!A2:K");
+      const rows = await getSheetData(accessToken, sheetId, "Products!A2:N");
       const normalizedRequestId = normalizeProductIdForMatch(validatedProductId);
 
       // Find the row index of the variant to delete
@@ -1154,9 +1825,15 @@ serve(async (req) => {
         if (update.stock !== undefined) {
           validateStock(update.stock);
         }
+        if (update.priceTiers !== undefined) {
+          update.priceTiers = validatePriceTiers(update.priceTiers);
+        }
+        if (update.taxExempt !== undefined && typeof update.taxExempt !== 'boolean') {
+          throw new Error('Tax exemption must be true or false');
+        }
       }
 
-      const rows = await getSheetData(accessToken, sheetId, "Products!A2:K");
+      const rows = await getSheetData(accessToken, sheetId, "Products!A2:N");
 
       const updatesByKey = new Map<string, any>();
       for (const u of inventoryUpdates) {
@@ -1183,6 +1860,12 @@ serve(async (req) => {
           normalized[3] = newBulkPrice;
           normalized[4] = newPurchasePrice;
           normalized[5] = newStock;
+          if (update.priceTiers !== undefined) {
+            normalized[12] = formatPriceTiers(update.priceTiers); // PriceTiers (M), every row of the product
+          }
+          if (update.taxExempt !== undefined) {
+            normalized[13] = taxExemptCell(update.taxExempt); // TaxExempt (N), every row of the product
+          }
         }
 
         return normalized;
@@ -1203,7 +1886,7 @@ serve(async (req) => {
         );
       }
 
-      await updateSheetData(accessToken, sheetId, "Products!A2:K", updatedRows);
+      await updateSheetData(accessToken, sheetId, "Products!A2:N", updatedRows);
       await ensureProductsCurrencyFormat(accessToken, sheetId);
 
       console.log(`[${requestId}] Inventory updated for ${inventoryUpdates.length} products`);
@@ -1230,9 +1913,17 @@ serve(async (req) => {
       const retailPrice = validatePositiveNumber(product.retailPrice, 'Retail price');
       const bulkPrice = validatePositiveNumber(product.bulkPrice, 'Bulk price');
       const stock = validateStock(product.stock);
+      const barcode = validateBarcode(product.barcode);
 
       // Get existing products to generate a unique ID
-      const rows = await getSheetData(accessToken, sheetId, "Products!A2:K");
+      const rows = await getSheetData(accessToken, sheetId, "Products!A2:N");
+
+      if (barcode && isBarcodeTaken(rows, barcode)) {
+        return new Response(
+          JSON.stringify({ error: 'Barcode already used by another product' }),
+          { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
       
       // Generate unique ID (format: P001, P002, etc.)
       let maxId = 0;
@@ -1246,7 +1937,7 @@ serve(async (req) => {
       }
       const newId = `P${String(maxId + 1).padStart(3, '0')}`;
 
-      // Append new product row: [id, name, retailPrice, bulkPrice, purchasePrice, stock, category, variantCode, variantName, variantRetailPrice, variantBulkPrice]
+      // Append new product row: [id, name, retailPrice, bulkPrice, purchasePrice, stock, category, variantCode, variantName, variantRetailPrice, variantBulkPrice, barcode, priceTiers, taxExempt]
       const newRow = [
         newId,
         sanitizeForSheets(name),
@@ -1259,9 +1950,12 @@ serve(async (req) => {
         '', // VariantName (empty for non-variant products)
         '', // VariantRetailPrice (empty for non-variant products)
         '', // VariantBulkPrice (empty for non-variant products)
+        barcodeCell(barcode), // Barcode (optional)
+        '', // PriceTiers (set later from Inventory)
+        '', // TaxExempt (set later from Inventory)
       ];
 
-      await appendSheetData(accessToken, sheetId, "Products!A:K", [newRow]);
+      await appendSheetData(accessToken, sheetId, "Products!A:N", [newRow]);
       await ensureProductsCurrencyFormat(accessToken, sheetId);
 
       console.log(`[${requestId}] Product ${newId} added successfully`);
@@ -1282,7 +1976,7 @@ serve(async (req) => {
       }
 
       // Get existing products
-      const rows = await getSheetData(accessToken, sheetId, "Products!A2:K");
+      const rows = await getSheetData(accessToken, sheetId, "Products!A2:N");
       
       // Find the row index of the product to delete
       let rowIndexToDelete = -1;
@@ -1364,7 +2058,7 @@ serve(async (req) => {
 
     if (action === "repairPriceFormat") {
       // Get all products and normalize price values to numbers, then apply currency format
-      const rows = await getSheetData(accessToken, sheetId, "Products!A2:K");
+      const rows = await getSheetData(accessToken, sheetId, "Products!A2:N");
       
       if (rows.length === 0) {
         return new Response(JSON.stringify({ success: true, message: 'No products to repair' }), {
@@ -1376,7 +2070,7 @@ serve(async (req) => {
       const normalizedRows = rows.map((row) => normalizeProductsRow(row));
 
       // Write back normalized data
-      await updateSheetData(accessToken, sheetId, "Products!A2:K", normalizedRows);
+      await updateSheetData(accessToken, sheetId, "Products!A2:N", normalizedRows);
 
       // Apply currency format
       await ensureProductsCurrencyFormat(accessToken, sheetId);
@@ -0,0 +1,13 @@
+-- Split payments: per-tender breakdown [{ method, amount, reference }]
+ALTER TABLE public.transactions
+ADD COLUMN payments JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Existing rows had a single tender covering the whole total
+UPDATE public.transactions
+SET payments = jsonb_build_array(
+  jsonb_build_object(
+    'method', payment_method,
+    'amount', COALESCE(cash_received, total)
+  )
+)
+WHERE payments = '[]'::jsonb;
@@ -0,0 +1,34 @@
+-- Returns/refunds against an earlier sale (partial returns allowed, several per sale)
+CREATE TABLE public.transaction_returns (
+  id TEXT PRIMARY KEY,
+  transaction_id TEXT NOT NULL REFERENCES public.transactions(id),
+  items JSONB NOT NULL,
+  total_refund NUMERIC NOT NULL DEFAULT 0,
+  refund_method TEXT NOT NULL,
+  reason TEXT,
+  created_by uuid,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_transaction_returns_transaction_id ON public.transaction_returns(transaction_id);
+
+-- Enable RLS
+ALTER TABLE public.transaction_returns ENABLE ROW LEVEL SECURITY;
+
+-- Staff can view returns
+CREATE POLICY "Staff can view transaction returns"
+ON public.transaction_returns
+FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'admin') OR
+  public.has_role(auth.uid(), 'cashier')
+);
+
+-- Staff can record returns
+CREATE POLICY "Staff can insert transaction returns"
+ON public.transaction_returns
+FOR INSERT
+WITH CHECK (
+  public.has_role(auth.uid(), 'admin') OR
+  public.has_role(auth.uid(), 'cashier')
+);
@@ -0,0 +1,155 @@
+-- Voided sales stay in transactions, flagged with who voided them, who approved and why
+ALTER TABLE public.transactions
+  ADD COLUMN voided_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN void_reason TEXT,
+  ADD COLUMN voided_by UUID,
+  ADD COLUMN void_approved_by UUID,
+  ADD COLUMN void_stock_restored BOOLEAN NOT NULL DEFAULT false;
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Admin approval PINs (bcrypt hashed), entered on a cashier's device to approve actions
+CREATE TABLE public.admin_pins (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  pin_hash TEXT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Failed PIN entries, used to throttle guessing
+CREATE TABLE public.admin_pin_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  attempted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_admin_pin_attempts_user ON public.admin_pin_attempts (user_id, attempted_at);
+
+-- No policies: both tables are only reachable through the functions below
+ALTER TABLE public.admin_pins ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.admin_pin_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Admins set their own approval PIN
+CREATE OR REPLACE FUNCTION public.set_admin_pin(_pin TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can set an approval PIN';
+  END IF;
+
+  IF _pin IS NULL OR _pin !~ '^[0-9]{4,8}$' THEN
+    RAISE EXCEPTION 'PIN must be 4-8 digits';
+  END IF;
+
+  INSERT INTO public.admin_pins (user_id, pin_hash, updated_at)
+  VALUES (auth.uid(), crypt(_pin, gen_salt('bf')), now())
+  ON CONFLICT (user_id) DO UPDATE
+    SET pin_hash = EXCLUDED.pin_hash, updated_at = now();
+END;
+$$;
+
+-- Returns the admin whose PIN matches, or NULL. Failures are recorded and
+-- more than 5 failures in 5 minutes locks the caller out for a while.
+CREATE OR REPLACE FUNCTION public.verify_admin_pin(_pin TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  _admin_id UUID;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'cashier')) THEN
+    RETURN NULL;
+  END IF;
+
+  IF (
+    SELECT count(*) FROM public.admin_pin_attempts
+    WHERE user_id = auth.uid() AND attempted_at > now() - interval '5 minutes'
+  ) >= 5 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT p.user_id INTO _admin_id
+  FROM public.admin_pins p
+  WHERE p.pin_hash = crypt(coalesce(_pin, ''), p.pin_hash)
+    AND public.has_role(p.user_id, 'admin')
+  LIMIT 1;
+
+  IF _admin_id IS NULL THEN
+    INSERT INTO public.admin_pin_attempts (user_id) VALUES (auth.uid());
+  END IF;
+
+  RETURN _admin_id;
+END;
+$$;
+
+-- Void a sale. Approved by the caller's own admin role or by an admin PIN.
+-- Errors come back as {"error": code} so a failed PIN attempt is still recorded.
+CREATE OR REPLACE FUNCTION public.void_transaction(_transaction_id TEXT, _reason TEXT, _admin_pin TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _approver UUID;
+  _voided_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'cashier')) THEN
+    RETURN jsonb_build_object('error', 'forbidden');
+  END IF;
+
+  IF length(trim(coalesce(_reason, ''))) < 3 THEN
+    RETURN jsonb_build_object('error', 'reason_required');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.transactions WHERE id = _transaction_id) THEN
+    RETURN jsonb_build_object('error', 'not_found');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.transaction_returns WHERE transaction_id = _transaction_id) THEN
+    RETURN jsonb_build_object('error', 'has_returns');
+  END IF;
+
+  IF public.has_role(auth.uid(), 'admin') THEN
+    _approver := auth.uid();
+  ELSE
+    _approver := public.verify_admin_pin(_admin_pin);
+    IF _approver IS NULL THEN
+      RETURN jsonb_build_object('error', 'invalid_pin');
+    END IF;
+  END IF;
+
+  UPDATE public.transactions
+  SET voided_at = now(),
+      void_reason = trim(_reason),
+      voided_by = auth.uid(),
+      void_approved_by = _approver
+  WHERE id = _transaction_id AND voided_at IS NULL
+  RETURNING voided_at INTO _voided_at;
+
+  IF _voided_at IS NULL THEN
+    RETURN jsonb_build_object('error', 'already_voided');
+  END IF;
+
+  RETURN jsonb_build_object('voided_at', _voided_at, 'approved_by', _approver);
+END;
+$$;
+
+-- Returns can't be recorded against a voided sale
+DROP POLICY IF EXISTS "Staff can insert transaction returns" ON public.transaction_returns;
+
+CREATE POLICY "Staff can insert transaction returns"
+ON public.transaction_returns
+FOR INSERT
+WITH CHECK (
+  (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'cashier'))
+  AND EXISTS (
+    SELECT 1 FROM public.transactions t
+    WHERE t.id = transaction_id AND t.voided_at IS NULL
+  )
+);
@@ -0,0 +1,70 @@
+-- Automatic promotions evaluated against the POS cart (managed by admins)
+CREATE TABLE public.promotions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  promo_type TEXT NOT NULL CHECK (promo_type IN ('buy_x_get_y', 'bundle', 'category_percent')),
+  -- buy_x_get_y: eligible products (pooled); bundle: one unit of each product
+  product_ids TEXT[] NOT NULL DEFAULT '{}',
+  -- category_percent: category the percentage applies to
+  category TEXT,
+  buy_qty INTEGER CHECK (buy_qty IS NULL OR buy_qty > 0),
+  free_qty INTEGER CHECK (free_qty IS NULL OR free_qty > 0),
+  bundle_price NUMERIC CHECK (bundle_price IS NULL OR bundle_price >= 0),
+  percent NUMERIC CHECK (percent IS NULL OR (percent > 0 AND percent <= 100)),
+  -- Optional validity window and daily hours (store local time)
+  starts_at TIMESTAMP WITH TIME ZONE,
+  ends_at TIMESTAMP WITH TIME ZONE,
+  start_time TIME,
+  end_time TIME,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by uuid,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT promotions_buy_x_get_y_check CHECK (
+    promo_type <> 'buy_x_get_y' OR (buy_qty IS NOT NULL AND free_qty IS NOT NULL AND cardinality(product_ids) > 0)
+  ),
+  CONSTRAINT promotions_bundle_check CHECK (
+    promo_type <> 'bundle' OR (bundle_price IS NOT NULL AND cardinality(product_ids) > 1)
+  ),
+  CONSTRAINT promotions_category_percent_check CHECK (
+    promo_type <> 'category_percent' OR (percent IS NOT NULL AND category IS NOT NULL)
+  )
+);
+
+-- Enable RLS
+ALTER TABLE public.promotions ENABLE ROW LEVEL SECURITY;
+
+-- Staff need promotions to price the cart
+CREATE POLICY "Staff can view promotions"
+ON public.promotions
+FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'admin') OR
+  public.has_role(auth.uid(), 'cashier')
+);
+
+-- Only admins manage promotions
+CREATE POLICY "Admins can insert promotions"
+ON public.promotions
+FOR INSERT
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can update promotions"
+ON public.promotions
+FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can delete promotions"
+ON public.promotions
+FOR DELETE
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Trigger for updated_at
+CREATE TRIGGER update_promotions_updated_at
+BEFORE UPDATE ON public.promotions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Promotions applied to a sale, itemised on the receipt: [{ id, name, discount }]
+ALTER TABLE public.transactions
+  ADD COLUMN promotions JSONB NOT NULL DEFAULT '[]'::jsonb;
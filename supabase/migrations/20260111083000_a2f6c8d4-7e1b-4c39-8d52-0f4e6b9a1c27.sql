@@ -0,0 +1,192 @@
+-- Voucher/coupon codes redeemed at checkout (paper vouchers, event codes)
+CREATE TABLE public.vouchers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE CHECK (code = upper(code) AND code ~ '^[A-Z0-9-]{3,32}$'),
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('fixed', 'percent')),
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  max_discount NUMERIC CHECK (max_discount IS NULL OR max_discount > 0), -- Cap for percentage vouchers
+  min_spend NUMERIC NOT NULL DEFAULT 0 CHECK (min_spend >= 0),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  usage_limit INTEGER CHECK (usage_limit IS NULL OR usage_limit > 0), -- NULL = unlimited
+  single_use BOOLEAN NOT NULL DEFAULT false, -- Redeemable once in total, whatever usage_limit says
+  times_used INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  note TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT vouchers_percent_check CHECK (discount_type <> 'percent' OR amount <= 100)
+);
+
+-- One row per use. transaction_id is the sale's invoice id; the sale row itself is
+-- written afterwards through the offline outbox, so it can't be a foreign key.
+CREATE TABLE public.voucher_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  voucher_id UUID NOT NULL REFERENCES public.vouchers(id) ON DELETE CASCADE,
+  code TEXT NOT NULL,
+  transaction_id TEXT NOT NULL UNIQUE,
+  discount_amount NUMERIC NOT NULL,
+  redeemed_by UUID,
+  redeemed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_voucher_redemptions_voucher_id ON public.voucher_redemptions(voucher_id);
+
+-- Voucher applied to a sale
+ALTER TABLE public.transactions
+  ADD COLUMN voucher_code TEXT,
+  ADD COLUMN voucher_discount NUMERIC NOT NULL DEFAULT 0;
+
+-- Enable RLS
+ALTER TABLE public.vouchers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.voucher_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Only admins see and manage vouchers directly; cashiers go through the functions below
+-- so codes can't be listed from the POS
+CREATE POLICY "Admins can view vouchers"
+ON public.vouchers
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can insert vouchers"
+ON public.vouchers
+FOR INSERT
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can update vouchers"
+ON public.vouchers
+FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can delete vouchers"
+ON public.vouchers
+FOR DELETE
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Staff can view voucher redemptions"
+ON public.voucher_redemptions
+FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'admin') OR
+  public.has_role(auth.uid(), 'cashier')
+);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_vouchers_updated_at
+BEFORE UPDATE ON public.vouchers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Checks a voucher against the amount due and returns the discount, or { error }.
+-- Errors: not_found, inactive, expired, used_up, min_spend
+CREATE OR REPLACE FUNCTION public.evaluate_voucher(_voucher public.vouchers, _amount NUMERIC)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _limit INTEGER;
+  _discount NUMERIC;
+BEGIN
+  IF _voucher.id IS NULL THEN
+    RETURN jsonb_build_object('error', 'not_found');
+  END IF;
+
+  IF NOT _voucher.is_active THEN
+    RETURN jsonb_build_object('error', 'inactive');
+  END IF;
+
+  IF _voucher.expires_at IS NOT NULL AND _voucher.expires_at < now() THEN
+    RETURN jsonb_build_object('error', 'expired');
+  END IF;
+
+  _limit := CASE WHEN _voucher.single_use THEN 1 ELSE _voucher.usage_limit END;
+  IF _limit IS NOT NULL AND _voucher.times_used >= _limit THEN
+    RETURN jsonb_build_object('error', 'used_up');
+  END IF;
+
+  IF coalesce(_amount, 0) < _voucher.min_spend THEN
+    RETURN jsonb_build_object('error', 'min_spend', 'min_spend', _voucher.min_spend);
+  END IF;
+
+  IF _voucher.discount_type = 'percent' THEN
+    _discount := round(_amount * _voucher.amount / 100);
+    IF _voucher.max_discount IS NOT NULL THEN
+      _discount := LEAST(_discount, _voucher.max_discount);
+    END IF;
+  ELSE
+    _discount := _voucher.amount;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'code', _voucher.code,
+    'discount', LEAST(_discount, _amount),
+    'discount_type', _voucher.discount_type,
+    'amount', _voucher.amount,
+    'max_discount', _voucher.max_discount,
+    'min_spend', _voucher.min_spend
+  );
+END;
+$$;
+
+-- Preview a code at checkout without using it up
+CREATE OR REPLACE FUNCTION public.check_voucher(_code TEXT, _amount NUMERIC)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _voucher public.vouchers%ROWTYPE;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'cashier')) THEN
+    RETURN jsonb_build_object('error', 'forbidden');
+  END IF;
+
+  SELECT * INTO _voucher FROM public.vouchers WHERE code = upper(trim(coalesce(_code, '')));
+  RETURN public.evaluate_voucher(_voucher, _amount);
+END;
+$$;
+
+-- Use a code for a sale. The voucher row is locked so concurrent checkouts can't
+-- go over the usage limit. Calling again for the same sale returns the first result.
+CREATE OR REPLACE FUNCTION public.redeem_voucher(_code TEXT, _transaction_id TEXT, _amount NUMERIC)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _voucher public.vouchers%ROWTYPE;
+  _existing public.voucher_redemptions%ROWTYPE;
+  _result JSONB;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'cashier')) THEN
+    RETURN jsonb_build_object('error', 'forbidden');
+  END IF;
+
+  SELECT * INTO _existing FROM public.voucher_redemptions WHERE transaction_id = _transaction_id;
+  IF FOUND THEN
+    RETURN jsonb_build_object('code', _existing.code, 'discount', _existing.discount_amount);
+  END IF;
+
+  SELECT * INTO _voucher
+  FROM public.vouchers
+  WHERE code = upper(trim(coalesce(_code, '')))
+  FOR UPDATE;
+
+  _result := public.evaluate_voucher(_voucher, _amount);
+  IF _result ? 'error' THEN
+    RETURN _result;
+  END IF;
+
+  INSERT INTO public.voucher_redemptions (voucher_id, code, transaction_id, discount_amount, redeemed_by)
+  VALUES (_voucher.id, _voucher.code, _transaction_id, (_result->>'discount')::NUMERIC, auth.uid());
+
+  UPDATE public.vouchers SET times_used = times_used + 1 WHERE id = _voucher.id;
+
+  RETURN _result;
+END;
+$$;
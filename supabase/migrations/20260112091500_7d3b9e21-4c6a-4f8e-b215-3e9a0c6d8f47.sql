@@ -0,0 +1,61 @@
+-- Customer directory: looked up at checkout, with purchase history per customer
+CREATE TABLE public.customers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  phone TEXT CHECK (phone IS NULL OR phone ~ '^[0-9]{8,15}$'), -- Digits only, e.g. 08123456789
+  address TEXT,
+  notes TEXT,
+  customer_type TEXT NOT NULL DEFAULT 'retail' CHECK (customer_type IN ('retail', 'reseller')),
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One customer per phone number
+CREATE UNIQUE INDEX idx_customers_phone ON public.customers(phone) WHERE phone IS NOT NULL;
+CREATE INDEX idx_customers_name ON public.customers(lower(name));
+
+-- Customer the sale was made to (customer_name/customer_phone stay as typed on the receipt)
+ALTER TABLE public.transactions
+  ADD COLUMN customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_transactions_customer_id ON public.transactions(customer_id);
+
+-- Enable RLS
+ALTER TABLE public.customers ENABLE ROW LEVEL SECURITY;
+
+-- Cashiers look up and register customers at checkout; only admins delete
+CREATE POLICY "Staff can view customers"
+ON public.customers
+FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'admin') OR
+  public.has_role(auth.uid(), 'cashier')
+);
+
+CREATE POLICY "Staff can insert customers"
+ON public.customers
+FOR INSERT
+WITH CHECK (
+  public.has_role(auth.uid(), 'admin') OR
+  public.has_role(auth.uid(), 'cashier')
+);
+
+CREATE POLICY "Staff can update customers"
+ON public.customers
+FOR UPDATE
+USING (
+  public.has_role(auth.uid(), 'admin') OR
+  public.has_role(auth.uid(), 'cashier')
+);
+
+CREATE POLICY "Admins can delete customers"
+ON public.customers
+FOR DELETE
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Trigger for updated_at
+CREATE TRIGGER update_customers_updated_at
+BEFORE UPDATE ON public.customers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
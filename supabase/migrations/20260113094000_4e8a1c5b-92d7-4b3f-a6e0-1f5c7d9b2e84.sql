@@ -0,0 +1,249 @@
+-- Loyalty points, keyed by the customer's phone number. Points are earned per Rupiah
+-- spent (app_settings.loyalty_earn_amount) and redeemed as a discount worth
+-- app_settings.loyalty_point_value each. The balance is the sum of the ledger.
+CREATE TABLE public.loyalty_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  phone TEXT NOT NULL CHECK (phone ~ '^[0-9]{8,15}$'),
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('earn', 'redeem', 'void', 'return')),
+  points INTEGER NOT NULL, -- Positive adds to the balance, negative takes off
+  -- Sale the entry belongs to. No foreign key: redemptions are written at checkout,
+  -- before the sale row arrives through the offline outbox.
+  transaction_id TEXT NOT NULL,
+  return_id TEXT REFERENCES public.transaction_returns(id) ON DELETE CASCADE,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_loyalty_ledger_phone ON public.loyalty_ledger(phone);
+-- One earn/redeem/void entry per sale, one entry per return
+CREATE UNIQUE INDEX idx_loyalty_ledger_sale_entry ON public.loyalty_ledger(transaction_id, entry_type)
+  WHERE entry_type <> 'return';
+CREATE UNIQUE INDEX idx_loyalty_ledger_return ON public.loyalty_ledger(return_id)
+  WHERE return_id IS NOT NULL;
+
+-- Points on the sale: snapshot for receipts and invoices
+ALTER TABLE public.transactions
+  ADD COLUMN loyalty_phone TEXT,
+  ADD COLUMN points_earned INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN points_redeemed INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN points_discount NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN points_balance INTEGER;
+
+-- Enable RLS. Entries are only written by the functions and triggers below.
+ALTER TABLE public.loyalty_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view loyalty ledger"
+ON public.loyalty_ledger
+FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'admin') OR
+  public.has_role(auth.uid(), 'cashier')
+);
+
+-- Settings (empty earn amount = program off)
+INSERT INTO public.app_settings (key, value)
+VALUES ('loyalty_earn_amount', ''), ('loyalty_point_value', '100')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.loyalty_setting(_key TEXT)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE WHEN value ~ '^[0-9]+(\.[0-9]+)?$' THEN value::NUMERIC ELSE 0 END
+  FROM public.app_settings
+  WHERE key = _key
+$$;
+
+-- Current point balance for a phone number
+CREATE OR REPLACE FUNCTION public.loyalty_balance(_phone TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'cashier')) THEN
+    RETURN 0;
+  END IF;
+
+  RETURN coalesce((SELECT sum(points) FROM public.loyalty_ledger WHERE phone = _phone), 0)::INTEGER;
+END;
+$$;
+
+-- Spend points on a sale. Calls for the same phone are serialised so two tills can't
+-- spend the same points; calling again for the same sale returns the first result.
+-- Errors: forbidden, invalid, disabled, insufficient (+balance)
+CREATE OR REPLACE FUNCTION public.redeem_loyalty_points(_phone TEXT, _transaction_id TEXT, _points INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _existing public.loyalty_ledger%ROWTYPE;
+  _point_value NUMERIC;
+  _balance INTEGER;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'cashier')) THEN
+    RETURN jsonb_build_object('error', 'forbidden');
+  END IF;
+
+  IF _phone IS NULL OR _phone !~ '^[0-9]{8,15}$' OR coalesce(_points, 0) <= 0 THEN
+    RETURN jsonb_build_object('error', 'invalid');
+  END IF;
+
+  _point_value := public.loyalty_setting('loyalty_point_value');
+  IF coalesce(_point_value, 0) <= 0 THEN
+    RETURN jsonb_build_object('error', 'disabled');
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('loyalty:' || _phone));
+
+  SELECT * INTO _existing
+  FROM public.loyalty_ledger
+  WHERE transaction_id = _transaction_id AND entry_type = 'redeem';
+  IF FOUND THEN
+    RETURN jsonb_build_object('points', -_existing.points, 'discount', -_existing.points * _point_value);
+  END IF;
+
+  _balance := coalesce((SELECT sum(points) FROM public.loyalty_ledger WHERE phone = _phone), 0);
+  IF _balance < _points THEN
+    RETURN jsonb_build_object('error', 'insufficient', 'balance', _balance);
+  END IF;
+
+  INSERT INTO public.loyalty_ledger (phone, entry_type, points, transaction_id, created_by)
+  VALUES (_phone, 'redeem', -_points, _transaction_id, auth.uid());
+
+  RETURN jsonb_build_object('points', _points, 'discount', _points * _point_value, 'balance', _balance - _points);
+END;
+$$;
+
+-- Earn points when the sale row arrives, and record what was redeemed and the new balance
+CREATE OR REPLACE FUNCTION public.loyalty_on_sale()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _earn_amount NUMERIC;
+BEGIN
+  IF NEW.loyalty_phone IS NULL OR NEW.loyalty_phone !~ '^[0-9]{8,15}$' THEN
+    NEW.loyalty_phone := NULL;
+    NEW.points_earned := 0;
+    NEW.points_redeemed := 0;
+    NEW.points_discount := 0;
+    NEW.points_balance := NULL;
+    RETURN NEW;
+  END IF;
+
+  _earn_amount := public.loyalty_setting('loyalty_earn_amount');
+  NEW.points_earned := CASE
+    WHEN coalesce(_earn_amount, 0) > 0 THEN floor(greatest(NEW.total, 0) / _earn_amount)::INTEGER
+    ELSE 0
+  END;
+
+  -- What was actually spent at checkout, from the ledger rather than the client
+  NEW.points_redeemed := coalesce((
+    SELECT -points FROM public.loyalty_ledger
+    WHERE transaction_id = NEW.id AND entry_type = 'redeem'
+  ), 0);
+  IF NEW.points_redeemed = 0 THEN
+    NEW.points_discount := 0;
+  END IF;
+
+  IF NEW.points_earned > 0 THEN
+    INSERT INTO public.loyalty_ledger (phone, entry_type, points, transaction_id, created_by)
+    VALUES (NEW.loyalty_phone, 'earn', NEW.points_earned, NEW.id, auth.uid())
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  NEW.points_balance := coalesce((SELECT sum(points) FROM public.loyalty_ledger WHERE phone = NEW.loyalty_phone), 0);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER loyalty_on_sale
+BEFORE INSERT ON public.transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.loyalty_on_sale();
+
+-- Voiding a sale takes back the points it earned and gives back the points spent on it
+CREATE OR REPLACE FUNCTION public.loyalty_on_void()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _net INTEGER;
+BEGIN
+  IF OLD.voided_at IS NOT NULL OR NEW.voided_at IS NULL OR NEW.loyalty_phone IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  _net := coalesce((
+    SELECT sum(points) FROM public.loyalty_ledger
+    WHERE transaction_id = NEW.id AND entry_type <> 'void'
+  ), 0);
+
+  IF _net <> 0 THEN
+    INSERT INTO public.loyalty_ledger (phone, entry_type, points, transaction_id, created_by)
+    VALUES (NEW.loyalty_phone, 'void', -_net, NEW.id, auth.uid())
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER loyalty_on_void
+AFTER UPDATE OF voided_at ON public.transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.loyalty_on_void();
+
+-- A return takes back the earned points in proportion to the refund. Points spent on
+-- the sale are not given back for partial returns.
+CREATE OR REPLACE FUNCTION public.loyalty_on_return()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sale public.transactions%ROWTYPE;
+  _already INTEGER;
+  _points INTEGER;
+BEGIN
+  SELECT * INTO _sale FROM public.transactions WHERE id = NEW.transaction_id;
+  IF NOT FOUND OR _sale.loyalty_phone IS NULL OR _sale.points_earned <= 0 OR _sale.total <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  _already := -coalesce((
+    SELECT sum(points) FROM public.loyalty_ledger
+    WHERE transaction_id = _sale.id AND entry_type = 'return'
+  ), 0);
+
+  _points := least(
+    _sale.points_earned - _already,
+    round(_sale.points_earned * NEW.total_refund / _sale.total)::INTEGER
+  );
+
+  IF _points > 0 THEN
+    INSERT INTO public.loyalty_ledger (phone, entry_type, points, transaction_id, return_id, created_by)
+    VALUES (_sale.loyalty_phone, 'return', -_points, _sale.id, NEW.id, auth.uid())
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER loyalty_on_return
+AFTER INSERT ON public.transaction_returns
+FOR EACH ROW
+EXECUTE FUNCTION public.loyalty_on_return();
@@ -0,0 +1,232 @@
+-- Customer credit (hutang): a sale paid fully or partly with the 'credit' tender leaves a
+-- receivable for the customer, repaid over time through receivable_payments.
+CREATE TABLE public.receivables (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id TEXT NOT NULL UNIQUE REFERENCES public.transactions(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE RESTRICT,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  paid_amount NUMERIC NOT NULL DEFAULT 0,
+  due_date DATE,
+  cancelled_at TIMESTAMP WITH TIME ZONE, -- Sale was voided
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT receivables_paid_check CHECK (paid_amount >= 0 AND paid_amount <= amount)
+);
+
+CREATE INDEX idx_receivables_customer_id ON public.receivables(customer_id);
+
+-- Repayments. 'return' entries come from goods returned against the credit sale.
+CREATE TABLE public.receivable_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  receivable_id UUID NOT NULL REFERENCES public.receivables(id) ON DELETE CASCADE,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  payment_method TEXT NOT NULL CHECK (payment_method IN ('cash', 'qris', 'transfer', 'return')),
+  reference TEXT,
+  note TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_receivable_payments_receivable_id ON public.receivable_payments(receivable_id);
+
+-- Due date chosen at checkout, and the customer's total outstanding right after the sale
+-- (snapshot for the receipt and public invoice)
+ALTER TABLE public.transactions
+  ADD COLUMN credit_due_date DATE,
+  ADD COLUMN credit_outstanding NUMERIC;
+
+-- Enable RLS
+ALTER TABLE public.receivables ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.receivable_payments ENABLE ROW LEVEL SECURITY;
+
+-- Receivables are created and updated by the triggers below only
+CREATE POLICY "Staff can view receivables"
+ON public.receivables
+FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'admin') OR
+  public.has_role(auth.uid(), 'cashier')
+);
+
+CREATE POLICY "Staff can view receivable payments"
+ON public.receivable_payments
+FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'admin') OR
+  public.has_role(auth.uid(), 'cashier')
+);
+
+CREATE POLICY "Staff can insert receivable payments"
+ON public.receivable_payments
+FOR INSERT
+WITH CHECK (
+  public.has_role(auth.uid(), 'admin') OR
+  public.has_role(auth.uid(), 'cashier')
+);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_receivables_updated_at
+BEFORE UPDATE ON public.receivables
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Amount of a sale paid with the credit tender
+CREATE OR REPLACE FUNCTION public.credit_amount(_payments JSONB)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(sum((p->>'amount')::NUMERIC), 0)
+  FROM jsonb_array_elements(CASE WHEN jsonb_typeof(_payments) = 'array' THEN _payments ELSE '[]'::JSONB END) p
+  WHERE p->>'method' = 'credit'
+$$;
+
+-- Credit sales need a customer; snapshot what the customer owes including this sale
+CREATE OR REPLACE FUNCTION public.credit_on_sale_check()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _credit NUMERIC := public.credit_amount(NEW.payments);
+BEGIN
+  IF _credit <= 0 THEN
+    NEW.credit_due_date := NULL;
+    NEW.credit_outstanding := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.customer_id IS NULL THEN
+    RAISE EXCEPTION 'A credit sale needs a customer';
+  END IF;
+
+  NEW.credit_outstanding := _credit + coalesce((
+    SELECT sum(amount - paid_amount) FROM public.receivables
+    WHERE customer_id = NEW.customer_id AND cancelled_at IS NULL
+  ), 0);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER credit_on_sale_check
+BEFORE INSERT ON public.transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.credit_on_sale_check();
+
+CREATE OR REPLACE FUNCTION public.credit_on_sale()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _credit NUMERIC := public.credit_amount(NEW.payments);
+BEGIN
+  IF _credit > 0 THEN
+    INSERT INTO public.receivables (transaction_id, customer_id, amount, due_date)
+    VALUES (NEW.id, NEW.customer_id, _credit, NEW.credit_due_date);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER credit_on_sale
+AFTER INSERT ON public.transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.credit_on_sale();
+
+-- Voiding a credit sale cancels what is still owed on it
+CREATE OR REPLACE FUNCTION public.credit_on_void()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.voided_at IS NULL AND NEW.voided_at IS NOT NULL THEN
+    UPDATE public.receivables
+    SET cancelled_at = NEW.voided_at
+    WHERE transaction_id = NEW.id AND cancelled_at IS NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER credit_on_void
+AFTER UPDATE OF voided_at ON public.transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.credit_on_void();
+
+-- Apply a repayment. The receivable row is locked so two tills can't overpay it.
+CREATE OR REPLACE FUNCTION public.apply_receivable_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _receivable public.receivables%ROWTYPE;
+BEGIN
+  SELECT * INTO _receivable FROM public.receivables WHERE id = NEW.receivable_id FOR UPDATE;
+
+  IF _receivable.cancelled_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Receivable was cancelled';
+  END IF;
+
+  IF NEW.amount > _receivable.amount - _receivable.paid_amount THEN
+    RAISE EXCEPTION 'Payment exceeds the outstanding amount';
+  END IF;
+
+  NEW.created_by := coalesce(NEW.created_by, auth.uid());
+
+  UPDATE public.receivables
+  SET paid_amount = paid_amount + NEW.amount
+  WHERE id = NEW.receivable_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_receivable_payment
+BEFORE INSERT ON public.receivable_payments
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_receivable_payment();
+
+-- Goods returned with refund method 'credit' are taken off the debt instead of paid out
+CREATE OR REPLACE FUNCTION public.credit_on_return()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _receivable public.receivables%ROWTYPE;
+  _amount NUMERIC;
+BEGIN
+  IF NEW.refund_method <> 'credit' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _receivable
+  FROM public.receivables
+  WHERE transaction_id = NEW.transaction_id AND cancelled_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale has no open credit to reduce';
+  END IF;
+
+  _amount := least(NEW.total_refund, _receivable.amount - _receivable.paid_amount);
+  IF _amount > 0 THEN
+    INSERT INTO public.receivable_payments (receivable_id, amount, payment_method, note, created_by)
+    VALUES (_receivable.id, _amount, 'return', 'Retur ' || NEW.id, NEW.created_by);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER credit_on_return
+AFTER INSERT ON public.transaction_returns
+FOR EACH ROW
+EXECUTE FUNCTION public.credit_on_return();
@@ -0,0 +1,13 @@
+-- PPN (value added tax). The rate and whether shelf prices already include it are
+-- app settings; every sale stores the tax it was charged so it doesn't have to be
+-- back-calculated from totals.
+INSERT INTO public.app_settings (key, value) VALUES
+  ('tax_rate', NULL),
+  ('tax_mode', 'inclusive')
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE public.transactions
+  ADD COLUMN tax_mode TEXT CHECK (tax_mode IN ('inclusive', 'exclusive')),
+  ADD COLUMN tax_rate NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN tax_base NUMERIC NOT NULL DEFAULT 0, -- DPP: taxable amount excluding the tax
+  ADD COLUMN tax_amount NUMERIC NOT NULL DEFAULT 0;
@@ -0,0 +1,10 @@
+-- Cash rounding: cash-only sales are rounded to cash_rounding_unit (100, 500 or 1000;
+-- empty = off) in the cash_rounding_mode direction. The adjustment is kept on the sale
+-- so totals reconcile with the lines.
+INSERT INTO public.app_settings (key, value) VALUES
+  ('cash_rounding_unit', NULL),
+  ('cash_rounding_mode', 'nearest')
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE public.transactions
+  ADD COLUMN cash_rounding NUMERIC NOT NULL DEFAULT 0; -- Included in total; negative when rounded down
@@ -0,0 +1,5 @@
+-- Product search synonyms: one group per line, words separated by commas or "="
+-- (e.g. "bohlam = lampu"). Read by the POS search index on the client.
+INSERT INTO public.app_settings (key, value) VALUES
+  ('search_synonyms', NULL)
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,37 @@
+-- Quick-key favorites on the POS: each cashier pins products (or one variant of a
+-- product) to a fixed grid, in their own order
+CREATE TABLE public.favorite_products (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  product_id TEXT NOT NULL,
+  variant_code TEXT NOT NULL DEFAULT '', -- '' = the product itself
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, product_id, variant_code)
+);
+
+CREATE INDEX idx_favorite_products_user ON public.favorite_products(user_id, position);
+
+-- Enable RLS
+ALTER TABLE public.favorite_products ENABLE ROW LEVEL SECURITY;
+
+-- Everyone manages only their own grid
+CREATE POLICY "Users can view own favorites"
+ON public.favorite_products
+FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own favorites"
+ON public.favorite_products
+FOR INSERT
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own favorites"
+ON public.favorite_products
+FOR UPDATE
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own favorites"
+ON public.favorite_products
+FOR DELETE
+USING (user_id = auth.uid());
@@ -0,0 +1,110 @@
+-- Manual discount limits. Staff may discount a line or the order by up to
+-- discount_limit_<role> percent (empty = no limit); going further needs an admin PIN.
+-- Every manually discounted sale carries a reason, and approvals are kept for audit.
+INSERT INTO public.app_settings (key, value) VALUES
+  ('discount_limit_cashier', '10'),
+  ('discount_limit_admin', NULL)
+ON CONFLICT (key) DO NOTHING;
+
+CREATE TABLE public.discount_approvals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id TEXT REFERENCES public.transactions(id) ON DELETE SET NULL, -- Linked when the sale is recorded
+  requested_by UUID NOT NULL,
+  requested_by_email TEXT,
+  approved_by UUID NOT NULL,
+  approved_by_email TEXT,
+  reason TEXT NOT NULL,
+  max_percent NUMERIC NOT NULL,
+  amount NUMERIC NOT NULL,               -- All manual discounts on the sale together
+  details JSONB NOT NULL DEFAULT '[]',   -- [{label, amount, percent}] as approved
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_discount_approvals_created_at ON public.discount_approvals(created_at DESC);
+CREATE INDEX idx_discount_approvals_transaction ON public.discount_approvals(transaction_id);
+
+ALTER TABLE public.transactions
+  ADD COLUMN discount_reason TEXT,
+  ADD COLUMN discount_approval_id UUID REFERENCES public.discount_approvals(id) ON DELETE SET NULL;
+
+-- Enable RLS; rows are only written through approve_discount
+ALTER TABLE public.discount_approvals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view discount approvals"
+ON public.discount_approvals
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Approve discounts over the caller's limit. Admins approve their own; anyone else needs
+-- an admin PIN. Errors come back as {"error": code} so a failed PIN attempt is still recorded.
+CREATE OR REPLACE FUNCTION public.approve_discount(
+  _reason TEXT,
+  _max_percent NUMERIC,
+  _amount NUMERIC,
+  _details JSONB,
+  _admin_pin TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _approver UUID;
+  _approver_email TEXT;
+  _approval_id UUID;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'cashier')) THEN
+    RETURN jsonb_build_object('error', 'forbidden');
+  END IF;
+
+  IF length(trim(coalesce(_reason, ''))) < 3 THEN
+    RETURN jsonb_build_object('error', 'reason_required');
+  END IF;
+
+  IF public.has_role(auth.uid(), 'admin') THEN
+    _approver := auth.uid();
+  ELSE
+    _approver := public.verify_admin_pin(_admin_pin);
+    IF _approver IS NULL THEN
+      RETURN jsonb_build_object('error', 'invalid_pin');
+    END IF;
+  END IF;
+
+  SELECT email INTO _approver_email FROM auth.users WHERE id = _approver;
+
+  INSERT INTO public.discount_approvals (
+    requested_by, requested_by_email, approved_by, approved_by_email,
+    reason, max_percent, amount, details
+  )
+  VALUES (
+    auth.uid(), (SELECT email FROM auth.users WHERE id = auth.uid()), _approver, _approver_email,
+    trim(_reason), coalesce(_max_percent, 0), coalesce(_amount, 0), coalesce(_details, '[]'::jsonb)
+  )
+  RETURNING id INTO _approval_id;
+
+  RETURN jsonb_build_object('approval_id', _approval_id, 'approved_by', _approver, 'approved_by_email', _approver_email);
+END;
+$$;
+
+-- Tie an approval to the sale that used it (once)
+CREATE OR REPLACE FUNCTION public.link_discount_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.discount_approval_id IS NOT NULL THEN
+    UPDATE public.discount_approvals
+    SET transaction_id = NEW.id
+    WHERE id = NEW.discount_approval_id AND transaction_id IS NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER link_transaction_discount_approval
+AFTER INSERT ON public.transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.link_discount_approval();
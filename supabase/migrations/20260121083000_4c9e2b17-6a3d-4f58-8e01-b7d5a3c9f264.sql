@@ -0,0 +1,41 @@
+-- Who rang up each sale. cashier keeps the display name as printed on the receipt;
+-- cashier_id is the signed-in user, taken from the receipt so a sale replayed from the
+-- offline outbox after a shift change still belongs to whoever made it.
+-- Older rows were all stored as 'Admin' and have no cashier_id.
+ALTER TABLE public.transactions
+  ADD COLUMN cashier_id UUID;
+
+CREATE INDEX idx_transactions_cashier_created_at ON public.transactions(cashier_id, created_at DESC);
+
+-- Sales per cashier in [_from, _to), for the daily summary on the Transactions page.
+-- Runs with the caller's rights, so the usual transaction policies apply.
+CREATE OR REPLACE FUNCTION public.cashier_sales_summary(_from TIMESTAMP WITH TIME ZONE, _to TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (
+  cashier_id UUID,
+  cashier TEXT,
+  sales_count BIGINT,
+  sales_total NUMERIC,
+  void_count BIGINT,
+  refund_total NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    t.cashier_id,
+    max(t.cashier) AS cashier,
+    count(*) FILTER (WHERE t.voided_at IS NULL) AS sales_count,
+    coalesce(sum(t.total) FILTER (WHERE t.voided_at IS NULL), 0) AS sales_total,
+    count(*) FILTER (WHERE t.voided_at IS NOT NULL) AS void_count,
+    coalesce(sum(r.refunded), 0) AS refund_total
+  FROM public.transactions t
+  LEFT JOIN (
+    SELECT transaction_id, sum(total_refund) AS refunded
+    FROM public.transaction_returns
+    GROUP BY transaction_id
+  ) r ON r.transaction_id = t.id
+  WHERE t.created_at >= _from AND t.created_at < _to
+  GROUP BY t.cashier_id, CASE WHEN t.cashier_id IS NULL THEN t.cashier END
+  ORDER BY sales_total DESC;
+$$;
@@ -0,0 +1,99 @@
+-- Sequential invoice numbers: <prefix>-<terminal>-<000001>, e.g. INV-K01-000123.
+-- Every POS terminal has its own gap-free series. Terminals reserve blocks of numbers
+-- ahead of time so they can keep selling offline; the block is used up in order before
+-- the next one is taken, so each terminal's numbers stay consecutive.
+INSERT INTO public.app_settings (key, value) VALUES
+  ('invoice_prefix', 'INV')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE SEQUENCE public.pos_terminal_seq;
+
+CREATE TABLE public.pos_terminals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE,
+  next_number BIGINT NOT NULL DEFAULT 1,  -- First number not yet handed out in a block
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_reserved_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE public.invoice_number_blocks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  terminal_id UUID NOT NULL REFERENCES public.pos_terminals(id) ON DELETE CASCADE,
+  prefix TEXT NOT NULL,
+  first_number BIGINT NOT NULL,
+  last_number BIGINT NOT NULL CHECK (last_number >= first_number),
+  reserved_by UUID,
+  reserved_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_invoice_number_blocks_terminal ON public.invoice_number_blocks(terminal_id, first_number);
+
+-- Enable RLS; both tables are only written through reserve_invoice_numbers
+ALTER TABLE public.pos_terminals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_number_blocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view POS terminals"
+ON public.pos_terminals
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can view invoice number blocks"
+ON public.invoice_number_blocks
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Hand a terminal the next _count numbers of its series. A terminal without a code (or
+-- with one the database doesn't know) is registered first and gets a new code back.
+-- The terminal row is locked, so two reservations can never overlap.
+CREATE OR REPLACE FUNCTION public.reserve_invoice_numbers(_terminal_code TEXT, _count INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _terminal public.pos_terminals%ROWTYPE;
+  _prefix TEXT;
+  _first BIGINT;
+  _last BIGINT;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'cashier')) THEN
+    RETURN jsonb_build_object('error', 'forbidden');
+  END IF;
+
+  IF _count IS NULL OR _count < 1 OR _count > 500 THEN
+    RETURN jsonb_build_object('error', 'invalid_count');
+  END IF;
+
+  SELECT * INTO _terminal FROM public.pos_terminals WHERE code = upper(_terminal_code) FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.pos_terminals (code, created_by)
+    VALUES ('K' || lpad(nextval('public.pos_terminal_seq')::TEXT, 2, '0'), auth.uid())
+    RETURNING * INTO _terminal;
+  END IF;
+
+  SELECT upper(trim(value)) INTO _prefix FROM public.app_settings WHERE key = 'invoice_prefix';
+  IF _prefix IS NULL OR _prefix !~ '^[A-Z0-9]{1,10}$' THEN
+    _prefix := 'INV';
+  END IF;
+
+  _first := _terminal.next_number;
+  _last := _first + _count - 1;
+
+  UPDATE public.pos_terminals
+  SET next_number = _last + 1, last_reserved_at = now()
+  WHERE id = _terminal.id;
+
+  INSERT INTO public.invoice_number_blocks (terminal_id, prefix, first_number, last_number, reserved_by)
+  VALUES (_terminal.id, _prefix, _first, _last, auth.uid());
+
+  RETURN jsonb_build_object(
+    'terminal_code', _terminal.code,
+    'prefix', _prefix,
+    'first_number', _first,
+    'last_number', _last
+  );
+END;
+$$;
@@ -0,0 +1,88 @@
+-- Server-side search for the Transactions page. filter_transactions applies every filter
+-- in one place; the page pages through its rows (newest first, keyset on created_at, id)
+-- and transactions_summary totals the same rows, so list and totals always agree.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Lower-cased invoice number, customer and the product/variant names of every line,
+-- so "kabel" finds every sale that had a kabel in it
+ALTER TABLE public.transactions
+  ADD COLUMN search_text TEXT GENERATED ALWAYS AS (
+    lower(
+      id || ' ' ||
+      coalesce(customer_name, '') || ' ' ||
+      coalesce(customer_phone, '') || ' ' ||
+      coalesce(jsonb_path_query_array(items, '$[*].product.name')::TEXT, '') || ' ' ||
+      coalesce(jsonb_path_query_array(items, '$[*].variantName')::TEXT, '')
+    )
+  ) STORED;
+
+CREATE INDEX idx_transactions_search_text ON public.transactions USING gin (search_text gin_trgm_ops);
+CREATE INDEX idx_transactions_created_at_id ON public.transactions(created_at DESC, id DESC);
+CREATE INDEX idx_transactions_payments ON public.transactions USING gin (payments jsonb_path_ops);
+
+-- _method matches any tender of the sale ('cash' also finds cash + qris splits);
+-- 'split' finds only sales paid with several methods. NULL means "any" for every filter.
+CREATE OR REPLACE FUNCTION public.filter_transactions(
+  _from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _method TEXT DEFAULT NULL,
+  _cashier_id UUID DEFAULT NULL,
+  _min_total NUMERIC DEFAULT NULL,
+  _max_total NUMERIC DEFAULT NULL,
+  _search TEXT DEFAULT NULL
+)
+RETURNS SETOF public.transactions
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT t.*
+  FROM public.transactions t
+  WHERE (_from IS NULL OR t.created_at >= _from)
+    AND (_to IS NULL OR t.created_at < _to)
+    AND (
+      _method IS NULL
+      OR (_method = 'split' AND t.payment_method = 'split')
+      OR (_method <> 'split' AND (
+        t.payment_method = _method
+        OR t.payments @> jsonb_build_array(jsonb_build_object('method', _method))
+      ))
+    )
+    AND (_cashier_id IS NULL OR t.cashier_id = _cashier_id)
+    AND (_min_total IS NULL OR t.total >= _min_total)
+    AND (_max_total IS NULL OR t.total <= _max_total)
+    AND (
+      coalesce(trim(_search), '') = ''
+      OR t.search_text LIKE '%' || replace(replace(replace(lower(trim(_search)), '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    );
+$$;
+
+-- Sales, voids, refunds and rounding over everything filter_transactions matches
+CREATE OR REPLACE FUNCTION public.transactions_summary(
+  _from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _method TEXT DEFAULT NULL,
+  _cashier_id UUID DEFAULT NULL,
+  _min_total NUMERIC DEFAULT NULL,
+  _max_total NUMERIC DEFAULT NULL,
+  _search TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'count', count(*),
+    'sales_total', coalesce(sum(f.total) FILTER (WHERE f.voided_at IS NULL), 0),
+    'rounding_total', coalesce(sum(f.cash_rounding) FILTER (WHERE f.voided_at IS NULL), 0),
+    'returns_total', coalesce((
+      SELECT sum(r.total_refund)
+      FROM public.transaction_returns r
+      WHERE r.transaction_id IN (
+        SELECT id FROM public.filter_transactions(_from, _to, _method, _cashier_id, _min_total, _max_total, _search)
+      )
+    ), 0)
+  )
+  FROM public.filter_transactions(_from, _to, _method, _cashier_id, _min_total, _max_total, _search) f;
+$$;
@@ -0,0 +1,220 @@
+-- Cashier shifts. A shift opens with a starting float; cash put into or taken out of the
+-- drawer during the shift is recorded as a movement; closing counts the drawer note by
+-- note and keeps the expected cash, the count and the difference.
+-- Sales and returns carry the shift they were made in (taken from the receipt, so sales
+-- replayed from the offline outbox still land in the right shift).
+CREATE TABLE public.shifts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  opened_by UUID NOT NULL,
+  cashier TEXT,                           -- Display name, as printed on receipts
+  opening_float NUMERIC NOT NULL DEFAULT 0 CHECK (opening_float >= 0),
+  opened_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  closed_by UUID,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  -- Snapshotted by close_shift
+  summary JSONB,                          -- shift_cash_summary at closing time
+  expected_cash NUMERIC,
+  counted_cash NUMERIC,
+  variance NUMERIC,                       -- counted - expected; negative = drawer short
+  denominations JSONB,                    -- [{value, count}] as counted
+  notes TEXT
+);
+
+-- One open shift per user
+CREATE UNIQUE INDEX idx_shifts_open_per_user ON public.shifts(opened_by) WHERE closed_at IS NULL;
+CREATE INDEX idx_shifts_opened_at ON public.shifts(opened_at DESC);
+
+CREATE TABLE public.shift_cash_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shift_id UUID NOT NULL REFERENCES public.shifts(id) ON DELETE CASCADE,
+  direction TEXT NOT NULL CHECK (direction IN ('in', 'out')),
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  note TEXT NOT NULL,                     -- e.g. "Bayar supplier", "Tambah uang kecil"
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_shift_cash_movements_shift ON public.shift_cash_movements(shift_id, created_at);
+
+ALTER TABLE public.transactions
+  ADD COLUMN shift_id UUID REFERENCES public.shifts(id) ON DELETE SET NULL;
+
+ALTER TABLE public.transaction_returns
+  ADD COLUMN shift_id UUID REFERENCES public.shifts(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_transactions_shift ON public.transactions(shift_id);
+CREATE INDEX idx_transaction_returns_shift ON public.transaction_returns(shift_id);
+
+-- Enable RLS; shifts are only opened and closed through open_shift / close_shift
+ALTER TABLE public.shifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shift_cash_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view their shifts, admins all"
+ON public.shifts
+FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'admin') OR
+  (public.has_role(auth.uid(), 'cashier') AND opened_by = auth.uid())
+);
+
+CREATE POLICY "Staff can view cash movements of visible shifts"
+ON public.shift_cash_movements
+FOR SELECT
+USING (
+  EXISTS (SELECT 1 FROM public.shifts s WHERE s.id = shift_id)
+);
+
+-- Movements can only be added to your own shift while it is open
+CREATE POLICY "Staff can record cash movements in their open shift"
+ON public.shift_cash_movements
+FOR INSERT
+WITH CHECK (
+  (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'cashier'))
+  AND created_by = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.shifts s
+    WHERE s.id = shift_id AND s.opened_by = auth.uid() AND s.closed_at IS NULL
+  )
+);
+
+-- What should be in the drawer: float + cash tendered - change given + cash in - cash out
+-- - cash refunds. Voided sales are left out (their cash went back to the customer).
+-- Runs with the caller's rights, so it only sees shifts the caller may see.
+CREATE OR REPLACE FUNCTION public.shift_cash_summary(_shift_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH sales AS (
+    SELECT t.*
+    FROM public.transactions t
+    WHERE t.shift_id = _shift_id
+  ),
+  tenders AS (
+    SELECT p->>'method' AS method, sum((p->>'amount')::NUMERIC) AS amount
+    FROM sales t, jsonb_array_elements(CASE WHEN jsonb_typeof(t.payments) = 'array' THEN t.payments ELSE '[]'::jsonb END) p
+    WHERE t.voided_at IS NULL
+    GROUP BY p->>'method'
+  ),
+  totals AS (
+    SELECT
+      s.opening_float,
+      (SELECT count(*) FROM sales WHERE voided_at IS NULL) AS sales_count,
+      (SELECT coalesce(sum(total), 0) FROM sales WHERE voided_at IS NULL) AS sales_total,
+      (SELECT count(*) FROM sales WHERE voided_at IS NOT NULL) AS void_count,
+      coalesce((SELECT amount FROM tenders WHERE method = 'cash'), 0) AS cash_sales,
+      (SELECT coalesce(sum(change), 0) FROM sales WHERE voided_at IS NULL) AS change_given,
+      (SELECT coalesce(sum(amount), 0) FROM public.shift_cash_movements m WHERE m.shift_id = s.id AND m.direction = 'in') AS cash_in,
+      (SELECT coalesce(sum(amount), 0) FROM public.shift_cash_movements m WHERE m.shift_id = s.id AND m.direction = 'out') AS cash_out,
+      (SELECT coalesce(sum(total_refund), 0) FROM public.transaction_returns r WHERE r.shift_id = s.id AND r.refund_method = 'cash') AS cash_refunds
+    FROM public.shifts s
+    WHERE s.id = _shift_id
+  )
+  SELECT jsonb_build_object(
+    'opening_float', opening_float,
+    'sales_count', sales_count,
+    'sales_total', sales_total,
+    'void_count', void_count,
+    'payments', coalesce((SELECT jsonb_object_agg(method, amount) FROM tenders), '{}'::jsonb),
+    'cash_sales', cash_sales,
+    'change_given', change_given,
+    'cash_in', cash_in,
+    'cash_out', cash_out,
+    'cash_refunds', cash_refunds,
+    'expected_cash', opening_float + cash_sales - change_given + cash_in - cash_out - cash_refunds
+  )
+  FROM totals;
+$$;
+
+-- Open a shift for the caller. A user already on an open shift gets that shift back.
+CREATE OR REPLACE FUNCTION public.open_shift(_opening_float NUMERIC, _cashier TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _shift public.shifts%ROWTYPE;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'cashier')) THEN
+    RETURN jsonb_build_object('error', 'forbidden');
+  END IF;
+
+  IF _opening_float IS NULL OR _opening_float < 0 THEN
+    RETURN jsonb_build_object('error', 'invalid_amount');
+  END IF;
+
+  SELECT * INTO _shift FROM public.shifts WHERE opened_by = auth.uid() AND closed_at IS NULL;
+  IF FOUND THEN
+    RETURN to_jsonb(_shift);
+  END IF;
+
+  INSERT INTO public.shifts (opened_by, cashier, opening_float)
+  VALUES (auth.uid(), nullif(trim(_cashier), ''), _opening_float)
+  RETURNING * INTO _shift;
+
+  RETURN to_jsonb(_shift);
+END;
+$$;
+
+-- Close a shift with the drawer count ([{value, count}] per note/coin). Expected cash is
+-- worked out here, so what the report says can't be changed from the client.
+CREATE OR REPLACE FUNCTION public.close_shift(_shift_id UUID, _denominations JSONB, _notes TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _shift public.shifts%ROWTYPE;
+  _summary JSONB;
+  _counted NUMERIC;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'cashier')) THEN
+    RETURN jsonb_build_object('error', 'forbidden');
+  END IF;
+
+  SELECT * INTO _shift FROM public.shifts WHERE id = _shift_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'not_found');
+  END IF;
+
+  IF _shift.opened_by <> auth.uid() AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RETURN jsonb_build_object('error', 'forbidden');
+  END IF;
+
+  IF _shift.closed_at IS NOT NULL THEN
+    RETURN jsonb_build_object('error', 'already_closed');
+  END IF;
+
+  IF jsonb_typeof(_denominations) <> 'array' OR EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_denominations) d
+    WHERE jsonb_typeof(d->'value') <> 'number' OR jsonb_typeof(d->'count') <> 'number'
+      OR (d->>'value')::NUMERIC <= 0 OR (d->>'count')::NUMERIC < 0
+      OR (d->>'count')::NUMERIC <> trunc((d->>'count')::NUMERIC)
+  ) THEN
+    RETURN jsonb_build_object('error', 'invalid_count');
+  END IF;
+
+  SELECT coalesce(sum((d->>'value')::NUMERIC * (d->>'count')::NUMERIC), 0)
+  INTO _counted
+  FROM jsonb_array_elements(_denominations) d;
+
+  _summary := public.shift_cash_summary(_shift_id);
+
+  UPDATE public.shifts
+  SET closed_by = auth.uid(),
+      closed_at = now(),
+      summary = _summary,
+      expected_cash = (_summary->>'expected_cash')::NUMERIC,
+      counted_cash = _counted,
+      variance = _counted - (_summary->>'expected_cash')::NUMERIC,
+      denominations = _denominations,
+      notes = nullif(trim(_notes), '')
+  WHERE id = _shift_id
+  RETURNING * INTO _shift;
+
+  RETURN to_jsonb(_shift);
+END;
+$$;
@@ -0,0 +1,59 @@
+-- Customers usually repay their hutang at the till, so cash repayments belong in the
+-- drawer of the shift they were taken in, like sales and returns.
+ALTER TABLE public.receivable_payments
+  ADD COLUMN shift_id UUID REFERENCES public.shifts(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_receivable_payments_shift ON public.receivable_payments(shift_id);
+
+-- What should be in the drawer: float + cash tendered - change given + cash debt repayments
+-- + cash in - cash out - cash refunds. Voided sales are left out (their cash went back
+-- to the customer).
+-- Runs with the caller's rights, so it only sees shifts the caller may see.
+CREATE OR REPLACE FUNCTION public.shift_cash_summary(_shift_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH sales AS (
+    SELECT t.*
+    FROM public.transactions t
+    WHERE t.shift_id = _shift_id
+  ),
+  tenders AS (
+    SELECT p->>'method' AS method, sum((p->>'amount')::NUMERIC) AS amount
+    FROM sales t, jsonb_array_elements(CASE WHEN jsonb_typeof(t.payments) = 'array' THEN t.payments ELSE '[]'::jsonb END) p
+    WHERE t.voided_at IS NULL
+    GROUP BY p->>'method'
+  ),
+  totals AS (
+    SELECT
+      s.opening_float,
+      (SELECT count(*) FROM sales WHERE voided_at IS NULL) AS sales_count,
+      (SELECT coalesce(sum(total), 0) FROM sales WHERE voided_at IS NULL) AS sales_total,
+      (SELECT count(*) FROM sales WHERE voided_at IS NOT NULL) AS void_count,
+      coalesce((SELECT amount FROM tenders WHERE method = 'cash'), 0) AS cash_sales,
+      (SELECT coalesce(sum(change), 0) FROM sales WHERE voided_at IS NULL) AS change_given,
+      (SELECT coalesce(sum(amount), 0) FROM public.receivable_payments p WHERE p.shift_id = s.id AND p.payment_method = 'cash') AS debt_payments,
+      (SELECT coalesce(sum(amount), 0) FROM public.shift_cash_movements m WHERE m.shift_id = s.id AND m.direction = 'in') AS cash_in,
+      (SELECT coalesce(sum(amount), 0) FROM public.shift_cash_movements m WHERE m.shift_id = s.id AND m.direction = 'out') AS cash_out,
+      (SELECT coalesce(sum(total_refund), 0) FROM public.transaction_returns r WHERE r.shift_id = s.id AND r.refund_method = 'cash') AS cash_refunds
+    FROM public.shifts s
+    WHERE s.id = _shift_id
+  )
+  SELECT jsonb_build_object(
+    'opening_float', opening_float,
+    'sales_count', sales_count,
+    'sales_total', sales_total,
+    'void_count', void_count,
+    'payments', coalesce((SELECT jsonb_object_agg(method, amount) FROM tenders), '{}'::jsonb),
+    'cash_sales', cash_sales,
+    'change_given', change_given,
+    'debt_payments', debt_payments,
+    'cash_in', cash_in,
+    'cash_out', cash_out,
+    'cash_refunds', cash_refunds,
+    'expected_cash', opening_float + cash_sales - change_given + debt_payments + cash_in - cash_out - cash_refunds
+  )
+  FROM totals;
+$$;
@@ -0,0 +1,10 @@
+-- Sales whose stock has been taken off in Google Sheets. commitSale claims the sale id
+-- here before writing, so an outbox retry after a lost response doesn't decrement twice.
+-- Only the edge function (service role) reads or writes this table.
+CREATE TABLE public.sheet_stock_commits (
+  sale_id TEXT PRIMARY KEY,
+  committed_by UUID,
+  committed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.sheet_stock_commits ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,22 @@
+-- Customer display channels are private: only signed-in staff may listen to or publish on
+-- a "customer-display:<code>" topic, so knowing a display code alone is not enough to
+-- read the cart or push something onto the customer's screen.
+CREATE POLICY "Staff can receive customer display broadcasts"
+ON realtime.messages
+FOR SELECT
+TO authenticated
+USING (
+  realtime.messages.extension = 'broadcast'
+  AND realtime.topic() LIKE 'customer-display:%'
+  AND (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'cashier'))
+);
+
+CREATE POLICY "Staff can send customer display broadcasts"
+ON realtime.messages
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  realtime.messages.extension = 'broadcast'
+  AND realtime.topic() LIKE 'customer-display:%'
+  AND (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'cashier'))
+);
@@ -0,0 +1,187 @@
+-- Accounting for every reserved invoice number. A number is either used by a sale or
+-- voided here with a reason: a checkout cancelled after its number was taken, or an
+-- admin writing off what a reset or retired terminal still held. Voiding a cancelled
+-- checkout's number also gives back the voucher and points it had redeemed.
+CREATE TABLE public.invoice_number_voids (
+  invoice_id TEXT PRIMARY KEY,
+  terminal_id UUID NOT NULL REFERENCES public.pos_terminals(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL,
+  voided_by UUID,
+  voided_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_invoice_number_voids_terminal ON public.invoice_number_voids(terminal_id);
+
+-- Enable RLS; voids are only written through void_invoice_number / void_unused_invoice_numbers
+ALTER TABLE public.invoice_number_voids ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view voided invoice numbers"
+ON public.invoice_number_voids
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Same format as the POS: <prefix>-<terminal>-<number, at least 6 digits>
+CREATE OR REPLACE FUNCTION public.format_invoice_number(_prefix TEXT, _terminal_code TEXT, _number BIGINT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _prefix || '-' || _terminal_code || '-' ||
+    CASE WHEN length(_number::TEXT) >= 6 THEN _number::TEXT ELSE lpad(_number::TEXT, 6, '0') END;
+$$;
+
+-- Every number handed out in a block, with its terminal
+CREATE OR REPLACE VIEW public.reserved_invoice_numbers
+WITH (security_invoker = true)
+AS
+SELECT
+  b.terminal_id,
+  t.code AS terminal_code,
+  n AS number,
+  public.format_invoice_number(b.prefix, t.code, n) AS invoice_id
+FROM public.invoice_number_blocks b
+JOIN public.pos_terminals t ON t.id = b.terminal_id
+CROSS JOIN LATERAL generate_series(b.first_number, b.last_number) n;
+
+-- Void a number whose sale was never recorded and undo what was redeemed against it.
+-- Calling it again for the same number is harmless.
+CREATE OR REPLACE FUNCTION public.void_invoice_number(_invoice_id TEXT, _reason TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _terminal_id UUID;
+  _redemption public.voucher_redemptions%ROWTYPE;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'cashier')) THEN
+    RETURN jsonb_build_object('error', 'forbidden');
+  END IF;
+
+  IF coalesce(trim(_reason), '') = '' THEN
+    RETURN jsonb_build_object('error', 'reason_required');
+  END IF;
+
+  SELECT r.terminal_id INTO _terminal_id
+  FROM public.reserved_invoice_numbers r
+  WHERE r.invoice_id = _invoice_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'not_reserved');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.transactions WHERE id = _invoice_id) THEN
+    RETURN jsonb_build_object('error', 'used');
+  END IF;
+
+  INSERT INTO public.invoice_number_voids (invoice_id, terminal_id, reason, voided_by)
+  VALUES (_invoice_id, _terminal_id, trim(_reason), auth.uid())
+  ON CONFLICT (invoice_id) DO NOTHING;
+
+  DELETE FROM public.voucher_redemptions WHERE transaction_id = _invoice_id RETURNING * INTO _redemption;
+  IF FOUND THEN
+    UPDATE public.vouchers SET times_used = greatest(times_used - 1, 0) WHERE id = _redemption.voucher_id;
+  END IF;
+
+  DELETE FROM public.loyalty_ledger WHERE transaction_id = _invoice_id AND entry_type = 'redeem';
+
+  RETURN jsonb_build_object('invoice_id', _invoice_id);
+END;
+$$;
+
+-- Per terminal: how many numbers were reserved, used and voided, and how many are still
+-- unaccounted for. Unaccounted numbers below the highest used one were skipped (or sit
+-- in an outbox that has not synced yet); the rest are still held by the terminal.
+CREATE OR REPLACE FUNCTION public.invoice_number_status()
+RETURNS TABLE (
+  terminal_id UUID,
+  terminal_code TEXT,
+  reserved BIGINT,
+  used BIGINT,
+  voided BIGINT,
+  skipped BIGINT,
+  held BIGINT,
+  last_used TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH numbers AS (
+    SELECT
+      r.terminal_id,
+      r.terminal_code,
+      r.number,
+      r.invoice_id,
+      EXISTS (SELECT 1 FROM public.transactions tx WHERE tx.id = r.invoice_id) AS is_used,
+      EXISTS (SELECT 1 FROM public.invoice_number_voids v WHERE v.invoice_id = r.invoice_id) AS is_voided
+    FROM public.reserved_invoice_numbers r
+    WHERE public.has_role(auth.uid(), 'admin')
+  ),
+  marked AS (
+    SELECT n.*, max(n.number) FILTER (WHERE n.is_used) OVER (PARTITION BY n.terminal_id) AS last_used_number
+    FROM numbers n
+  )
+  SELECT
+    m.terminal_id,
+    m.terminal_code,
+    count(*),
+    count(*) FILTER (WHERE m.is_used),
+    count(*) FILTER (WHERE m.is_voided AND NOT m.is_used),
+    count(*) FILTER (WHERE NOT m.is_used AND NOT m.is_voided AND m.number < coalesce(m.last_used_number, 0)),
+    count(*) FILTER (WHERE NOT m.is_used AND NOT m.is_voided AND m.number > coalesce(m.last_used_number, 0)),
+    max(m.invoice_id) FILTER (WHERE m.number = m.last_used_number)
+  FROM marked m
+  GROUP BY m.terminal_id, m.terminal_code
+  ORDER BY m.terminal_code;
+$$;
+
+-- Write off everything a terminal still holds or skipped, e.g. after its browser storage
+-- was cleared or the device was retired. Only admins; numbers already used stay as they are.
+CREATE OR REPLACE FUNCTION public.void_unused_invoice_numbers(_terminal_id UUID, _reason TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RETURN jsonb_build_object('error', 'forbidden');
+  END IF;
+
+  IF coalesce(trim(_reason), '') = '' THEN
+    RETURN jsonb_build_object('error', 'reason_required');
+  END IF;
+
+  INSERT INTO public.invoice_number_voids (invoice_id, terminal_id, reason, voided_by)
+  SELECT r.invoice_id, r.terminal_id, trim(_reason), auth.uid()
+  FROM public.reserved_invoice_numbers r
+  WHERE r.terminal_id = _terminal_id
+    AND NOT EXISTS (SELECT 1 FROM public.transactions tx WHERE tx.id = r.invoice_id)
+  ON CONFLICT (invoice_id) DO NOTHING;
+  GET DIAGNOSTICS _count = ROW_COUNT;
+
+  RETURN jsonb_build_object('voided', _count);
+END;
+$$;
+
+-- A sale that syncs after its number was written off takes the number back
+CREATE OR REPLACE FUNCTION public.invoice_number_on_sale()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.invoice_number_voids WHERE invoice_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER invoice_number_on_sale
+AFTER INSERT ON public.transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.invoice_number_on_sale();
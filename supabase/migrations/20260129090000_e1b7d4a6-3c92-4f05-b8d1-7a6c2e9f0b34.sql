@@ -0,0 +1,37 @@
+-- A return refunded off the debt can't take off more than is still owed. The excess used
+-- to be dropped without trace; now the return is refused so it can be refunded another way.
+CREATE OR REPLACE FUNCTION public.credit_on_return()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _receivable public.receivables%ROWTYPE;
+BEGIN
+  IF NEW.refund_method <> 'credit' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _receivable
+  FROM public.receivables
+  WHERE transaction_id = NEW.transaction_id AND cancelled_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale has no open credit to reduce';
+  END IF;
+
+  IF NEW.total_refund > _receivable.amount - _receivable.paid_amount THEN
+    RAISE EXCEPTION 'Refund % exceeds the % still owed on this sale',
+      NEW.total_refund, _receivable.amount - _receivable.paid_amount;
+  END IF;
+
+  IF NEW.total_refund > 0 THEN
+    INSERT INTO public.receivable_payments (receivable_id, amount, payment_method, note, created_by)
+    VALUES (_receivable.id, NEW.total_refund, 'return', 'Retur ' || NEW.id, NEW.created_by);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
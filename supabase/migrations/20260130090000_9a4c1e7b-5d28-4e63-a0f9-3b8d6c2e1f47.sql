@@ -0,0 +1,66 @@
+-- filter_transactions is meant to be inlined into the query PostgREST builds around it, so
+-- the keyset condition, order and limit of a page reach the (created_at, id) and trigram
+-- indexes. A SET clause prevents inlining, so both functions drop it; every name in them
+-- is schema-qualified already. The summary now runs the filter once and reuses its rows.
+CREATE OR REPLACE FUNCTION public.filter_transactions(
+  _from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _method TEXT DEFAULT NULL,
+  _cashier_id UUID DEFAULT NULL,
+  _min_total NUMERIC DEFAULT NULL,
+  _max_total NUMERIC DEFAULT NULL,
+  _search TEXT DEFAULT NULL
+)
+RETURNS SETOF public.transactions
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT t.*
+  FROM public.transactions t
+  WHERE (_from IS NULL OR t.created_at >= _from)
+    AND (_to IS NULL OR t.created_at < _to)
+    AND (
+      _method IS NULL
+      OR (_method = 'split' AND t.payment_method = 'split')
+      OR (_method <> 'split' AND (
+        t.payment_method = _method
+        OR t.payments @> jsonb_build_array(jsonb_build_object('method', _method))
+      ))
+    )
+    AND (_cashier_id IS NULL OR t.cashier_id = _cashier_id)
+    AND (_min_total IS NULL OR t.total >= _min_total)
+    AND (_max_total IS NULL OR t.total <= _max_total)
+    AND (
+      coalesce(trim(_search), '') = ''
+      OR t.search_text LIKE '%' || replace(replace(replace(lower(trim(_search)), '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.transactions_summary(
+  _from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _method TEXT DEFAULT NULL,
+  _cashier_id UUID DEFAULT NULL,
+  _min_total NUMERIC DEFAULT NULL,
+  _max_total NUMERIC DEFAULT NULL,
+  _search TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  WITH f AS (
+    SELECT t.id, t.total, t.cash_rounding, t.voided_at
+    FROM public.filter_transactions(_from, _to, _method, _cashier_id, _min_total, _max_total, _search) t
+  )
+  SELECT jsonb_build_object(
+    'count', (SELECT count(*) FROM f),
+    'sales_total', coalesce((SELECT sum(f.total) FROM f WHERE f.voided_at IS NULL), 0),
+    'rounding_total', coalesce((SELECT sum(f.cash_rounding) FROM f WHERE f.voided_at IS NULL), 0),
+    'returns_total', coalesce((
+      SELECT sum(r.total_refund)
+      FROM public.transaction_returns r
+      JOIN f ON f.id = r.transaction_id
+    ), 0)
+  );
+$$;
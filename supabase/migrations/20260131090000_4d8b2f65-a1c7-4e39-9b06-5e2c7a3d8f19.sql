@@ -0,0 +1,129 @@
+-- Discount limits are enforced when the sale row arrives, not only in the POS. The deepest
+-- manual discount (a line's own discount against its price, or the order discount against
+-- the subtotal) is worked out from the row the same way the POS does. Over the seller's
+-- discount_limit_<role> it needs an approval that covers that percentage and has not been
+-- used by another sale.
+
+-- Unit price of a sold line: the variant's retail/bulk price, lowered by a quantity tier
+CREATE OR REPLACE FUNCTION public.sale_line_unit_price(_item JSONB)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  WITH base AS (
+    SELECT coalesce(
+      CASE WHEN _item->>'priceType' = 'bulk'
+        THEN coalesce(v->>'bulkPrice', _item->'product'->>'bulkPrice')
+        ELSE coalesce(v->>'retailPrice', _item->'product'->>'retailPrice')
+      END::NUMERIC, 0) AS price
+    FROM (
+      SELECT (
+        SELECT v FROM jsonb_array_elements(
+          CASE WHEN jsonb_typeof(_item->'product'->'variants') = 'array' THEN _item->'product'->'variants' ELSE '[]'::jsonb END
+        ) v
+        WHERE v->>'code' = _item->>'variantCode'
+        LIMIT 1
+      ) AS v
+    ) variant
+  ),
+  tier AS (
+    SELECT (t->>'price')::NUMERIC AS price
+    FROM jsonb_array_elements(
+      CASE WHEN jsonb_typeof(_item->'product'->'priceTiers') = 'array' THEN _item->'product'->'priceTiers' ELSE '[]'::jsonb END
+    ) t
+    WHERE (t->>'minQty')::NUMERIC <= coalesce((_item->>'quantity')::NUMERIC, 0)
+    ORDER BY (t->>'minQty')::NUMERIC DESC
+    LIMIT 1
+  )
+  SELECT CASE
+    WHEN (SELECT price FROM tier) < base.price THEN (SELECT price FROM tier)
+    ELSE base.price
+  END
+  FROM base;
+$$;
+
+-- Deepest manual discount on a sale, in percent rounded like the POS (2 decimals)
+CREATE OR REPLACE FUNCTION public.sale_max_discount_percent(_items JSONB, _subtotal NUMERIC, _order_discount NUMERIC)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT greatest(
+    coalesce((
+      SELECT max(round(coalesce((i->>'discount')::NUMERIC, 0) / line_total * 100, 2))
+      FROM (
+        SELECT i, public.sale_line_unit_price(i) * coalesce((i->>'quantity')::NUMERIC, 0) AS line_total
+        FROM jsonb_array_elements(CASE WHEN jsonb_typeof(_items) = 'array' THEN _items ELSE '[]'::jsonb END) i
+      ) lines
+      WHERE line_total > 0 AND coalesce((i->>'discount')::NUMERIC, 0) > 0
+    ), 0),
+    CASE WHEN coalesce(_order_discount, 0) > 0 AND coalesce(_subtotal, 0) > 0
+      THEN round(_order_discount / _subtotal * 100, 2)
+      ELSE 0
+    END
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_discount_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _max_percent NUMERIC;
+  _limit_text TEXT;
+  _limit NUMERIC;
+  _approval public.discount_approvals%ROWTYPE;
+BEGIN
+  _max_percent := public.sale_max_discount_percent(NEW.items, NEW.subtotal, NEW.discount);
+  IF _max_percent <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  IF length(trim(coalesce(NEW.discount_reason, ''))) < 3 THEN
+    RAISE EXCEPTION 'Manual discount on sale % has no reason', NEW.id;
+  END IF;
+
+  SELECT value INTO _limit_text
+  FROM public.app_settings
+  WHERE key = CASE
+    WHEN public.has_role(coalesce(NEW.cashier_id, auth.uid()), 'admin') THEN 'discount_limit_admin'
+    ELSE 'discount_limit_cashier'
+  END;
+
+  -- Same rule as parseDiscountLimit: empty or out of range means no limit
+  _limit := CASE WHEN trim(coalesce(_limit_text, '')) ~ '^[0-9]+([.,][0-9]+)?$'
+    THEN replace(trim(_limit_text), ',', '.')::NUMERIC END;
+  IF _limit IS NULL OR _limit >= 100 OR _max_percent <= _limit THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.discount_approval_id IS NULL THEN
+    RAISE EXCEPTION 'Discount of % percent on sale % is over the % percent limit and was not approved',
+      _max_percent, NEW.id, _limit;
+  END IF;
+
+  SELECT * INTO _approval FROM public.discount_approvals WHERE id = NEW.discount_approval_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Discount approval % does not exist', NEW.discount_approval_id;
+  END IF;
+
+  -- Linked to this sale already is fine: that's the same sale being sent again
+  IF _approval.transaction_id IS NOT NULL AND _approval.transaction_id <> NEW.id THEN
+    RAISE EXCEPTION 'Discount approval % was already used by sale %', _approval.id, _approval.transaction_id;
+  END IF;
+
+  IF _max_percent > _approval.max_percent THEN
+    RAISE EXCEPTION 'Discount of % percent on sale % is more than the % percent approved',
+      _max_percent, NEW.id, _approval.max_percent;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_discount_limit
+BEFORE INSERT ON public.transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.check_discount_limit();
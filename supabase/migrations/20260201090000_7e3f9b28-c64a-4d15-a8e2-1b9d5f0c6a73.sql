@@ -0,0 +1,33 @@
+-- Lifetime figures for the customer page, worked out in the database instead of from a
+-- client-side list that stops at max_rows. A customer's sales are those linked to them
+-- plus older ones sent to the same phone number, as on the page's history list.
+CREATE INDEX idx_transactions_customer_phone ON public.transactions(customer_phone, created_at DESC);
+CREATE INDEX idx_transactions_customer_id_created_at ON public.transactions(customer_id, created_at DESC);
+
+-- Runs with the caller's rights, so it only counts sales the caller may see
+CREATE OR REPLACE FUNCTION public.customer_purchase_summary(_customer_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH customer AS (
+    SELECT c.id, c.phone FROM public.customers c WHERE c.id = _customer_id
+  ),
+  sales AS (
+    SELECT t.id, t.total, t.created_at
+    FROM public.transactions t, customer c
+    WHERE t.voided_at IS NULL
+      AND (t.customer_id = c.id OR (c.phone IS NOT NULL AND t.customer_phone = c.phone))
+  )
+  SELECT jsonb_build_object(
+    'sales_count', (SELECT count(*) FROM sales),
+    'sales_total', coalesce((SELECT sum(total) FROM sales), 0),
+    'returns_total', coalesce((
+      SELECT sum(r.total_refund)
+      FROM public.transaction_returns r
+      JOIN sales s ON s.id = r.transaction_id
+    ), 0),
+    'last_purchase', (SELECT max(created_at) FROM sales)
+  );
+$$;
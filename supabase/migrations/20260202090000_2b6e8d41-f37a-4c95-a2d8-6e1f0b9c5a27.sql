@@ -0,0 +1,10 @@
+-- Service charge: an optional percentage added to the bill after discounts. The rate is an
+-- app setting (empty = off); every sale stores the rate and amount it was charged. PPN is
+-- worked out on the amount including the service charge.
+INSERT INTO public.app_settings (key, value) VALUES
+  ('service_charge_rate', NULL)
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE public.transactions
+  ADD COLUMN service_charge_rate NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN service_charge NUMERIC NOT NULL DEFAULT 0;
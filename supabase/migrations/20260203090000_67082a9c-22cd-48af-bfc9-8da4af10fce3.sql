@@ -0,0 +1,68 @@
+-- A sale reaching the database has already been paid for and printed, and the outbox replays
+-- a terminal's sales in order, so rejecting one would hold up every sale queued behind it.
+-- The POS enforces the discount limit before checkout; a sale that still arrives over it is
+-- recorded with the reason it broke the rule and shown in the discount audit log.
+ALTER TABLE public.transactions
+  ADD COLUMN discount_violation TEXT; -- reason_missing | not_approved | approval_missing | approval_used | over_approval
+
+CREATE INDEX idx_transactions_discount_violation
+ON public.transactions(created_at DESC)
+WHERE discount_violation IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.check_discount_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _max_percent NUMERIC;
+  _limit_text TEXT;
+  _limit NUMERIC;
+  _approval public.discount_approvals%ROWTYPE;
+BEGIN
+  NEW.discount_violation := NULL;
+
+  _max_percent := public.sale_max_discount_percent(NEW.items, NEW.subtotal, NEW.discount);
+  IF _max_percent <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  IF length(trim(coalesce(NEW.discount_reason, ''))) < 3 THEN
+    NEW.discount_violation := 'reason_missing';
+  END IF;
+
+  SELECT value INTO _limit_text
+  FROM public.app_settings
+  WHERE key = CASE
+    WHEN public.has_role(coalesce(NEW.cashier_id, auth.uid()), 'admin') THEN 'discount_limit_admin'
+    ELSE 'discount_limit_cashier'
+  END;
+
+  -- Same rule as parseDiscountLimit: empty or out of range means no limit
+  _limit := CASE WHEN trim(coalesce(_limit_text, '')) ~ '^[0-9]+([.,][0-9]+)?$'
+    THEN replace(trim(_limit_text), ',', '.')::NUMERIC END;
+  IF _limit IS NULL OR _limit >= 100 OR _max_percent <= _limit THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.discount_approval_id IS NULL THEN
+    NEW.discount_violation := 'not_approved';
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _approval FROM public.discount_approvals WHERE id = NEW.discount_approval_id FOR UPDATE;
+  IF NOT FOUND THEN
+    -- Gone (or never existed): drop the reference so the foreign key doesn't reject the sale
+    NEW.discount_violation := 'approval_missing';
+    NEW.discount_approval_id := NULL;
+  -- Linked to this sale already is fine: that's the same sale being sent again
+  ELSIF _approval.transaction_id IS NOT NULL AND _approval.transaction_id <> NEW.id THEN
+    NEW.discount_violation := 'approval_used';
+  ELSIF _max_percent > _approval.max_percent THEN
+    NEW.discount_violation := 'over_approval';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
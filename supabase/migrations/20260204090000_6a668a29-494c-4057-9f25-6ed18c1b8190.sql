@@ -0,0 +1,34 @@
+-- A credit sale reaching the database has already been handed over and printed, and the
+-- outbox replays a terminal's sales in order, so a missing customer must not reject it.
+-- The POS requires a customer before a credit sale completes; one that still arrives
+-- without it keeps its debt as a receivable with no customer, listed on the Piutang page.
+ALTER TABLE public.receivables
+  ALTER COLUMN customer_id DROP NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.credit_on_sale_check()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _credit NUMERIC := public.credit_amount(NEW.payments);
+BEGIN
+  IF _credit <= 0 THEN
+    NEW.credit_due_date := NULL;
+    NEW.credit_outstanding := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.customer_id IS NULL THEN
+    NEW.credit_outstanding := _credit;
+    RETURN NEW;
+  END IF;
+
+  NEW.credit_outstanding := _credit + coalesce((
+    SELECT sum(amount - paid_amount) FROM public.receivables
+    WHERE customer_id = NEW.customer_id AND cancelled_at IS NULL
+  ), 0);
+  RETURN NEW;
+END;
+$$;
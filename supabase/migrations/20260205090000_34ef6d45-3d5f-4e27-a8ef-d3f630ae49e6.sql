@@ -0,0 +1,146 @@
+-- Returns are checked and priced on the server. The sale row is locked so two tabs can't
+-- return the same units at once; every returned line has to be on the sale and within what
+-- is still unreturned. The refund is what the customer paid for the line: the unit price
+-- charged at checkout less the line's own and promotion discounts, with the order-level
+-- discounts (manual, voucher, points) spread pro rata. PPN added on top, the service
+-- charge and cash rounding are not paid back.
+
+-- Unit price of a sold line: the price stamped at checkout, or for older sales the
+-- variant's retail/bulk price lowered by a quantity tier
+CREATE OR REPLACE FUNCTION public.sale_line_unit_price(_item JSONB)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  WITH base AS (
+    SELECT coalesce(
+      CASE WHEN _item->>'priceType' = 'bulk'
+        THEN coalesce(v->>'bulkPrice', _item->'product'->>'bulkPrice')
+        ELSE coalesce(v->>'retailPrice', _item->'product'->>'retailPrice')
+      END::NUMERIC, 0) AS price
+    FROM (
+      SELECT (
+        SELECT v FROM jsonb_array_elements(
+          CASE WHEN jsonb_typeof(_item->'product'->'variants') = 'array' THEN _item->'product'->'variants' ELSE '[]'::jsonb END
+        ) v
+        WHERE v->>'code' = _item->>'variantCode'
+        LIMIT 1
+      ) AS v
+    ) variant
+  ),
+  tier AS (
+    SELECT (t->>'price')::NUMERIC AS price
+    FROM jsonb_array_elements(
+      CASE WHEN jsonb_typeof(_item->'product'->'priceTiers') = 'array' THEN _item->'product'->'priceTiers' ELSE '[]'::jsonb END
+    ) t
+    WHERE (t->>'minQty')::NUMERIC <= coalesce((_item->>'quantity')::NUMERIC, 0)
+    ORDER BY (t->>'minQty')::NUMERIC DESC
+    LIMIT 1
+  )
+  SELECT CASE
+    WHEN jsonb_typeof(_item->'unitPrice') = 'number' THEN (_item->>'unitPrice')::NUMERIC
+    WHEN (SELECT price FROM tier) < base.price THEN (SELECT price FROM tier)
+    ELSE base.price
+  END
+  FROM base;
+$$;
+
+-- Same key as the POS uses for a return line: product, price type and variant.
+-- Sale lines carry product.id, return lines productId.
+CREATE OR REPLACE FUNCTION public.sale_line_key(_item JSONB)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(_item->'product'->>'id', _item->>'productId', '') || '|' ||
+    CASE WHEN _item->>'priceType' = 'bulk' THEN 'bulk' ELSE 'retail' END || '|' ||
+    coalesce(_item->>'variantCode', '');
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_return()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sale public.transactions%ROWTYPE;
+  _ratio NUMERIC;
+  _item JSONB;
+  _key TEXT;
+  _quantity NUMERIC;
+  _sold NUMERIC;
+  _net NUMERIC;
+  _returned NUMERIC;
+  _amount NUMERIC;
+  _items JSONB := '[]'::jsonb;
+  _total NUMERIC := 0;
+BEGIN
+  SELECT * INTO _sale FROM public.transactions WHERE id = NEW.transaction_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale % does not exist', NEW.transaction_id;
+  END IF;
+
+  IF _sale.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Sale % was voided', NEW.transaction_id;
+  END IF;
+
+  IF jsonb_typeof(NEW.items) <> 'array' OR jsonb_array_length(NEW.items) = 0 THEN
+    RAISE EXCEPTION 'Return % has no items', NEW.id;
+  END IF;
+
+  IF (SELECT count(DISTINCT public.sale_line_key(i)) FROM jsonb_array_elements(NEW.items) i) <> jsonb_array_length(NEW.items) THEN
+    RAISE EXCEPTION 'Return % lists the same line twice', NEW.id;
+  END IF;
+
+  -- Share of the line totals left to pay after the order-level discounts
+  _ratio := CASE WHEN _sale.subtotal > 0
+    THEN greatest(0, _sale.subtotal - _sale.discount - _sale.voucher_discount - _sale.points_discount) / _sale.subtotal
+    ELSE 0
+  END;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(NEW.items) LOOP
+    _key := public.sale_line_key(_item);
+    _quantity := CASE WHEN jsonb_typeof(_item->'quantity') = 'number' THEN (_item->>'quantity')::NUMERIC END;
+    IF _quantity IS NULL OR _quantity <= 0 OR _quantity <> trunc(_quantity) THEN
+      RAISE EXCEPTION 'Invalid quantity for % on return %', _key, NEW.id;
+    END IF;
+
+    SELECT
+      sum(coalesce((s->>'quantity')::NUMERIC, 0)),
+      sum(greatest(0,
+        public.sale_line_unit_price(s) * coalesce((s->>'quantity')::NUMERIC, 0)
+        - coalesce((s->>'discount')::NUMERIC, 0)
+        - coalesce((s->>'promoDiscount')::NUMERIC, 0)))
+    INTO _sold, _net
+    FROM jsonb_array_elements(CASE WHEN jsonb_typeof(_sale.items) = 'array' THEN _sale.items ELSE '[]'::jsonb END) s
+    WHERE public.sale_line_key(s) = _key;
+
+    IF coalesce(_sold, 0) <= 0 THEN
+      RAISE EXCEPTION '% was not sold on %', _key, NEW.transaction_id;
+    END IF;
+
+    SELECT coalesce(sum((ri->>'quantity')::NUMERIC), 0)
+    INTO _returned
+    FROM public.transaction_returns r, jsonb_array_elements(r.items) ri
+    WHERE r.transaction_id = NEW.transaction_id AND public.sale_line_key(ri) = _key;
+
+    IF _quantity > _sold - _returned THEN
+      RAISE EXCEPTION 'Only % of % left to return on %', greatest(_sold - _returned, 0), _key, NEW.transaction_id;
+    END IF;
+
+    _amount := round(_net * _ratio / _sold * _quantity);
+    _items := _items || jsonb_build_array(jsonb_set(_item, '{amount}', to_jsonb(_amount)));
+    _total := _total + _amount;
+  END LOOP;
+
+  NEW.items := _items;
+  NEW.total_refund := _total;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_return
+BEFORE INSERT ON public.transaction_returns
+FOR EACH ROW
+EXECUTE FUNCTION public.check_return();
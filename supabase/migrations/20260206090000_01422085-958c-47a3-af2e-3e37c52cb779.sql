@@ -0,0 +1,11 @@
+-- Returns whose stock has been put back in Google Sheets. addReturn claims the flag before
+-- writing, so a retry can't restock twice or append the Transactions row again; a return
+-- left unset can be retried from the Transactions page. Earlier returns are taken as done.
+ALTER TABLE public.transaction_returns
+  ADD COLUMN stock_restored BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.transaction_returns SET stock_restored = true;
+
+CREATE INDEX idx_transaction_returns_stock_pending
+ON public.transaction_returns(transaction_id)
+WHERE NOT stock_restored;
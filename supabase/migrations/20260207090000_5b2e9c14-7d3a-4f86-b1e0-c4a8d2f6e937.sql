@@ -0,0 +1,144 @@
+-- A void hands the sale's cash back from whichever drawer is open when it is made, which
+-- can be a later shift than the sale's. The sale stays in its own shift's takings and the
+-- cash paid back is taken out of the shift the void was made in, so voiding never changes
+-- a shift that has already been counted.
+ALTER TABLE public.transactions
+  ADD COLUMN void_shift_id UUID REFERENCES public.shifts(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_transactions_void_shift ON public.transactions(void_shift_id);
+
+-- Voids made so far were taken out of the sale's own shift; keep that where the void
+-- happened while that shift was still open
+UPDATE public.transactions t
+SET void_shift_id = t.shift_id
+FROM public.shifts s
+WHERE s.id = t.shift_id
+  AND t.voided_at IS NOT NULL
+  AND t.voided_at <= coalesce(s.closed_at, now());
+
+-- Void a sale. Approved by the caller's own admin role or by an admin PIN.
+-- Errors come back as {"error": code} so a failed PIN attempt is still recorded.
+-- The refund comes out of the caller's open shift, or the sale's own shift while it is
+-- still open (an admin voiding from the back office); otherwise no drawer.
+CREATE OR REPLACE FUNCTION public.void_transaction(_transaction_id TEXT, _reason TEXT, _admin_pin TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _approver UUID;
+  _voided_at TIMESTAMP WITH TIME ZONE;
+  _void_shift_id UUID;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'cashier')) THEN
+    RETURN jsonb_build_object('error', 'forbidden');
+  END IF;
+
+  IF length(trim(coalesce(_reason, ''))) < 3 THEN
+    RETURN jsonb_build_object('error', 'reason_required');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.transactions WHERE id = _transaction_id) THEN
+    RETURN jsonb_build_object('error', 'not_found');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.transaction_returns WHERE transaction_id = _transaction_id) THEN
+    RETURN jsonb_build_object('error', 'has_returns');
+  END IF;
+
+  IF public.has_role(auth.uid(), 'admin') THEN
+    _approver := auth.uid();
+  ELSE
+    _approver := public.verify_admin_pin(_admin_pin);
+    IF _approver IS NULL THEN
+      RETURN jsonb_build_object('error', 'invalid_pin');
+    END IF;
+  END IF;
+
+  SELECT coalesce(
+    (SELECT s.id FROM public.shifts s WHERE s.opened_by = auth.uid() AND s.closed_at IS NULL),
+    (SELECT s.id FROM public.transactions t JOIN public.shifts s ON s.id = t.shift_id
+     WHERE t.id = _transaction_id AND s.closed_at IS NULL)
+  ) INTO _void_shift_id;
+
+  UPDATE public.transactions
+  SET voided_at = now(),
+      void_reason = trim(_reason),
+      voided_by = auth.uid(),
+      void_approved_by = _approver,
+      void_shift_id = _void_shift_id
+  WHERE id = _transaction_id AND voided_at IS NULL
+  RETURNING voided_at INTO _voided_at;
+
+  IF _voided_at IS NULL THEN
+    RETURN jsonb_build_object('error', 'already_voided');
+  END IF;
+
+  RETURN jsonb_build_object('voided_at', _voided_at, 'approved_by', _approver);
+END;
+$$;
+
+-- What should be in the drawer: float + cash tendered - change given + cash debt repayments
+-- + cash in - cash out - cash refunds - cash paid back on voids made in this shift.
+-- Sales made in the shift count whether or not they were voided later.
+-- Runs with the caller's rights, so it only sees shifts the caller may see.
+CREATE OR REPLACE FUNCTION public.shift_cash_summary(_shift_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH sales AS (
+    SELECT t.*
+    FROM public.transactions t
+    WHERE t.shift_id = _shift_id
+  ),
+  tenders AS (
+    SELECT p->>'method' AS method, sum((p->>'amount')::NUMERIC) AS amount
+    FROM sales t, jsonb_array_elements(CASE WHEN jsonb_typeof(t.payments) = 'array' THEN t.payments ELSE '[]'::jsonb END) p
+    GROUP BY p->>'method'
+  ),
+  -- Cash each sale voided in this shift took in (tendered less change), which went back
+  voids AS (
+    SELECT greatest(0, coalesce((
+      SELECT sum((p->>'amount')::NUMERIC)
+      FROM jsonb_array_elements(CASE WHEN jsonb_typeof(t.payments) = 'array' THEN t.payments ELSE '[]'::jsonb END) p
+      WHERE p->>'method' = 'cash'
+    ), 0) - coalesce(t.change, 0)) AS cash
+    FROM public.transactions t
+    WHERE t.void_shift_id = _shift_id
+  ),
+  totals AS (
+    SELECT
+      s.opening_float,
+      (SELECT count(*) FROM sales) AS sales_count,
+      (SELECT coalesce(sum(total), 0) FROM sales) AS sales_total,
+      (SELECT count(*) FROM voids) AS void_count,
+      coalesce((SELECT amount FROM tenders WHERE method = 'cash'), 0) AS cash_sales,
+      (SELECT coalesce(sum(change), 0) FROM sales) AS change_given,
+      (SELECT coalesce(sum(amount), 0) FROM public.receivable_payments p WHERE p.shift_id = s.id AND p.payment_method = 'cash') AS debt_payments,
+      (SELECT coalesce(sum(amount), 0) FROM public.shift_cash_movements m WHERE m.shift_id = s.id AND m.direction = 'in') AS cash_in,
+      (SELECT coalesce(sum(amount), 0) FROM public.shift_cash_movements m WHERE m.shift_id = s.id AND m.direction = 'out') AS cash_out,
+      (SELECT coalesce(sum(total_refund), 0) FROM public.transaction_returns r WHERE r.shift_id = s.id AND r.refund_method = 'cash') AS cash_refunds,
+      (SELECT coalesce(sum(cash), 0) FROM voids) AS void_refunds
+    FROM public.shifts s
+    WHERE s.id = _shift_id
+  )
+  SELECT jsonb_build_object(
+    'opening_float', opening_float,
+    'sales_count', sales_count,
+    'sales_total', sales_total,
+    'void_count', void_count,
+    'payments', coalesce((SELECT jsonb_object_agg(method, amount) FROM tenders), '{}'::jsonb),
+    'cash_sales', cash_sales,
+    'change_given', change_given,
+    'debt_payments', debt_payments,
+    'cash_in', cash_in,
+    'cash_out', cash_out,
+    'cash_refunds', cash_refunds,
+    'void_refunds', void_refunds,
+    'expected_cash', opening_float + cash_sales - change_given + debt_payments + cash_in - cash_out - cash_refunds - void_refunds
+  )
+  FROM totals;
+$$;
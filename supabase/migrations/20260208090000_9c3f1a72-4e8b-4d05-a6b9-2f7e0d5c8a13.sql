@@ -0,0 +1,11 @@
+-- Sales whose row has been appended to the Transactions tab in Google Sheets. addTransaction
+-- claims the sale id here before appending, so an outbox retry after a lost response (or a
+-- second tab replaying the same sale) doesn't add the sale to the sheet twice.
+-- Only the edge function (service role) reads or writes this table.
+CREATE TABLE public.sheet_transaction_appends (
+  sale_id TEXT PRIMARY KEY,
+  appended_by UUID,
+  appended_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.sheet_transaction_appends ENABLE ROW LEVEL SECURITY;